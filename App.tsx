@@ -3,23 +3,40 @@
  * --------
  * Application entry point that wires up top-level providers and the root navigator.
  * Providers are ordered to ensure that localization is available before auth logic
- * mounts, so every screen can immediately render in the selected language.
+ * mounts, so every screen can immediately render in the selected language. The
+ * outbox sits inside auth so queued offline actions replay as the signed-in user,
+ * and notifications so reminders follow the signed-in user's events.
  */
 import React from "react";
+import { View } from "react-native";
 import { StatusBar } from "expo-status-bar";
+import { SafeAreaProvider } from "react-native-safe-area-context";
+import ConnectivityBanner from "./src/components/ConnectivityBanner";
 import { AuthProvider } from "./src/context/AuthContext";
 import { LanguageProvider } from "./src/context/LanguageContext";
+import { NotificationsProvider } from "./src/context/NotificationsContext";
+import { OutboxProvider } from "./src/context/OutboxContext";
 import RootNavigator from "./src/navigation/RootNavigator";
 
 export default function App() {
   // Wrap the navigation hierarchy with providers so context values are globally available.
   return (
-    <LanguageProvider>
-      <AuthProvider>
-        {/* Status bar is styled once here because nested navigators inherit it. */}
-        <StatusBar style="light" />
-        <RootNavigator />
-      </AuthProvider>
-    </LanguageProvider>
+    <SafeAreaProvider>
+      <LanguageProvider>
+        <AuthProvider>
+          <OutboxProvider>
+            <NotificationsProvider>
+              {/* Status bar is styled once here because nested navigators inherit it. */}
+              <StatusBar style="light" />
+              <View style={{ flex: 1 }}>
+                <RootNavigator />
+                {/* Rendered above the navigator so it stays visible on every screen. */}
+                <ConnectivityBanner />
+              </View>
+            </NotificationsProvider>
+          </OutboxProvider>
+        </AuthProvider>
+      </LanguageProvider>
+    </SafeAreaProvider>
   );
 }
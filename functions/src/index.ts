@@ -0,0 +1,437 @@
+/**
+ * index.ts
+ * --------
+ * Cloud Functions for DugnadHub. `sendNoticePush` delivers each new document
+ * in `notifications` as a push notification to the recipient's devices,
+ * unless they opted out of that kind of notice. `noticeWaitlistPromotion`,
+ * `noticeNewComment` and `noticeEditedMentions` write the notices that
+ * volunteers trigger for each other, which the security rules do not let
+ * their clients send. The comment triggers also hide comments that break the
+ * word filter (`COMMENT_BLOCKED_WORDS`) or the rate limit, which the app
+ * checks before sending but a modified client could skip.
+ *
+ * `calendarFeed` serves a user's personal iCalendar feed: the events they are
+ * signed up for, i.e. what MyEventsScreen shows. It is rebuilt from Firestore
+ * on every request, so calendar apps pick up time and location changes on
+ * their next refresh, and events the user withdrew from or that were
+ * cancelled disappear.
+ *
+ * The URL carries a token from `calendarFeeds/{token}` instead of an auth
+ * header, because calendar apps cannot sign in. Deploy with:
+ *
+ *   npx firebase deploy --only functions
+ */
+import { initializeApp } from "firebase-admin/app";
+import {
+  DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
+  FieldValue,
+  getFirestore,
+} from "firebase-admin/firestore";
+import {
+  onDocumentCreated,
+  onDocumentUpdated,
+} from "firebase-functions/v2/firestore";
+import { onRequest } from "firebase-functions/v2/https";
+
+import {
+  COMMENT_RATE_LIMIT,
+  containsBlockedWord,
+  FILTER_HIDDEN_BY,
+  parseBlockedWords,
+  recentCommentCount,
+} from "../../src/services/commentFilter";
+import {
+  buildCalendar,
+  CalendarEntry,
+  eventDescription,
+  eventTimeSpan,
+  eventUid,
+} from "../../src/services/ics";
+import { mentionedIds, mentionsToText } from "../../src/services/mentions";
+
+initializeApp();
+const db = getFirestore();
+
+const REGION = "europe-west1";
+
+const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+
+/** Push body when the notice has no message of its own. */
+const NOTICE_FALLBACK_TEXT: Record<string, string> = {
+  event_cancelled: "This event has been cancelled.",
+  waitlist_promoted: "A spot opened up and you are now signed up.",
+  time_changed: "The organiser changed the start time.",
+  new_comment: "There is a new comment on the event.",
+  removed: "The organiser removed you from this event.",
+  announcement: "The organiser posted an announcement.",
+  question_answered: "The organiser answered your question.",
+  mentioned: "You were mentioned in a comment.",
+};
+
+/** Longest comment excerpt copied into a notice. */
+const COMMENT_EXCERPT_LENGTH = 140;
+
+/** Firestore rejects batches with more than 500 writes. */
+const BATCH_LIMIT = 500;
+
+/** Sender id of notices the backend writes on nobody's behalf. */
+const SYSTEM_SENDER = "system";
+
+async function writeNotices(
+  userIds: string[],
+  notice: {
+    type: string;
+    eventId: string;
+    eventTitle: string;
+    message?: string;
+    senderId: string;
+  }
+) {
+  const recipients = Array.from(new Set(userIds));
+  for (let start = 0; start < recipients.length; start += BATCH_LIMIT) {
+    const batch = db.batch();
+    recipients.slice(start, start + BATCH_LIMIT).forEach((userId) =>
+      batch.create(db.collection("notifications").doc(), {
+        ...notice,
+        message: notice.message ?? "",
+        userId,
+        read: false,
+        createdAt: FieldValue.serverTimestamp(),
+      })
+    );
+    await batch.commit();
+  }
+}
+
+// Promotions happen inside another volunteer's withdrawal (or a capacity
+// change), so the promoted volunteer's record is what tells us.
+export const noticeWaitlistPromotion = onDocumentUpdated(
+  { document: "participations/{participationId}", region: REGION },
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (before?.status !== "waitlisted" || after?.status !== "signed_up") {
+      return;
+    }
+    const eventSnap = await db.collection("events").doc(after.eventId).get();
+    await writeNotices([after.userId], {
+      type: "waitlist_promoted",
+      eventId: after.eventId,
+      eventTitle: eventSnap.get("title") ?? "",
+      senderId: SYSTEM_SENDER,
+    });
+  }
+);
+
+/** Participations whose volunteers can be mentioned in the event's comments. */
+const MENTIONABLE_STATUSES = ["signed_up", "waitlisted", "attended"];
+
+/** Author and text of a comment as shown in a notice, mentions spelled out. */
+async function commentExcerpt(comment: DocumentData) {
+  const ids = mentionedIds(String(comment.text ?? ""));
+  const users = await Promise.all(
+    ids.map((userId) => db.collection("users").doc(userId).get())
+  );
+  const names = Object.fromEntries(
+    users.map((user) => [
+      user.id,
+      String(user.get("displayName") || user.get("email") || ""),
+    ])
+  );
+  const text = mentionsToText(String(comment.text ?? ""), names, "…");
+  return `${comment.userName ?? ""}: ${
+    text.length > COMMENT_EXCERPT_LENGTH
+      ? `${text.slice(0, COMMENT_EXCERPT_LENGTH)}…`
+      : text
+  }`;
+}
+
+/**
+ * Ids from `mentions` that may be notified: the organiser and volunteers
+ * taking part, never the author.
+ */
+async function mentionRecipients(
+  eventSnap: DocumentSnapshot,
+  comment: DocumentData,
+  mentions: string[]
+): Promise<string[]> {
+  if (mentions.length === 0) return [];
+  const participations = await db
+    .collection("participations")
+    .where("eventId", "==", eventSnap.id)
+    .where("status", "in", MENTIONABLE_STATUSES)
+    .get();
+  const allowed = new Set([
+    eventSnap.get("createdBy") as string,
+    ...participations.docs.map((docSnap) => docSnap.get("userId") as string),
+  ]);
+  return mentions.filter(
+    (userId) => allowed.has(userId) && userId !== comment.userId
+  );
+}
+
+const commentMentions = (comment: DocumentData | undefined): string[] =>
+  Array.isArray(comment?.mentions) ? comment.mentions : [];
+
+const BLOCKED_WORDS = parseBlockedWords(process.env.COMMENT_BLOCKED_WORDS);
+
+const hasBlockedWord = (comment: DocumentData) =>
+  containsBlockedWord(String(comment.text ?? ""), BLOCKED_WORDS);
+
+/** True when the user posted too many comments on the event, counting this one. */
+async function overRateLimit(eventRef: DocumentReference, userId: string) {
+  const own = await eventRef
+    .collection("comments")
+    .where("userId", "==", userId)
+    .get();
+  const timestamps = own.docs.flatMap((docSnap) => {
+    const timestamp = docSnap.get("timestamp");
+    return timestamp ? [timestamp.toDate() as Date] : [];
+  });
+  return recentCommentCount(timestamps) > COMMENT_RATE_LIMIT.count;
+}
+
+// Hidden the way the event owner hides comments: the text and mentions move to
+// `hiddenContent`, where only the owner and the author can read them.
+async function hideComment(ref: DocumentReference, comment: DocumentData) {
+  const batch = db.batch();
+  batch.set(ref.collection("hiddenContent").doc("text"), {
+    text: String(comment.text ?? ""),
+    mentions: commentMentions(comment),
+  });
+  batch.update(ref, {
+    text: "",
+    mentions: [],
+    hidden: true,
+    hiddenBy: FILTER_HIDDEN_BY,
+    hiddenAt: FieldValue.serverTimestamp(),
+  });
+  await batch.commit();
+}
+
+// Everyone signed up hears about a new comment, as does the organiser and,
+// for a reply, whoever started the thread; the author does not. Mentioned
+// users get a mention notice instead. Comments that break the word filter or
+// rate limit are hidden and nobody hears about them.
+export const noticeNewComment = onDocumentCreated(
+  { document: "events/{eventId}/comments/{commentId}", region: REGION },
+  async (event) => {
+    const comment = event.data?.data();
+    if (!event.data || !comment) return;
+    const { eventId } = event.params;
+    const eventRef = db.collection("events").doc(eventId);
+    if (
+      hasBlockedWord(comment) ||
+      (await overRateLimit(eventRef, comment.userId))
+    ) {
+      await hideComment(event.data.ref, comment);
+      return;
+    }
+    const [eventSnap, participations, parentSnap] = await Promise.all([
+      eventRef.get(),
+      db
+        .collection("participations")
+        .where("eventId", "==", eventId)
+        .where("status", "==", "signed_up")
+        .get(),
+      comment.parentId
+        ? eventRef.collection("comments").doc(comment.parentId).get()
+        : null,
+    ]);
+    if (!eventSnap.exists) return;
+    const mentioned = await mentionRecipients(
+      eventSnap,
+      comment,
+      commentMentions(comment)
+    );
+    const recipients = [
+      eventSnap.get("createdBy") as string,
+      ...participations.docs.map((docSnap) => docSnap.get("userId") as string),
+      ...(parentSnap?.exists ? [parentSnap.get("userId") as string] : []),
+    ].filter(
+      (userId) => userId !== comment.userId && !mentioned.includes(userId)
+    );
+    if (recipients.length === 0 && mentioned.length === 0) return;
+
+    const notice = {
+      eventId,
+      eventTitle: eventSnap.get("title") ?? "",
+      message: await commentExcerpt(comment),
+      senderId: comment.userId,
+    };
+    await writeNotices(mentioned, { ...notice, type: "mentioned" });
+    await writeNotices(recipients, { ...notice, type: "new_comment" });
+  }
+);
+
+// Users added as mentions when a comment is edited hear about it as well,
+// unless the new text breaks the word filter, which hides the comment.
+export const noticeEditedMentions = onDocumentUpdated(
+  { document: "events/{eventId}/comments/{commentId}", region: REGION },
+  async (event) => {
+    const previous = event.data?.before.data();
+    const comment = event.data?.after.data();
+    if (!event.data || !comment) return;
+    if (
+      !comment.hidden &&
+      comment.text !== previous?.text &&
+      hasBlockedWord(comment)
+    ) {
+      await hideComment(event.data.after.ref, comment);
+      return;
+    }
+    // Showing a hidden comment again brings back mentions already notified.
+    if (previous?.hidden) return;
+    const before = commentMentions(previous);
+    const added = commentMentions(comment).filter(
+      (userId) => !before.includes(userId)
+    );
+    if (added.length === 0) return;
+    const eventSnap = await db
+      .collection("events")
+      .doc(event.params.eventId)
+      .get();
+    if (!eventSnap.exists) return;
+    const mentioned = await mentionRecipients(eventSnap, comment, added);
+    if (mentioned.length === 0) return;
+    await writeNotices(mentioned, {
+      type: "mentioned",
+      eventId: eventSnap.id,
+      eventTitle: eventSnap.get("title") ?? "",
+      message: await commentExcerpt(comment),
+      senderId: comment.userId,
+    });
+  }
+);
+
+export const sendNoticePush = onDocumentCreated(
+  { document: "notifications/{notificationId}", region: REGION },
+  async (event) => {
+    const notice = event.data?.data();
+    if (!notice) return;
+    const user = (
+      await db.collection("users").doc(notice.userId).get()
+    ).data();
+    const tokensRef = db.collection("pushTokens").doc(notice.userId);
+    const tokens: string[] = (await tokensRef.get()).get("tokens") ?? [];
+    const optOuts: string[] = user?.notificationOptOuts ?? [];
+    if (tokens.length === 0 || optOuts.includes(notice.type)) return;
+
+    const response = await fetch(EXPO_PUSH_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        // Required once enhanced push security is on for the Expo project.
+        ...(process.env.EXPO_ACCESS_TOKEN
+          ? { Authorization: `Bearer ${process.env.EXPO_ACCESS_TOKEN}` }
+          : {}),
+      },
+      body: JSON.stringify(
+        tokens.map((token) => ({
+          to: token,
+          title: notice.eventTitle,
+          body: notice.message || NOTICE_FALLBACK_TEXT[notice.type] || "",
+          // Opens EventDetails when tapped (see src/services/push.ts).
+          data: { eventId: notice.eventId },
+          channelId: "notices",
+        }))
+      ),
+    });
+    if (!response.ok) {
+      throw new Error(`Expo push failed with ${response.status}`);
+    }
+
+    // Tickets come back in the order of the messages; drop dead tokens.
+    const { data: tickets = [] } = (await response.json()) as {
+      data?: { status: string; details?: { error?: string } }[];
+    };
+    const stale = tokens.filter(
+      (_, index) => tickets[index]?.details?.error === "DeviceNotRegistered"
+    );
+    if (stale.length > 0) {
+      await tokensRef.update({ tokens: FieldValue.arrayRemove(...stale) });
+    }
+  }
+);
+
+/** How often subscribed calendars are asked to refetch the feed. */
+const FEED_REFRESH_MINUTES = 60;
+
+function toCalendarEntry(eventSnap: DocumentSnapshot): CalendarEntry {
+  const data = eventSnap.data() ?? {};
+  const shifts = Array.isArray(data.shifts)
+    ? data.shifts.map((shift: any) => ({
+        start: shift.start.toDate(),
+        end: shift.end.toDate(),
+      }))
+    : [];
+  return {
+    uid: eventUid(eventSnap.id),
+    title: String(data.title ?? ""),
+    description: eventDescription(
+      String(data.description ?? ""),
+      Array.isArray(data.faq)
+        ? data.faq.map((entry: any) => ({
+            question: String(entry.question ?? ""),
+            answer: String(entry.answer ?? ""),
+          }))
+        : []
+    ),
+    location: String(data.locationText ?? ""),
+    geo: data.coordinates
+      ? {
+          latitude: data.coordinates.latitude,
+          longitude: data.coordinates.longitude,
+        }
+      : undefined,
+    cancelled: data.status === "cancelled",
+    ...eventTimeSpan(data.dateTime.toDate(), shifts),
+  };
+}
+
+export const calendarFeed = onRequest(
+  { region: REGION },
+  async (request, response) => {
+    const token = request.query.token;
+    if (typeof token !== "string" || !token) {
+      response.status(400).send("Missing token");
+      return;
+    }
+    const feed = await db.collection("calendarFeeds").doc(token).get();
+    if (!feed.exists) {
+      response.status(404).send("Unknown calendar feed");
+      return;
+    }
+
+    const participations = await db
+      .collection("participations")
+      .where("userId", "==", feed.get("userId"))
+      .where("status", "==", "signed_up")
+      .get();
+    const eventIds = Array.from(
+      new Set(participations.docs.map((docSnap) => docSnap.get("eventId")))
+    );
+    const events =
+      eventIds.length > 0
+        ? await db.getAll(
+            ...eventIds.map((eventId) => db.collection("events").doc(eventId))
+          )
+        : [];
+
+    const entries = events
+      .filter((eventSnap) => eventSnap.exists && eventSnap.get("dateTime"))
+      .map(toCalendarEntry)
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    response.set("Content-Type", "text/calendar; charset=utf-8");
+    response.set("Cache-Control", "private, max-age=300");
+    response.send(
+      buildCalendar(entries, {
+        name: "DugnadHub",
+        refreshMinutes: FEED_REFRESH_MINUTES,
+      })
+    );
+  }
+);
@@ -0,0 +1,144 @@
+/**
+ * cleanupOrphans.ts
+ * -----------------
+ * Maintenance script that finds data left behind by event deletions made
+ * before the cascading delete existed: participations, favourites and
+ * check-in tokens pointing at a missing event, comments and announcements
+ * under a deleted event document, the edit history and hidden text of
+ * comments that are gone, and Storage files under `events/{eventId}/` for
+ * missing events.
+ *
+ * Runs with the Admin SDK, since the security rules cannot authorise deletes
+ * for events that no longer exist. Reports only unless `--apply` is passed:
+ *
+ *   GOOGLE_APPLICATION_CREDENTIALS=service-account.json \
+ *   EXPO_PUBLIC_FIREBASE_PROJECT_ID=... EXPO_PUBLIC_FIREBASE_STORAGE_BUCKET=... \
+ *   npm run cleanup:orphans -- [--apply]
+ */
+import { applicationDefault, initializeApp } from "firebase-admin/app";
+import { DocumentReference, getFirestore } from "firebase-admin/firestore";
+import { getStorage } from "firebase-admin/storage";
+
+const apply = process.argv.includes("--apply");
+const projectId =
+  process.env.FIREBASE_PROJECT_ID ?? process.env.EXPO_PUBLIC_FIREBASE_PROJECT_ID;
+const storageBucket =
+  process.env.FIREBASE_STORAGE_BUCKET ??
+  process.env.EXPO_PUBLIC_FIREBASE_STORAGE_BUCKET;
+
+initializeApp({ credential: applicationDefault(), projectId, storageBucket });
+const db = getFirestore();
+
+/** Firestore rejects batches with more than 500 writes. */
+const BATCH_LIMIT = 500;
+
+async function deleteRefs(refs: DocumentReference[]) {
+  for (let start = 0; start < refs.length; start += BATCH_LIMIT) {
+    const batch = db.batch();
+    refs.slice(start, start + BATCH_LIMIT).forEach((ref) => batch.delete(ref));
+    await batch.commit();
+  }
+}
+
+async function findOrphanedByEventId(
+  collectionName: string,
+  eventIds: Set<string>
+) {
+  const snapshot = await db.collection(collectionName).select("eventId").get();
+  return snapshot.docs
+    .filter((docSnap) => !eventIds.has(docSnap.get("eventId")))
+    .map((docSnap) => docSnap.ref);
+}
+
+/** Documents of the subcollection found under `parentCollection` documents. */
+async function findNested(collectionId: string, parentCollection: string) {
+  const snapshot = await db.collectionGroup(collectionId).select().get();
+  return snapshot.docs
+    .map((docSnap) => docSnap.ref)
+    .filter((ref) => ref.parent.parent?.parent.id === parentCollection);
+}
+
+// The document a nested one hangs off, e.g. the event of a comment.
+const parentPath = (ref: DocumentReference) => ref.parent.parent?.path ?? "";
+
+async function main() {
+  const events = await db.collection("events").select().get();
+  const eventIds = new Set(events.docs.map((docSnap) => docSnap.id));
+  console.log(`Found ${eventIds.size} events.`);
+
+  const eventPaths = new Set(events.docs.map((docSnap) => docSnap.ref.path));
+  const orphanedIn = (refs: DocumentReference[], parents: Set<string>) =>
+    refs.filter((ref) => !parents.has(parentPath(ref)));
+  const comments = await findNested("comments", "events");
+  // History and hidden text go with their comment, and so with its event.
+  const commentPaths = new Set(
+    comments
+      .filter((ref) => eventPaths.has(parentPath(ref)))
+      .map((ref) => ref.path)
+  );
+
+  const orphanedDocs: [string, DocumentReference[]][] = [
+    ["participations", await findOrphanedByEventId("participations", eventIds)],
+    ["favorites", await findOrphanedByEventId("favorites", eventIds)],
+    ["checkInTokens", await findOrphanedByEventId("checkInTokens", eventIds)],
+    ["comments", orphanedIn(comments, eventPaths)],
+    [
+      "announcements",
+      orphanedIn(await findNested("announcements", "events"), eventPaths),
+    ],
+    [
+      "comment history",
+      orphanedIn(await findNested("history", "comments"), commentPaths),
+    ],
+    [
+      "hidden comment text",
+      orphanedIn(await findNested("hiddenContent", "comments"), commentPaths),
+    ],
+  ];
+
+  let failures = 0;
+  for (const [label, refs] of orphanedDocs) {
+    console.log(`${label}: ${refs.length} orphaned`);
+    if (!apply || refs.length === 0) continue;
+    try {
+      await deleteRefs(refs);
+      console.log(`  deleted ${refs.length}`);
+    } catch (error) {
+      failures += 1;
+      console.error(`  failed to delete ${label}`, error);
+    }
+  }
+
+  if (!storageBucket) {
+    console.warn("No storage bucket configured; skipping Storage images.");
+  } else {
+    const [files] = await getStorage().bucket().getFiles({ prefix: "events/" });
+    // Only files inside an event folder (events/{eventId}/...) can be attributed.
+    const orphanedFiles = files.filter((file) => {
+      const [, eventId, ...rest] = file.name.split("/");
+      return rest.length > 0 && !eventIds.has(eventId);
+    });
+    console.log(`images: ${orphanedFiles.length} orphaned`);
+    if (apply) {
+      const results = await Promise.allSettled(
+        orphanedFiles.map((file) => file.delete())
+      );
+      const rejected = results.filter((result) => result.status === "rejected");
+      console.log(`  deleted ${results.length - rejected.length}`);
+      if (rejected.length > 0) {
+        failures += 1;
+        console.error(`  failed to delete ${rejected.length} files`);
+      }
+    }
+  }
+
+  if (!apply) {
+    console.log("Dry run only. Re-run with --apply to delete the orphans.");
+  }
+  if (failures > 0) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,123 @@
+/**
+ * migrateParticipationIds.ts
+ * --------------------------
+ * One-off migration for participations created before their ids became
+ * deterministic. The security rules only accept sign-ups, withdrawals and
+ * counter changes on `participations/${eventId}_${userId}`, so older records
+ * with random ids are copied to that id and the old document is deleted. The
+ * event's `waitlist` and the conversation's `participationId` follow the new
+ * id in the same batch. When the volunteer already has a record under the new
+ * id (or more than one old one), nothing is moved and the records are listed
+ * to be resolved by hand.
+ *
+ * Reports only unless `--apply` is passed:
+ *
+ *   GOOGLE_APPLICATION_CREDENTIALS=service-account.json \
+ *   EXPO_PUBLIC_FIREBASE_PROJECT_ID=... \
+ *   npm run migrate:participations -- [--apply]
+ */
+import { applicationDefault, initializeApp } from "firebase-admin/app";
+import {
+  getFirestore,
+  QueryDocumentSnapshot,
+} from "firebase-admin/firestore";
+
+const apply = process.argv.includes("--apply");
+const projectId =
+  process.env.FIREBASE_PROJECT_ID ?? process.env.EXPO_PUBLIC_FIREBASE_PROJECT_ID;
+
+initializeApp({ credential: applicationDefault(), projectId });
+const db = getFirestore();
+
+/** Firestore rejects batches with more than 500 writes. */
+const BATCH_LIMIT = 500;
+/** Copy, delete and conversation update per record, plus the event's waitlist. */
+const RECORDS_PER_BATCH = Math.floor((BATCH_LIMIT - 1) / 3);
+
+const targetId = (docSnap: QueryDocumentSnapshot) =>
+  `${docSnap.get("eventId")}_${docSnap.get("userId")}`;
+
+async function main() {
+  const participations = await db.collection("participations").get();
+  const existing = new Set(participations.docs.map((docSnap) => docSnap.id));
+  const legacy = participations.docs.filter(
+    (docSnap) =>
+      typeof docSnap.get("eventId") === "string" &&
+      typeof docSnap.get("userId") === "string" &&
+      docSnap.id !== targetId(docSnap)
+  );
+
+  const byTarget = new Map<string, QueryDocumentSnapshot[]>();
+  legacy.forEach((docSnap) => {
+    const id = targetId(docSnap);
+    byTarget.set(id, [...(byTarget.get(id) ?? []), docSnap]);
+  });
+  const conflicts = [...byTarget].filter(
+    ([id, records]) => existing.has(id) || records.length > 1
+  );
+  const movable = legacy.filter((docSnap) => {
+    const id = targetId(docSnap);
+    return !existing.has(id) && byTarget.get(id)!.length === 1;
+  });
+  console.log(
+    `Found ${participations.size} participations, ${legacy.length} with ` +
+      `random ids, ${conflicts.length} to resolve by hand.`
+  );
+  conflicts.forEach(([id, records]) =>
+    console.log(
+      `  conflict ${id}: ${records.map((docSnap) => docSnap.id).join(", ")}` +
+        (existing.has(id) ? " (new id already taken)" : "")
+    )
+  );
+
+  if (!apply) {
+    movable.forEach((docSnap) =>
+      console.log(`  ${docSnap.id} -> ${targetId(docSnap)}`)
+    );
+    console.log("Dry run only. Re-run with --apply to migrate them.");
+    return;
+  }
+
+  const byEvent = new Map<string, QueryDocumentSnapshot[]>();
+  movable.forEach((docSnap) => {
+    const eventId = docSnap.get("eventId");
+    byEvent.set(eventId, [...(byEvent.get(eventId) ?? []), docSnap]);
+  });
+
+  let migrated = 0;
+  for (const [eventId, records] of byEvent) {
+    const eventRef = db.collection("events").doc(eventId);
+    const eventSnap = await eventRef.get();
+    let waitlist: string[] = eventSnap.get("waitlist") ?? [];
+
+    // Each batch moves its records and rewrites the waitlist with every id
+    // moved so far, so a run that stops halfway leaves nothing dangling.
+    for (let start = 0; start < records.length; start += RECORDS_PER_BATCH) {
+      const batch = db.batch();
+      for (const docSnap of records.slice(start, start + RECORDS_PER_BATCH)) {
+        const id = targetId(docSnap);
+        batch.create(db.collection("participations").doc(id), docSnap.data());
+        batch.delete(docSnap.ref);
+        waitlist = waitlist.map((entry) => (entry === docSnap.id ? id : entry));
+
+        // Conversations are keyed by `${eventId}_${volunteerId}` as well.
+        const conversationRef = db.collection("conversations").doc(id);
+        const conversation = await conversationRef.get();
+        if (conversation.get("participationId") === docSnap.id) {
+          batch.update(conversationRef, { participationId: id });
+        }
+      }
+      if (eventSnap.exists) {
+        batch.update(eventRef, { waitlist });
+      }
+      await batch.commit();
+    }
+    migrated += records.length;
+  }
+  console.log(`  migrated ${migrated}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
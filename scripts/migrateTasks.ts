@@ -0,0 +1,128 @@
+/**
+ * migrateTasks.ts
+ * ---------------
+ * One-off migration for events created before structured tasks, which stored
+ * their tasks as a single free-text `tasks` string. Each such event gets one
+ * task entry: the first line becomes the title, the rest the description,
+ * with a headcount of 1. The id matches the one the app gives legacy text
+ * (`LEGACY_TASK_ID` in src/services/repository.ts), so anything already
+ * claimed or ticked off against it stays attached. Empty text becomes an
+ * empty task list. Events also get the `taskCounts` the rules check
+ * headcounts against, counted from the claims already made.
+ *
+ * Reports only unless `--apply` is passed:
+ *
+ *   GOOGLE_APPLICATION_CREDENTIALS=service-account.json \
+ *   EXPO_PUBLIC_FIREBASE_PROJECT_ID=... \
+ *   npm run migrate:tasks -- [--apply]
+ */
+import { applicationDefault, initializeApp } from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
+
+const LEGACY_TASK_ID = "legacy";
+
+const apply = process.argv.includes("--apply");
+const projectId =
+  process.env.FIREBASE_PROJECT_ID ?? process.env.EXPO_PUBLIC_FIREBASE_PROJECT_ID;
+
+initializeApp({ credential: applicationDefault(), projectId });
+const db = getFirestore();
+
+/** Firestore rejects batches with more than 500 writes. */
+const BATCH_LIMIT = 500;
+
+const toTasks = (text: string) => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  const [title, ...rest] = trimmed.split("\n");
+  return [
+    {
+      id: LEGACY_TASK_ID,
+      title: title.trim(),
+      description: rest.join("\n").trim(),
+      headcount: 1,
+      requiredSkill: "",
+    },
+  ];
+};
+
+// Waitlisted volunteers keep their claims (see src/services/tasks.ts).
+const CLAIMING_STATUSES = ["signed_up", "waitlisted", "attended", "no_show"];
+
+const sameCounts = (a: Record<string, number>, b: Record<string, number>) =>
+  Object.keys({ ...a, ...b }).every((key) => (a[key] ?? 0) === (b[key] ?? 0));
+
+async function main() {
+  const events = await db
+    .collection("events")
+    .select("tasks", "taskCounts")
+    .get();
+  const legacy = events.docs.filter(
+    (docSnap) => typeof docSnap.get("tasks") === "string"
+  );
+
+  const claims = await db
+    .collection("participations")
+    .where("status", "in", CLAIMING_STATUSES)
+    .select("eventId", "taskIds")
+    .get();
+  const counted = new Map<string, Record<string, number>>();
+  claims.docs.forEach((docSnap) => {
+    const counts = counted.get(docSnap.get("eventId")) ?? {};
+    const taskIds: string[] = docSnap.get("taskIds") ?? [];
+    new Set(taskIds).forEach((taskId) => {
+      counts[taskId] = (counts[taskId] ?? 0) + 1;
+    });
+    counted.set(docSnap.get("eventId"), counts);
+  });
+  const countsOf = (eventId: string) => counted.get(eventId) ?? {};
+  const recount = events.docs.filter(
+    (docSnap) =>
+      !sameCounts(docSnap.get("taskCounts") ?? {}, countsOf(docSnap.id))
+  );
+  console.log(
+    `Found ${events.size} events, ${legacy.length} with free-text tasks, ` +
+      `${recount.length} with task counts to update.`
+  );
+
+  if (!apply) {
+    legacy.forEach((docSnap) => {
+      const [task] = toTasks(docSnap.get("tasks"));
+      console.log(`  ${docSnap.id}: ${task ? task.title : "(no tasks)"}`);
+    });
+    recount.forEach((docSnap) =>
+      console.log(
+        `  ${docSnap.id} counts: ${JSON.stringify(countsOf(docSnap.id))}`
+      )
+    );
+    console.log("Dry run only. Re-run with --apply to migrate them.");
+    return;
+  }
+
+  for (let start = 0; start < legacy.length; start += BATCH_LIMIT) {
+    const batch = db.batch();
+    legacy
+      .slice(start, start + BATCH_LIMIT)
+      .forEach((docSnap) =>
+        batch.update(docSnap.ref, { tasks: toTasks(docSnap.get("tasks")) })
+      );
+    await batch.commit();
+  }
+  for (let start = 0; start < recount.length; start += BATCH_LIMIT) {
+    const batch = db.batch();
+    recount
+      .slice(start, start + BATCH_LIMIT)
+      .forEach((docSnap) =>
+        batch.update(docSnap.ref, {
+          taskCounts: countsOf(docSnap.id),
+        })
+      );
+    await batch.commit();
+  }
+  console.log(`  migrated ${legacy.length}, recounted ${recount.length}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
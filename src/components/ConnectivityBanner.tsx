@@ -0,0 +1,112 @@
+/**
+ * ConnectivityBanner
+ * ------------------
+ * App-wide strip that appears while the device is offline or queued changes
+ * are still syncing, and lists outbox replays the server rejected so the user
+ * knows which sign-up, comment or attendance mark did not go through.
+ */
+import React from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+
+import { useLanguage } from "../context/LanguageContext";
+import { useOutbox } from "../context/OutboxContext";
+import { colors } from "../theme/colors";
+
+// Keeps the banner clear of the bottom tab bar.
+const TAB_BAR_CLEARANCE = 64;
+
+const ConnectivityBanner: React.FC = () => {
+  const { isOnline, entries, conflicts, dismissConflict } = useOutbox();
+  const { t } = useLanguage();
+  const insets = useSafeAreaInsets();
+
+  const pending = entries.length;
+  if (isOnline && pending === 0 && conflicts.length === 0) return null;
+
+  const statusMessage = !isOnline
+    ? pending > 0
+      ? t("connectivity.offlinePending", { count: pending })
+      : t("connectivity.offline")
+    : pending > 0
+    ? t("connectivity.syncing", { count: pending })
+    : null;
+
+  return (
+    <View
+      pointerEvents="box-none"
+      style={[styles.container, { bottom: insets.bottom + TAB_BAR_CLEARANCE }]}
+    >
+      {statusMessage ? (
+        <View style={[styles.banner, !isOnline ? styles.offline : null]}>
+          <MaterialCommunityIcons
+            name={isOnline ? "cloud-sync-outline" : "cloud-off-outline"}
+            size={18}
+            color={colors.textOnPrimary}
+          />
+          <Text style={styles.bannerText}>{statusMessage}</Text>
+        </View>
+      ) : null}
+      {conflicts.map((conflict) => (
+        <View key={conflict.id} style={[styles.banner, styles.conflict]}>
+          <MaterialCommunityIcons
+            name="alert-circle-outline"
+            size={18}
+            color={colors.textOnPrimary}
+          />
+          <Text style={styles.bannerText}>
+            {t(`connectivity.conflict.${conflict.action.type}`)}
+            {": "}
+            {conflict.code
+              ? t(`participation.error.${conflict.code}`)
+              : conflict.message}
+          </Text>
+          <Pressable
+            onPress={() => dismissConflict(conflict.id)}
+            accessibilityLabel={t("connectivity.dismiss")}
+            hitSlop={8}
+          >
+            <MaterialCommunityIcons
+              name="close"
+              size={18}
+              color={colors.textOnPrimary}
+            />
+          </Pressable>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    left: 12,
+    right: 12,
+  },
+  banner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 14,
+    backgroundColor: colors.primaryDark,
+  },
+  offline: {
+    backgroundColor: colors.textSecondary,
+  },
+  conflict: {
+    backgroundColor: colors.danger,
+  },
+  bannerText: {
+    flex: 1,
+    color: colors.textOnPrimary,
+    fontSize: 13,
+    fontWeight: "600",
+  },
+});
+
+export default ConnectivityBanner;
@@ -2,7 +2,11 @@
  * EventCard
  * ---------
  * Re-usable presentation component for the volunteer event list and favourites.
- * Shows the hero image, core metadata, and a localized capacity summary.
+ * Shows the hero image, core metadata, and a localized capacity summary
+ * (remaining spots across all shifts for events split into shifts).
+ * Cancelled events get a badge over the image; occurrences of a recurring
+ * series show how the series repeats. Lists sorted by distance pass
+ * `distanceKm` to show how far away the event is.
  */
 import React, { useMemo } from "react";
 import { View, Text, StyleSheet, TouchableOpacity, Image } from "react-native";
@@ -14,9 +18,10 @@ import { useLanguage } from "../context/LanguageContext";
 interface Props {
   event: Event;
   onPress: () => void;
+  distanceKm?: number;
 }
 
-const EventCard: React.FC<Props> = ({ event, onPress }) => {
+const EventCard: React.FC<Props> = ({ event, onPress, distanceKm }) => {
   const { t } = useLanguage();
   // Prefer the first uploaded image, otherwise we fall back to an icon placeholder.
   const firstImage = event.imageUrls?.[0];
@@ -47,6 +52,18 @@ const EventCard: React.FC<Props> = ({ event, onPress }) => {
           />
         </View>
       )}
+      {event.status === "cancelled" ? (
+        <View style={styles.cancelledBadge}>
+          <MaterialCommunityIcons
+            name="calendar-remove"
+            size={14}
+            color={colors.textOnPrimary}
+          />
+          <Text style={styles.cancelledBadgeText}>
+            {t("eventCard.cancelled")}
+          </Text>
+        </View>
+      ) : null}
       <View style={styles.info}>
         <Text style={styles.title}>{event.title}</Text>
         <View style={styles.row}>
@@ -64,12 +81,50 @@ const EventCard: React.FC<Props> = ({ event, onPress }) => {
             color={colors.textSecondary}
           />
           <Text style={styles.subtitle}>
-            {t("eventCard.volunteerCount", {
-              current: event.currentVolunteers,
-              max: event.maxVolunteers,
-            })}
+            {event.shifts.length > 0
+              ? t("eventCard.shiftSpotsLeft", {
+                  remaining: event.shifts.reduce(
+                    (sum, shift) =>
+                      sum +
+                      Math.max(shift.maxVolunteers - shift.currentVolunteers, 0),
+                    0
+                  ),
+                  shifts: event.shifts.length,
+                })
+              : t("eventCard.volunteerCount", {
+                  current: event.currentVolunteers,
+                  max: event.maxVolunteers,
+                })}
           </Text>
         </View>
+        {distanceKm !== undefined ? (
+          <View style={styles.row}>
+            <MaterialCommunityIcons
+              name="map-marker-distance"
+              size={16}
+              color={colors.textSecondary}
+            />
+            <Text style={styles.subtitle}>
+              {t("eventCard.distance", {
+                distance: distanceKm.toFixed(distanceKm < 10 ? 1 : 0),
+              })}
+            </Text>
+          </View>
+        ) : null}
+        {event.seriesId ? (
+          <View style={styles.row}>
+            <MaterialCommunityIcons
+              name="repeat"
+              size={16}
+              color={colors.textSecondary}
+            />
+            <Text style={styles.subtitle}>
+              {t("eventCard.series", {
+                recurrence: t(`recurrence.${event.recurrence ?? "custom"}`),
+              })}
+            </Text>
+          </View>
+        ) : null}
         <Text numberOfLines={2} style={styles.description}>
           {event.description}
         </Text>
@@ -103,6 +158,23 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     backgroundColor: colors.border,
   },
+  cancelledBadge: {
+    position: "absolute",
+    top: 12,
+    left: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 999,
+    backgroundColor: colors.accent,
+  },
+  cancelledBadgeText: {
+    marginLeft: 4,
+    color: colors.textOnPrimary,
+    fontSize: 12,
+    fontWeight: "700",
+  },
   info: {
     paddingHorizontal: 16,
     paddingVertical: 12,
@@ -0,0 +1,1097 @@
+/**
+ * EventComments
+ * -------------
+ * Comment section of an event: threads one reply deep, emoji reactions, and
+ * editing for authors. Edited comments are marked as such, and the event
+ * owner can open their earlier versions. Anyone can report a comment; the
+ * event owner can hide comments, and heavily reported ones are collapsed until
+ * tapped. The owner can also mark a comment as a question, answer it and pin
+ * the pair to the event's FAQ. Typing `@` suggests the organiser and the
+ * event's volunteers to mention; mentions show the user's current name and
+ * stand out for the user mentioned. Comments load a page at a time, newest
+ * first; posting goes through the outbox, so comments written offline show as
+ * pending until they sync.
+ */
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Alert,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { limit, orderBy, query, where } from "firebase/firestore";
+import { Ionicons, MaterialCommunityIcons } from "@expo/vector-icons";
+
+import ErrorBanner from "./ErrorBanner";
+import OutlinedButton from "./OutlinedButton";
+import { useAuth } from "../context/AuthContext";
+import { useLanguage } from "../context/LanguageContext";
+import { useOutbox } from "../context/OutboxContext";
+import { useQuery } from "../hooks/useFirestore";
+import { FILTER_HIDDEN_BY } from "../services/commentFilter";
+import {
+  COMMENT_REACTIONS,
+  COMMENTS_PAGE_SIZE,
+  CommentError,
+  CommentThread,
+  checkMentions,
+  deleteComment,
+  editComment,
+  getCommentHistory,
+  getUserNames,
+  groupThreads,
+  MENTIONABLE_STATUSES,
+  toggleReaction,
+} from "../services/comments";
+import {
+  completeMention,
+  encodeMentions,
+  Mention,
+  mentionedIds,
+  mentionQuery,
+  mentionsToText,
+  splitMentions,
+} from "../services/mentions";
+import {
+  COMMENT_REPORT_REASONS,
+  COMMENT_REPORT_THRESHOLD,
+  checkNewComment,
+  getHiddenContent,
+  reportComment,
+  setCommentHidden,
+} from "../services/moderation";
+import { pendingForEvent, runOrQueue } from "../services/outbox";
+import {
+  answerQuestion,
+  isPinned,
+  markAsQuestion,
+  pinQuestion,
+  QuestionError,
+  unmarkQuestion,
+  unpinQuestion,
+} from "../services/questions";
+import {
+  commentReportsCollection,
+  commentsCollection,
+  participationsCollection,
+} from "../services/repository";
+import { colors } from "../theme/colors";
+import {
+  CommentReaction,
+  CommentReportReason,
+  CommentRevision,
+  Event,
+  EventComment,
+  HiddenCommentContent,
+} from "../types";
+
+interface Props {
+  /**
+   * Its owner may hide or delete any comment, see edit history and answer
+   * questions.
+   */
+  event: Pick<Event, "id" | "title" | "createdBy" | "faq">;
+}
+
+type ListedComment = EventComment & { pending: boolean };
+
+/** Suggestions shown while typing a mention. */
+const MAX_SUGGESTIONS = 5;
+
+const EventComments: React.FC<Props> = ({ event }) => {
+  const { id: eventId, createdBy: eventOwnerId } = event;
+  const { appUser } = useAuth();
+  const { t, language } = useLanguage();
+  const locale = language === "no" ? "nb-NO" : "en-GB";
+  const isEventOwner = appUser?.id === eventOwnerId;
+  const [pages, setPages] = useState(1);
+  const [text, setText] = useState("");
+  // Mentions picked from the suggestions for the comment being written.
+  const [picked, setPicked] = useState<Mention[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [sending, setSending] = useState(false);
+  const [replyTo, setReplyTo] = useState<EventComment | null>(null);
+  const [editing, setEditing] = useState<{
+    id: string;
+    text: string;
+    picked: Mention[];
+  } | null>(null);
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [answering, setAnswering] = useState<{
+    id: string;
+    text: string;
+  } | null>(null);
+  const [savingAnswer, setSavingAnswer] = useState(false);
+  const [history, setHistory] = useState<{
+    commentId: string;
+    revisions: CommentRevision[];
+  } | null>(null);
+  // Collapsed comments the user chose to read anyway.
+  const [expandedIds, setExpandedIds] = useState<string[]>([]);
+  const [hiddenContent, setHiddenContent] = useState<
+    Record<string, HiddenCommentContent>
+  >({});
+  const [error, setError] = useState<string | null>(null);
+
+  const pageLimit = COMMENTS_PAGE_SIZE * pages;
+  const { data: posted } = useQuery(
+    query(
+      commentsCollection(eventId),
+      orderBy("timestamp", "desc"),
+      limit(pageLimit)
+    )
+  );
+  const hasMore = posted.length >= pageLimit;
+
+  // What hidden comments said, for the event owner and each comment's author.
+  const hiddenIds = posted
+    .filter(
+      (comment) =>
+        comment.hidden && (isEventOwner || comment.userId === appUser?.id)
+    )
+    .map((comment) => comment.id)
+    .sort()
+    .join(",");
+
+  useEffect(() => {
+    if (!hiddenIds) return;
+    let isMounted = true;
+    getHiddenContent(eventId, hiddenIds.split(",")).then((loaded) => {
+      if (isMounted) setHiddenContent(loaded);
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, [eventId, hiddenIds]);
+
+  const { data: myReports } = useQuery(
+    appUser
+      ? query(
+          commentReportsCollection(),
+          where("reporterId", "==", appUser.id),
+          where("eventId", "==", eventId)
+        )
+      : null
+  );
+  const reportedIds = useMemo(
+    () => new Set(myReports.map((report) => report.commentId)),
+    [myReports]
+  );
+
+  const { data: participations } = useQuery(
+    query(participationsCollection(), where("eventId", "==", eventId))
+  );
+  const candidateIds = useMemo(
+    () =>
+      Array.from(
+        new Set([
+          eventOwnerId,
+          ...participations
+            .filter((participation) =>
+              MENTIONABLE_STATUSES.includes(participation.status)
+            )
+            .map((participation) => participation.userId),
+        ])
+      ),
+    [eventOwnerId, participations]
+  );
+
+  // Queued offline comments, shown as pending until they sync.
+  const { entries: outboxEntries } = useOutbox();
+  const threads = useMemo((): CommentThread<ListedComment>[] => {
+    const pending = pendingForEvent(outboxEntries, eventId).flatMap(
+      ({ id, action }): ListedComment[] =>
+        action.type === "comment"
+          ? [
+              {
+                id,
+                text: action.text,
+                userId: action.userId,
+                userName: action.userName,
+                parentId: action.parentId,
+                mentions: mentionedIds(action.text),
+                reactions: {},
+                hidden: false,
+                reportCount: 0,
+                question: false,
+                pending: true,
+              },
+            ]
+          : []
+    );
+    return groupThreads(
+      [
+        ...pending.reverse(),
+        ...posted.map((comment) => {
+          const content = comment.hidden ? hiddenContent[comment.id] : null;
+          return {
+            ...comment,
+            ...(content
+              ? { text: content.text, mentions: content.mentions }
+              : {}),
+            pending: false,
+          };
+        }),
+      ],
+      !hasMore
+    );
+  }, [eventId, hasMore, hiddenContent, outboxEntries, posted]);
+
+  // Names for everyone who can be mentioned or already is, loaded once each.
+  const missingNameIds = useMemo(() => {
+    const ids = new Set(candidateIds);
+    threads.forEach((thread) =>
+      [thread.comment, ...thread.replies].forEach((comment) =>
+        comment.mentions.forEach((userId) => ids.add(userId))
+      )
+    );
+    return Array.from(ids)
+      .filter((userId) => !(userId in names))
+      .sort()
+      .join(",");
+  }, [candidateIds, names, threads]);
+
+  useEffect(() => {
+    if (!missingNameIds) return;
+    let isMounted = true;
+    const ids = missingNameIds.split(",");
+    getUserNames(ids).then((loaded) => {
+      // Unknown users are remembered too, so they are not looked up again.
+      if (isMounted) {
+        setNames((prev) => ({
+          ...prev,
+          ...Object.fromEntries(ids.map((userId) => [userId, ""])),
+          ...loaded,
+        }));
+      }
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, [missingNameIds]);
+
+  const typedMention = mentionQuery(text);
+  const suggestions =
+    typedMention === null
+      ? []
+      : candidateIds
+          .filter(
+            (userId) =>
+              userId !== appUser?.id &&
+              names[userId] &&
+              names[userId].toLowerCase().includes(typedMention.toLowerCase())
+          )
+          .slice(0, MAX_SUGGESTIONS);
+
+  const pickMention = (userId: string) => {
+    const name = names[userId];
+    setText((prev) => completeMention(prev, name));
+    setPicked((prev) => [
+      ...prev.filter((mention) => mention.userId !== userId),
+      { userId, name },
+    ]);
+  };
+
+  const formatDate = (date: Date) =>
+    new Intl.DateTimeFormat(locale, {
+      dateStyle: "medium",
+      timeStyle: "short",
+    }).format(date);
+
+  const handleSend = async () => {
+    if (!appUser || !text.trim() || sending) return;
+    setSending(true);
+    setError(null);
+    try {
+      const encoded = encodeMentions(text.trim(), picked);
+      checkMentions(encoded);
+      await checkNewComment(eventId, appUser.id, encoded);
+      await runOrQueue({
+        type: "comment",
+        eventId,
+        text: encoded,
+        userId: appUser.id,
+        userName:
+          appUser.displayName || appUser.email || t("comments.unknownUser"),
+        ...(replyTo ? { parentId: replyTo.id } : {}),
+      });
+      setText("");
+      setPicked([]);
+      setReplyTo(null);
+    } catch (e: any) {
+      // The text stays in the field so nothing is lost.
+      setError(
+        e instanceof CommentError
+          ? t(`comments.error.${e.code}`)
+          : e.message ?? t("comments.errorSend")
+      );
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleSaveEdit = async (comment: EventComment) => {
+    if (!appUser || !editing || savingEdit) return;
+    setSavingEdit(true);
+    setError(null);
+    try {
+      await editComment(
+        event,
+        comment,
+        encodeMentions(editing.text, editing.picked),
+        appUser.id
+      );
+      setEditing(null);
+      if (history?.commentId === comment.id) setHistory(null);
+    } catch (e: any) {
+      if (e instanceof CommentError && e.code === "unchanged") {
+        setEditing(null);
+      } else {
+        setError(
+          e instanceof CommentError
+            ? t(`comments.error.${e.code}`)
+            : e.message ?? t("comments.errorEdit")
+        );
+      }
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  const handleSaveAnswer = async (comment: EventComment) => {
+    if (!appUser || !answering || savingAnswer) return;
+    setSavingAnswer(true);
+    setError(null);
+    try {
+      await answerQuestion(event, comment, answering.text, appUser.id);
+      setAnswering(null);
+    } catch (e: any) {
+      setError(
+        e instanceof QuestionError
+          ? t(`questions.error.${e.code}`)
+          : e.message ?? t("questions.errorAnswer")
+      );
+    } finally {
+      setSavingAnswer(false);
+    }
+  };
+
+  // Marking, unmarking, pinning and unpinning share the same error handling.
+  const runQuestionAction = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (e: any) {
+      setError(
+        e instanceof QuestionError
+          ? t(`questions.error.${e.code}`)
+          : e.message ?? t("questions.errorUpdate")
+      );
+    }
+  };
+
+  const handleReaction = async (
+    comment: ListedComment,
+    reaction: CommentReaction
+  ) => {
+    if (!appUser || comment.pending) return;
+    setError(null);
+    try {
+      await toggleReaction(
+        eventId,
+        comment.id,
+        reaction,
+        appUser.id,
+        comment.reactions[reaction]?.includes(appUser.id) ?? false
+      );
+    } catch (e: any) {
+      setError(e.message ?? t("comments.errorReaction"));
+    }
+  };
+
+  const toggleHistory = async (comment: EventComment) => {
+    if (history?.commentId === comment.id) {
+      setHistory(null);
+      return;
+    }
+    setError(null);
+    try {
+      setHistory({
+        commentId: comment.id,
+        revisions: await getCommentHistory(eventId, comment.id),
+      });
+    } catch (e: any) {
+      setError(e.message ?? t("comments.errorHistory"));
+    }
+  };
+
+  const submitReport = async (
+    comment: EventComment,
+    reason: CommentReportReason
+  ) => {
+    if (!appUser) return;
+    setError(null);
+    try {
+      await reportComment(
+        { id: eventId, createdBy: eventOwnerId },
+        comment.id,
+        appUser.id,
+        reason
+      );
+      Alert.alert(t("comments.reportedTitle"), t("comments.reportedMessage"));
+    } catch (e: any) {
+      setError(e.message ?? t("comments.errorReport"));
+    }
+  };
+
+  const confirmReport = (comment: EventComment) => {
+    Alert.alert(t("comments.reportTitle"), t("comments.reportMessage"), [
+      ...COMMENT_REPORT_REASONS.map((reason) => ({
+        text: t(`moderation.reason.${reason}`),
+        onPress: () => submitReport(comment, reason),
+      })),
+      { text: t("common.cancel"), style: "cancel" as const },
+    ]);
+  };
+
+  const handleHidden = async (comment: EventComment, hidden: boolean) => {
+    if (!appUser) return;
+    setError(null);
+    try {
+      await setCommentHidden(event, comment, hidden, appUser.id);
+    } catch (e: any) {
+      setError(e.message ?? t("comments.errorHide"));
+    }
+  };
+
+  const confirmDelete = (comment: EventComment, replyCount: number) => {
+    Alert.alert(
+      t("comments.deleteTitle"),
+      replyCount > 0
+        ? t("comments.deleteThreadMessage", { count: replyCount })
+        : t("comments.deleteMessage"),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("comments.deleteAction"),
+          style: "destructive",
+          onPress: async () => {
+            setError(null);
+            try {
+              await deleteComment(event, comment);
+            } catch (e: any) {
+              setError(e.message ?? t("comments.errorDelete"));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderText = (stored: string) =>
+    splitMentions(stored).map((segment, index) =>
+      segment.type === "text" ? (
+        segment.text
+      ) : (
+        <Text
+          key={index}
+          style={[
+            styles.mention,
+            segment.userId === appUser?.id ? styles.mentionMe : null,
+          ]}
+        >
+          @{names[segment.userId] || t("comments.unknownUser")}
+        </Text>
+      )
+    );
+
+  const renderComment = (
+    comment: ListedComment,
+    thread: CommentThread<ListedComment>
+  ) => {
+    const isReply = comment.id !== thread.comment.id;
+    const isAuthor = appUser?.id === comment.userId;
+    const canDelete =
+      !comment.pending &&
+      (isAuthor ||
+        isEventOwner ||
+        (isReply && appUser?.id === thread.comment.userId));
+    const isEditing = editing?.id === comment.id;
+    const canReport =
+      !!appUser && !comment.pending && !isAuthor && !isEventOwner;
+    const reported = reportedIds.has(comment.id);
+    const isAnswering = answering?.id === comment.id;
+    const canAsk = isEventOwner && !isReply && !comment.pending;
+    const pinned = isPinned(event, comment.id);
+    const mentionsMe = !!appUser && comment.mentions.includes(appUser.id);
+
+    // Hidden comments are gone for everyone but the event owner, who still
+    // sees them dimmed so they can be shown again, and their author.
+    if (comment.hidden && !isEventOwner && !isAuthor) {
+      return (
+        <View
+          key={comment.id}
+          style={[styles.comment, isReply ? styles.reply : null]}
+        >
+          <Text style={styles.placeholder}>
+            {comment.hiddenBy === FILTER_HIDDEN_BY
+              ? t("comments.hiddenAutomatically")
+              : t("comments.hidden")}
+          </Text>
+        </View>
+      );
+    }
+    const collapsed =
+      !comment.hidden &&
+      comment.reportCount >= COMMENT_REPORT_THRESHOLD &&
+      !expandedIds.includes(comment.id);
+    if (collapsed) {
+      return (
+        <TouchableOpacity
+          key={comment.id}
+          onPress={() => setExpandedIds((prev) => [...prev, comment.id])}
+          style={[styles.comment, isReply ? styles.reply : null]}
+        >
+          <Text style={styles.placeholder}>{t("comments.collapsed")}</Text>
+        </TouchableOpacity>
+      );
+    }
+
+    return (
+      <View
+        key={comment.id}
+        style={[
+          styles.comment,
+          isReply ? styles.reply : null,
+          mentionsMe ? styles.commentMentionsMe : null,
+        ]}
+      >
+        <View style={styles.avatar}>
+          <Text style={styles.avatarText}>
+            {comment.userName ? comment.userName[0].toUpperCase() : "U"}
+          </Text>
+        </View>
+
+        <View style={styles.body}>
+          <Text style={styles.author}>{comment.userName}</Text>
+          {comment.hidden ? (
+            <Text style={styles.meta}>{t("comments.hiddenForOthers")}</Text>
+          ) : null}
+          {isEditing ? (
+            <View>
+              <TextInput
+                value={editing.text}
+                onChangeText={(value) => setEditing({ ...editing, text: value })}
+                multiline
+                autoFocus
+                style={styles.editInput}
+              />
+              <View style={styles.actions}>
+                <TouchableOpacity onPress={() => handleSaveEdit(comment)}>
+                  <Text style={styles.actionText}>
+                    {savingEdit ? t("comments.saving") : t("comments.save")}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => setEditing(null)}>
+                  <Text style={styles.actionText}>{t("common.cancel")}</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <Text
+              style={[styles.text, comment.hidden ? styles.hiddenText : null]}
+            >
+              {renderText(comment.text)}
+            </Text>
+          )}
+
+          {comment.answer && !isAnswering ? (
+            <View style={styles.answer}>
+              <Text style={styles.answerLabel}>
+                {t("questions.answerLabel")}
+              </Text>
+              <Text style={styles.text}>{comment.answer.text}</Text>
+            </View>
+          ) : null}
+          {isAnswering ? (
+            <View>
+              <TextInput
+                value={answering.text}
+                onChangeText={(value) =>
+                  setAnswering({ ...answering, text: value })
+                }
+                placeholder={t("questions.answerPlaceholder")}
+                placeholderTextColor={colors.textMuted}
+                multiline
+                autoFocus
+                style={styles.editInput}
+              />
+              <View style={styles.actions}>
+                <TouchableOpacity onPress={() => handleSaveAnswer(comment)}>
+                  <Text style={styles.actionText}>
+                    {savingAnswer
+                      ? t("comments.saving")
+                      : t("questions.saveAnswer")}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => setAnswering(null)}>
+                  <Text style={styles.actionText}>{t("common.cancel")}</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : null}
+
+          <View style={styles.metaRow}>
+            {comment.question ? (
+              <Text style={[styles.meta, styles.questionBadge]}>
+                {pinned ? t("questions.pinnedBadge") : t("questions.badge")}
+              </Text>
+            ) : null}
+            <Text style={styles.meta}>
+              {comment.pending
+                ? t("eventDetails.pendingSync")
+                : comment.timestamp
+                ? formatDate(comment.timestamp)
+                : t("eventDetails.sending")}
+            </Text>
+            {comment.editedAt ? (
+              isEventOwner ? (
+                <TouchableOpacity onPress={() => toggleHistory(comment)}>
+                  <Text style={[styles.meta, styles.link]}>
+                    {history?.commentId === comment.id
+                      ? t("comments.hideHistory")
+                      : t("comments.editedShowHistory")}
+                  </Text>
+                </TouchableOpacity>
+              ) : (
+                <Text style={styles.meta}>{t("comments.edited")}</Text>
+              )
+            ) : null}
+          </View>
+
+          {history?.commentId === comment.id ? (
+            <View style={styles.history}>
+              {history.revisions.map((revision) => (
+                <View key={revision.id} style={styles.revision}>
+                  <Text style={styles.meta}>
+                    {t("comments.revisionBefore", {
+                      date: formatDate(revision.editedAt),
+                    })}
+                  </Text>
+                  <Text style={styles.text}>
+                    {renderText(revision.text)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          ) : null}
+
+          {!comment.pending ? (
+            <View style={styles.reactions}>
+              {COMMENT_REACTIONS.map(([reaction, emoji]) => {
+                const count = comment.reactions[reaction]?.length ?? 0;
+                const mine = appUser
+                  ? comment.reactions[reaction]?.includes(appUser.id)
+                  : false;
+                return (
+                  <TouchableOpacity
+                    key={reaction}
+                    onPress={() => handleReaction(comment, reaction)}
+                    style={[
+                      styles.reaction,
+                      mine ? styles.reactionMine : null,
+                    ]}
+                    accessibilityLabel={t(`comments.reaction.${reaction}`)}
+                  >
+                    <Text>
+                      {emoji}
+                      {count > 0 ? ` ${count}` : ""}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          ) : null}
+
+          {!comment.pending && !isEditing ? (
+            <View style={styles.actions}>
+              {appUser && !isReply ? (
+                <TouchableOpacity onPress={() => setReplyTo(comment)}>
+                  <Text style={styles.actionText}>{t("comments.reply")}</Text>
+                </TouchableOpacity>
+              ) : null}
+              {isAuthor && !comment.hidden ? (
+                <TouchableOpacity
+                  onPress={() =>
+                    setEditing({
+                      id: comment.id,
+                      // Mentions of users without a name keep their token.
+                      text: mentionsToText(comment.text, names),
+                      picked: comment.mentions
+                        .filter((userId) => names[userId])
+                        .map((userId) => ({ userId, name: names[userId] })),
+                    })
+                  }
+                >
+                  <Text style={styles.actionText}>{t("comments.edit")}</Text>
+                </TouchableOpacity>
+              ) : null}
+              {canAsk && !comment.question ? (
+                <TouchableOpacity
+                  onPress={() =>
+                    runQuestionAction(() => markAsQuestion(eventId, comment.id))
+                  }
+                >
+                  <Text style={styles.actionText}>
+                    {t("questions.markAsQuestion")}
+                  </Text>
+                </TouchableOpacity>
+              ) : null}
+              {canAsk && comment.question && !isAnswering ? (
+                <TouchableOpacity
+                  onPress={() =>
+                    setAnswering({
+                      id: comment.id,
+                      text: comment.answer?.text ?? "",
+                    })
+                  }
+                >
+                  <Text style={styles.actionText}>
+                    {comment.answer
+                      ? t("questions.editAnswer")
+                      : t("questions.answer")}
+                  </Text>
+                </TouchableOpacity>
+              ) : null}
+              {canAsk && comment.answer ? (
+                <TouchableOpacity
+                  onPress={() =>
+                    runQuestionAction(() =>
+                      pinned
+                        ? unpinQuestion(event, comment.id)
+                        : pinQuestion(event, comment)
+                    )
+                  }
+                >
+                  <Text style={styles.actionText}>
+                    {pinned ? t("questions.unpin") : t("questions.pin")}
+                  </Text>
+                </TouchableOpacity>
+              ) : null}
+              {canAsk && comment.question ? (
+                <TouchableOpacity
+                  onPress={() =>
+                    runQuestionAction(() => unmarkQuestion(event, comment.id))
+                  }
+                >
+                  <Text style={styles.actionText}>
+                    {t("questions.unmark")}
+                  </Text>
+                </TouchableOpacity>
+              ) : null}
+              {isEventOwner ? (
+                <TouchableOpacity
+                  onPress={() => handleHidden(comment, !comment.hidden)}
+                >
+                  <Text style={styles.actionText}>
+                    {comment.hidden ? t("comments.unhide") : t("comments.hide")}
+                  </Text>
+                </TouchableOpacity>
+              ) : null}
+              {canReport ? (
+                reported ? (
+                  <Text style={styles.meta}>{t("comments.reported")}</Text>
+                ) : (
+                  <TouchableOpacity onPress={() => confirmReport(comment)}>
+                    <Text style={styles.actionText}>
+                      {t("comments.report")}
+                    </Text>
+                  </TouchableOpacity>
+                )
+              ) : null}
+            </View>
+          ) : null}
+        </View>
+
+        {canDelete ? (
+          <TouchableOpacity
+            onPress={() =>
+              confirmDelete(comment, isReply ? 0 : thread.replies.length)
+            }
+            style={styles.deleteButton}
+          >
+            <MaterialCommunityIcons
+              name="trash-can-outline"
+              size={20}
+              color={colors.danger}
+            />
+          </TouchableOpacity>
+        ) : null}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.title}>{t("eventDetails.commentsTitle")}</Text>
+      <ErrorBanner message={error} />
+
+      {threads.map((thread) => (
+        <View key={thread.comment.id}>
+          {renderComment(thread.comment, thread)}
+          {thread.replies.map((reply) => renderComment(reply, thread))}
+        </View>
+      ))}
+
+      {hasMore ? (
+        <OutlinedButton
+          title={t("comments.showOlder")}
+          icon="chevron-down"
+          onPress={() => setPages((prev) => prev + 1)}
+          style={styles.showOlder}
+        />
+      ) : null}
+
+      {appUser ? (
+        <>
+          {replyTo ? (
+            <View style={styles.replyBar}>
+              <Text style={styles.meta}>
+                {t("comments.replyingTo", { name: replyTo.userName })}
+              </Text>
+              <TouchableOpacity onPress={() => setReplyTo(null)}>
+                <MaterialCommunityIcons
+                  name="close"
+                  size={18}
+                  color={colors.textMuted}
+                />
+              </TouchableOpacity>
+            </View>
+          ) : null}
+          {suggestions.length > 0 ? (
+            <View style={styles.suggestions}>
+              {suggestions.map((userId) => (
+                <TouchableOpacity
+                  key={userId}
+                  onPress={() => pickMention(userId)}
+                  style={styles.suggestion}
+                >
+                  <Text style={styles.text}>
+                    @{names[userId]}
+                    {userId === eventOwnerId
+                      ? ` · ${t("comments.organiser")}`
+                      : ""}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          ) : null}
+          <View style={styles.inputRow}>
+            <TextInput
+              value={text}
+              onChangeText={setText}
+              placeholder={
+                replyTo
+                  ? t("comments.replyPlaceholder")
+                  : t("eventDetails.writeCommentPlaceholder")
+              }
+              placeholderTextColor={colors.textMuted}
+              style={styles.input}
+            />
+            <TouchableOpacity onPress={handleSend} disabled={sending}>
+              <Ionicons
+                name="send"
+                size={26}
+                color={sending ? colors.textMuted : colors.primary}
+              />
+            </TouchableOpacity>
+          </View>
+        </>
+      ) : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    marginTop: 24,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginBottom: 10,
+    color: colors.textPrimary,
+  },
+  comment: {
+    flexDirection: "row",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderColor: colors.border,
+    alignItems: "flex-start",
+  },
+  reply: {
+    marginLeft: 40,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.background,
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: 12,
+  },
+  avatarText: {
+    fontWeight: "600",
+    color: colors.textPrimary,
+  },
+  body: {
+    flex: 1,
+  },
+  author: {
+    fontWeight: "600",
+    color: colors.textPrimary,
+  },
+  text: {
+    color: colors.textPrimary,
+  },
+  hiddenText: {
+    opacity: 0.5,
+  },
+  mention: {
+    fontWeight: "600",
+    color: colors.primary,
+  },
+  mentionMe: {
+    backgroundColor: colors.surfaceElevated,
+  },
+  commentMentionsMe: {
+    borderLeftWidth: 3,
+    borderLeftColor: colors.primary,
+    paddingLeft: 8,
+  },
+  suggestions: {
+    marginTop: 12,
+    backgroundColor: colors.surface,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  suggestion: {
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  answer: {
+    marginTop: 8,
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: colors.surfaceElevated,
+  },
+  answerLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: colors.primary,
+    marginBottom: 2,
+  },
+  questionBadge: {
+    fontWeight: "600",
+    color: colors.primary,
+  },
+  placeholder: {
+    fontStyle: "italic",
+    color: colors.textMuted,
+  },
+  metaRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 4,
+  },
+  meta: {
+    fontSize: 11,
+    color: colors.textMuted,
+  },
+  link: {
+    textDecorationLine: "underline",
+  },
+  history: {
+    marginTop: 8,
+    paddingLeft: 10,
+    borderLeftWidth: 2,
+    borderColor: colors.border,
+  },
+  revision: {
+    marginBottom: 6,
+  },
+  reactions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginTop: 8,
+  },
+  reaction: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 999,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  reactionMine: {
+    borderColor: colors.primary,
+    backgroundColor: colors.surfaceElevated,
+  },
+  actions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 16,
+    marginTop: 6,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: colors.primary,
+  },
+  deleteButton: {
+    padding: 6,
+  },
+  editInput: {
+    backgroundColor: colors.surfaceElevated,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    padding: 8,
+    marginTop: 4,
+    color: colors.textPrimary,
+  },
+  showOlder: {
+    alignSelf: "center",
+    marginTop: 12,
+  },
+  replyBar: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: 12,
+    paddingHorizontal: 10,
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 12,
+    backgroundColor: colors.surface,
+    padding: 10,
+    borderRadius: 10,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: colors.surfaceElevated,
+    padding: 10,
+    borderRadius: 8,
+    marginRight: 10,
+    color: colors.textPrimary,
+  },
+});
+
+export default EventComments;
@@ -0,0 +1,106 @@
+/**
+ * EventFaq
+ * --------
+ * Questions and answers the organiser pinned from the comments, shown above
+ * the comment list. The owner can unpin a pair here, which also works after
+ * the comment it came from was deleted.
+ */
+import React, { useState } from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+
+import ErrorBanner from "./ErrorBanner";
+import { useLanguage } from "../context/LanguageContext";
+import { mentionsToText } from "../services/mentions";
+import { unpinQuestion } from "../services/questions";
+import { colors } from "../theme/colors";
+import { Event } from "../types";
+
+interface Props {
+  event: Pick<Event, "id" | "title" | "faq">;
+  isOwner: boolean;
+}
+
+const EventFaq: React.FC<Props> = ({ event, isOwner }) => {
+  const { t } = useLanguage();
+  const [error, setError] = useState<string | null>(null);
+
+  if (event.faq.length === 0) return null;
+
+  // Pairs pinned before mentions were spelled out may still hold tokens.
+  const readable = (text: string) =>
+    mentionsToText(text, {}, t("comments.unknownUser"));
+
+  const handleUnpin = async (commentId: string) => {
+    setError(null);
+    try {
+      await unpinQuestion(event, commentId);
+    } catch (e: any) {
+      setError(e.message ?? t("questions.errorUpdate"));
+    }
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.title}>{t("questions.faqTitle")}</Text>
+      <ErrorBanner message={error} />
+      {event.faq.map((entry) => (
+        <View key={entry.commentId} style={styles.entry}>
+          <View style={styles.body}>
+            <Text style={styles.question}>{readable(entry.question)}</Text>
+            <Text style={styles.answer}>{readable(entry.answer)}</Text>
+          </View>
+          {isOwner ? (
+            <TouchableOpacity
+              onPress={() => handleUnpin(entry.commentId)}
+              accessibilityLabel={t("questions.unpin")}
+              style={styles.unpin}
+            >
+              <MaterialCommunityIcons
+                name="pin-off-outline"
+                size={20}
+                color={colors.textMuted}
+              />
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    marginTop: 24,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginBottom: 10,
+    color: colors.textPrimary,
+  },
+  entry: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 10,
+    backgroundColor: colors.surface,
+  },
+  body: {
+    flex: 1,
+  },
+  question: {
+    fontWeight: "600",
+    color: colors.textPrimary,
+  },
+  answer: {
+    marginTop: 4,
+    color: colors.textSecondary,
+  },
+  unpin: {
+    padding: 6,
+  },
+});
+
+export default EventFaq;
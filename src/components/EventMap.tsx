@@ -0,0 +1,87 @@
+/**
+ * EventMap
+ * --------
+ * Map with event pins, used for the map mode of the event list, the mini-map
+ * on event details and the location picker when creating an event. Tapping
+ * the map reports the point through `onPickLocation`; tapping a pin's callout
+ * reports its id. Web gets a placeholder from EventMap.web.tsx, since
+ * react-native-maps only ships native views.
+ */
+import React from "react";
+import { StyleProp, StyleSheet, ViewStyle } from "react-native";
+import MapView, { Marker } from "react-native-maps";
+
+import { colors } from "../theme/colors";
+import { Coordinates } from "../types";
+
+export interface EventMapMarker {
+  id: string;
+  coordinate: Coordinates;
+  title: string;
+  description?: string;
+}
+
+export interface EventMapProps {
+  markers: EventMapMarker[];
+  center: Coordinates;
+  /** Rough width of the visible area around `center`. */
+  spanKm?: number;
+  /** Static maps (e.g. the details mini-map) ignore gestures. */
+  interactive?: boolean;
+  onPickLocation?: (coordinate: Coordinates) => void;
+  onMarkerPress?: (id: string) => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+// One degree of latitude is roughly 111 km.
+const KM_PER_DEGREE = 111;
+
+const EventMap: React.FC<EventMapProps> = ({
+  markers,
+  center,
+  spanKm = 10,
+  interactive = true,
+  onPickLocation,
+  onMarkerPress,
+  style,
+}) => {
+  const delta = spanKm / KM_PER_DEGREE;
+  return (
+    <MapView
+      style={[styles.map, style]}
+      region={{ ...center, latitudeDelta: delta, longitudeDelta: delta }}
+      scrollEnabled={interactive}
+      zoomEnabled={interactive}
+      rotateEnabled={false}
+      pitchEnabled={false}
+      onPress={
+        onPickLocation
+          ? (event) => onPickLocation(event.nativeEvent.coordinate)
+          : undefined
+      }
+    >
+      {markers.map((marker) => (
+        <Marker
+          key={marker.id}
+          coordinate={marker.coordinate}
+          title={marker.title}
+          description={marker.description}
+          pinColor={colors.primary}
+          onCalloutPress={
+            onMarkerPress ? () => onMarkerPress(marker.id) : undefined
+          }
+        />
+      ))}
+    </MapView>
+  );
+};
+
+const styles = StyleSheet.create({
+  map: {
+    height: 220,
+    borderRadius: 18,
+    overflow: "hidden",
+  },
+});
+
+export default EventMap;
@@ -0,0 +1,73 @@
+/**
+ * EventMap (web)
+ * --------------
+ * react-native-maps has no web implementation, so the web build shows the
+ * pinned events as a plain list instead of a map. Tapping an entry behaves
+ * like tapping the pin's callout on native.
+ */
+import React from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+
+import { useLanguage } from "../context/LanguageContext";
+import { colors } from "../theme/colors";
+import type { EventMapProps } from "./EventMap";
+
+const EventMap: React.FC<EventMapProps> = ({
+  markers,
+  onMarkerPress,
+  style,
+}) => {
+  const { t } = useLanguage();
+  return (
+    <View style={[styles.container, style]}>
+      <Text style={styles.notice}>{t("map.webUnavailable")}</Text>
+      {markers.map((marker) => (
+        <Pressable
+          key={marker.id}
+          style={styles.row}
+          onPress={onMarkerPress ? () => onMarkerPress(marker.id) : undefined}
+        >
+          <MaterialCommunityIcons
+            name="map-marker"
+            size={18}
+            color={colors.primary}
+          />
+          <Text style={styles.rowText}>
+            {marker.description
+              ? `${marker.title} · ${marker.description}`
+              : marker.title}
+          </Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    minHeight: 120,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+    padding: 14,
+  },
+  notice: {
+    color: colors.textMuted,
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 6,
+  },
+  rowText: {
+    flex: 1,
+    color: colors.textPrimary,
+  },
+});
+
+export default EventMap;
@@ -15,6 +15,14 @@ import {
   serverTimestamp,
 } from "firebase/firestore";
 import { auth, db } from "../firebaseConfig";
+import { clearOfflineCache } from "../services/offlineCache";
+import { clearOutbox } from "../services/outbox";
+import { unregisterPushToken } from "../services/push";
+import {
+  readDoc,
+  reportMalformedDocument,
+  userRef,
+} from "../services/repository";
 import { AppUser, UserRole } from "../types";
 
 interface AuthContextValue {
@@ -71,21 +79,23 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
       }
 
       unsubscribeUserDoc = onSnapshot(
-        ref,
+        userRef(user.uid),
         (docSnap) => {
-          const data = docSnap.data();
-          if (!data) {
-            setAppUser(null);
-            return;
+          let profile: AppUser | null;
+          try {
+            profile = readDoc(docSnap);
+          } catch (malformed) {
+            reportMalformedDocument(malformed);
+            profile = {
+              id: user.uid,
+              email: user.email || "",
+              displayName: user.displayName || "",
+              role: "volunteer",
+              notificationOptOuts: [],
+            };
           }
-
-          setAppUser({
-            id: user.uid,
-            email: data.email,
-            displayName: data.displayName,
-            role: data.role as UserRole,
-          });
-          setLoading(false);
+          setAppUser(profile);
+          if (profile) setLoading(false);
         },
         (error) => {
           console.warn("Failed to subscribe to user profile", error);
@@ -94,6 +104,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
             email: user.email || "",
             displayName: user.displayName || "",
             role: "volunteer",
+            notificationOptOuts: [],
           });
           setLoading(false);
         }
@@ -107,6 +118,19 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
   }, []);
 
   const signOutUser = async () => {
+    // The token has to go while the rules still see the user; a failure here
+    // must not keep them signed in.
+    if (appUser) {
+      await unregisterPushToken(appUser.id).catch((error) =>
+        console.warn("Failed to unregister push token", error)
+      );
+    }
+    await clearOfflineCache().catch((error) =>
+      console.warn("Failed to clear offline cache", error)
+    );
+    await clearOutbox().catch((error) =>
+      console.warn("Failed to clear offline queue", error)
+    );
     // Firebase signOut already clears persistence; the context state resets via listener.
     await signOut(auth);
   };
@@ -0,0 +1,96 @@
+/**
+ * NotificationsContext
+ * --------------------
+ * Keeps device notifications in line with the signed-in user: registers the
+ * push token, and re-syncs local event reminders whenever their signed-up
+ * events, the events' details or their opt-outs change. Exposes whether the
+ * system permission was granted so the profile can point to the settings.
+ */
+import React, { createContext, useContext, useEffect, useState } from "react";
+
+import { useAuth } from "./AuthContext";
+import { useLanguage } from "./LanguageContext";
+import { useSignedUpEvents } from "../hooks/useSignedUpEvents";
+import {
+  configureNotifications,
+  ensureNotificationPermission,
+  registerPushToken,
+} from "../services/push";
+import {
+  clearReminders,
+  syncReminders,
+  volunteerStart,
+} from "../services/reminders";
+import { NotificationChannel } from "../types";
+
+interface NotificationsContextValue {
+  /** Null until the user has been asked; always false on web. */
+  permissionGranted: boolean | null;
+}
+
+const NotificationsContext = createContext<NotificationsContextValue>({
+  permissionGranted: null,
+});
+
+export const useNotifications = () => useContext(NotificationsContext);
+
+export const NotificationsProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { appUser, loading } = useAuth();
+  const { t, language } = useLanguage();
+  const locale = language === "no" ? "nb-NO" : "en-GB";
+  const events = useSignedUpEvents(appUser?.id);
+  const [permissionGranted, setPermissionGranted] = useState<boolean | null>(
+    null
+  );
+
+  useEffect(() => {
+    configureNotifications({
+      reminders: t("notifications.channel.reminders"),
+      notices: t("notifications.channel.notices"),
+    }).catch((error) => console.warn("Failed to set up notifications", error));
+  }, [t]);
+
+  useEffect(() => {
+    if (!appUser?.id) return;
+    ensureNotificationPermission()
+      .then(setPermissionGranted)
+      .then(() => registerPushToken(appUser.id))
+      .catch((error) => console.warn("Failed to register push token", error));
+  }, [appUser?.id]);
+
+  // The profile snapshot brings a new array each time; compare by content.
+  const optOutKey = appUser?.notificationOptOuts.join(",") ?? "";
+  const signedIn = Boolean(appUser);
+  useEffect(() => {
+    if (loading) return;
+    if (!signedIn) {
+      clearReminders().catch((error) =>
+        console.warn("Failed to clear reminders", error)
+      );
+      return;
+    }
+    const formatTime = new Intl.DateTimeFormat(locale, {
+      weekday: "long",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    const optOuts = (
+      optOutKey ? optOutKey.split(",") : []
+    ) as NotificationChannel[];
+    syncReminders(events, optOuts, (event, type) => ({
+      title: event.title,
+      body: t(`notifications.${type}`, {
+        time: formatTime.format(volunteerStart(event)),
+        location: event.locationText,
+      }),
+    })).catch((error) => console.warn("Failed to schedule reminders", error));
+  }, [events, optOutKey, signedIn, loading, locale, t]);
+
+  return (
+    <NotificationsContext.Provider value={{ permissionGranted }}>
+      {children}
+    </NotificationsContext.Provider>
+  );
+};
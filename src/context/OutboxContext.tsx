@@ -0,0 +1,90 @@
+/**
+ * OutboxContext
+ * -------------
+ * Tracks connectivity and exposes the offline outbox to the UI. Whenever the
+ * device comes back online (or a user signs in with a queue left over from an
+ * earlier session) the queued actions are replayed.
+ */
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import NetInfo from "@react-native-community/netinfo";
+
+import { useAuth } from "./AuthContext";
+import {
+  dismissConflict,
+  flushOutbox,
+  hydrateOutbox,
+  OutboxState,
+  setOutboxOnline,
+  subscribeToOutbox,
+} from "../services/outbox";
+
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+interface OutboxContextValue extends OutboxState {
+  isOnline: boolean;
+  dismissConflict: (conflictId: string) => void;
+}
+
+const OutboxContext = createContext<OutboxContextValue>({
+  entries: [],
+  conflicts: [],
+  isOnline: true,
+  dismissConflict: () => {},
+});
+
+export const useOutbox = () => useContext(OutboxContext);
+
+export const OutboxProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { appUser } = useAuth();
+  const [outbox, setOutbox] = useState<OutboxState>({
+    entries: [],
+    conflicts: [],
+  });
+  const [isOnline, setIsOnline] = useState(true);
+
+  useEffect(() => {
+    hydrateOutbox();
+    return subscribeToOutbox(setOutbox);
+  }, []);
+
+  useEffect(() => {
+    return NetInfo.addEventListener((netState) => {
+      // Reachability is unknown (null) right after launch; treat that as online.
+      const connected =
+        netState.isConnected !== false && netState.isInternetReachable !== false;
+      setOutboxOnline(connected);
+      setIsOnline(connected);
+    });
+  }, []);
+
+  const hasPending = outbox.entries.length > 0;
+
+  useEffect(() => {
+    if (!isOnline || !appUser || !hasPending) return;
+    const sync = () =>
+      flushOutbox().catch((error) =>
+        console.warn("Failed to sync queued actions", error)
+      );
+    sync();
+    // NetInfo can report a connection the backend cannot reach yet; keep retrying.
+    const interval = setInterval(sync, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [appUser, hasPending, isOnline]);
+
+  const value = useMemo(
+    () => ({ ...outbox, isOnline, dismissConflict }),
+    [isOnline, outbox]
+  );
+
+  return (
+    <OutboxContext.Provider value={value}>{children}</OutboxContext.Provider>
+  );
+};
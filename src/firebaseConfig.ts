@@ -12,7 +12,12 @@ import {
   initializeAuth,
   getReactNativePersistence,
 } from "firebase/auth";
-import { getFirestore } from "firebase/firestore";
+import {
+  initializeFirestore,
+  memoryLocalCache,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+} from "firebase/firestore";
 import { getStorage } from "firebase/storage";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
@@ -37,5 +42,15 @@ export const auth =
         // AsyncStorage persistence ensures native sign-in survives app restarts.
         persistence: getReactNativePersistence(AsyncStorage),
       });
-export const db = getFirestore(app);
+// On web the persistent cache (shared across tabs) keeps previously loaded
+// events readable without coverage. The SDK can only persist to IndexedDB,
+// which React Native lacks, so native keeps its cache in memory and the key
+// screens save their data in services/offlineCache.ts instead; queued actions
+// survive via the outbox.
+export const db = initializeFirestore(app, {
+  localCache:
+    Platform.OS === "web"
+      ? persistentLocalCache({ tabManager: persistentMultipleTabManager() })
+      : memoryLocalCache(),
+});
 export const storage = getStorage(app);
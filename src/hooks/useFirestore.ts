@@ -0,0 +1,180 @@
+/**
+ * useFirestore.ts
+ * ---------------
+ * Subscription hooks over the typed references in services/repository.ts.
+ * They keep the latest converted data, a loading flag and the last error, and
+ * resubscribe only when the reference or query actually changes. Given a
+ * `cacheKey`, they also keep the data in the offline cache and show it until
+ * the server answers (see services/offlineCache.ts).
+ */
+import { useEffect, useRef, useState } from "react";
+import {
+  DocumentReference,
+  onSnapshot,
+  Query,
+  queryEqual,
+  refEqual,
+} from "firebase/firestore";
+
+import { readCached, writeCached } from "../services/offlineCache";
+import { readDoc, readDocs } from "../services/repository";
+
+interface DocumentState<T> {
+  data: T | null;
+  /** False once a snapshot has arrived and the document is missing. */
+  exists: boolean;
+  loading: boolean;
+  error: Error | null;
+}
+
+interface QueryState<T> {
+  data: T[];
+  loading: boolean;
+  error: Error | null;
+}
+
+interface SubscriptionOptions {
+  /** Keeps the data for the next start without coverage, under this key. */
+  cacheKey?: string;
+}
+
+// Offline, the SDK reports an empty result from its (in-memory) cache; that
+// must not replace what the offline cache shows until the server answers,
+// however the stored data and that first snapshot race.
+function offlineFallback<T>(
+  cacheKey: string | undefined,
+  show: (cached: T) => void
+) {
+  let showingCached = false;
+  let answered = false;
+  let active = true;
+  if (cacheKey) {
+    readCached<T>(cacheKey).then((cached) => {
+      if (!active || answered || cached === null) return;
+      showingCached = true;
+      show(cached);
+    });
+  }
+  return {
+    /** False when the snapshot should be ignored in favour of cached data. */
+    accept(snapshot: { metadata: { fromCache: boolean } }) {
+      if (!snapshot.metadata.fromCache) answered = true;
+      return !(snapshot.metadata.fromCache && showingCached);
+    },
+    store(snapshot: { metadata: { fromCache: boolean } }, data: T) {
+      if (cacheKey && !snapshot.metadata.fromCache) writeCached(cacheKey, data);
+    },
+    stop() {
+      active = false;
+    },
+  };
+}
+
+// Callers usually build refs and queries inline; hold on to an equal one so
+// the effect below does not resubscribe on every render.
+function useStable<T>(
+  value: T | null,
+  isEqual: (a: T, b: T) => boolean
+): T | null {
+  const stable = useRef(value);
+  if (
+    stable.current !== value &&
+    !(stable.current && value && isEqual(stable.current, value))
+  ) {
+    stable.current = value;
+  }
+  return stable.current;
+}
+
+/** Streams a single document. Pass null to stay idle (e.g. while signed out). */
+export function useDocument<T>(
+  ref: DocumentReference<T> | null,
+  { cacheKey }: SubscriptionOptions = {}
+): DocumentState<T> {
+  const stableRef = useStable<DocumentReference<T>>(ref, refEqual);
+  const [state, setState] = useState<DocumentState<T>>({
+    data: null,
+    exists: true,
+    loading: Boolean(ref),
+    error: null,
+  });
+
+  useEffect(() => {
+    if (!stableRef) {
+      setState({ data: null, exists: true, loading: false, error: null });
+      return;
+    }
+
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+    const fallback = offlineFallback<T>(cacheKey, (data) =>
+      setState({ data, exists: true, loading: false, error: null })
+    );
+    const unsubscribe = onSnapshot(
+      stableRef,
+      (snapshot) => {
+        if (!fallback.accept(snapshot)) return;
+        try {
+          const data = readDoc(snapshot);
+          setState({ data, exists: data !== null, loading: false, error: null });
+          if (data !== null) fallback.store(snapshot, data);
+        } catch (error: any) {
+          setState({ data: null, exists: true, loading: false, error });
+        }
+      },
+      (error) => {
+        setState({ data: null, exists: true, loading: false, error });
+      }
+    );
+
+    return () => {
+      fallback.stop();
+      unsubscribe();
+    };
+  }, [stableRef, cacheKey]);
+
+  return state;
+}
+
+/** Streams a query, dropping documents that fail validation. */
+export function useQuery<T>(
+  query: Query<T> | null,
+  { cacheKey }: SubscriptionOptions = {}
+): QueryState<T> {
+  const stableQuery = useStable<Query<T>>(query, queryEqual);
+  const [state, setState] = useState<QueryState<T>>({
+    data: [],
+    loading: Boolean(query),
+    error: null,
+  });
+
+  useEffect(() => {
+    if (!stableQuery) {
+      setState({ data: [], loading: false, error: null });
+      return;
+    }
+
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+    const fallback = offlineFallback<T[]>(cacheKey, (data) =>
+      setState({ data, loading: false, error: null })
+    );
+    const unsubscribe = onSnapshot(
+      stableQuery,
+      (snapshot) => {
+        if (!fallback.accept(snapshot)) return;
+        const data = readDocs(snapshot);
+        setState({ data, loading: false, error: null });
+        fallback.store(snapshot, data);
+      },
+      (error) => {
+        setState({ data: [], loading: false, error });
+      }
+    );
+
+    return () => {
+      fallback.stop();
+      unsubscribe();
+    };
+  }, [stableQuery, cacheKey]);
+
+  return state;
+}
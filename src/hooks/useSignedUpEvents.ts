@@ -0,0 +1,117 @@
+/**
+ * useSignedUpEvents.ts
+ * --------------------
+ * Streams the events a user is signed up for, most recent sign-up first, with
+ * the shifts they picked. Each event document is watched on its own, so
+ * organiser edits (a new time or place, a cancellation) come through as well
+ * as sign-ups, withdrawals and shift changes.
+ */
+import { useEffect, useState } from "react";
+import { onSnapshot, query, where } from "firebase/firestore";
+
+import {
+  eventRef,
+  participationsCollection,
+  readDoc,
+  readDocs,
+  reportMalformedDocument,
+} from "../services/repository";
+import { Event, Participation, SignedUpEvent } from "../types";
+
+/** Pass null to stay idle (e.g. while signed out). */
+export function useSignedUpEvents(
+  userId: string | null | undefined
+): SignedUpEvent[] {
+  const [events, setEvents] = useState<SignedUpEvent[]>([]);
+
+  useEffect(() => {
+    if (!userId) {
+      setEvents([]);
+      return;
+    }
+
+    let isMounted = true;
+    const eventCache = new Map<string, Event>();
+    const eventSubscriptions = new Map<string, () => void>();
+    let latestParticipations: Participation[] = [];
+
+    const recomputeEvents = () => {
+      if (!isMounted) return;
+      const ordered = [...latestParticipations]
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .flatMap((participation) => {
+          const event = eventCache.get(participation.eventId);
+          return event ? [{ ...event, shiftIds: participation.shiftIds }] : [];
+        });
+      setEvents(ordered);
+    };
+
+    const participationQuery = query(
+      participationsCollection(),
+      where("userId", "==", userId),
+      where("status", "==", "signed_up")
+    );
+
+    const unsubscribeParticipations = onSnapshot(
+      participationQuery,
+      (snapshot) => {
+        latestParticipations = readDocs(snapshot);
+        const nextEventIds = new Set(
+          latestParticipations.map((participation) => participation.eventId)
+        );
+
+        // Remove subscriptions for events no longer referenced.
+        eventSubscriptions.forEach((unsubscribe, eventId) => {
+          if (!nextEventIds.has(eventId)) {
+            unsubscribe();
+            eventSubscriptions.delete(eventId);
+            eventCache.delete(eventId);
+          }
+        });
+
+        // Add subscriptions for new event references.
+        nextEventIds.forEach((eventId) => {
+          if (eventSubscriptions.has(eventId)) {
+            return;
+          }
+          const unsubscribeEvent = onSnapshot(
+            eventRef(eventId),
+            (eventSnap) => {
+              try {
+                const event = readDoc(eventSnap);
+                if (event) eventCache.set(eventId, event);
+                else eventCache.delete(eventId);
+              } catch (malformed) {
+                reportMalformedDocument(malformed);
+                eventCache.delete(eventId);
+              }
+              recomputeEvents();
+            },
+            (error) => {
+              console.warn("Failed to stream event", error);
+            }
+          );
+          eventSubscriptions.set(eventId, unsubscribeEvent);
+        });
+
+        recomputeEvents();
+      },
+      (error) => {
+        console.warn("Failed to stream participations", error);
+        if (isMounted) {
+          setEvents([]);
+        }
+      }
+    );
+
+    return () => {
+      isMounted = false;
+      unsubscribeParticipations();
+      eventSubscriptions.forEach((unsubscribe) => unsubscribe());
+      eventSubscriptions.clear();
+      eventCache.clear();
+    };
+  }, [userId]);
+
+  return events;
+}
@@ -41,10 +41,17 @@ export const translations: Record<SupportedLanguage, Record<string, string>> = {
     "navigation.discover": "Discover",
     "navigation.myEvents": "My spots",
     "navigation.create": "Create",
+    "navigation.inbox": "Inbox",
     "navigation.profile": "Profile",
     "navigation.eventDetailsTitle": "Event details",
     "navigation.editEventTitle": "Edit event",
     "navigation.manageParticipantsTitle": "Manage participants",
+    "navigation.checkInCodeTitle": "Check-in code",
+    "navigation.scanCheckInTitle": "Scan check-in code",
+    "navigation.checkInTitle": "Check in",
+    "navigation.moderationTitle": "Reported comments",
+    "navigation.conversationsTitle": "Messages",
+    "navigation.conversationTitle": "Conversation",
 
     "createEvent.authRequired": "You must be logged in.",
     "createEvent.organiserOnly": "Only organisers can create events.",
@@ -52,6 +59,8 @@ export const translations: Record<SupportedLanguage, Record<string, string>> = {
       "Title, date/time and location are required.",
     "createEvent.errorMaxVolunteers":
       "Max volunteers must be a positive number.",
+    "createEvent.errorMaxBelowSignedUp":
+      "{{count}} volunteers are already signed up. Max volunteers cannot be lower.",
     "createEvent.errorLoadExisting": "Unable to load the event.",
     "createEvent.errorNotOwner": "You are not allowed to edit this event.",
     "createEvent.permissionTitle": "Permission",
@@ -71,7 +80,6 @@ export const translations: Record<SupportedLanguage, Record<string, string>> = {
     "createEvent.sectionEssentials": "Essentials",
     "createEvent.eventTitlePlaceholder": "Event title",
     "createEvent.eventDescriptionPlaceholder": "Describe the experience",
-    "createEvent.tasksPlaceholder": "Key tasks and expectations",
     "createEvent.eventTypeLabel": "Event type",
     "createEvent.categoryPlaceholder": "Category (e.g. Cleanup, Social)",
     "createEvent.locationPlaceholder": "Where should volunteers meet?",
@@ -91,6 +99,56 @@ export const translations: Record<SupportedLanguage, Record<string, string>> = {
     "createEvent.datePromptTitle": "Select date & time",
     "createEvent.datePromptMessage": "Enter date and time (YYYY-MM-DD HH:mm)",
     "createEvent.datePromptInvalid": "Please use the format YYYY-MM-DD HH:mm.",
+    "createEvent.dayPromptMessage": "Enter a date (YYYY-MM-DD)",
+    "createEvent.recurrenceLabel": "Repeats",
+    "createEvent.repeatUntilPlaceholder": "Repeat until...",
+    "createEvent.repeatUntilValue": "Repeats until {{date}}",
+    "createEvent.addDateButton": "Add date",
+    "createEvent.occurrenceCount": "Creates {{count}} events in this series.",
+    "createEvent.errorRepeatUntil":
+      "Pick an end date after the first event so the series has at least two dates.",
+    "createEvent.errorCustomDates":
+      "Add at least one more date for a custom series.",
+    "createEvent.seriesSuccessMessage": "Series created with {{count}} events.",
+    "createEvent.editScopeLabel": "Apply changes to",
+    "createEvent.editScope.this": "This occurrence",
+    "createEvent.editScope.future": "All future occurrences",
+    "createEvent.editScopeFutureHint":
+      "Text, capacity and time changes are copied to this and every later occurrence. Images and shifts only change on this one.",
+    "createEvent.shiftsLabel": "Shifts (optional)",
+    "createEvent.shiftLabelPlaceholder": "Shift name, e.g. Setup crew",
+    "createEvent.shiftStartPlaceholder": "Start (08:00)",
+    "createEvent.shiftEndPlaceholder": "End (11:00)",
+    "createEvent.addShiftButton": "Add shift",
+    "createEvent.removeShift": "Remove shift",
+    "createEvent.shiftCapacity": "Total capacity across shifts: {{count}}",
+    "createEvent.errorShift":
+      "Each shift needs a start and end time (HH:mm) on the event day, with the end after the start, and at least one volunteer.",
+    "createEvent.tasksLabel": "Tasks",
+    "createEvent.taskTitlePlaceholder": "Task, e.g. Hand out gloves",
+    "createEvent.taskDescriptionPlaceholder":
+      "What the task involves (optional)",
+    "createEvent.taskHeadcountPlaceholder": "People needed",
+    "createEvent.taskSkillPlaceholder": "Required skill (optional)",
+    "createEvent.addTaskButton": "Add task",
+    "createEvent.removeTask": "Remove task",
+    "createEvent.errorTask":
+      "Each task needs a title and a number of people of at least 1.",
+    "createEvent.bringListLabel": "What to bring",
+    "createEvent.bringItemPlaceholder": "Item, e.g. Wheelbarrow",
+    "createEvent.bringQuantityPlaceholder": "Qty",
+    "createEvent.addBringItemButton": "Add item",
+    "createEvent.removeBringItem": "Remove item",
+    "createEvent.errorBringItem":
+      "Each item to bring needs a name and a quantity of at least 1.",
+    "createEvent.findOnMapButton": "Find on map",
+    "createEvent.useMyLocationButton": "Use my location",
+    "createEvent.pickedLocation": "Event location",
+    "createEvent.mapPickHint": "Tap the map to move the pin.",
+    "createEvent.noCoordinatesHint":
+      "Place the event on the map so volunteers nearby can find it.",
+    "createEvent.errorLocationTextMissing":
+      "Type an address or place name first.",
 
     "eventList.searchPlaceholder": "Discover meaningful volunteer moments",
     "eventList.filter.all": "All",
@@ -99,12 +157,25 @@ export const translations: Record<SupportedLanguage, Record<string, string>> = {
     "eventList.filter.other": "Other",
     "eventList.toggle.all": "All events",
     "eventList.toggle.featured": "Featured only",
+    "eventList.toggle.cancelled": "Show cancelled",
+    "eventList.toggle.map": "Map",
+    "eventList.toggle.list": "List",
+    "eventList.distance.any": "Any distance",
+    "eventList.distance.within": "Within {{km}} km",
+    "eventList.distance.nearestFirst": "Nearest first",
+    "eventList.unplaced":
+      "{{count}} event(s) have no map location and are not shown.",
     "eventList.createButton": "Create event",
     "eventList.emptyTitle": "No events just yet",
     "eventList.emptySubtitle":
       "Adjust your search or add a new event to inspire others.",
 
     "eventCard.volunteerCount": "{{current}}/{{max}} volunteers",
+    "eventCard.cancelled": "Cancelled",
+    "eventCard.series": "Series · {{recurrence}}",
+    "eventCard.distance": "{{distance}} km away",
+    "eventCard.shiftSpotsLeft":
+      "{{remaining}} spots left across {{shifts}} shifts",
 
     "eventDetails.loading": "Loading details...",
     "eventDetails.notFound": "Event not found.",
@@ -123,9 +194,83 @@ export const translations: Record<SupportedLanguage, Record<string, string>> = {
     "eventDetails.withdrawButton": "Withdraw",
     "eventDetails.withdrawLoading": "Withdrawing...",
     "eventDetails.fullLabel": "All spots are currently filled",
+    "eventDetails.joinWaitlistButton": "Join the waitlist",
+    "eventDetails.leaveWaitlistButton": "Leave the waitlist",
+    "eventDetails.waitlistedLabel":
+      "You are #{{position}} on the waitlist. We'll give you the next free spot.",
+    "eventDetails.waitlistedLabelPending": "You are on the waitlist.",
+    "eventDetails.fullWaitlistHint":
+      "All spots are filled. {{count}} on the waitlist.",
+    "eventDetails.errorWaitlist": "Failed to join the waitlist.",
+    "eventDetails.attendedLabel": "You attended this event. Thank you!",
+    "eventDetails.noShowLabel": "You were marked as not attending.",
     "eventDetails.ownerActionsTitle": "Organiser tools",
     "eventDetails.editButton": "Edit event",
     "eventDetails.manageButton": "Manage participants",
+    "eventDetails.checkInCodeButton": "Show check-in QR code",
+    "eventDetails.scanCheckInButton": "Scan check-in code",
+    "eventDetails.cancelEventButton": "Cancel event",
+    "eventDetails.cancelLoading": "Cancelling...",
+    "eventDetails.cancelReasonPlaceholder":
+      "Tell volunteers why the event is cancelled",
+    "eventDetails.cancelReasonRequired": "Please give a reason for cancelling.",
+    "eventDetails.cancelConfirmTitle": "Cancel event?",
+    "eventDetails.cancelConfirmMessage":
+      "Sign-ups will close and everyone signed up or on the waitlist will be notified.",
+    "eventDetails.cancelSuccess":
+      "Event cancelled. Participants have been notified.",
+    "eventDetails.errorCancel": "Failed to cancel event.",
+    "eventDetails.errorAlreadyCancelled":
+      "This event has already been cancelled.",
+    "eventDetails.cancelledTitle": "This event has been cancelled",
+    "eventDetails.cancelledNoReason": "The organiser did not give a reason.",
+    "eventDetails.announcementTitle": "Announcement from the organiser",
+    "eventDetails.cancelledLabel":
+      "Sign-ups are closed because the event was cancelled.",
+    "eventDetails.sectionSeries": "Part of a series",
+    "eventDetails.seriesSummary":
+      "{{recurrence}} · {{count}} more upcoming dates",
+    "eventDetails.seriesMore": "and {{count}} more",
+    "eventDetails.seriesSignUpButton": "Sign up for the whole series",
+    "eventDetails.seriesSignUpLoading": "Signing up...",
+    "eventDetails.seriesShiftsHint":
+      "This series has shifts. Open each date to pick the shifts you want.",
+    "eventDetails.seriesSignUpTitle": "Series sign-up",
+    "eventDetails.seriesSignUpResult":
+      "Signed up for {{signedUp}} dates, waitlisted for {{waitlisted}}. {{skipped}} dates were already registered or unavailable.",
+    "eventDetails.sectionShifts": "Shifts",
+    "eventDetails.shiftCapacity": "{{current}}/{{max}} volunteers",
+    "eventDetails.shiftFull": "Full ({{max}} volunteers)",
+    "eventDetails.signUpShiftsButton": "Sign up for selected shifts",
+    "eventDetails.updateShiftsButton": "Update my shifts",
+    "eventDetails.shiftsSaving": "Saving...",
+    "eventDetails.pickShiftsHint": "Pick one or more shifts above to sign up.",
+    "eventDetails.taskStaffing": "{{current}}/{{count}} volunteers",
+    "eventDetails.taskFull": "Fully staffed ({{count}} volunteers)",
+    "eventDetails.taskSkill": "Needs: {{skill}}",
+    "eventDetails.taskDoneAt": "Done at {{time}}",
+    "eventDetails.taskMarkDone": "Mark task as done",
+    "eventDetails.taskMarkUndone": "Mark task as not done",
+    "eventDetails.saveTasksButton": "Save my tasks",
+    "eventDetails.tasksSaving": "Saving...",
+    "eventDetails.pickTasksHint":
+      "Tick the tasks you want to take on; they are claimed when you sign up.",
+    "eventDetails.errorTasks": "Failed to update tasks.",
+    "eventDetails.sectionBringList": "What to bring",
+    "eventDetails.bringItem": "{{name}} × {{count}}",
+    "eventDetails.bringCovered": "Covered",
+    "eventDetails.bringMissing": "{{count}} still needed",
+    "eventDetails.bringMine": "you bring {{count}}",
+    "eventDetails.bringLess": "Bring one less",
+    "eventDetails.bringMore": "Bring one more",
+    "eventDetails.saveBringingButton": "Save what I bring",
+    "eventDetails.bringSignUpHint": "Sign up to commit to bringing something.",
+    "eventDetails.errorBringing": "Failed to save what you bring.",
+    "eventDetails.directionsButton": "Get directions",
+    "eventDetails.errorDirections": "Could not open the maps app.",
+    "eventDetails.addToCalendarButton": "Add to calendar",
+    "eventDetails.errorCalendar":
+      "Could not export the event to your calendar.",
     "eventDetails.deleteLoading": "Deleting...",
     "eventDetails.deleteButton": "Delete event",
     "eventDetails.deleteConfirmTitle": "Delete event?",
@@ -133,31 +278,77 @@ export const translations: Record<SupportedLanguage, Record<string, string>> = {
       "This will remove the event and all participant records.",
     "eventDetails.deleteSuccess": "Event deleted.",
     "eventDetails.errorDelete": "Failed to delete event.",
+    "eventDetails.errorDeletePartial":
+      "Some data could not be removed ({{targets}}). The event was kept; try deleting it again.",
+    "eventDetails.deleteTarget.participations": "sign-ups",
+    "eventDetails.deleteTarget.favorites": "favourites",
+    "eventDetails.deleteTarget.checkInTokens": "check-in codes",
+    "eventDetails.deleteTarget.comments": "comments",
+    "eventDetails.deleteTarget.announcements": "announcements",
+    "eventDetails.deleteTarget.images": "images",
     "eventDetails.errorNotOwner": "You are not allowed to manage this event.",
     "eventDetails.shareButton": "Share",
-    "eventDetails.shareMessage": "Sharing is coming soon.",
+    "eventDetails.linkCopied": "Event details and link copied to the clipboard.",
+    "eventDetails.errorShare": "Could not share the event.",
     "eventDetails.commentsTitle": "Comments",
     "eventDetails.writeCommentPlaceholder": "Write a comment...",
     "eventDetails.sending": "Sending...",
+    "eventDetails.pendingSync": "Waiting to sync",
+    "eventDetails.pending.sign_up":
+      "Sign-up saved offline. It will be sent when you are back online.",
+    "eventDetails.pending.join_waitlist":
+      "Waitlist request saved offline. It will be sent when you are back online.",
+    "eventDetails.pending.withdraw":
+      "Withdrawal saved offline. It will be sent when you are back online.",
+    "eventDetails.pending.shifts":
+      "Shift choice saved offline. It will be sent when you are back online.",
 
 
     "myEvents.loginPrompt": "Log in to see your events.",
     "myEvents.emptyTitle": "No adventures booked yet",
     "myEvents.emptySubtitle":
       "Explore the discover tab and reserve a spot that excites you.",
+    "myEvents.calendarFeedButton": "Calendar feed",
+    "myEvents.calendarFeedHint":
+      "Subscribe to this link in your calendar app to always see the events you are signed up for. Changes by organisers show up automatically.",
+    "myEvents.calendarFeedSubscribe": "Subscribe",
+    "myEvents.calendarFeedShare": "Share link",
+    "myEvents.calendarFeedReset": "New link",
+    "myEvents.calendarFeedResetHint":
+      "A new link stops the old one from working.",
+    "myEvents.calendarFeedError": "Could not load your calendar feed.",
 
     "profile.loginPrompt": "Log in to see your profile.",
     "profile.totalEvents": "total events",
     "profile.upcoming": "upcoming",
     "profile.completed": "completed",
+    "profile.hours": "hours",
+    "profile.hoursByYear": "Hours per year:",
+    "profile.hoursInYear": "{{year}}: {{hours}}",
     "profile.switchToOrganiser": "Switch to organiser",
     "profile.switchToVolunteer": "Switch to volunteer",
     "profile.favouritesTitle": "Favourite events",
     "profile.favouritesHint": "Scroll to see all your saved events.",
     "profile.noFavourites": "You have not saved any favourites yet.",
     "profile.signOut": "Sign out",
+    "profile.moderation": "Reported comments",
+    "profile.moderationCount": "Reported comments ({{count}})",
     "profile.role.volunteer": "volunteer",
     "profile.role.organiser": "organiser",
+    "profile.notificationsTitle": "Notifications",
+    "profile.notificationsDisabled":
+      "Notifications are turned off for DugnadHub in your phone's settings.",
+    "profile.notificationChannel.reminder_24h": "Reminder the day before",
+    "profile.notificationChannel.reminder_2h": "Reminder 2 hours before",
+    "profile.notificationChannel.event_cancelled": "Event cancelled",
+    "profile.notificationChannel.time_changed": "New start time",
+    "profile.notificationChannel.waitlist_promoted":
+      "Moved up from the waitlist",
+    "profile.notificationChannel.new_comment": "New comments",
+    "profile.notificationChannel.removed": "Removed from an event",
+    "profile.notificationChannel.announcement": "Organiser announcements",
+    "profile.notificationChannel.question_answered": "Answers to my questions",
+    "profile.notificationChannel.mentioned": "Mentions in comments",
 
     "manageParticipants.title": "Participants",
     "manageParticipants.subtitle":
@@ -175,8 +366,23 @@ export const translations: Record<SupportedLanguage, Record<string, string>> = {
     "manageParticipants.loading": "Loading participants...",
     "manageParticipants.empty": "No participants have signed up yet.",
     "manageParticipants.section.active": "Active volunteers",
+    "manageParticipants.section.waitlist": "Waitlist ({{count}})",
     "manageParticipants.section.withdrawn": "Withdrawn",
     "manageParticipants.section.attended": "Attended",
+    "manageParticipants.section.noShow": "No-show",
+    "manageParticipants.section.shift": "{{shift}} ({{current}}/{{max}})",
+    "manageParticipants.section.noShift": "Signed up without a shift",
+    "manageParticipants.shiftEmpty": "Nobody has signed up for this shift yet.",
+    "manageParticipants.shifts": "Shifts: {{shifts}}",
+    "manageParticipants.section.tasks": "Task staffing",
+    "manageParticipants.taskStaffing": "{{task}} ({{current}}/{{count}})",
+    "manageParticipants.taskUnstaffed": "Nobody has claimed this task yet.",
+    "manageParticipants.tasks": "Tasks: {{tasks}}",
+    "manageParticipants.assignTasksAction": "Tasks",
+    "manageParticipants.errorTasks": "Failed to update the volunteer's tasks.",
+    "manageParticipants.bringing": "Bringing: {{items}}",
+    "manageParticipants.bringCoverage":
+      "{{name}} ({{current}}/{{count}} covered)",
     "manageParticipants.removeAction": "Remove",
     "manageParticipants.removeConfirmTitle": "Remove participant?",
     "manageParticipants.removeConfirmMessage":
@@ -186,12 +392,275 @@ export const translations: Record<SupportedLanguage, Record<string, string>> = {
     "manageParticipants.reinstateConfirmMessage":
       "Reinstate {{name}} to the active volunteer list.",
     "manageParticipants.status.signed_up": "Signed up",
+    "manageParticipants.status.waitlisted": "Waitlisted",
     "manageParticipants.status.withdrawn": "Withdrawn",
     "manageParticipants.status.attended": "Attended",
+    "manageParticipants.status.no_show": "No-show",
+    "manageParticipants.checkInModeOff": "Start check-in",
+    "manageParticipants.checkInModeOn": "Check-in active",
+    "manageParticipants.markAttendedAction": "Present",
+    "manageParticipants.markNoShowAction": "No-show",
+    "manageParticipants.undoMarkAction": "Undo",
+    "manageParticipants.markAllAction": "Mark everyone present",
+    "manageParticipants.markAllLoading": "Marking...",
+    "manageParticipants.markAllConfirmTitle": "Mark everyone present?",
+    "manageParticipants.markAllConfirmMessage":
+      "{{count}} volunteers who are not checked in yet will be marked as attended.",
+    "manageParticipants.markedBy": "Marked by {{name}}",
+    "manageParticipants.markedByAt": "Marked by {{name}} at {{time}}",
+    "manageParticipants.markedByYou": "you",
+    "manageParticipants.markedBySelf": "self check-in",
+    "manageParticipants.errorAttendance": "Failed to update attendance.",
+    "manageParticipants.checkOutAction": "Check out",
+    "manageParticipants.editHoursAction": "Edit hours",
+    "manageParticipants.saveHoursAction": "Save",
+    "manageParticipants.hoursPlaceholder": "Hours",
+    "manageParticipants.hoursSpan": "{{hours}} h ({{from}}–{{to}})",
+    "manageParticipants.hoursOpen": "Checked in at {{from}}, not checked out yet",
+    "manageParticipants.hoursOverride": "{{hours}} h (set by organiser)",
+    "manageParticipants.totalHours": "{{hours}} volunteer hours logged",
+    "manageParticipants.errorHours": "Failed to save hours.",
+    "manageParticipants.pending.attended": "Marked present, waiting to sync",
+    "manageParticipants.pending.no_show": "Marked no-show, waiting to sync",
+    "manageParticipants.pending.cleared": "Mark undone, waiting to sync",
     "manageParticipants.joined": "Joined {{date}}",
     "manageParticipants.joinedUnknown": "Join date unavailable",
+    "manageParticipants.queuePosition": "#{{position}} in the queue",
     "manageParticipants.capacity": "{{current}} of {{max}} spots filled",
     "manageParticipants.unknownUser": "Unknown volunteer",
+
+    "checkInCode.title": "Volunteer check-in",
+    "checkInCode.subtitle": "Let volunteers scan this code to check themselves in.",
+    "checkInCode.subtitleWithName":
+      "Volunteers scan this code to check in to {{title}}.",
+    "checkInCode.validUntil": "Valid until {{time}}",
+    "checkInCode.hint":
+      "The code refreshes automatically while this screen is open. Old codes stop working.",
+    "checkInCode.refreshButton": "New code now",
+    "checkInCode.errorIssue": "Failed to create a check-in code.",
+
+    "scanCheckIn.hint": "Point the camera at the organiser's check-in code.",
+    "scanCheckIn.permission":
+      "Camera access is needed to scan the check-in code.",
+    "scanCheckIn.allowCamera": "Allow camera",
+    "scanCheckIn.unknownCode": "This is not a DugnadHub check-in code.",
+
+    "checkIn.title": "Check in to this event?",
+    "checkIn.successTitle": "You're checked in!",
+    "checkIn.confirm": "Confirm check-in",
+    "checkIn.confirmLoading": "Checking in...",
+    "checkIn.viewEvent": "View event",
+    "checkIn.errorGeneric": "Failed to check in.",
+
+    "participation.error.event_missing": "This event no longer exists.",
+    "participation.error.event_cancelled": "This event has been cancelled.",
+    "participation.error.shift_required": "Pick at least one shift.",
+    "participation.error.shift_missing":
+      "One of the chosen shifts no longer exists.",
+    "participation.error.shift_full":
+      "One of the chosen shifts is already full.",
+    "participation.error.shift_in_use":
+      "A shift with volunteers signed up cannot be removed.",
+    "participation.error.shifts_locked":
+      "Shifts cannot be added or removed entirely once volunteers have signed up.",
+    "participation.error.participation_missing":
+      "This registration could not be found.",
+    "participation.error.event_full":
+      "Sorry, the event just filled up. Someone took the last spot a moment before you.",
+    "participation.error.already_signed_up":
+      "You are already signed up for this event.",
+    "participation.error.already_waitlisted":
+      "You are already on the waitlist for this event.",
+    "participation.error.capacity_below_signed_up":
+      "Max volunteers cannot be lower than the number already signed up.",
+    "participation.error.not_signed_up":
+      "You need to be signed up for this event to check in.",
+    "participation.error.already_checked_in": "You are already checked in.",
+    "participation.error.invalid_hours":
+      "Hours must be a number between 0 and 24.",
+    "participation.error.invalid_check_in_code":
+      "This check-in code is not valid for this event.",
+    "participation.error.expired_check_in_code":
+      "This check-in code has expired. Scan the code on the organiser's screen again.",
+    "participation.error.task_missing":
+      "One of the chosen tasks no longer exists.",
+    "participation.error.task_full":
+      "One of the chosen tasks already has all the volunteers it needs.",
+    "participation.error.task_unregistered":
+      "Sign up for the event before claiming tasks.",
+    "participation.error.bring_unregistered":
+      "Sign up for the event before committing to bring anything.",
+    "participation.error.bring_item_missing":
+      "One of the items is no longer on the list.",
+    "participation.error.bring_item_covered":
+      "Someone has already committed to bringing that. Check what is still needed.",
+    "participation.error.bring_list_committed":
+      "Volunteers have committed to bringing items you removed or reduced in later occurrences. Keep them at least at the committed quantities.",
+    "connectivity.offline":
+      "You are offline. Changes will sync when you reconnect.",
+    "connectivity.offlinePending":
+      "You are offline. {{count}} change(s) waiting to sync.",
+    "connectivity.syncing": "Syncing {{count}} pending change(s)...",
+    "connectivity.dismiss": "Dismiss",
+    "connectivity.conflict.sign_up": "Sign-up could not be synced",
+    "connectivity.conflict.join_waitlist":
+      "Waitlist request could not be synced",
+    "connectivity.conflict.withdraw": "Withdrawal could not be synced",
+    "connectivity.conflict.attendance": "Attendance could not be synced",
+    "connectivity.conflict.comment": "Comment could not be synced",
+    "connectivity.conflict.shifts": "Shift choice could not be synced",
+    "connectivity.conflict.tasks": "Task choice could not be synced",
+    "connectivity.conflict.task_done": "Task progress could not be synced",
+    "recurrence.none": "Does not repeat",
+    "recurrence.weekly": "Every week",
+    "recurrence.biweekly": "Every other week",
+    "recurrence.monthly": "Every month",
+    "recurrence.custom": "Custom dates",
+    "location.error.permission_denied":
+      "Location access was denied. Allow it in your device settings to use your position.",
+    "location.error.unavailable":
+      "Your position or the map lookup is not available right now.",
+    "location.error.not_found":
+      "Could not find that place on the map. Try a more specific address.",
+    "map.webUnavailable": "The map is only available in the mobile app.",
+    "notifications.channel.reminders": "Event reminders",
+    "notifications.channel.notices": "Event updates",
+    "notifications.reminder_24h": "Tomorrow: {{time}}, {{location}}",
+    "notifications.reminder_2h": "Starts in 2 hours: {{time}}, {{location}}",
+    "inbox.title": "Inbox",
+    "inbox.markAllRead": "Mark all as read",
+    "inbox.messages": "Messages",
+    "inbox.messagesUnread": "Messages ({{count}})",
+    "inbox.emptyTitle": "No notifications yet",
+    "inbox.emptySubtitle":
+      "Updates about the events you join or organise show up here.",
+    "inbox.loginPrompt": "Log in to see your notifications.",
+    "inbox.errorMarkRead": "Could not mark the notifications as read.",
+    "inbox.type.event_cancelled": "The event has been cancelled.",
+    "inbox.type.waitlist_promoted":
+      "A spot opened up and you are now signed up.",
+    "inbox.type.time_changed": "The event now starts {{date}}.",
+    "inbox.type.new_comment": "New comment on the event.",
+    "inbox.type.removed": "The organiser removed you from the event.",
+    "inbox.type.announcement": "Announcement from the organiser:",
+    "inbox.type.question_answered": "The organiser answered your question:",
+    "inbox.type.mentioned": "You were mentioned in a comment:",
+    "announcement.announceAction": "Announce",
+    "announcement.audience":
+      "Goes to {{count}} volunteers who are signed up, on the waitlist or attended.",
+    "announcement.placeholder": "Write an announcement",
+    "announcement.send": "Send announcement",
+    "announcement.sending": "Sending...",
+    "announcement.sectionTitle": "Announcements",
+    "announcement.stats":
+      "{{date}} · delivered to {{delivered}} · read by {{read}}",
+    "announcement.errorSend": "Failed to send the announcement.",
+    "announcement.error.empty": "Write a message first.",
+    "announcement.error.too_long":
+      "Announcements can be at most {{max}} characters.",
+    "announcement.error.no_recipients":
+      "Nobody is signed up yet, so there is no one to tell.",
+    "comments.unknownUser": "Unknown user",
+    "comments.reply": "Reply",
+    "comments.replyingTo": "Replying to {{name}}",
+    "comments.replyPlaceholder": "Write a reply...",
+    "comments.edit": "Edit",
+    "comments.save": "Save",
+    "comments.saving": "Saving...",
+    "comments.edited": "Edited",
+    "comments.editedShowHistory": "Edited · show earlier versions",
+    "comments.hideHistory": "Hide earlier versions",
+    "comments.revisionBefore": "Until {{date}}:",
+    "comments.showOlder": "Show older comments",
+    "comments.deleteTitle": "Delete comment",
+    "comments.deleteMessage": "Are you sure?",
+    "comments.deleteThreadMessage":
+      "Its {{count}} replies will be deleted too.",
+    "comments.deleteAction": "Delete",
+    "comments.reaction.thumbs_up": "Thumbs up",
+    "comments.reaction.heart": "Heart",
+    "comments.reaction.clap": "Applause",
+    "comments.reaction.laugh": "Laugh",
+    "comments.errorSend": "Could not send the comment. Please try again.",
+    "comments.errorEdit": "Could not save the change.",
+    "comments.errorReaction": "Could not save the reaction.",
+    "comments.errorHistory": "Could not load earlier versions.",
+    "comments.errorDelete": "Could not delete the comment.",
+    "comments.error.empty": "The comment cannot be empty.",
+    "comments.error.unchanged": "Nothing was changed.",
+    "comments.error.blocked_words":
+      "The comment contains words that are not allowed here.",
+    "comments.error.rate_limited":
+      "You are commenting too often. Wait a few minutes and try again.",
+    "comments.report": "Report",
+    "comments.reported": "Reported",
+    "comments.reportTitle": "Report comment",
+    "comments.reportMessage": "Why should the organiser look at this comment?",
+    "comments.reportedTitle": "Thanks",
+    "comments.reportedMessage":
+      "The organiser has been asked to review the comment.",
+    "comments.hide": "Hide",
+    "comments.unhide": "Show again",
+    "comments.hidden": "This comment was hidden by the organiser.",
+    "comments.hiddenAutomatically": "This comment was hidden automatically.",
+    "comments.hiddenForOthers": "Hidden from everyone else",
+    "comments.collapsed":
+      "Several people reported this comment. Tap to show it.",
+    "comments.errorReport": "Could not report the comment.",
+    "comments.errorHide": "Could not change whether the comment is hidden.",
+    "comments.organiser": "organiser",
+    "comments.error.too_many_mentions":
+      "A comment can mention at most 10 people.",
+    "moderation.reason.offensive": "Offensive",
+    "moderation.reason.spam": "Spam",
+    "moderation.reportSummary": "Reported {{count}} time(s): {{reasons}}",
+    "moderation.alreadyHidden": "Already hidden",
+    "moderation.commentDeleted": "The comment has been deleted.",
+    "moderation.hide": "Hide comment",
+    "moderation.dismiss": "Dismiss reports",
+    "moderation.openEvent": "Open event",
+    "moderation.emptyTitle": "No open reports",
+    "moderation.emptySubtitle":
+      "Comments people report on your events show up here.",
+    "moderation.errorResolve": "Could not resolve the reports.",
+    "questions.faqTitle": "Questions and answers",
+    "questions.badge": "Question",
+    "questions.pinnedBadge": "Question · in FAQ",
+    "questions.markAsQuestion": "Mark as question",
+    "questions.unmark": "Not a question",
+    "questions.answer": "Answer",
+    "questions.editAnswer": "Edit answer",
+    "questions.answerLabel": "Answer from the organiser",
+    "questions.answerPlaceholder": "Write an answer...",
+    "questions.saveAnswer": "Save answer",
+    "questions.pin": "Pin to FAQ",
+    "questions.unpin": "Unpin from FAQ",
+    "questions.shareQuestionLabel": "Q",
+    "questions.shareAnswerLabel": "A",
+    "questions.errorAnswer": "Could not save the answer.",
+    "questions.errorUpdate": "Could not update the question.",
+    "questions.error.empty": "The answer cannot be empty.",
+    "questions.error.not_answered": "Answer the question before pinning it.",
+    "messages.contactOrganiser": "Contact organiser",
+    "messages.messageAction": "Message",
+    "messages.emptyTitle": "No messages yet",
+    "messages.emptySubtitle":
+      "Private conversations with organisers and volunteers show up here.",
+    "messages.noMessagesYet": "No messages yet",
+    "messages.youWrote": "You: {{message}}",
+    "messages.unknownUser": "Unknown user",
+    "messages.organiser": "organiser",
+    "messages.withUser": "With {{name}}",
+    "messages.notFound": "This conversation could not be found.",
+    "messages.startConversation":
+      "Only the two of you can see these messages. Say hello!",
+    "messages.placeholder": "Write a message...",
+    "messages.send": "Send",
+    "messages.sending": "Sending...",
+    "messages.errorOpen": "Could not open the conversation.",
+    "messages.errorSend": "Could not send the message.",
+    "messages.error.empty": "The message cannot be empty.",
+    "messages.error.too_long": "Messages can be at most {{max}} characters.",
   },
   no: {
     "language.english": "Engelsk",
@@ -227,10 +696,17 @@ export const translations: Record<SupportedLanguage, Record<string, string>> = {
     "navigation.discover": "Utforsk",
     "navigation.myEvents": "Mine arrangementer",
     "navigation.create": "Opprett",
+    "navigation.inbox": "Innboks",
     "navigation.profile": "Profil",
     "navigation.eventDetailsTitle": "Arrangementsdetaljer",
     "navigation.editEventTitle": "Rediger arrangement",
     "navigation.manageParticipantsTitle": "Administrer deltakere",
+    "navigation.checkInCodeTitle": "Innsjekkingskode",
+    "navigation.scanCheckInTitle": "Skann innsjekkingskode",
+    "navigation.checkInTitle": "Sjekk inn",
+    "navigation.moderationTitle": "Rapporterte kommentarer",
+    "navigation.conversationsTitle": "Meldinger",
+    "navigation.conversationTitle": "Samtale",
 
     "createEvent.authRequired": "Du må være innlogget.",
     "createEvent.organiserOnly": "Bare arrangører kan opprette arrangementer.",
@@ -238,6 +714,8 @@ export const translations: Record<SupportedLanguage, Record<string, string>> = {
       "Tittel, dato/klokkeslett og sted er påkrevd.",
     "createEvent.errorMaxVolunteers":
       "Maks antall frivillige må være et positivt tall.",
+    "createEvent.errorMaxBelowSignedUp":
+      "{{count}} frivillige er allerede påmeldt. Maks antall kan ikke være lavere.",
     "createEvent.errorLoadExisting": "Kunne ikke laste arrangementet.",
     "createEvent.errorNotOwner":
       "Du har ikke tilgang til å redigere dette arrangementet.",
@@ -258,7 +736,6 @@ export const translations: Record<SupportedLanguage, Record<string, string>> = {
     "createEvent.sectionEssentials": "Grunnleggende",
     "createEvent.eventTitlePlaceholder": "Arrangementstittel",
     "createEvent.eventDescriptionPlaceholder": "Beskriv opplevelsen",
-    "createEvent.tasksPlaceholder": "Viktige oppgaver og forventninger",
     "createEvent.eventTypeLabel": "Arrangementstype",
     "createEvent.categoryPlaceholder": "Kategori (f.eks. Rydding, Sosial)",
     "createEvent.locationPlaceholder": "Hvor skal frivillige møtes?",
@@ -278,6 +755,58 @@ export const translations: Record<SupportedLanguage, Record<string, string>> = {
     "createEvent.datePromptTitle": "Velg dato og klokkeslett",
     "createEvent.datePromptMessage": "Skriv inn dato og tid (ÅÅÅÅ-MM-DD TT:mm)",
     "createEvent.datePromptInvalid": "Bruk formatet ÅÅÅÅ-MM-DD TT:mm.",
+    "createEvent.dayPromptMessage": "Skriv inn en dato (ÅÅÅÅ-MM-DD)",
+    "createEvent.recurrenceLabel": "Gjentas",
+    "createEvent.repeatUntilPlaceholder": "Gjenta til...",
+    "createEvent.repeatUntilValue": "Gjentas til {{date}}",
+    "createEvent.addDateButton": "Legg til dato",
+    "createEvent.occurrenceCount":
+      "Oppretter {{count}} arrangementer i denne serien.",
+    "createEvent.errorRepeatUntil":
+      "Velg en sluttdato etter første arrangement, slik at serien får minst to datoer.",
+    "createEvent.errorCustomDates":
+      "Legg til minst én dato til for en egendefinert serie.",
+    "createEvent.seriesSuccessMessage":
+      "Serien er opprettet med {{count}} arrangementer.",
+    "createEvent.editScopeLabel": "Bruk endringene på",
+    "createEvent.editScope.this": "Denne datoen",
+    "createEvent.editScope.future": "Alle kommende datoer",
+    "createEvent.editScopeFutureHint":
+      "Tekst, kapasitet og tidspunkt kopieres til denne og alle senere datoer. Bilder og vakter endres bare her.",
+    "createEvent.shiftsLabel": "Vakter (valgfritt)",
+    "createEvent.shiftLabelPlaceholder": "Navn på vakten, f.eks. Oppsett",
+    "createEvent.shiftStartPlaceholder": "Start (08:00)",
+    "createEvent.shiftEndPlaceholder": "Slutt (11:00)",
+    "createEvent.addShiftButton": "Legg til vakt",
+    "createEvent.removeShift": "Fjern vakt",
+    "createEvent.shiftCapacity": "Total kapasitet for alle vakter: {{count}}",
+    "createEvent.errorShift":
+      "Hver vakt trenger start- og sluttid (TT:mm) på arrangementsdagen, slutt etter start, og minst én frivillig.",
+    "createEvent.tasksLabel": "Oppgaver",
+    "createEvent.taskTitlePlaceholder": "Oppgave, f.eks. Dele ut hansker",
+    "createEvent.taskDescriptionPlaceholder":
+      "Hva oppgaven går ut på (valgfritt)",
+    "createEvent.taskHeadcountPlaceholder": "Antall personer",
+    "createEvent.taskSkillPlaceholder": "Nødvendig ferdighet (valgfritt)",
+    "createEvent.addTaskButton": "Legg til oppgave",
+    "createEvent.removeTask": "Fjern oppgave",
+    "createEvent.errorTask":
+      "Hver oppgave trenger en tittel og minst 1 person.",
+    "createEvent.bringListLabel": "Hva man tar med",
+    "createEvent.bringItemPlaceholder": "Ting, f.eks. Trillebår",
+    "createEvent.bringQuantityPlaceholder": "Antall",
+    "createEvent.addBringItemButton": "Legg til ting",
+    "createEvent.removeBringItem": "Fjern ting",
+    "createEvent.errorBringItem":
+      "Hver ting må ha et navn og et antall på minst 1.",
+    "createEvent.findOnMapButton": "Finn på kartet",
+    "createEvent.useMyLocationButton": "Bruk min posisjon",
+    "createEvent.pickedLocation": "Sted for arrangementet",
+    "createEvent.mapPickHint": "Trykk på kartet for å flytte nålen.",
+    "createEvent.noCoordinatesHint":
+      "Plasser arrangementet på kartet så frivillige i nærheten finner det.",
+    "createEvent.errorLocationTextMissing":
+      "Skriv inn en adresse eller et stedsnavn først.",
 
     "eventList.searchPlaceholder": "Utforsk meningsfulle frivillige øyeblikk",
     "eventList.filter.all": "Alle",
@@ -286,12 +815,25 @@ export const translations: Record<SupportedLanguage, Record<string, string>> = {
     "eventList.filter.other": "Annet",
     "eventList.toggle.all": "Alle arrangementer",
     "eventList.toggle.featured": "Bare fremhevede",
+    "eventList.toggle.cancelled": "Vis avlyste",
+    "eventList.toggle.map": "Kart",
+    "eventList.toggle.list": "Liste",
+    "eventList.distance.any": "Alle avstander",
+    "eventList.distance.within": "Innen {{km}} km",
+    "eventList.distance.nearestFirst": "Nærmest først",
+    "eventList.unplaced":
+      "{{count}} arrangement(er) mangler kartplassering og vises ikke.",
     "eventList.createButton": "Opprett arrangement",
     "eventList.emptyTitle": "Ingen arrangementer ennå",
     "eventList.emptySubtitle":
       "Justér søket ditt eller legg til et nytt arrangement for å inspirere andre.",
 
     "eventCard.volunteerCount": "{{current}}/{{max}} frivillige",
+    "eventCard.cancelled": "Avlyst",
+    "eventCard.series": "Serie · {{recurrence}}",
+    "eventCard.distance": "{{distance}} km unna",
+    "eventCard.shiftSpotsLeft":
+      "{{remaining}} ledige plasser fordelt på {{shifts}} vakter",
 
     "eventDetails.loading": "Laster detaljer...",
     "eventDetails.notFound": "Arrangement ikke funnet.",
@@ -310,9 +852,84 @@ export const translations: Record<SupportedLanguage, Record<string, string>> = {
     "eventDetails.withdrawButton": "Meld meg av",
     "eventDetails.withdrawLoading": "Melder deg av...",
     "eventDetails.fullLabel": "Alle plasser er fylt opp",
+    "eventDetails.joinWaitlistButton": "Sett meg på venteliste",
+    "eventDetails.leaveWaitlistButton": "Forlat ventelisten",
+    "eventDetails.waitlistedLabel":
+      "Du er nr. {{position}} på ventelisten. Du får neste ledige plass.",
+    "eventDetails.waitlistedLabelPending": "Du står på ventelisten.",
+    "eventDetails.fullWaitlistHint":
+      "Alle plasser er fylt. {{count}} på ventelisten.",
+    "eventDetails.errorWaitlist": "Kunne ikke sette deg på ventelisten.",
+    "eventDetails.attendedLabel": "Du deltok på dette arrangementet. Takk!",
+    "eventDetails.noShowLabel": "Du ble registrert som ikke møtt.",
     "eventDetails.ownerActionsTitle": "Arrangørverktøy",
     "eventDetails.editButton": "Rediger arrangement",
     "eventDetails.manageButton": "Administrer deltakere",
+    "eventDetails.checkInCodeButton": "Vis QR-kode for innsjekk",
+    "eventDetails.scanCheckInButton": "Skann innsjekkingskode",
+    "eventDetails.cancelEventButton": "Avlys arrangement",
+    "eventDetails.cancelLoading": "Avlyser...",
+    "eventDetails.cancelReasonPlaceholder":
+      "Fortell de frivillige hvorfor arrangementet avlyses",
+    "eventDetails.cancelReasonRequired": "Oppgi en grunn for avlysningen.",
+    "eventDetails.cancelConfirmTitle": "Avlyse arrangementet?",
+    "eventDetails.cancelConfirmMessage":
+      "Påmeldingen stenges, og alle som er påmeldt eller står på venteliste får beskjed.",
+    "eventDetails.cancelSuccess":
+      "Arrangementet er avlyst. Deltakerne har fått beskjed.",
+    "eventDetails.errorCancel": "Kunne ikke avlyse arrangementet.",
+    "eventDetails.errorAlreadyCancelled":
+      "Dette arrangementet er allerede avlyst.",
+    "eventDetails.cancelledTitle": "Dette arrangementet er avlyst",
+    "eventDetails.cancelledNoReason": "Arrangøren oppga ingen grunn.",
+    "eventDetails.announcementTitle": "Kunngjøring fra arrangøren",
+    "eventDetails.cancelledLabel":
+      "Påmeldingen er stengt fordi arrangementet er avlyst.",
+    "eventDetails.sectionSeries": "Del av en serie",
+    "eventDetails.seriesSummary":
+      "{{recurrence}} · {{count}} kommende datoer til",
+    "eventDetails.seriesMore": "og {{count}} til",
+    "eventDetails.seriesSignUpButton": "Meld deg på hele serien",
+    "eventDetails.seriesSignUpLoading": "Melder på...",
+    "eventDetails.seriesShiftsHint":
+      "Denne serien har skift. Åpne hver dato for å velge skiftene du vil ta.",
+    "eventDetails.seriesSignUpTitle": "Påmelding til serien",
+    "eventDetails.seriesSignUpResult":
+      "Påmeldt {{signedUp}} datoer, på venteliste for {{waitlisted}}. {{skipped}} datoer var allerede registrert eller utilgjengelige.",
+    "eventDetails.sectionShifts": "Vakter",
+    "eventDetails.shiftCapacity": "{{current}}/{{max}} frivillige",
+    "eventDetails.shiftFull": "Full ({{max}} frivillige)",
+    "eventDetails.signUpShiftsButton": "Meld deg på valgte vakter",
+    "eventDetails.updateShiftsButton": "Oppdater vaktene mine",
+    "eventDetails.shiftsSaving": "Lagrer...",
+    "eventDetails.pickShiftsHint":
+      "Velg én eller flere vakter over for å melde deg på.",
+    "eventDetails.taskStaffing": "{{current}}/{{count}} frivillige",
+    "eventDetails.taskFull": "Fullt bemannet ({{count}} frivillige)",
+    "eventDetails.taskSkill": "Krever: {{skill}}",
+    "eventDetails.taskDoneAt": "Ferdig kl. {{time}}",
+    "eventDetails.taskMarkDone": "Merk oppgaven som ferdig",
+    "eventDetails.taskMarkUndone": "Merk oppgaven som ikke ferdig",
+    "eventDetails.saveTasksButton": "Lagre oppgavene mine",
+    "eventDetails.tasksSaving": "Lagrer...",
+    "eventDetails.pickTasksHint":
+      "Kryss av oppgavene du vil ta; de blir dine når du melder deg på.",
+    "eventDetails.errorTasks": "Kunne ikke oppdatere oppgaver.",
+    "eventDetails.sectionBringList": "Hva man tar med",
+    "eventDetails.bringItem": "{{name}} × {{count}}",
+    "eventDetails.bringCovered": "Dekket",
+    "eventDetails.bringMissing": "{{count}} trengs fortsatt",
+    "eventDetails.bringMine": "du tar med {{count}}",
+    "eventDetails.bringLess": "Ta med én mindre",
+    "eventDetails.bringMore": "Ta med én til",
+    "eventDetails.saveBringingButton": "Lagre det jeg tar med",
+    "eventDetails.bringSignUpHint": "Meld deg på for å love å ta med noe.",
+    "eventDetails.errorBringing": "Kunne ikke lagre det du tar med.",
+    "eventDetails.directionsButton": "Veibeskrivelse",
+    "eventDetails.errorDirections": "Kunne ikke åpne kartappen.",
+    "eventDetails.addToCalendarButton": "Legg til i kalender",
+    "eventDetails.errorCalendar":
+      "Kunne ikke eksportere arrangementet til kalenderen.",
     "eventDetails.deleteLoading": "Sletter...",
     "eventDetails.deleteButton": "Slett arrangement",
     "eventDetails.deleteConfirmTitle": "Slette arrangement?",
@@ -320,32 +937,78 @@ export const translations: Record<SupportedLanguage, Record<string, string>> = {
       "Dette fjerner arrangementet og alle deltakerdata.",
     "eventDetails.deleteSuccess": "Arrangement slettet.",
     "eventDetails.errorDelete": "Kunne ikke slette arrangement.",
+    "eventDetails.errorDeletePartial":
+      "Noen data kunne ikke fjernes ({{targets}}). Arrangementet ble beholdt; prøv å slette det på nytt.",
+    "eventDetails.deleteTarget.participations": "påmeldinger",
+    "eventDetails.deleteTarget.favorites": "favoritter",
+    "eventDetails.deleteTarget.checkInTokens": "innsjekkingskoder",
+    "eventDetails.deleteTarget.comments": "kommentarer",
+    "eventDetails.deleteTarget.announcements": "kunngjøringer",
+    "eventDetails.deleteTarget.images": "bilder",
     "eventDetails.errorNotOwner":
       "Du har ikke tilgang til å administrere dette arrangementet.",
     "eventDetails.shareButton": "Del",
-    "eventDetails.shareMessage": "Deling kommer snart.",
+    "eventDetails.linkCopied": "Arrangementet og lenken er kopiert til utklippstavlen.",
+    "eventDetails.errorShare": "Kunne ikke dele arrangementet.",
     "eventDetails.commentsTitle": "Kommentarer",
     "eventDetails.writeCommentPlaceholder": "Skriv en kommentar...",
     "eventDetails.sending": "Sender...",
+    "eventDetails.pendingSync": "Venter på synkronisering",
+    "eventDetails.pending.sign_up":
+      "Påmeldingen er lagret frakoblet og sendes når du er på nett igjen.",
+    "eventDetails.pending.join_waitlist":
+      "Ventelisteforespørselen er lagret frakoblet og sendes når du er på nett igjen.",
+    "eventDetails.pending.withdraw":
+      "Avmeldingen er lagret frakoblet og sendes når du er på nett igjen.",
+    "eventDetails.pending.shifts":
+      "Vaktvalget er lagret frakoblet. Det sendes når du er på nett igjen.",
 
 
     "myEvents.loginPrompt": "Logg inn for å se dine arrangementer.",
     "myEvents.emptyTitle": "Ingen opplevelser reservert ennå",
     "myEvents.emptySubtitle":
       "Utforsk oppdagelsesfanen og reserver en plass som inspirerer deg.",
+    "myEvents.calendarFeedButton": "Kalenderstrøm",
+    "myEvents.calendarFeedHint":
+      "Abonner på denne lenken i kalenderappen din for alltid å se arrangementene du er påmeldt. Endringer fra arrangører kommer med automatisk.",
+    "myEvents.calendarFeedSubscribe": "Abonner",
+    "myEvents.calendarFeedShare": "Del lenke",
+    "myEvents.calendarFeedReset": "Ny lenke",
+    "myEvents.calendarFeedResetHint":
+      "En ny lenke gjør at den gamle slutter å virke.",
+    "myEvents.calendarFeedError": "Kunne ikke hente kalenderstrømmen din.",
 
     "profile.loginPrompt": "Logg inn for å se profilen din.",
     "profile.totalEvents": "totalt",
     "profile.upcoming": "kommende",
     "profile.completed": "fullført",
+    "profile.hours": "timer",
+    "profile.hoursByYear": "Timer per år:",
+    "profile.hoursInYear": "{{year}}: {{hours}}",
     "profile.switchToOrganiser": "Bytt til arrangør",
     "profile.switchToVolunteer": "Bytt til frivillig",
     "profile.favouritesTitle": "Favorittarrangementer",
     "profile.favouritesHint": "Rull for å se alle favorittene dine.",
     "profile.noFavourites": "Du har ikke lagret noen favoritter ennå.",
     "profile.signOut": "Logg ut",
+    "profile.moderation": "Rapporterte kommentarer",
+    "profile.moderationCount": "Rapporterte kommentarer ({{count}})",
     "profile.role.volunteer": "frivillig",
     "profile.role.organiser": "arrangør",
+    "profile.notificationsTitle": "Varsler",
+    "profile.notificationsDisabled":
+      "Varsler er slått av for DugnadHub i telefonens innstillinger.",
+    "profile.notificationChannel.reminder_24h": "Påminnelse dagen før",
+    "profile.notificationChannel.reminder_2h": "Påminnelse 2 timer før",
+    "profile.notificationChannel.event_cancelled": "Arrangement avlyst",
+    "profile.notificationChannel.time_changed": "Nytt starttidspunkt",
+    "profile.notificationChannel.waitlist_promoted":
+      "Flyttet opp fra ventelisten",
+    "profile.notificationChannel.new_comment": "Nye kommentarer",
+    "profile.notificationChannel.removed": "Fjernet fra et arrangement",
+    "profile.notificationChannel.announcement": "Kunngjøringer fra arrangører",
+    "profile.notificationChannel.question_answered": "Svar på spørsmålene mine",
+    "profile.notificationChannel.mentioned": "Når jeg blir nevnt i kommentarer",
 
     "manageParticipants.title": "Deltakere",
     "manageParticipants.subtitle":
@@ -363,8 +1026,25 @@ export const translations: Record<SupportedLanguage, Record<string, string>> = {
     "manageParticipants.loading": "Laster deltakere...",
     "manageParticipants.empty": "Ingen deltakere har meldt seg på ennå.",
     "manageParticipants.section.active": "Aktive frivillige",
+    "manageParticipants.section.waitlist": "Venteliste ({{count}})",
     "manageParticipants.section.withdrawn": "Trukket seg",
     "manageParticipants.section.attended": "Deltatt",
+    "manageParticipants.section.noShow": "Møtte ikke",
+    "manageParticipants.section.shift": "{{shift}} ({{current}}/{{max}})",
+    "manageParticipants.section.noShift": "Påmeldt uten vakt",
+    "manageParticipants.shiftEmpty":
+      "Ingen har meldt seg på denne vakten ennå.",
+    "manageParticipants.shifts": "Vakter: {{shifts}}",
+    "manageParticipants.section.tasks": "Bemanning av oppgaver",
+    "manageParticipants.taskStaffing": "{{task}} ({{current}}/{{count}})",
+    "manageParticipants.taskUnstaffed": "Ingen har tatt denne oppgaven ennå.",
+    "manageParticipants.tasks": "Oppgaver: {{tasks}}",
+    "manageParticipants.assignTasksAction": "Oppgaver",
+    "manageParticipants.errorTasks":
+      "Kunne ikke oppdatere oppgavene til den frivillige.",
+    "manageParticipants.bringing": "Tar med: {{items}}",
+    "manageParticipants.bringCoverage":
+      "{{name}} ({{current}}/{{count}} dekket)",
     "manageParticipants.removeAction": "Fjern",
     "manageParticipants.removeConfirmTitle": "Fjern deltaker?",
     "manageParticipants.removeConfirmMessage":
@@ -374,11 +1054,274 @@ export const translations: Record<SupportedLanguage, Record<string, string>> = {
     "manageParticipants.reinstateConfirmMessage":
       "Gjenopprett {{name}} til den aktive frivilliglisten.",
     "manageParticipants.status.signed_up": "Påmeldt",
+    "manageParticipants.status.waitlisted": "Venteliste",
     "manageParticipants.status.withdrawn": "Trukket",
     "manageParticipants.status.attended": "Deltatt",
+    "manageParticipants.status.no_show": "Møtte ikke",
+    "manageParticipants.checkInModeOff": "Start innsjekk",
+    "manageParticipants.checkInModeOn": "Innsjekk aktiv",
+    "manageParticipants.markAttendedAction": "Til stede",
+    "manageParticipants.markNoShowAction": "Møtte ikke",
+    "manageParticipants.undoMarkAction": "Angre",
+    "manageParticipants.markAllAction": "Marker alle som til stede",
+    "manageParticipants.markAllLoading": "Markerer...",
+    "manageParticipants.markAllConfirmTitle": "Marker alle som til stede?",
+    "manageParticipants.markAllConfirmMessage":
+      "{{count}} frivillige som ikke er sjekket inn ennå blir markert som deltatt.",
+    "manageParticipants.markedBy": "Markert av {{name}}",
+    "manageParticipants.markedByAt": "Markert av {{name}} kl. {{time}}",
+    "manageParticipants.markedByYou": "deg",
+    "manageParticipants.markedBySelf": "selvinnsjekk",
+    "manageParticipants.errorAttendance": "Kunne ikke oppdatere oppmøte.",
+    "manageParticipants.checkOutAction": "Sjekk ut",
+    "manageParticipants.editHoursAction": "Endre timer",
+    "manageParticipants.saveHoursAction": "Lagre",
+    "manageParticipants.hoursPlaceholder": "Timer",
+    "manageParticipants.hoursSpan": "{{hours}} t ({{from}}–{{to}})",
+    "manageParticipants.hoursOpen": "Sjekket inn kl. {{from}}, ikke sjekket ut ennå",
+    "manageParticipants.hoursOverride": "{{hours}} t (satt av arrangør)",
+    "manageParticipants.totalHours": "{{hours}} frivillige timer registrert",
+    "manageParticipants.errorHours": "Kunne ikke lagre timer.",
+    "manageParticipants.pending.attended":
+      "Markert til stede, venter på synkronisering",
+    "manageParticipants.pending.no_show":
+      "Markert som ikke møtt, venter på synkronisering",
+    "manageParticipants.pending.cleared":
+      "Markering angret, venter på synkronisering",
     "manageParticipants.joined": "Ble med {{date}}",
     "manageParticipants.joinedUnknown": "Ingen påmeldingsdato tilgjengelig",
+    "manageParticipants.queuePosition": "Nr. {{position}} i køen",
     "manageParticipants.capacity": "{{current}} av {{max}} plasser fylt",
     "manageParticipants.unknownUser": "Ukjent frivillig",
+
+    "checkInCode.title": "Innsjekk for frivillige",
+    "checkInCode.subtitle": "La frivillige skanne denne koden for å sjekke inn.",
+    "checkInCode.subtitleWithName":
+      "Frivillige skanner denne koden for å sjekke inn på {{title}}.",
+    "checkInCode.validUntil": "Gyldig til {{time}}",
+    "checkInCode.hint":
+      "Koden fornyes automatisk mens skjermen er åpen. Gamle koder slutter å virke.",
+    "checkInCode.refreshButton": "Ny kode nå",
+    "checkInCode.errorIssue": "Kunne ikke lage innsjekkingskode.",
+
+    "scanCheckIn.hint": "Rett kameraet mot arrangørens innsjekkingskode.",
+    "scanCheckIn.permission":
+      "Kameratilgang trengs for å skanne innsjekkingskoden.",
+    "scanCheckIn.allowCamera": "Gi kameratilgang",
+    "scanCheckIn.unknownCode": "Dette er ikke en innsjekkingskode fra DugnadHub.",
+
+    "checkIn.title": "Sjekke inn på dette arrangementet?",
+    "checkIn.successTitle": "Du er sjekket inn!",
+    "checkIn.confirm": "Bekreft innsjekk",
+    "checkIn.confirmLoading": "Sjekker inn...",
+    "checkIn.viewEvent": "Se arrangementet",
+    "checkIn.errorGeneric": "Kunne ikke sjekke inn.",
+
+    "participation.error.event_missing": "Dette arrangementet finnes ikke lenger.",
+    "participation.error.event_cancelled": "Dette arrangementet er avlyst.",
+    "participation.error.shift_required": "Velg minst én vakt.",
+    "participation.error.shift_missing":
+      "En av de valgte vaktene finnes ikke lenger.",
+    "participation.error.shift_full":
+      "En av de valgte vaktene er allerede full.",
+    "participation.error.shift_in_use":
+      "En vakt med påmeldte frivillige kan ikke fjernes.",
+    "participation.error.shifts_locked":
+      "Vakter kan ikke legges til eller fjernes helt etter at frivillige har meldt seg på.",
+    "participation.error.participation_missing":
+      "Fant ikke denne påmeldingen.",
+    "participation.error.event_full":
+      "Beklager, arrangementet ble akkurat fullt. Noen tok den siste plassen like før deg.",
+    "participation.error.already_signed_up":
+      "Du er allerede påmeldt dette arrangementet.",
+    "participation.error.already_waitlisted":
+      "Du står allerede på ventelisten for dette arrangementet.",
+    "participation.error.capacity_below_signed_up":
+      "Maks antall frivillige kan ikke være lavere enn antall påmeldte.",
+    "participation.error.not_signed_up":
+      "Du må være påmeldt arrangementet for å sjekke inn.",
+    "participation.error.already_checked_in": "Du er allerede sjekket inn.",
+    "participation.error.invalid_hours":
+      "Timer må være et tall mellom 0 og 24.",
+    "participation.error.invalid_check_in_code":
+      "Denne innsjekkingskoden gjelder ikke for dette arrangementet.",
+    "participation.error.expired_check_in_code":
+      "Innsjekkingskoden er utløpt. Skann koden på arrangørens skjerm på nytt.",
+    "participation.error.task_missing":
+      "En av de valgte oppgavene finnes ikke lenger.",
+    "participation.error.task_full":
+      "En av de valgte oppgavene har allerede nok frivillige.",
+    "participation.error.task_unregistered":
+      "Meld deg på arrangementet før du tar oppgaver.",
+    "participation.error.bring_unregistered":
+      "Meld deg på arrangementet før du lover å ta med noe.",
+    "participation.error.bring_item_missing":
+      "En av tingene står ikke lenger på listen.",
+    "participation.error.bring_item_covered":
+      "Noen har allerede lovet å ta med dette. Sjekk hva som fortsatt trengs.",
+    "participation.error.bring_list_committed":
+      "Frivillige har lovet å ta med ting du fjernet eller reduserte i senere arrangementer i serien. Behold dem minst med antallet som er lovet.",
+    "connectivity.offline":
+      "Du er frakoblet. Endringer synkroniseres når du er på nett igjen.",
+    "connectivity.offlinePending":
+      "Du er frakoblet. {{count}} endring(er) venter på synkronisering.",
+    "connectivity.syncing": "Synkroniserer {{count}} ventende endring(er)...",
+    "connectivity.dismiss": "Lukk",
+    "connectivity.conflict.sign_up": "Påmeldingen kunne ikke synkroniseres",
+    "connectivity.conflict.join_waitlist":
+      "Ventelisteforespørselen kunne ikke synkroniseres",
+    "connectivity.conflict.withdraw": "Avmeldingen kunne ikke synkroniseres",
+    "connectivity.conflict.attendance": "Oppmøtet kunne ikke synkroniseres",
+    "connectivity.conflict.comment": "Kommentaren kunne ikke synkroniseres",
+    "connectivity.conflict.shifts": "Vaktvalget kunne ikke synkroniseres",
+    "connectivity.conflict.tasks": "Oppgavevalget kunne ikke synkroniseres",
+    "connectivity.conflict.task_done":
+      "Oppgavestatusen kunne ikke synkroniseres",
+    "recurrence.none": "Gjentas ikke",
+    "recurrence.weekly": "Hver uke",
+    "recurrence.biweekly": "Annenhver uke",
+    "recurrence.monthly": "Hver måned",
+    "recurrence.custom": "Egendefinerte datoer",
+    "location.error.permission_denied":
+      "Tilgang til posisjon ble avslått. Tillat det i innstillingene for å bruke posisjonen din.",
+    "location.error.unavailable":
+      "Posisjonen din eller kartoppslaget er ikke tilgjengelig akkurat nå.",
+    "location.error.not_found":
+      "Fant ikke stedet på kartet. Prøv en mer presis adresse.",
+    "map.webUnavailable": "Kartet er bare tilgjengelig i mobilappen.",
+    "notifications.channel.reminders": "Påminnelser om arrangementer",
+    "notifications.channel.notices": "Oppdateringer om arrangementer",
+    "notifications.reminder_24h": "I morgen: {{time}}, {{location}}",
+    "notifications.reminder_2h": "Starter om 2 timer: {{time}}, {{location}}",
+    "inbox.title": "Innboks",
+    "inbox.markAllRead": "Merk alle som lest",
+    "inbox.messages": "Meldinger",
+    "inbox.messagesUnread": "Meldinger ({{count}})",
+    "inbox.emptyTitle": "Ingen varsler ennå",
+    "inbox.emptySubtitle":
+      "Oppdateringer om arrangementene du blir med på eller arrangerer, vises her.",
+    "inbox.loginPrompt": "Logg inn for å se varslene dine.",
+    "inbox.errorMarkRead": "Kunne ikke merke varslene som lest.",
+    "inbox.type.event_cancelled": "Arrangementet er avlyst.",
+    "inbox.type.waitlist_promoted": "En plass ble ledig, og du er nå påmeldt.",
+    "inbox.type.time_changed": "Arrangementet starter nå {{date}}.",
+    "inbox.type.new_comment": "Ny kommentar på arrangementet.",
+    "inbox.type.removed": "Arrangøren fjernet deg fra arrangementet.",
+    "inbox.type.announcement": "Kunngjøring fra arrangøren:",
+    "inbox.type.question_answered": "Arrangøren har svart på spørsmålet ditt:",
+    "inbox.type.mentioned": "Du ble nevnt i en kommentar:",
+    "announcement.announceAction": "Kunngjør",
+    "announcement.audience":
+      "Går til {{count}} frivillige som er påmeldt, på ventelisten eller har deltatt.",
+    "announcement.placeholder": "Skriv en kunngjøring",
+    "announcement.send": "Send kunngjøring",
+    "announcement.sending": "Sender...",
+    "announcement.sectionTitle": "Kunngjøringer",
+    "announcement.stats":
+      "{{date}} · levert til {{delivered}} · lest av {{read}}",
+    "announcement.errorSend": "Kunne ikke sende kunngjøringen.",
+    "announcement.error.empty": "Skriv en melding først.",
+    "announcement.error.too_long": "Kunngjøringer kan ha maks {{max}} tegn.",
+    "announcement.error.no_recipients":
+      "Ingen er påmeldt ennå, så det er ingen å si fra til.",
+    "comments.unknownUser": "Ukjent bruker",
+    "comments.reply": "Svar",
+    "comments.replyingTo": "Svarer {{name}}",
+    "comments.replyPlaceholder": "Skriv et svar...",
+    "comments.edit": "Rediger",
+    "comments.save": "Lagre",
+    "comments.saving": "Lagrer...",
+    "comments.edited": "Redigert",
+    "comments.editedShowHistory": "Redigert · vis tidligere versjoner",
+    "comments.hideHistory": "Skjul tidligere versjoner",
+    "comments.revisionBefore": "Fram til {{date}}:",
+    "comments.showOlder": "Vis eldre kommentarer",
+    "comments.deleteTitle": "Slett kommentar",
+    "comments.deleteMessage": "Er du sikker?",
+    "comments.deleteThreadMessage": "De {{count}} svarene blir også slettet.",
+    "comments.deleteAction": "Slett",
+    "comments.reaction.thumbs_up": "Tommel opp",
+    "comments.reaction.heart": "Hjerte",
+    "comments.reaction.clap": "Applaus",
+    "comments.reaction.laugh": "Latter",
+    "comments.errorSend": "Kunne ikke sende kommentaren. Prøv igjen.",
+    "comments.errorEdit": "Kunne ikke lagre endringen.",
+    "comments.errorReaction": "Kunne ikke lagre reaksjonen.",
+    "comments.errorHistory": "Kunne ikke hente tidligere versjoner.",
+    "comments.errorDelete": "Kunne ikke slette kommentaren.",
+    "comments.error.empty": "Kommentaren kan ikke være tom.",
+    "comments.error.unchanged": "Ingenting ble endret.",
+    "comments.error.blocked_words":
+      "Kommentaren inneholder ord som ikke er tillatt her.",
+    "comments.error.rate_limited":
+      "Du kommenterer for ofte. Vent noen minutter og prøv igjen.",
+    "comments.report": "Rapporter",
+    "comments.reported": "Rapportert",
+    "comments.reportTitle": "Rapporter kommentar",
+    "comments.reportMessage": "Hvorfor bør arrangøren se på denne kommentaren?",
+    "comments.reportedTitle": "Takk",
+    "comments.reportedMessage": "Arrangøren er bedt om å se på kommentaren.",
+    "comments.hide": "Skjul",
+    "comments.unhide": "Vis igjen",
+    "comments.hidden": "Denne kommentaren er skjult av arrangøren.",
+    "comments.hiddenAutomatically": "Denne kommentaren ble skjult automatisk.",
+    "comments.hiddenForOthers": "Skjult for alle andre",
+    "comments.collapsed":
+      "Flere har rapportert denne kommentaren. Trykk for å vise den.",
+    "comments.errorReport": "Kunne ikke rapportere kommentaren.",
+    "comments.errorHide": "Kunne ikke endre om kommentaren er skjult.",
+    "comments.organiser": "arrangør",
+    "comments.error.too_many_mentions":
+      "En kommentar kan nevne maks 10 personer.",
+    "moderation.reason.offensive": "Støtende",
+    "moderation.reason.spam": "Spam",
+    "moderation.reportSummary": "Rapportert {{count}} gang(er): {{reasons}}",
+    "moderation.alreadyHidden": "Allerede skjult",
+    "moderation.commentDeleted": "Kommentaren er slettet.",
+    "moderation.hide": "Skjul kommentar",
+    "moderation.dismiss": "Avvis rapportene",
+    "moderation.openEvent": "Åpne arrangement",
+    "moderation.emptyTitle": "Ingen åpne rapporter",
+    "moderation.emptySubtitle":
+      "Kommentarer som rapporteres på arrangementene dine, vises her.",
+    "moderation.errorResolve": "Kunne ikke løse rapportene.",
+    "questions.faqTitle": "Spørsmål og svar",
+    "questions.badge": "Spørsmål",
+    "questions.pinnedBadge": "Spørsmål · i FAQ",
+    "questions.markAsQuestion": "Merk som spørsmål",
+    "questions.unmark": "Ikke et spørsmål",
+    "questions.answer": "Svar",
+    "questions.editAnswer": "Endre svar",
+    "questions.answerLabel": "Svar fra arrangøren",
+    "questions.answerPlaceholder": "Skriv et svar...",
+    "questions.saveAnswer": "Lagre svar",
+    "questions.pin": "Fest i FAQ",
+    "questions.unpin": "Fjern fra FAQ",
+    "questions.shareQuestionLabel": "S",
+    "questions.shareAnswerLabel": "Sv",
+    "questions.errorAnswer": "Kunne ikke lagre svaret.",
+    "questions.errorUpdate": "Kunne ikke oppdatere spørsmålet.",
+    "questions.error.empty": "Svaret kan ikke være tomt.",
+    "questions.error.not_answered": "Svar på spørsmålet før du fester det.",
+    "messages.contactOrganiser": "Kontakt arrangør",
+    "messages.messageAction": "Send melding",
+    "messages.emptyTitle": "Ingen meldinger ennå",
+    "messages.emptySubtitle":
+      "Private samtaler med arrangører og frivillige vises her.",
+    "messages.noMessagesYet": "Ingen meldinger ennå",
+    "messages.youWrote": "Du: {{message}}",
+    "messages.unknownUser": "Ukjent bruker",
+    "messages.organiser": "arrangør",
+    "messages.withUser": "Med {{name}}",
+    "messages.notFound": "Fant ikke samtalen.",
+    "messages.startConversation":
+      "Bare dere to kan se disse meldingene. Si hei!",
+    "messages.placeholder": "Skriv en melding...",
+    "messages.send": "Send",
+    "messages.sending": "Sender...",
+    "messages.errorOpen": "Kunne ikke åpne samtalen.",
+    "messages.errorSend": "Kunne ikke sende meldingen.",
+    "messages.error.empty": "Meldingen kan ikke være tom.",
+    "messages.error.too_long": "Meldinger kan være maks {{max}} tegn.",
   },
 };
@@ -3,7 +3,9 @@
  * -------------
  * Defines the full navigation hierarchy: an auth stack for unauthenticated users
  * and bottom tabs for the main experience. Localization is applied to labels and
- * titles so navigation chrome changes when the user toggles language.
+ * titles so navigation chrome changes when the user toggles language. Deep
+ * links opened while signed out go through the auth stack first and resume at
+ * their target after login.
  */
 import React from "react";
 import { ActivityIndicator, View } from "react-native";
@@ -11,23 +13,45 @@ import {
   NavigationContainer,
   NavigatorScreenParams,
   DefaultTheme,
+  LinkingOptions,
 } from "@react-navigation/native";
+import * as Linking from "expo-linking";
 import { createBottomTabNavigator } from "@react-navigation/bottom-tabs";
 import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { query, where } from "firebase/firestore";
 
 import { useAuth } from "../context/AuthContext";
 import { useLanguage } from "../context/LanguageContext";
+import { useQuery } from "../hooks/useFirestore";
+import {
+  getInitialNotificationUrl,
+  subscribeToNotificationUrls,
+} from "../services/push";
+import { unreadMessageCount } from "../services/messages";
+import {
+  conversationsCollection,
+  notificationsCollection,
+} from "../services/repository";
 import LoginScreen from "../screens/Auth/LoginScreen";
 import RegisterScreen from "../screens/Auth/RegisterScreen";
 import CreateEventScreen from "../screens/Events/CreateEventScreen";
 import EventDetailsScreen from "../screens/Events/EventDetailsScreen";
-import EventListScreen from "../screens/Events/EventListScreen";
+import EventListScreen, {
+  EventListParams,
+} from "../screens/Events/EventListScreen";
 import MyEventsScreen from "../screens/Events/MyEventsScreen";
+import InboxScreen from "../screens/Inbox/InboxScreen";
 import ProfileScreen from "../screens/Profile/ProfileScreen";
 import { colors } from "../theme/colors";
 import ManageParticipantsScreen from "../screens/Events/ManageParticipantsScreen";
+import CheckInCodeScreen from "../screens/Events/CheckInCodeScreen";
+import CheckInScreen from "../screens/Events/CheckInScreen";
+import ScanCheckInScreen from "../screens/Events/ScanCheckInScreen";
+import ModerationScreen from "../screens/Events/ModerationScreen";
+import ConversationListScreen from "../screens/Messages/ConversationListScreen";
+import ConversationScreen from "../screens/Messages/ConversationScreen";
 
 type AuthStackParamList = {
   Login: undefined;
@@ -35,9 +59,10 @@ type AuthStackParamList = {
 };
 
 type MainTabParamList = {
-  Events: undefined;
+  Events: EventListParams | undefined;
   MyEvents: undefined;
   CreateEvent?: { eventId?: string; mode?: "create" | "edit" } | undefined;
+  Inbox: undefined;
   Profile: undefined;
 };
 
@@ -47,12 +72,75 @@ export type RootStackParamList = {
   EventDetails: { eventId: string };
   EditEvent: { eventId: string; mode?: "create" | "edit" };
   ManageParticipants: { eventId: string };
+  CheckInCode: { eventId: string };
+  ScanCheckIn: undefined;
+  CheckIn: { eventId: string; token: string };
+  Moderation: undefined;
+  Conversations: undefined;
+  Conversation: { conversationId: string };
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 const AuthStack = createNativeStackNavigator<AuthStackParamList>();
 const Tab = createBottomTabNavigator<MainTabParamList>();
 
+const parseFlag = (value: string) => value === "true";
+
+// App scheme links (dugnadhub://events/…) and the same paths on web, e.g.
+//   /events?category=environment&q=rake&view=map   filtered event list
+//   /events/{eventId}                              event details
+//   /events/{eventId}/participants                 manage participants
+//   /check-in?eventId=…&token=…                    QR self check-in
+//   /messages/{conversationId}                     private conversation
+// Tapped reminders and push notices are turned into the same event links.
+const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [
+    Linking.createURL("/"),
+    ...(process.env.EXPO_PUBLIC_WEB_URL ? [process.env.EXPO_PUBLIC_WEB_URL] : []),
+  ],
+  config: {
+    // Linked screens open on top of the tabs so back leads into the app.
+    initialRouteName: "Main",
+    screens: {
+      Auth: {
+        screens: {
+          Login: "login",
+          Register: "register",
+        },
+      },
+      Main: {
+        screens: {
+          Events: {
+            path: "events",
+            parse: { featured: parseFlag, cancelled: parseFlag },
+          },
+          MyEvents: "my-events",
+          Inbox: "inbox",
+          Profile: "profile",
+        },
+      },
+      EventDetails: "events/:eventId",
+      ManageParticipants: "events/:eventId/participants",
+      CheckIn: "check-in",
+      Conversations: "messages",
+      Conversation: "messages/:conversationId",
+    },
+  },
+  async getInitialURL() {
+    return (await Linking.getInitialURL()) ?? getInitialNotificationUrl();
+  },
+  subscribe(listener) {
+    const urlSubscription = Linking.addEventListener("url", ({ url }) =>
+      listener(url)
+    );
+    const unsubscribeNotifications = subscribeToNotificationUrls(listener);
+    return () => {
+      urlSubscription.remove();
+      unsubscribeNotifications();
+    };
+  },
+};
+
 const navigationTheme = {
   ...DefaultTheme,
   colors: {
@@ -76,6 +164,27 @@ const MainTabs = () => {
   const { appUser } = useAuth();
   const { t } = useLanguage();
   const insets = useSafeAreaInsets();
+  const { data: unread } = useQuery(
+    appUser
+      ? query(
+          notificationsCollection(),
+          where("userId", "==", appUser.id),
+          where("read", "==", false)
+        )
+      : null
+  );
+  const { data: conversations } = useQuery(
+    appUser
+      ? query(
+          conversationsCollection(),
+          where("participants", "array-contains", appUser.id)
+        )
+      : null
+  );
+  // The inbox badge counts unread notices and unread messages together.
+  const inboxBadge =
+    unread.length +
+    (appUser ? unreadMessageCount(conversations, appUser.id) : 0);
 
   return (
               <Tab.Navigator
@@ -84,6 +193,7 @@ const MainTabs = () => {
                 Events: "calendar-star",
                 MyEvents: "calendar-heart",
                 CreateEvent: "plus-circle",
+                Inbox: "bell",
                 Profile: "account-star",
               };
 
@@ -144,6 +254,15 @@ const MainTabs = () => {
           options={{ tabBarLabel: t("navigation.create") }}
         />
       )}
+      <Tab.Screen
+        name="Inbox"
+        component={InboxScreen}
+        options={{
+          tabBarLabel: t("navigation.inbox"),
+          tabBarBadge: inboxBadge > 0 ? inboxBadge : undefined,
+          tabBarBadgeStyle: { backgroundColor: colors.accent },
+        }}
+      />
       <Tab.Screen
         name="Profile"
         component={ProfileScreen}
@@ -174,8 +293,11 @@ const RootNavigator = () => {
   }
 
   return (
-    <NavigationContainer theme={navigationTheme}>
+    <NavigationContainer theme={navigationTheme} linking={linking}>
+      {/* A link to a signed-in screen that arrives during login is kept and
+          restored once the signed-in screens are rendered. */}
       <Stack.Navigator
+        UNSTABLE_routeNamesChangeBehavior="lastUnhandled"
         screenOptions={{
           headerStyle: { backgroundColor: colors.surface },
           headerTintColor: colors.textPrimary,
@@ -210,6 +332,36 @@ const RootNavigator = () => {
               component={ManageParticipantsScreen}
               options={{ title: t("navigation.manageParticipantsTitle") }}
             />
+            <Stack.Screen
+              name="CheckInCode"
+              component={CheckInCodeScreen}
+              options={{ title: t("navigation.checkInCodeTitle") }}
+            />
+            <Stack.Screen
+              name="ScanCheckIn"
+              component={ScanCheckInScreen}
+              options={{ title: t("navigation.scanCheckInTitle") }}
+            />
+            <Stack.Screen
+              name="CheckIn"
+              component={CheckInScreen}
+              options={{ title: t("navigation.checkInTitle") }}
+            />
+            <Stack.Screen
+              name="Moderation"
+              component={ModerationScreen}
+              options={{ title: t("navigation.moderationTitle") }}
+            />
+            <Stack.Screen
+              name="Conversations"
+              component={ConversationListScreen}
+              options={{ title: t("navigation.conversationsTitle") }}
+            />
+            <Stack.Screen
+              name="Conversation"
+              component={ConversationScreen}
+              options={{ title: t("navigation.conversationTitle") }}
+            />
           </>
         )}
       </Stack.Navigator>
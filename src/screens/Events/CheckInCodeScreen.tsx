@@ -0,0 +1,188 @@
+/**
+ * CheckInCodeScreen
+ * -----------------
+ * Organiser-facing QR code for volunteer self check-in. A new short-lived token
+ * is issued on open and rotated in the background, so the code on screen is
+ * always valid while an old photo of it quickly stops working.
+ */
+import React, { useCallback, useEffect, useState } from "react";
+import { ActivityIndicator, StyleSheet, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { RouteProp, useRoute } from "@react-navigation/native";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import QRCode from "react-native-qrcode-svg";
+
+import ErrorBanner from "../../components/ErrorBanner";
+import OutlinedButton from "../../components/OutlinedButton";
+import { useAuth } from "../../context/AuthContext";
+import { useLanguage } from "../../context/LanguageContext";
+import {
+  buildCheckInUrl,
+  CHECK_IN_ROTATE_MS,
+  CheckInToken,
+  issueCheckInToken,
+} from "../../services/checkIn";
+import { eventRef, getDocument } from "../../services/repository";
+import { colors } from "../../theme/colors";
+
+type CheckInCodeRoute = RouteProp<any, "CheckInCode">;
+
+const CheckInCodeScreen: React.FC = () => {
+  const route = useRoute<CheckInCodeRoute>();
+  const { eventId } = route.params as { eventId: string };
+  const { appUser } = useAuth();
+  const { t, language } = useLanguage();
+  const locale = language === "no" ? "nb-NO" : "en-GB";
+
+  const [title, setTitle] = useState("");
+  const [allowed, setAllowed] = useState<boolean | null>(null);
+  const [token, setToken] = useState<CheckInToken | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!eventId || !appUser) return;
+    let isMounted = true;
+
+    getDocument(eventRef(eventId))
+      .then((data) => {
+        if (!isMounted) return;
+        if (!data) {
+          setAllowed(false);
+          setError(t("eventDetails.notFound"));
+          return;
+        }
+        setTitle(data.title);
+        setAllowed(data.createdBy === appUser.id);
+        if (data.createdBy !== appUser.id) {
+          setError(t("eventDetails.errorNotOwner"));
+        }
+      })
+      .catch((err: any) => {
+        if (isMounted) {
+          setAllowed(false);
+          setError(err?.message ?? t("eventDetails.errorLoad"));
+        }
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [appUser, eventId, t]);
+
+  const refreshToken = useCallback(async () => {
+    if (!appUser) return;
+    try {
+      const next = await issueCheckInToken(eventId, appUser.id);
+      setToken(next);
+      setError(null);
+    } catch (err: any) {
+      setError(err?.message ?? t("checkInCode.errorIssue"));
+    }
+  }, [appUser, eventId, t]);
+
+  useEffect(() => {
+    if (!allowed) return;
+    refreshToken();
+    const interval = setInterval(refreshToken, CHECK_IN_ROTATE_MS);
+    return () => clearInterval(interval);
+  }, [allowed, refreshToken]);
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={["bottom"]}>
+      <View style={styles.screen}>
+        <Text style={styles.title}>{t("checkInCode.title")}</Text>
+        <Text style={styles.subtitle}>
+          {title
+            ? t("checkInCode.subtitleWithName", { title })
+            : t("checkInCode.subtitle")}
+        </Text>
+        <ErrorBanner message={error} />
+
+        {allowed === false ? (
+          <View style={styles.center}>
+            <MaterialCommunityIcons
+              name="lock-alert"
+              size={40}
+              color={colors.accent}
+            />
+          </View>
+        ) : token ? (
+          <View style={styles.codeCard}>
+            <QRCode
+              value={buildCheckInUrl(token)}
+              size={240}
+              color={colors.textPrimary}
+              backgroundColor={colors.surfaceElevated}
+            />
+            <Text style={styles.expiry}>
+              {t("checkInCode.validUntil", {
+                time: new Intl.DateTimeFormat(locale, {
+                  timeStyle: "short",
+                }).format(token.expiresAt),
+              })}
+            </Text>
+            <Text style={styles.hint}>{t("checkInCode.hint")}</Text>
+            <OutlinedButton
+              title={t("checkInCode.refreshButton")}
+              icon="refresh"
+              onPress={refreshToken}
+              style={styles.refreshButton}
+            />
+          </View>
+        ) : (
+          <View style={styles.center}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  screen: {
+    flex: 1,
+    padding: 20,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: "800",
+    color: colors.textPrimary,
+  },
+  subtitle: {
+    marginTop: 6,
+    marginBottom: 18,
+    color: colors.textSecondary,
+  },
+  center: {
+    marginTop: 60,
+    alignItems: "center",
+  },
+  codeCard: {
+    alignItems: "center",
+    backgroundColor: colors.surfaceElevated,
+    borderRadius: 24,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 24,
+  },
+  expiry: {
+    marginTop: 18,
+    color: colors.textPrimary,
+    fontWeight: "600",
+  },
+  hint: {
+    marginTop: 8,
+    color: colors.textSecondary,
+    textAlign: "center",
+  },
+  refreshButton: {
+    marginTop: 16,
+  },
+});
+
+export default CheckInCodeScreen;
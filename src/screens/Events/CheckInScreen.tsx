@@ -0,0 +1,175 @@
+/**
+ * CheckInScreen
+ * -------------
+ * Confirmation step for QR self check-in, reached from the in-app scanner or a
+ * `check-in` deep link. Shows which event the code belongs to before marking
+ * the volunteer as attended.
+ */
+import React, { useEffect, useState } from "react";
+import { ActivityIndicator, StyleSheet, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { RouteProp, useNavigation, useRoute } from "@react-navigation/native";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+
+import ErrorBanner from "../../components/ErrorBanner";
+import OutlinedButton from "../../components/OutlinedButton";
+import PrimaryButton from "../../components/PrimaryButton";
+import { useAuth } from "../../context/AuthContext";
+import { useLanguage } from "../../context/LanguageContext";
+import { selfCheckIn } from "../../services/checkIn";
+import { ParticipationError } from "../../services/participations";
+import { eventRef, getDocument } from "../../services/repository";
+import { colors } from "../../theme/colors";
+
+type CheckInRoute = RouteProp<any, "CheckIn">;
+
+const CheckInScreen: React.FC = () => {
+  const route = useRoute<CheckInRoute>();
+  const { eventId, token } = route.params as { eventId: string; token: string };
+  const navigation = useNavigation<any>();
+  const { appUser } = useAuth();
+  const { t, language } = useLanguage();
+  const locale = language === "no" ? "nb-NO" : "en-GB";
+
+  const [event, setEvent] = useState<{ title: string; dateTime: Date } | null>(
+    null
+  );
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!eventId) return;
+    let isMounted = true;
+    setLoading(true);
+
+    getDocument(eventRef(eventId))
+      .then((data) => {
+        if (!isMounted) return;
+        if (!data) {
+          setError(t("eventDetails.notFound"));
+          return;
+        }
+        setEvent({ title: data.title, dateTime: data.dateTime });
+      })
+      .catch((err: any) => {
+        if (isMounted) setError(err?.message ?? t("eventDetails.errorLoad"));
+      })
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [eventId, t]);
+
+  const handleConfirm = async () => {
+    if (!appUser || !token) return;
+    setError(null);
+    setSubmitting(true);
+    try {
+      await selfCheckIn(eventId, token, appUser.id);
+      setDone(true);
+    } catch (e: any) {
+      if (e instanceof ParticipationError && e.code === "already_checked_in") {
+        setDone(true);
+        return;
+      }
+      setError(
+        e instanceof ParticipationError
+          ? t(`participation.error.${e.code}`)
+          : e.message ?? t("checkIn.errorGeneric")
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.safeArea, styles.center]}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={["bottom"]}>
+      <View style={styles.center}>
+        <MaterialCommunityIcons
+          name={done ? "check-decagram" : "qrcode-scan"}
+          size={56}
+          color={done ? colors.success : colors.primary}
+        />
+        <Text style={styles.title}>
+          {done ? t("checkIn.successTitle") : t("checkIn.title")}
+        </Text>
+        {event ? (
+          <Text style={styles.subtitle}>
+            {event.title}
+            {"\n"}
+            {new Intl.DateTimeFormat(locale, {
+              dateStyle: "medium",
+              timeStyle: "short",
+            }).format(event.dateTime)}
+          </Text>
+        ) : null}
+        <ErrorBanner message={error} />
+
+        {done ? (
+          <OutlinedButton
+            title={t("checkIn.viewEvent")}
+            icon="calendar-star"
+            onPress={() => navigation.replace("EventDetails", { eventId })}
+            style={styles.button}
+          />
+        ) : event ? (
+          <PrimaryButton
+            title={
+              submitting ? t("checkIn.confirmLoading") : t("checkIn.confirm")
+            }
+            icon="account-check"
+            onPress={handleConfirm}
+            disabled={submitting}
+            style={styles.button}
+          />
+        ) : null}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  center: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 28,
+  },
+  title: {
+    marginTop: 16,
+    fontSize: 24,
+    fontWeight: "800",
+    color: colors.textPrimary,
+    textAlign: "center",
+  },
+  subtitle: {
+    marginTop: 10,
+    marginBottom: 18,
+    color: colors.textSecondary,
+    textAlign: "center",
+    lineHeight: 20,
+  },
+  button: {
+    marginTop: 12,
+    alignSelf: "stretch",
+  },
+});
+
+export default CheckInScreen;
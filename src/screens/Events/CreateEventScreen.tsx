@@ -3,7 +3,10 @@
  * -----------------
  * Form workflow for organisers to publish new volunteering opportunities. Handles
  * media capture, validation, Firestore persistence, and image uploads to Firebase
- * Storage before refreshing the UI with a success message.
+ * Storage before refreshing the UI with a success message. New events can repeat
+ * (weekly, biweekly, monthly or on custom dates); editing an occurrence of a
+ * series can apply to that occurrence only or to all future ones. Optional
+ * shifts split the day into time slots with their own capacity.
  */
 import React, { useEffect, useMemo, useState } from "react";
 import {
@@ -26,8 +29,6 @@ import { useNavigation, useRoute } from "@react-navigation/native";
 import {
   addDoc,
   collection,
-  doc,
-  getDoc,
   serverTimestamp,
   Timestamp,
   updateDoc,
@@ -35,6 +36,37 @@ import {
 import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 import { db, storage } from "../../firebaseConfig";
+import {
+  BringItemDefinition,
+  MAX_BRING_ITEMS,
+} from "../../services/bringList";
+import { notifyTimeChanged } from "../../services/events";
+import {
+  MAX_SHIFTS,
+  ParticipationError,
+  ShiftDefinition,
+  shiftFields,
+  updateEventCapacity,
+  updateEventShifts,
+} from "../../services/participations";
+import { eventRef, getDocument } from "../../services/repository";
+import { occurrenceDates, RecurrenceRule } from "../../services/recurrence";
+import {
+  createEventSeries,
+  updateFutureOccurrences,
+} from "../../services/series";
+import {
+  MAX_TASKS,
+  TaskDefinition,
+  taskFields,
+} from "../../services/tasks";
+import { geocodeAddress, reverseGeocode } from "../../services/geocoding";
+import {
+  coordinatesField,
+  getCurrentPosition,
+  LocationError,
+} from "../../services/location";
+import { Coordinates, RecurrenceFrequency } from "../../types";
 import { useAuth } from "../../context/AuthContext";
 import { useLanguage } from "../../context/LanguageContext";
 import ErrorBanner from "../../components/ErrorBanner";
@@ -42,8 +74,71 @@ import PrimaryButton from "../../components/PrimaryButton";
 import OutlinedButton from "../../components/OutlinedButton";
 import { colors } from "../../theme/colors";
 import LanguageSwitcher from "../../components/LanguageSwitcher";
+import EventMap from "../../components/EventMap";
 import { KeyboardAwareScrollView } from "react-native-keyboard-aware-scroll-view";
 
+/** Shift as typed into the form; times are "HH:mm" on the event's day. */
+interface ShiftDraft {
+  id: string;
+  label: string;
+  start: string;
+  end: string;
+  maxVolunteers: string;
+}
+
+/** Task as typed into the form. */
+interface TaskDraft {
+  id: string;
+  title: string;
+  description: string;
+  headcount: string;
+  requiredSkill: string;
+}
+
+/** Bring-list item as typed into the form. */
+interface BringDraft {
+  id: string;
+  name: string;
+  quantity: string;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+const formatClock = (date: Date) =>
+  `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+// Returns the given day at the typed time, or null if it is not a valid HH:mm.
+const parseClock = (day: Date, value: string) => {
+  const match = /^(\d{1,2})[:.](\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  const date = new Date(day);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
+const newShiftDraft = (): ShiftDraft => ({
+  id: Math.random().toString(36).slice(2, 10),
+  label: "",
+  start: "",
+  end: "",
+  maxVolunteers: "5",
+});
+
+const newTaskDraft = (): TaskDraft => ({
+  id: Math.random().toString(36).slice(2, 10),
+  title: "",
+  description: "",
+  headcount: "1",
+  requiredSkill: "",
+});
+
+const newBringDraft = (): BringDraft => ({
+  id: Math.random().toString(36).slice(2, 10),
+  name: "",
+  quantity: "1",
+});
 
 const CreateEventScreen: React.FC = () => {
   const navigation = useNavigation<any>();
@@ -52,9 +147,12 @@ const CreateEventScreen: React.FC = () => {
   const { t, language } = useLanguage();
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
-  const [tasks, setTasks] = useState("");
+  const [taskDrafts, setTaskDrafts] = useState<TaskDraft[]>([]);
+  const [bringDrafts, setBringDrafts] = useState<BringDraft[]>([]);
   const [category, setCategory] = useState("Cleanup");
   const [locationText, setLocationText] = useState("");
+  const [coordinates, setCoordinates] = useState<Coordinates | null>(null);
+  const [locating, setLocating] = useState(false);
   const [dateTime, setDateTime] = useState<Date | null>(null);
   const [maxVolunteers, setMaxVolunteers] = useState("10");
   const [images, setImages] = useState<string[]>([]);
@@ -63,7 +161,20 @@ const CreateEventScreen: React.FC = () => {
   const [initialising, setInitialising] = useState(false);
   const [existingVolunteers, setExistingVolunteers] = useState(0);
   const [canEdit, setCanEdit] = useState(true);
-  const [pickerVisible, setPickerVisible] = useState(false);
+  // Which date the native picker is currently editing.
+  const [pickerTarget, setPickerTarget] = useState<
+    "start" | "until" | "custom" | null
+  >(null);
+  const [recurrence, setRecurrence] = useState<RecurrenceFrequency | null>(
+    null
+  );
+  const [repeatUntil, setRepeatUntil] = useState<Date | null>(null);
+  const [customDates, setCustomDates] = useState<Date[]>([]);
+  const [seriesId, setSeriesId] = useState<string | undefined>(undefined);
+  const [originalDateTime, setOriginalDateTime] = useState<Date | null>(null);
+  const [editScope, setEditScope] = useState<"this" | "future">("this");
+  const [shiftDrafts, setShiftDrafts] = useState<ShiftDraft[]>([]);
+  const [hadShifts, setHadShifts] = useState(false);
   const editingEventId =
     (route?.params?.eventId as string | undefined) ?? undefined;
   const modeParam = route?.params?.mode as "create" | "edit" | undefined;
@@ -76,15 +187,36 @@ const CreateEventScreen: React.FC = () => {
   { labelEn: "Other", labelNo: "Annet", value: "Other" },
   ];
 
+  const locale = language === "no" ? "nb-NO" : "en-GB";
+
   // Pre-format the selected date/time in the active locale for display.
   const formattedDate = useMemo(() => {
     if (!dateTime) return t("createEvent.datePlaceholder");
-    const locale = language === "no" ? "nb-NO" : "en-GB";
     return new Intl.DateTimeFormat(locale, {
       dateStyle: "medium",
       timeStyle: "short",
     }).format(dateTime);
-  }, [dateTime, language, t]);
+  }, [dateTime, locale, t]);
+
+  const formatDay = (value: Date) =>
+    new Intl.DateTimeFormat(locale, { dateStyle: "medium" }).format(value);
+
+  const recurrenceRule = useMemo<RecurrenceRule | null>(() => {
+    if (!recurrence) return null;
+    if (recurrence === "custom") {
+      return { frequency: "custom", dates: customDates };
+    }
+    return repeatUntil ? { frequency: recurrence, until: repeatUntil } : null;
+  }, [customDates, recurrence, repeatUntil]);
+
+  // Preview how many events the series will create before the organiser saves.
+  const occurrenceCount = useMemo(
+    () =>
+      dateTime && recurrenceRule
+        ? occurrenceDates(dateTime, recurrenceRule).length
+        : 0,
+    [dateTime, recurrenceRule]
+  );
 
   // Request gallery permission and append the chosen photo to the image list.
   const pickImageFromLibrary = async () => {
@@ -137,7 +269,7 @@ const CreateEventScreen: React.FC = () => {
       const blob = await response.blob();
       const filename = `${eventId}/${Date.now()}.jpg`;
       const storageRef = ref(storage, `events/${filename}`);
-      await uploadBytes(storageRef, blob);
+      await uploadBytes(storageRef, blob, { contentType: "image/jpeg" });
       const downloadUrl = await getDownloadURL(storageRef);
       urls.push(downloadUrl);
     }
@@ -153,14 +285,12 @@ const CreateEventScreen: React.FC = () => {
 
       setInitialising(true);
       try {
-        const eventRef = doc(db, "events", editingEventId);
-        const snapshot = await getDoc(eventRef);
-        if (!snapshot.exists()) {
+        const data = await getDocument(eventRef(editingEventId));
+        if (!data) {
           setError(t("createEvent.errorLoadExisting"));
           return;
         }
 
-        const data = snapshot.data() as any;
         if (data.createdBy !== appUser.id) {
           setError(t("createEvent.errorNotOwner"));
           setCanEdit(false);
@@ -168,15 +298,43 @@ const CreateEventScreen: React.FC = () => {
         }
 
         setCanEdit(true);
-        setTitle(data.title ?? "");
-        setDescription(data.description ?? "");
-        setTasks(data.tasks ?? "");
-        setCategory(data.category ?? "Cleanup");
-        setLocationText(data.locationText ?? "");
-        setDateTime(data.dateTime?.toDate?.() ?? new Date());
-        setMaxVolunteers(String(data.maxVolunteers ?? ""));
-        setImages(data.imageUrls ?? []);
-        setExistingVolunteers(data.currentVolunteers ?? 0);
+        setTitle(data.title);
+        setDescription(data.description);
+        setTaskDrafts(
+          data.tasks.map((task) => ({
+            id: task.id,
+            title: task.title,
+            description: task.description,
+            headcount: String(task.headcount),
+            requiredSkill: task.requiredSkill ?? "",
+          }))
+        );
+        setBringDrafts(
+          data.bringList.map((item) => ({
+            id: item.id,
+            name: item.name,
+            quantity: String(item.quantity),
+          }))
+        );
+        setCategory(data.category || "Cleanup");
+        setLocationText(data.locationText);
+        setCoordinates(data.coordinates ?? null);
+        setDateTime(data.dateTime);
+        setMaxVolunteers(String(data.maxVolunteers));
+        setImages(data.imageUrls);
+        setExistingVolunteers(data.currentVolunteers);
+        setSeriesId(data.seriesId);
+        setOriginalDateTime(data.dateTime);
+        setHadShifts(data.shifts.length > 0);
+        setShiftDrafts(
+          data.shifts.map((shift) => ({
+            id: shift.id,
+            label: shift.label ?? "",
+            start: formatClock(shift.start),
+            end: formatClock(shift.end),
+            maxVolunteers: String(shift.maxVolunteers),
+          }))
+        );
       } catch (err: any) {
         setError(err?.message ?? t("createEvent.errorLoadExisting"));
       } finally {
@@ -187,6 +345,83 @@ const CreateEventScreen: React.FC = () => {
     loadExisting();
   }, [appUser, editingEventId, isEditing, t]);
 
+  const resetForm = () => {
+    setTitle("");
+    setDescription("");
+    setTaskDrafts([]);
+    setBringDrafts([]);
+    setCategory("Cleanup");
+    setLocationText("");
+    setCoordinates(null);
+    setDateTime(null);
+    setMaxVolunteers("10");
+    setImages([]);
+    setRecurrence(null);
+    setRepeatUntil(null);
+    setCustomDates([]);
+    setShiftDrafts([]);
+  };
+
+  const updateShiftDraft = (id: string, changes: Partial<ShiftDraft>) =>
+    setShiftDrafts((prev) =>
+      prev.map((draft) => (draft.id === id ? { ...draft, ...changes } : draft))
+    );
+
+  const locationErrorMessage = (err: any) =>
+    err instanceof LocationError
+      ? t(`location.error.${err.code}`)
+      : err?.message ?? t("location.error.unavailable");
+
+  // Places the pin at the typed address.
+  const handleFindAddress = async () => {
+    if (!locationText.trim()) {
+      setError(t("createEvent.errorLocationTextMissing"));
+      return;
+    }
+    setError(null);
+    try {
+      setLocating(true);
+      setCoordinates(await geocodeAddress(locationText));
+    } catch (err: any) {
+      setError(locationErrorMessage(err));
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  // Places the pin where the organiser is, filling in the address if it is still empty.
+  const handleUseMyLocation = async () => {
+    setError(null);
+    try {
+      setLocating(true);
+      const position = await getCurrentPosition();
+      setCoordinates(position);
+      if (!locationText.trim()) {
+        const address = await reverseGeocode(position).catch(() => null);
+        if (address) setLocationText(address);
+      }
+    } catch (err: any) {
+      setError(locationErrorMessage(err));
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const updateTaskDraft = (id: string, changes: Partial<TaskDraft>) =>
+    setTaskDrafts((prev) =>
+      prev.map((draft) => (draft.id === id ? { ...draft, ...changes } : draft))
+    );
+
+  const updateBringDraft = (id: string, changes: Partial<BringDraft>) =>
+    setBringDrafts((prev) =>
+      prev.map((draft) => (draft.id === id ? { ...draft, ...changes } : draft))
+    );
+
+  const shiftCapacity = shiftDrafts.reduce(
+    (sum, draft) => sum + (Number(draft.maxVolunteers) || 0),
+    0
+  );
+
   // Validate input, create/update the event document, and persist images.
   const handleSubmit = async () => {
     setError(null);
@@ -199,59 +434,230 @@ const CreateEventScreen: React.FC = () => {
       return;
     }
 
-    const numericMax = Number(maxVolunteers);
+    const shifts: ShiftDefinition[] = [];
+    for (const draft of shiftDrafts) {
+      const start = parseClock(dateTime, draft.start);
+      const end = parseClock(dateTime, draft.end);
+      const shiftMax = Number(draft.maxVolunteers);
+      if (
+        !start ||
+        !end ||
+        end <= start ||
+        !Number.isInteger(shiftMax) ||
+        shiftMax <= 0
+      ) {
+        setError(t("createEvent.errorShift"));
+        return;
+      }
+      shifts.push({
+        id: draft.id,
+        label: draft.label.trim() || undefined,
+        start,
+        end,
+        maxVolunteers: shiftMax,
+      });
+    }
+
+    const tasks: TaskDefinition[] = [];
+    for (const draft of taskDrafts) {
+      const headcount = Number(draft.headcount);
+      if (!draft.title.trim() || !Number.isInteger(headcount) || headcount <= 0) {
+        setError(t("createEvent.errorTask"));
+        return;
+      }
+      tasks.push({
+        id: draft.id,
+        title: draft.title.trim(),
+        description: draft.description.trim(),
+        headcount,
+        requiredSkill: draft.requiredSkill.trim() || undefined,
+      });
+    }
+
+    const bringList: BringItemDefinition[] = [];
+    for (const draft of bringDrafts) {
+      const quantity = Number(draft.quantity);
+      if (!draft.name.trim() || !Number.isInteger(quantity) || quantity <= 0) {
+        setError(t("createEvent.errorBringItem"));
+        return;
+      }
+      bringList.push({ id: draft.id, name: draft.name.trim(), quantity });
+    }
+
+    // With shifts the event's capacity is the total across them.
+    const numericMax =
+      shifts.length > 0
+        ? shiftFields(shifts).maxVolunteers
+        : Number(maxVolunteers);
     if (!Number.isFinite(numericMax) || numericMax <= 0) {
       setError(t("createEvent.errorMaxVolunteers"));
       return;
     }
 
+    if (!isEditing && recurrence && occurrenceCount < 2) {
+      setError(
+        recurrence === "custom"
+          ? t("createEvent.errorCustomDates")
+          : t("createEvent.errorRepeatUntil")
+      );
+      return;
+    }
+
     try {
       setSaving(true);
       if (isEditing && editingEventId) {
-        const eventRef = doc(db, "events", editingEventId);
-        const existingSnapshot = await getDoc(eventRef);
-        if (!existingSnapshot.exists()) {
+        const existingRef = eventRef(editingEventId);
+        const existingData = await getDocument(existingRef);
+        if (!existingData) {
           setError(t("createEvent.errorLoadExisting"));
           setSaving(false);
           return;
         }
-        const existingData = existingSnapshot.data() as any;
         if (existingData.createdBy !== appUser.id) {
           setError(t("createEvent.errorNotOwner"));
           setSaving(false);
           return;
         }
-        await updateDoc(eventRef, {
-          title,
-          description,
-          tasks,
-          category,
-          locationText,
-          dateTime: Timestamp.fromDate(dateTime),
-          maxVolunteers: numericMax,
-          currentVolunteers: Math.min(existingVolunteers, numericMax),
-        });
-        setExistingVolunteers((prev) => Math.min(prev, numericMax));
+        // The counter is owned by the participation service; only validate against it here.
+        const signedUp = existingData.currentVolunteers;
+        if (shifts.length === 0 && numericMax < signedUp) {
+          setError(
+            t("createEvent.errorMaxBelowSignedUp", { count: signedUp })
+          );
+          setExistingVolunteers(signedUp);
+          setSaving(false);
+          return;
+        }
+        // Shifts and capacity are per occurrence and go through the participation
+        // service, so raising capacity promotes waitlisted volunteers.
+        const saveShiftsAndCapacity = async () => {
+          if (shifts.length > 0 || hadShifts) {
+            await updateEventShifts(editingEventId, shifts);
+          }
+          if (shifts.length === 0) {
+            await updateEventCapacity(editingEventId, numericMax);
+          }
+        };
+
+        if (editScope === "future" && seriesId && originalDateTime) {
+          // Includes this occurrence; every later one moves by the same amount.
+          const shiftMs = dateTime.getTime() - originalDateTime.getTime();
+          const updated = await updateFutureOccurrences(
+            seriesId,
+            originalDateTime,
+            {
+              title,
+              description,
+              tasks,
+              category,
+              locationText,
+              coordinates: coordinates ?? undefined,
+              maxVolunteers: numericMax,
+              bringList,
+            },
+            shiftMs
+          );
+          // Runs after the series update, which also moves this occurrence's shifts.
+          await saveShiftsAndCapacity();
+          if (shiftMs !== 0) {
+            for (const occurrence of updated) {
+              await notifyTimeChanged(
+                { id: occurrence.id, title },
+                new Date(occurrence.dateTime.getTime() + shiftMs),
+                appUser.id
+              );
+            }
+          }
+        } else {
+          await saveShiftsAndCapacity();
+          await updateDoc(existingRef, {
+            title,
+            description,
+            ...taskFields(tasks),
+            category,
+            locationText,
+            coordinates: coordinatesField(coordinates),
+            bringList,
+            dateTime: Timestamp.fromDate(dateTime),
+          });
+          if (
+            originalDateTime &&
+            originalDateTime.getTime() !== dateTime.getTime()
+          ) {
+            await notifyTimeChanged(
+              { id: editingEventId, title },
+              dateTime,
+              appUser.id
+            );
+          }
+        }
 
         const urls = await uploadImages(editingEventId);
-        await updateDoc(eventRef, { imageUrls: urls });
+        await updateDoc(existingRef, { imageUrls: urls });
 
         Alert.alert(
           t("createEvent.successTitle"),
           t("createEvent.updateSuccess")
         );
         navigation.goBack();
+      } else if (recurrenceRule) {
+        const occurrenceIds = await createEventSeries(
+          {
+            title,
+            description,
+            tasks,
+            category,
+            locationText,
+            coordinates: coordinates ?? undefined,
+            maxVolunteers: numericMax,
+            bringList,
+          },
+          appUser.id,
+          dateTime,
+          recurrenceRule,
+          shifts
+        );
+
+        // Each occurrence gets its own copy so deleting one never breaks the others.
+        for (const occurrenceId of occurrenceIds) {
+          const urls = await uploadImages(occurrenceId);
+          if (urls.length) {
+            await updateDoc(eventRef(occurrenceId), { imageUrls: urls });
+          }
+        }
+
+        Alert.alert(
+          t("createEvent.successTitle"),
+          t("createEvent.seriesSuccessMessage", {
+            count: occurrenceIds.length,
+          }),
+          [
+            {
+              text: t("common.ok"),
+              onPress: () => navigation.navigate("Events"),
+            },
+          ],
+          {
+            onDismiss: () => navigation.navigate("Events"),
+          }
+        );
+        resetForm();
       } else {
         const evRef = await addDoc(collection(db, "events"), {
           title,
           description,
-          tasks,
+          ...taskFields(tasks),
           category,
           locationText,
+          coordinates: coordinatesField(coordinates),
+          bringList,
           dateTime: Timestamp.fromDate(dateTime),
           createdBy: appUser.id,
           maxVolunteers: numericMax,
+          ...(shifts.length > 0 ? shiftFields(shifts) : {}),
           currentVolunteers: 0,
+          waitlist: [],
+          status: "active",
           imageUrls: [],
           createdAt: serverTimestamp(),
         });
@@ -274,37 +680,61 @@ const CreateEventScreen: React.FC = () => {
             onDismiss: () => navigation.navigate("Events"),
           }
         );
-        setTitle("");
-        setDescription("");
-        setTasks("");
-        setCategory("Cleanup");
-        setLocationText("");
-        setDateTime(null);
-        setMaxVolunteers("10");
-        setImages([]);
+        resetForm();
       }
     } catch (e: any) {
       console.log(e);
-      setError(e.message ?? t("createEvent.errorGeneric"));
+      setError(
+        e instanceof ParticipationError
+          ? t(`participation.error.${e.code}`)
+          : e.message ?? t("createEvent.errorGeneric")
+      );
     } finally {
       setSaving(false);
     }
   };
 
+  const applyPickedDate = (
+    target: "start" | "until" | "custom",
+    value: Date
+  ) => {
+    if (target === "start") {
+      setDateTime(value);
+    } else if (target === "until") {
+      setRepeatUntil(value);
+    } else {
+      setCustomDates((prev) =>
+        prev.some((day) => day.toDateString() === value.toDateString())
+          ? prev
+          : [...prev, value].sort((a, b) => a.getTime() - b.getTime())
+      );
+    }
+  };
+
   // On native we show the picker; on web we prompt for a manual ISO timestamp.
-  const handleDateInputPress = () => {
+  const handleDateInputPress = (
+    target: "start" | "until" | "custom" = "start"
+  ) => {
     if (Platform.OS === "web") {
       if (typeof window === "undefined") {
         return;
       }
+      const current = target === "start" ? dateTime : null;
       const input = window.prompt(
-        t("createEvent.datePromptMessage"),
-        dateTime ? dateTime.toISOString().slice(0, 16).replace("T", " ") : ""
+        target === "start"
+          ? t("createEvent.datePromptMessage")
+          : t("createEvent.dayPromptMessage"),
+        current ? current.toISOString().slice(0, 16).replace("T", " ") : ""
       );
       if (!input) {
         return;
       }
-      const normalized = input.includes("T") ? input : input.replace(" ", "T");
+      // A bare YYYY-MM-DD is parsed as local midnight rather than UTC.
+      const normalized = input.includes("T")
+        ? input
+        : input.includes(" ")
+        ? input.replace(" ", "T")
+        : `${input}T00:00`;
       const parsed = new Date(normalized);
       if (Number.isNaN(parsed.getTime())) {
         Alert.alert(
@@ -313,10 +743,10 @@ const CreateEventScreen: React.FC = () => {
         );
         return;
       }
-      setDateTime(parsed);
+      applyPickedDate(target, parsed);
       return;
     }
-    setPickerVisible(true);
+    setPickerTarget(target);
   };
 
   // Volunteers are shown a friendly message instead of the full editor.
@@ -392,14 +822,6 @@ const CreateEventScreen: React.FC = () => {
             value={description}
             onChangeText={setDescription}
           />
-          <TextInput
-            style={[styles.input, styles.multiline]}
-            placeholder={t("createEvent.tasksPlaceholder")}
-            placeholderTextColor={colors.textMuted}
-            multiline
-            value={tasks}
-            onChangeText={setTasks}
-          />
 
           <View>
               <Text style={styles.fieldLabel}>
@@ -465,6 +887,40 @@ const CreateEventScreen: React.FC = () => {
             value={locationText}
             onChangeText={setLocationText}
           />
+          <View style={styles.chipRow}>
+            <OutlinedButton
+              title={t("createEvent.findOnMapButton")}
+              icon="map-search-outline"
+              onPress={locating ? () => {} : handleFindAddress}
+              style={styles.chip}
+            />
+            <OutlinedButton
+              title={t("createEvent.useMyLocationButton")}
+              icon="crosshairs-gps"
+              onPress={locating ? () => {} : handleUseMyLocation}
+              style={styles.chip}
+            />
+          </View>
+          {coordinates ? (
+            <>
+              <EventMap
+                markers={[
+                  {
+                    id: "picked",
+                    coordinate: coordinates,
+                    title: locationText || t("createEvent.pickedLocation"),
+                  },
+                ]}
+                center={coordinates}
+                spanKm={2}
+                onPickLocation={setCoordinates}
+                style={styles.locationMap}
+              />
+              <Text style={styles.hint}>{t("createEvent.mapPickHint")}</Text>
+            </>
+          ) : (
+            <Text style={styles.hint}>{t("createEvent.noCoordinatesHint")}</Text>
+          )}
 
           <TouchableOpacity
             style={[
@@ -472,7 +928,7 @@ const CreateEventScreen: React.FC = () => {
               styles.dateInput,
               { backgroundColor: "#fff" }
             ]}
-            onPress={handleDateInputPress}
+            onPress={() => handleDateInputPress("start")}
           >
             <MaterialCommunityIcons
               name="calendar-range"
@@ -485,17 +941,317 @@ const CreateEventScreen: React.FC = () => {
             </Text>
           </TouchableOpacity>
 
+          {!isEditing ? (
+            <View>
+              <Text style={styles.fieldLabel}>
+                {t("createEvent.recurrenceLabel")}
+              </Text>
+              <View style={styles.chipRow}>
+                {([null, "weekly", "biweekly", "monthly", "custom"] as const).map(
+                  (value) => (
+                    <OutlinedButton
+                      key={value ?? "none"}
+                      title={t(`recurrence.${value ?? "none"}`)}
+                      active={recurrence === value}
+                      onPress={() => setRecurrence(value)}
+                      style={styles.chip}
+                    />
+                  )
+                )}
+              </View>
+
+              {recurrence && recurrence !== "custom" ? (
+                <TouchableOpacity
+                  style={[styles.input, styles.dateInput]}
+                  onPress={() => handleDateInputPress("until")}
+                >
+                  <MaterialCommunityIcons
+                    name="calendar-end"
+                    size={20}
+                    color={colors.textSecondary}
+                    style={{ marginRight: 10 }}
+                  />
+                  <Text style={styles.dateText}>
+                    {repeatUntil
+                      ? t("createEvent.repeatUntilValue", {
+                          date: formatDay(repeatUntil),
+                        })
+                      : t("createEvent.repeatUntilPlaceholder")}
+                  </Text>
+                </TouchableOpacity>
+              ) : null}
+
+              {recurrence === "custom" ? (
+                <View>
+                  <View style={styles.chipRow}>
+                    {customDates.map((day) => (
+                      <OutlinedButton
+                        key={day.toISOString()}
+                        title={formatDay(day)}
+                        icon="close"
+                        onPress={() =>
+                          setCustomDates((prev) =>
+                            prev.filter((item) => item !== day)
+                          )
+                        }
+                        style={styles.chip}
+                      />
+                    ))}
+                  </View>
+                  <OutlinedButton
+                    title={t("createEvent.addDateButton")}
+                    icon="calendar-plus"
+                    onPress={() => handleDateInputPress("custom")}
+                    style={styles.addDateButton}
+                  />
+                </View>
+              ) : null}
+
+              {recurrence && occurrenceCount > 0 ? (
+                <Text style={styles.hint}>
+                  {t("createEvent.occurrenceCount", {
+                    count: occurrenceCount,
+                  })}
+                </Text>
+              ) : null}
+            </View>
+          ) : null}
+
+          {isEditing && seriesId ? (
+            <View>
+              <Text style={styles.fieldLabel}>
+                {t("createEvent.editScopeLabel")}
+              </Text>
+              <View style={styles.chipRow}>
+                <OutlinedButton
+                  title={t("createEvent.editScope.this")}
+                  active={editScope === "this"}
+                  onPress={() => setEditScope("this")}
+                  style={styles.chip}
+                />
+                <OutlinedButton
+                  title={t("createEvent.editScope.future")}
+                  active={editScope === "future"}
+                  onPress={() => setEditScope("future")}
+                  style={styles.chip}
+                />
+              </View>
+              {editScope === "future" ? (
+                <Text style={styles.hint}>
+                  {t("createEvent.editScopeFutureHint")}
+                </Text>
+              ) : null}
+            </View>
+          ) : null}
+
+          <Text style={styles.fieldLabel}>{t("createEvent.shiftsLabel")}</Text>
+          {shiftDrafts.map((draft) => (
+            <View key={draft.id} style={styles.shiftRow}>
+              <View style={styles.shiftHeader}>
+                <TextInput
+                  style={[styles.input, styles.shiftLabelInput]}
+                  placeholder={t("createEvent.shiftLabelPlaceholder")}
+                  placeholderTextColor={colors.textMuted}
+                  value={draft.label}
+                  onChangeText={(label) => updateShiftDraft(draft.id, { label })}
+                />
+                <TouchableOpacity
+                  style={styles.shiftRemove}
+                  onPress={() =>
+                    setShiftDrafts((prev) =>
+                      prev.filter((item) => item.id !== draft.id)
+                    )
+                  }
+                  accessibilityLabel={t("createEvent.removeShift")}
+                >
+                  <MaterialCommunityIcons
+                    name="close"
+                    size={18}
+                    color={colors.textSecondary}
+                  />
+                </TouchableOpacity>
+              </View>
+              <View style={styles.shiftFields}>
+                <TextInput
+                  style={[styles.input, styles.shiftField]}
+                  placeholder={t("createEvent.shiftStartPlaceholder")}
+                  placeholderTextColor={colors.textMuted}
+                  value={draft.start}
+                  onChangeText={(start) => updateShiftDraft(draft.id, { start })}
+                />
+                <TextInput
+                  style={[styles.input, styles.shiftField]}
+                  placeholder={t("createEvent.shiftEndPlaceholder")}
+                  placeholderTextColor={colors.textMuted}
+                  value={draft.end}
+                  onChangeText={(end) => updateShiftDraft(draft.id, { end })}
+                />
+                <TextInput
+                  style={[styles.input, styles.shiftField, styles.shiftFieldLast]}
+                  placeholder={t("createEvent.maxVolunteersPlaceholder")}
+                  placeholderTextColor={colors.textMuted}
+                  keyboardType="numeric"
+                  value={draft.maxVolunteers}
+                  onChangeText={(value) =>
+                    updateShiftDraft(draft.id, { maxVolunteers: value })
+                  }
+                />
+              </View>
+            </View>
+          ))}
+          {shiftDrafts.length < MAX_SHIFTS && (
+            <OutlinedButton
+              title={t("createEvent.addShiftButton")}
+              icon="clock-plus-outline"
+              onPress={() =>
+                setShiftDrafts((prev) => [...prev, newShiftDraft()])
+              }
+              style={styles.addDateButton}
+            />
+          )}
+
+          <Text style={styles.fieldLabel}>{t("createEvent.tasksLabel")}</Text>
+          {taskDrafts.map((draft) => (
+            <View key={draft.id} style={styles.shiftRow}>
+              <View style={styles.shiftHeader}>
+                <TextInput
+                  style={[styles.input, styles.shiftLabelInput]}
+                  placeholder={t("createEvent.taskTitlePlaceholder")}
+                  placeholderTextColor={colors.textMuted}
+                  value={draft.title}
+                  onChangeText={(value) =>
+                    updateTaskDraft(draft.id, { title: value })
+                  }
+                />
+                <TouchableOpacity
+                  style={styles.shiftRemove}
+                  onPress={() =>
+                    setTaskDrafts((prev) =>
+                      prev.filter((item) => item.id !== draft.id)
+                    )
+                  }
+                  accessibilityLabel={t("createEvent.removeTask")}
+                >
+                  <MaterialCommunityIcons
+                    name="close"
+                    size={18}
+                    color={colors.textSecondary}
+                  />
+                </TouchableOpacity>
+              </View>
+              <TextInput
+                style={[styles.input, styles.multiline]}
+                placeholder={t("createEvent.taskDescriptionPlaceholder")}
+                placeholderTextColor={colors.textMuted}
+                multiline
+                value={draft.description}
+                onChangeText={(value) =>
+                  updateTaskDraft(draft.id, { description: value })
+                }
+              />
+              <View style={styles.shiftFields}>
+                <TextInput
+                  style={[styles.input, styles.shiftField]}
+                  placeholder={t("createEvent.taskHeadcountPlaceholder")}
+                  placeholderTextColor={colors.textMuted}
+                  keyboardType="numeric"
+                  value={draft.headcount}
+                  onChangeText={(value) =>
+                    updateTaskDraft(draft.id, { headcount: value })
+                  }
+                />
+                <TextInput
+                  style={[styles.input, styles.shiftField, styles.shiftFieldLast]}
+                  placeholder={t("createEvent.taskSkillPlaceholder")}
+                  placeholderTextColor={colors.textMuted}
+                  value={draft.requiredSkill}
+                  onChangeText={(value) =>
+                    updateTaskDraft(draft.id, { requiredSkill: value })
+                  }
+                />
+              </View>
+            </View>
+          ))}
+          {taskDrafts.length < MAX_TASKS && (
+            <OutlinedButton
+              title={t("createEvent.addTaskButton")}
+              icon="playlist-plus"
+              onPress={() =>
+                setTaskDrafts((prev) => [...prev, newTaskDraft()])
+              }
+              style={styles.addDateButton}
+            />
+          )}
+
           <Text style={styles.fieldLabel}>
-            {t("createEvent.maxVolunteersLabel")}
+            {t("createEvent.bringListLabel")}
           </Text>
-          <TextInput
-            style={styles.input}
-            placeholder={t("createEvent.maxVolunteersPlaceholder")}
-            placeholderTextColor={colors.textMuted}
-            keyboardType="numeric"
-            value={maxVolunteers}
-            onChangeText={setMaxVolunteers}
-          />
+          {bringDrafts.map((draft) => (
+            <View key={draft.id} style={styles.shiftHeader}>
+              <TextInput
+                style={[styles.input, styles.shiftLabelInput]}
+                placeholder={t("createEvent.bringItemPlaceholder")}
+                placeholderTextColor={colors.textMuted}
+                value={draft.name}
+                onChangeText={(name) => updateBringDraft(draft.id, { name })}
+              />
+              <TextInput
+                style={[styles.input, styles.bringQuantity]}
+                placeholder={t("createEvent.bringQuantityPlaceholder")}
+                placeholderTextColor={colors.textMuted}
+                keyboardType="numeric"
+                value={draft.quantity}
+                onChangeText={(quantity) =>
+                  updateBringDraft(draft.id, { quantity })
+                }
+              />
+              <TouchableOpacity
+                style={styles.shiftRemove}
+                onPress={() =>
+                  setBringDrafts((prev) =>
+                    prev.filter((item) => item.id !== draft.id)
+                  )
+                }
+                accessibilityLabel={t("createEvent.removeBringItem")}
+              >
+                <MaterialCommunityIcons
+                  name="close"
+                  size={18}
+                  color={colors.textSecondary}
+                />
+              </TouchableOpacity>
+            </View>
+          ))}
+          {bringDrafts.length < MAX_BRING_ITEMS && (
+            <OutlinedButton
+              title={t("createEvent.addBringItemButton")}
+              icon="toolbox-outline"
+              onPress={() =>
+                setBringDrafts((prev) => [...prev, newBringDraft()])
+              }
+              style={styles.addDateButton}
+            />
+          )}
+
+          {shiftDrafts.length > 0 ? (
+            <Text style={styles.hint}>
+              {t("createEvent.shiftCapacity", { count: shiftCapacity })}
+            </Text>
+          ) : (
+            <>
+              <Text style={styles.fieldLabel}>
+                {t("createEvent.maxVolunteersLabel")}
+              </Text>
+              <TextInput
+                style={styles.input}
+                placeholder={t("createEvent.maxVolunteersPlaceholder")}
+                placeholderTextColor={colors.textMuted}
+                keyboardType="numeric"
+                value={maxVolunteers}
+                onChangeText={setMaxVolunteers}
+              />
+            </>
+          )}
         </View>
 
         <View style={styles.card}>
@@ -573,18 +1329,18 @@ const CreateEventScreen: React.FC = () => {
 
         {Platform.OS !== "web" ? (
           <DateTimePickerModal
-            isVisible={pickerVisible}
-            mode="datetime"
+            isVisible={pickerTarget !== null}
+            mode={pickerTarget === "start" ? "datetime" : "date"}
             display="spinner"
             textColor="#000000"
             locale={language === "no" ? "nb-NO" : "en-GB"}
             confirmTextIOS={language === "no" ? "Bekreft" : "Confirm"}
             cancelTextIOS={language === "no" ? "Avbryt" : "Cancel"}
             onConfirm={(value) => {
-              setDateTime(value);
-              setPickerVisible(false);
+              if (pickerTarget) applyPickedDate(pickerTarget, value);
+              setPickerTarget(null);
             }}
-            onCancel={() => setPickerVisible(false)}
+            onCancel={() => setPickerTarget(null)}
           />
         ) : null}
       </KeyboardAwareScrollView>
@@ -673,6 +1429,61 @@ const styles = StyleSheet.create({
     color: colors.textPrimary,
     fontSize: 15,
   },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 4,
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  addDateButton: {
+    alignSelf: "flex-start",
+    marginBottom: 12,
+  },
+  shiftRow: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 16,
+    padding: 10,
+    marginBottom: 12,
+  },
+  shiftHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  shiftLabelInput: {
+    flex: 1,
+  },
+  shiftRemove: {
+    padding: 8,
+    marginLeft: 6,
+    marginBottom: 12,
+  },
+  shiftFields: {
+    flexDirection: "row",
+  },
+  locationMap: {
+    marginBottom: 8,
+  },
+  bringQuantity: {
+    width: 72,
+    marginLeft: 8,
+  },
+  shiftField: {
+    flex: 1,
+    marginRight: 8,
+    marginBottom: 0,
+  },
+  shiftFieldLast: {
+    marginRight: 0,
+  },
+  hint: {
+    color: colors.textMuted,
+    fontSize: 13,
+    marginBottom: 12,
+  },
   imageButtons: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -3,7 +3,9 @@
  * ------------------
  * Displays the full volunteer opportunity including metadata, imagery, and
  * participation controls. Handles sign-up flow, favourite toggling, and keeps the
- * UI in sync with Firestore updates for the active event.
+ * UI in sync with Firestore updates for the active event. The organiser's
+ * latest announcement is pinned at the top, and pinned Q&A sits above the
+ * comments.
  */
 import React, { useEffect, useMemo, useState } from "react";
 import {
@@ -14,7 +16,9 @@ import {
   Image,
   TouchableOpacity,
   Alert,
-  FlatList,
+  Linking,
+  Platform,
+  Share,
   TextInput,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
@@ -24,33 +28,63 @@ import {
   collection,
   deleteDoc,
   doc,
-  getDoc,
-  getDocs,
-  increment,
   onSnapshot,
   query,
-  updateDoc,
   where,
   orderBy,
-  serverTimestamp
+  limit,
 } from "firebase/firestore";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 
 import ErrorBanner from "../../components/ErrorBanner";
+import EventComments from "../../components/EventComments";
+import EventFaq from "../../components/EventFaq";
+import EventMap from "../../components/EventMap";
 import PrimaryButton from "../../components/PrimaryButton";
 import OutlinedButton from "../../components/OutlinedButton";
 import LanguageSwitcher from "../../components/LanguageSwitcher";
 import { KeyboardAwareScrollView } from "react-native-keyboard-aware-scroll-view";
 import { useAuth } from "../../context/AuthContext";
 import { useLanguage } from "../../context/LanguageContext";
-import { db, auth } from "../../firebaseConfig";
+import { useOutbox } from "../../context/OutboxContext";
+import { db } from "../../firebaseConfig";
+import { useDocument, useQuery } from "../../hooks/useFirestore";
+import { markAnnouncementRead } from "../../services/announcements";
+import { exportEventToCalendar } from "../../services/calendar";
+import {
+  cancelEvent,
+  deleteEventCascade,
+  EventError,
+} from "../../services/events";
+import { formatFaq } from "../../services/ics";
+import { eventUrl } from "../../services/links";
+import { directionsUrl } from "../../services/location";
+import { openConversation } from "../../services/messages";
+import { pendingForEvent, runOrQueue } from "../../services/outbox";
+import {
+  holdsSpot,
+  ParticipationError,
+  participationDocId,
+  waitlistPosition,
+} from "../../services/participations";
+import {
+  announcementsCollection,
+  eventRef,
+  eventsCollection,
+  favoritesCollection,
+  participationsCollection,
+  readDocs,
+} from "../../services/repository";
+import { commitToBring } from "../../services/bringList";
+import { signUpForSeries } from "../../services/series";
 import { colors } from "../../theme/colors";
-import { Event } from "../../types";
-
-import { Ionicons } from "@expo/vector-icons";
+import { EventShift, Participation } from "../../types";
 
 type EventDetailsRouteProp = RouteProp<any, "EventDetails">;
 
+// Upcoming occurrences listed before collapsing the rest into a count.
+const SERIES_PREVIEW_COUNT = 5;
+
 const EventDetailsScreen: React.FC = () => {
   const route = useRoute<EventDetailsRouteProp>();
   const { eventId } = route.params as any;
@@ -58,14 +92,38 @@ const EventDetailsScreen: React.FC = () => {
   const { appUser } = useAuth();
   const { t, language } = useLanguage();
 
-  const [event, setEvent] = useState<Event | null>(null);
+  const eventState = useDocument(eventId ? eventRef(eventId) : null, {
+    cacheKey: `event:${eventId}`,
+  });
+  const event = eventState.data;
+  const loading = eventState.loading;
+
   const [error, setError] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [isSignedUp, setIsSignedUp] = useState(false);
+  const [participationStatus, setParticipationStatus] = useState<
+    Participation["status"] | null
+  >(null);
   const [favoriteId, setFavoriteId] = useState<string | null>(null);
   const [participationId, setParticipationId] = useState<string | null>(null);
   const [withdrawing, setWithdrawing] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [cancelFormOpen, setCancelFormOpen] = useState(false);
+  const [cancellationReason, setCancellationReason] = useState("");
+  const [cancelling, setCancelling] = useState(false);
+  const [joiningSeries, setJoiningSeries] = useState(false);
+  // Shifts the volunteer holds, and the selection they are editing.
+  const [myShiftIds, setMyShiftIds] = useState<string[]>([]);
+  const [selectedShiftIds, setSelectedShiftIds] = useState<string[]>([]);
+  const [savingShifts, setSavingShifts] = useState(false);
+  // Tasks the volunteer has claimed, and the selection they are editing.
+  const [myTaskIds, setMyTaskIds] = useState<string[]>([]);
+  const [selectedTaskIds, setSelectedTaskIds] = useState<string[]>([]);
+  const [savingTasks, setSavingTasks] = useState(false);
+  // What the volunteer committed to bring, and the amounts they are editing.
+  const [myBringing, setMyBringing] = useState<Record<string, number>>({});
+  const [bringDraft, setBringDraft] = useState<Record<string, number>>({});
+  const [savingBringing, setSavingBringing] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [contacting, setContacting] = useState(false);
   const locale = language === "no" ? "nb-NO" : "en-GB";
   const categoryLabel = useMemo(() => {
     if (!event?.category) return "";
@@ -76,78 +134,97 @@ const EventDetailsScreen: React.FC = () => {
     return event.category;
   }, [event?.category, t]);
 
-  
-
+  // Sibling occurrences when this event is part of a recurring series.
+  const { data: seriesEvents } = useQuery(
+    event?.seriesId
+      ? query(eventsCollection(), where("seriesId", "==", event.seriesId))
+      : null
+  );
+  const { data: latestAnnouncements } = useQuery(
+    eventId
+      ? query(
+          announcementsCollection(eventId),
+          orderBy("createdAt", "desc"),
+          limit(1)
+        )
+      : null
+  );
+  const pinnedAnnouncement = latestAnnouncements[0] ?? null;
+  // Seeing the pinned announcement here is what counts as reading it.
   useEffect(() => {
-    if (!eventId) return;
-
-    setLoading(true);
-    setError(null);
-
-    const eventRef = doc(db, "events", eventId);
-    const unsubscribe = onSnapshot(
-      eventRef,
-      (snapshot) => {
-        if (!snapshot.exists()) {
-          setEvent(null);
-          setError(t("eventDetails.notFound"));
-          setLoading(false);
-          return;
-        }
-
-        const data = snapshot.data() as any;
-        const ev: Event = {
-          id: snapshot.id,
-          title: data.title,
-          description: data.description,
-          tasks: data.tasks,
-          category: data.category,
-          locationText: data.locationText,
-          dateTime: data.dateTime?.toDate?.() ?? new Date(),
-          createdBy: data.createdBy,
-          maxVolunteers: data.maxVolunteers,
-          currentVolunteers: data.currentVolunteers,
-          imageUrls: data.imageUrls || [],
-        };
-        setEvent(ev);
-        setLoading(false);
-      },
-      (snapshotError) => {
-        setError(snapshotError.message ?? t("eventDetails.errorLoad"));
-        setLoading(false);
-      }
+    if (
+      !appUser ||
+      !pinnedAnnouncement ||
+      !pinnedAnnouncement.recipientIds.includes(appUser.id) ||
+      pinnedAnnouncement.readBy.includes(appUser.id)
+    ) {
+      return;
+    }
+    markAnnouncementRead(eventId, pinnedAnnouncement.id, appUser.id).catch(
+      (readError) => console.warn("Failed to mark announcement read", readError)
     );
+  }, [appUser, eventId, pinnedAnnouncement]);
 
-    return () => unsubscribe();
-  }, [eventId, t]);
+  const upcomingOccurrences = useMemo(() => {
+    const now = new Date();
+    return seriesEvents
+      .filter(
+        (occurrence) =>
+          occurrence.id !== eventId &&
+          occurrence.status !== "cancelled" &&
+          occurrence.dateTime > now
+      )
+      .sort((a, b) => a.dateTime.getTime() - b.dateTime.getTime());
+  }, [eventId, seriesEvents]);
+
+  useEffect(() => {
+    if (eventState.loading) return;
+    if (eventState.error) {
+      setError(eventState.error.message ?? t("eventDetails.errorLoad"));
+    } else if (!eventState.exists) {
+      setError(t("eventDetails.notFound"));
+    }
+  }, [eventState.error, eventState.exists, eventState.loading, t]);
 
   useEffect(() => {
     if (!eventId || !appUser?.id) {
-      setIsSignedUp(false);
+      setParticipationStatus(null);
       setParticipationId(null);
       setFavoriteId(null);
       return;
     }
 
     const participationQuery = query(
-      collection(db, "participations"),
+      participationsCollection(),
       where("eventId", "==", eventId),
       where("userId", "==", appUser.id),
-      where("status", "==", "signed_up")
+      where("status", "in", ["signed_up", "waitlisted", "attended", "no_show"])
     );
     const favoritesQuery = query(
-      collection(db, "favorites"),
+      favoritesCollection(),
       where("eventId", "==", eventId),
       where("userId", "==", appUser.id)
     );
 
     const unsubscribeParticipation = onSnapshot(participationQuery, (snap) => {
-      if (!snap.empty) {
-        setIsSignedUp(true);
-        setParticipationId(snap.docs[0].id);
+      const [participation] = readDocs(snap);
+      if (participation) {
+        setParticipationStatus(participation.status);
+        setParticipationId(participation.id);
+        setMyShiftIds(participation.shiftIds);
+        setSelectedShiftIds(participation.shiftIds);
+        setMyTaskIds(participation.taskIds);
+        setSelectedTaskIds(participation.taskIds);
+        setMyBringing(participation.bringing);
+        setBringDraft(participation.bringing);
       } else {
-        setIsSignedUp(false);
+        setParticipationStatus(null);
         setParticipationId(null);
+        setMyShiftIds([]);
+        setSelectedShiftIds([]);
+        setMyTaskIds([]);
+        setMyBringing({});
+        setBringDraft({});
       }
     });
 
@@ -165,7 +242,18 @@ const EventDetailsScreen: React.FC = () => {
     };
   }, [appUser?.id, eventId]);
 
-  // Simplified sign-up flow: create participation and increment volunteer count.
+  // Tasks picked before signing up are claimed right after the sign-up (queued behind it offline).
+  const claimSelectedTasks = async () => {
+    if (!event || !appUser || selectedTaskIds.length === 0) return;
+    await runOrQueue({
+      type: "tasks",
+      eventId: event.id,
+      userId: appUser.id,
+      taskIds: selectedTaskIds,
+    });
+  };
+
+  // Sign-up runs as a transaction so the last spot can only be taken once.
   const handleSignUp = async () => {
     if (!event || !appUser) return;
     setError(null);
@@ -176,28 +264,23 @@ const EventDetailsScreen: React.FC = () => {
     }
 
     try {
-      // create participation
-      const participationDoc = await addDoc(collection(db, "participations"), {
-        userId: appUser.id,
+      // Offline sign-ups are queued and shown as pending until they sync.
+      const outcome = await runOrQueue({
+        type: "sign_up",
         eventId: event.id,
-        status: "signed_up",
-        createdAt: new Date(),
-      });
-
-      // update capacity (simplified; for production use a transaction)
-      const docRef = doc(db, "events", event.id);
-      await updateDoc(docRef, {
-        currentVolunteers: increment(1),
-      });
-
-      setEvent({
-        ...event,
-        currentVolunteers: event.currentVolunteers + 1,
+        userId: appUser.id,
       });
-      setIsSignedUp(true);
-      setParticipationId(participationDoc.id);
+      if (outcome === "done") {
+        setParticipationStatus("signed_up");
+        setParticipationId(participationDocId(event.id, appUser.id));
+      }
+      await claimSelectedTasks();
     } catch (e: any) {
-      setError(e.message ?? t("eventDetails.errorSignUp"));
+      setError(
+        e instanceof ParticipationError
+          ? t(`participation.error.${e.code}`)
+          : e.message ?? t("eventDetails.errorSignUp")
+      );
     }
   };
 
@@ -206,80 +289,202 @@ const EventDetailsScreen: React.FC = () => {
     setError(null);
     try {
       setWithdrawing(true);
-      const participationRef = doc(db, "participations", participationId);
-      await updateDoc(participationRef, { status: "withdrawn" });
-
-      const eventRef = doc(db, "events", event.id);
-      await updateDoc(eventRef, { currentVolunteers: increment(-1) });
-
-      setEvent({
-        ...event,
-        currentVolunteers: Math.max(event.currentVolunteers - 1, 0),
+      const outcome = await runOrQueue({
+        type: "withdraw",
+        eventId: event.id,
+        participationId,
       });
-      setIsSignedUp(false);
-      setParticipationId(null);
+      if (outcome === "done") {
+        setParticipationStatus(null);
+        setParticipationId(null);
+      }
     } catch (e: any) {
-      setError(e.message ?? t("eventDetails.errorWithdraw"));
+      setError(
+        e instanceof ParticipationError
+          ? t(`participation.error.${e.code}`)
+          : e.message ?? t("eventDetails.errorWithdraw")
+      );
     } finally {
       setWithdrawing(false);
     }
   };
 
-  // Commeents input
-const [commentText, setCommentText] = useState("");
-
-// List of Comments
-const [comments, setComments] = useState<any[]>([]);
-
-useEffect(() => {
-  if (!eventId) return;
-
-  const q = query(
-    collection(db, "events", eventId, "comments"),
-    orderBy("timestamp", "desc")
-  );
-
-  const unsub = onSnapshot(q, (snapshot) => {
-    const list = snapshot.docs.map((doc) => ({
-      id: doc.id,
-      ...doc.data(),
-    }));
-    setComments(list);
-  });
+  // When the event is full volunteers queue up and are promoted automatically.
+  const handleJoinWaitlist = async () => {
+    if (!event || !appUser) return;
+    setError(null);
+    try {
+      // The participation subscription picks up whether a spot or a queue place was given.
+      await runOrQueue({
+        type: "join_waitlist",
+        eventId: event.id,
+        userId: appUser.id,
+      });
+      await claimSelectedTasks();
+    } catch (e: any) {
+      setError(
+        e instanceof ParticipationError
+          ? t(`participation.error.${e.code}`)
+          : e.message ?? t("eventDetails.errorWaitlist")
+      );
+    }
+  };
 
-  return () => unsub();
-  }, [eventId]);
+  const toggleShift = (shiftId: string) =>
+    setSelectedShiftIds((prev) =>
+      prev.includes(shiftId)
+        ? prev.filter((id) => id !== shiftId)
+        : [...prev, shiftId]
+    );
 
-  const isOwnerOfEvent = auth.currentUser?.uid === event?.createdBy;
+  // Signs up for (or changes) the selected shifts; queued like other sign-ups when offline.
+  const handleSaveShifts = async () => {
+    if (!event || !appUser) return;
+    setError(null);
+    if (selectedShiftIds.length === 0) {
+      setError(t("participation.error.shift_required"));
+      return;
+    }
+    try {
+      setSavingShifts(true);
+      const outcome = await runOrQueue({
+        type: "shifts",
+        eventId: event.id,
+        userId: appUser.id,
+        shiftIds: selectedShiftIds,
+      });
+      if (outcome === "done") {
+        setParticipationStatus("signed_up");
+        setParticipationId(participationDocId(event.id, appUser.id));
+        setMyShiftIds(selectedShiftIds);
+      }
+      if (!participationStatus) await claimSelectedTasks();
+    } catch (e: any) {
+      setError(
+        e instanceof ParticipationError
+          ? t(`participation.error.${e.code}`)
+          : e.message ?? t("eventDetails.errorSignUp")
+      );
+    } finally {
+      setSavingShifts(false);
+    }
+  };
 
+  const toggleTask = (taskId: string) =>
+    setSelectedTaskIds((prev) =>
+      prev.includes(taskId)
+        ? prev.filter((id) => id !== taskId)
+        : [...prev, taskId]
+    );
 
-    const sendComment = async () => {
-      if (!commentText.trim()) return;
+  const handleSaveTasks = async () => {
+    if (!event || !appUser) return;
+    setError(null);
+    try {
+      setSavingTasks(true);
+      const outcome = await runOrQueue({
+        type: "tasks",
+        eventId: event.id,
+        userId: appUser.id,
+        taskIds: selectedTaskIds,
+      });
+      if (outcome === "done") setMyTaskIds(selectedTaskIds);
+    } catch (e: any) {
+      setError(
+        e instanceof ParticipationError
+          ? t(`participation.error.${e.code}`)
+          : e.message ?? t("eventDetails.errorTasks")
+      );
+    } finally {
+      setSavingTasks(false);
+    }
+  };
 
-      const user = auth.currentUser;
+  const adjustBringDraft = (itemId: string, change: number) =>
+    setBringDraft((prev) => ({
+      ...prev,
+      [itemId]: Math.max((prev[itemId] ?? 0) + change, 0),
+    }));
 
-      await addDoc(
-        collection(db, "events", eventId, "comments"),
-        {
-          text: commentText,
-          userId: user?.uid || "unknown",
-          userName: user?.displayName || user?.email || "Unknown user",
-          timestamp: serverTimestamp(),
-        }
+  const handleSaveBringing = async () => {
+    if (!event || !appUser) return;
+    setError(null);
+    try {
+      setSavingBringing(true);
+      await commitToBring(event.id, appUser.id, bringDraft);
+    } catch (e: any) {
+      setError(
+        e instanceof ParticipationError
+          ? t(`participation.error.${e.code}`)
+          : e.message ?? t("eventDetails.errorBringing")
       );
+    } finally {
+      setSavingBringing(false);
+    }
+  };
 
-      setCommentText("");
-    };
+  // Ticking a task off is an on-site action, so it is queued while offline.
+  const handleToggleTaskDone = async (taskId: string, done: boolean) => {
+    if (!event || !appUser) return;
+    setError(null);
+    try {
+      await runOrQueue({
+        type: "task_done",
+        eventId: event.id,
+        taskId,
+        userId: appUser.id,
+        done,
+      });
+    } catch (e: any) {
+      setError(e.message ?? t("eventDetails.errorTasks"));
+    }
+  };
 
-      const deleteComment = async (commentId: string) => {
+  // Registers for every upcoming occurrence; full ones put the volunteer on the waitlist.
+  const handleSignUpForSeries = async () => {
+    if (!event?.seriesId || !appUser) return;
+    setError(null);
     try {
-      await deleteDoc(
-        doc(db, "events", eventId, "comments", commentId)
+      setJoiningSeries(true);
+      const result = await signUpForSeries(event.seriesId, appUser.id);
+      Alert.alert(
+        t("eventDetails.seriesSignUpTitle"),
+        t("eventDetails.seriesSignUpResult", {
+          signedUp: result.signedUp,
+          waitlisted: result.waitlisted,
+          skipped: result.skipped,
+        })
       );
-    } catch (err) {
-      console.log("Error deleting comment:", err);
-      }
-    };
+    } catch (e: any) {
+      setError(
+        e instanceof ParticipationError
+          ? t(`participation.error.${e.code}`)
+          : e.message ?? t("eventDetails.errorSignUp")
+      );
+    } finally {
+      setJoiningSeries(false);
+    }
+  };
+
+  // Queued offline actions for this event, shown as pending until they sync.
+  const { entries: outboxEntries } = useOutbox();
+  const pendingActions = useMemo(
+    () => pendingForEvent(outboxEntries, eventId),
+    [eventId, outboxEntries]
+  );
+  const pendingParticipation = useMemo(() => {
+    if (!appUser) return null;
+    const ownId = participationDocId(eventId, appUser.id);
+    const own = pendingActions.filter(
+      ({ action }) =>
+        ((action.type === "sign_up" ||
+          action.type === "join_waitlist" ||
+          action.type === "shifts") &&
+          action.userId === appUser.id) ||
+        (action.type === "withdraw" && action.participationId === ownId)
+    );
+    return own.length > 0 ? own[own.length - 1].action.type : null;
+  }, [appUser, eventId, pendingActions]);
 
   // Create or delete the favourite record and update UI instantly.
   const handleFavoriteToggle = async () => {
@@ -307,36 +512,7 @@ useEffect(() => {
     setError(null);
     try {
       setDeleting(true);
-      const eventRef = doc(db, "events", event.id);
-      const snapshot = await getDoc(eventRef);
-      if (!snapshot.exists()) {
-        setError(t("eventDetails.notFound"));
-        setDeleting(false);
-        return;
-      }
-      const eventData = snapshot.data() as any;
-      if (eventData.createdBy !== appUser.id) {
-        setError(t("eventDetails.errorNotOwner"));
-        setDeleting(false);
-        return;
-      }
-
-      const participationSnap = await getDocs(
-        query(
-          collection(db, "participations"),
-          where("eventId", "==", event.id)
-        )
-      );
-      const favoriteSnap = await getDocs(
-        query(collection(db, "favorites"), where("eventId", "==", event.id))
-      );
-
-      await Promise.all([
-        ...participationSnap.docs.map((d) => deleteDoc(d.ref)),
-        ...favoriteSnap.docs.map((d) => deleteDoc(d.ref)),
-      ]);
-
-      await deleteDoc(eventRef);
+      await deleteEventCascade(event.id, appUser.id);
       Alert.alert(
         t("createEvent.successTitle"),
         t("eventDetails.deleteSuccess")
@@ -345,12 +521,138 @@ useEffect(() => {
         screen: "Events",
       });
     } catch (e: any) {
+      if (e instanceof EventError) {
+        setError(
+          e.code === "partial"
+            ? t("eventDetails.errorDeletePartial", {
+                targets: e.failures
+                  .map((failure) =>
+                    t(`eventDetails.deleteTarget.${failure.target}`)
+                  )
+                  .join(", "),
+              })
+            : e.code === "not_owner"
+            ? t("eventDetails.errorNotOwner")
+            : t("eventDetails.notFound")
+        );
+        return;
+      }
       setError(e.message ?? t("eventDetails.errorDelete"));
     } finally {
       setDeleting(false);
     }
   };
 
+  const performCancelEvent = async () => {
+    if (!event || !appUser) return;
+    setError(null);
+    try {
+      setCancelling(true);
+      await cancelEvent(event.id, appUser.id, cancellationReason);
+      setCancelFormOpen(false);
+      setCancellationReason("");
+      Alert.alert(
+        t("createEvent.successTitle"),
+        t("eventDetails.cancelSuccess")
+      );
+    } catch (e: any) {
+      if (e instanceof EventError) {
+        setError(
+          e.code === "already_cancelled"
+            ? t("eventDetails.errorAlreadyCancelled")
+            : e.code === "not_owner"
+            ? t("eventDetails.errorNotOwner")
+            : t("eventDetails.notFound")
+        );
+        return;
+      }
+      setError(e.message ?? t("eventDetails.errorCancel"));
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const handleCancelEvent = () => {
+    if (!event) return;
+    if (!cancellationReason.trim()) {
+      setError(t("eventDetails.cancelReasonRequired"));
+      return;
+    }
+    Alert.alert(
+      t("eventDetails.cancelConfirmTitle"),
+      t("eventDetails.cancelConfirmMessage"),
+      [
+        {
+          text: t("common.cancel"),
+          style: "cancel",
+        },
+        {
+          text: t("eventDetails.cancelEventButton"),
+          style: "destructive",
+          onPress: performCancelEvent,
+        },
+      ]
+    );
+  };
+
+  // Native platforms get the share sheet; browsers copy the link instead.
+  const handleShare = async () => {
+    if (!event) return;
+    const faq = formatFaq(event.faq, {
+      question: t("questions.shareQuestionLabel"),
+      answer: t("questions.shareAnswerLabel"),
+      unknownUser: t("comments.unknownUser"),
+    });
+    const message = [event.title, faq, eventUrl(event.id)]
+      .filter(Boolean)
+      .join("\n\n");
+    try {
+      if (Platform.OS === "web") {
+        await navigator.clipboard.writeText(message);
+        setLinkCopied(true);
+        return;
+      }
+      await Share.share({ title: event.title, message });
+    } catch (e: any) {
+      setError(e.message ?? t("eventDetails.errorShare"));
+    }
+  };
+
+  const handleAddToCalendar = async () => {
+    if (!event) return;
+    try {
+      await exportEventToCalendar(event);
+    } catch (e: any) {
+      setError(e.message ?? t("eventDetails.errorCalendar"));
+    }
+  };
+
+  const handleContactOrganiser = async () => {
+    if (!event || !appUser || !participationId || contacting) return;
+    setContacting(true);
+    try {
+      const conversationId = await openConversation(
+        event,
+        appUser.id,
+        participationId
+      );
+      navigation.navigate("Conversation", { conversationId });
+    } catch (e: any) {
+      setError(e.message ?? t("messages.errorOpen"));
+    } finally {
+      setContacting(false);
+    }
+  };
+
+  const handleOpenDirections = async () => {
+    if (!event?.coordinates) return;
+    try {
+      await Linking.openURL(directionsUrl(event.coordinates));
+    } catch (e: any) {
+      setError(e.message ?? t("eventDetails.errorDirections"));
+    }
+  };
+
   const handleDeleteEvent = () => {
     if (!event) return;
     Alert.alert(
@@ -403,13 +705,68 @@ useEffect(() => {
   // Determine availability to show the appropriate call-to-action message.
   const isOwner =
     appUser?.role === "organiser" && event.createdBy === appUser.id;
+  const isSignedUp = participationStatus === "signed_up";
+  const isWaitlisted = participationStatus === "waitlisted";
+  const isCancelled = event.status === "cancelled";
+  const hasShifts = event.shifts.length > 0;
+  const shiftSelectionChanged =
+    selectedShiftIds.length !== myShiftIds.length ||
+    selectedShiftIds.some((id) => !myShiftIds.includes(id));
+  // Shifts can be picked until attendance is recorded.
+  const canPickShifts =
+    appUser &&
+    hasShifts &&
+    !isCancelled &&
+    !isOwner &&
+    (!participationStatus || participationStatus === "signed_up");
   const canSignUp =
     appUser &&
+    !hasShifts &&
+    !isCancelled &&
     event.currentVolunteers < event.maxVolunteers &&
-    !isSignedUp &&
+    event.waitlist.length === 0 &&
+    !participationStatus &&
     !isOwner;
+  const taskSelectionChanged =
+    selectedTaskIds.length !== myTaskIds.length ||
+    selectedTaskIds.some((id) => !myTaskIds.includes(id));
+  // Tasks are claimed alongside a sign-up or changed while waiting or signed up.
+  const canPickTasks =
+    appUser &&
+    !isCancelled &&
+    !isOwner &&
+    (!participationStatus ||
+      participationStatus === "signed_up" ||
+      participationStatus === "waitlisted");
+  // Tasks can be ticked off from the start of the event's day.
+  const eventDayStart = new Date(event.dateTime);
+  eventDayStart.setHours(0, 0, 0, 0);
+  const canTickTasks =
+    !isCancelled &&
+    (isOwner || holdsSpot(participationStatus ?? undefined)) &&
+    new Date() >= eventDayStart;
+  const canCommitToBring =
+    !isCancelled && !isOwner && holdsSpot(participationStatus ?? undefined);
+  const bringingChanged = event.bringList.some(
+    (item) => (bringDraft[item.id] ?? 0) !== (myBringing[item.id] ?? 0)
+  );
   const canWithdraw = isSignedUp && participationId !== null;
+  const canLeaveWaitlist = isWaitlisted && participationId !== null;
+  const canJoinWaitlist =
+    appUser && !hasShifts && !isCancelled && !participationStatus && !isOwner;
+  const queuePosition = participationId
+    ? waitlistPosition(event.waitlist, participationId)
+    : 0;
   const heroImage = event.imageUrls?.[0];
+  const timeFormat = new Intl.DateTimeFormat(locale, { timeStyle: "short" });
+  const formatShiftTime = (shift: EventShift) =>
+    `${timeFormat.format(shift.start)}–${timeFormat.format(shift.end)}`;
+  const announcementDate = pinnedAnnouncement
+    ? new Intl.DateTimeFormat(locale, {
+        dateStyle: "medium",
+        timeStyle: "short",
+      }).format(pinnedAnnouncement.createdAt)
+    : "";
 
   return (
     <SafeAreaView style={styles.safeArea} edges={["top"]}>
@@ -422,7 +779,52 @@ useEffect(() => {
         
       >
         <ErrorBanner message={error} />
-        
+
+        {isCancelled ? (
+          <View style={styles.cancelledBanner}>
+            <MaterialCommunityIcons
+              name="calendar-remove"
+              size={22}
+              color={colors.accent}
+            />
+            <View style={styles.cancelledBody}>
+              <Text style={styles.cancelledTitle}>
+                {t("eventDetails.cancelledTitle")}
+              </Text>
+              <Text style={styles.cancelledText}>
+                {event.cancellationReason ||
+                  t("eventDetails.cancelledNoReason")}
+              </Text>
+            </View>
+          </View>
+        ) : null}
+
+        {pinnedAnnouncement ? (
+          <View style={styles.announcementBanner}>
+            <MaterialCommunityIcons
+              name="bullhorn-outline"
+              size={22}
+              color={colors.primary}
+            />
+            <View style={styles.cancelledBody}>
+              <Text style={styles.cancelledTitle}>
+                {t("eventDetails.announcementTitle")}
+              </Text>
+              <Text style={styles.cancelledText}>
+                {pinnedAnnouncement.message}
+              </Text>
+              <Text style={styles.announcementMeta}>
+                {isOwner
+                  ? t("announcement.stats", {
+                      date: announcementDate,
+                      delivered: pinnedAnnouncement.recipientIds.length,
+                      read: pinnedAnnouncement.readBy.length,
+                    })
+                  : announcementDate}
+              </Text>
+            </View>
+          </View>
+        ) : null}
 
         <View style={styles.heroWrapper}>
           {heroImage ? (
@@ -510,6 +912,31 @@ useEffect(() => {
           </View>
         </View>
 
+        {event.coordinates ? (
+          <View style={styles.section}>
+            <EventMap
+              markers={[
+                {
+                  id: event.id,
+                  coordinate: event.coordinates,
+                  title: event.title,
+                  description: event.locationText,
+                },
+              ]}
+              center={event.coordinates}
+              spanKm={2}
+              interactive={false}
+              style={styles.miniMap}
+            />
+            <OutlinedButton
+              title={t("eventDetails.directionsButton")}
+              icon="directions"
+              onPress={handleOpenDirections}
+              style={styles.directionsButton}
+            />
+          </View>
+        ) : null}
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>
             {t("eventDetails.sectionAbout")}
@@ -523,14 +950,358 @@ useEffect(() => {
           <Text style={styles.sectionTitle}>
             {t("eventDetails.sectionTasks")}
           </Text>
-          <Text style={styles.sectionBody}>
-            {event.tasks || t("eventDetails.noTasks")}
-          </Text>
+          {event.tasks.length === 0 ? (
+            <Text style={styles.sectionBody}>{t("eventDetails.noTasks")}</Text>
+          ) : null}
+          {event.tasks.map((task) => {
+            const selected = selectedTaskIds.includes(task.id);
+            const held = myTaskIds.includes(task.id);
+            const full = task.claimed >= task.headcount;
+            const done = Boolean(task.doneAt);
+            return (
+              <TouchableOpacity
+                key={task.id}
+                style={[
+                  styles.shiftRow,
+                  selected ? styles.shiftRowSelected : null,
+                ]}
+                disabled={!canPickTasks || (full && !held)}
+                onPress={() => toggleTask(task.id)}
+              >
+                {canPickTasks ? (
+                  <MaterialCommunityIcons
+                    name={
+                      selected ? "checkbox-marked" : "checkbox-blank-outline"
+                    }
+                    size={20}
+                    color={full && !held ? colors.textMuted : colors.primary}
+                  />
+                ) : null}
+                <View style={styles.shiftBody}>
+                  <Text
+                    style={[styles.shiftTitle, done ? styles.taskDone : null]}
+                  >
+                    {task.title}
+                  </Text>
+                  {task.description ? (
+                    <Text style={styles.shiftMeta}>{task.description}</Text>
+                  ) : null}
+                  <Text style={styles.shiftMeta}>
+                    {[
+                      full
+                        ? t("eventDetails.taskFull", { count: task.headcount })
+                        : t("eventDetails.taskStaffing", {
+                            current: task.claimed,
+                            count: task.headcount,
+                          }),
+                      task.requiredSkill
+                        ? t("eventDetails.taskSkill", {
+                            skill: task.requiredSkill,
+                          })
+                        : null,
+                      done && task.doneAt
+                        ? t("eventDetails.taskDoneAt", {
+                            time: timeFormat.format(task.doneAt),
+                          })
+                        : null,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </Text>
+                </View>
+                {canTickTasks ? (
+                  <TouchableOpacity
+                    onPress={() => handleToggleTaskDone(task.id, !done)}
+                    accessibilityLabel={
+                      done
+                        ? t("eventDetails.taskMarkUndone")
+                        : t("eventDetails.taskMarkDone")
+                    }
+                    hitSlop={8}
+                  >
+                    <MaterialCommunityIcons
+                      name={done ? "check-circle" : "check-circle-outline"}
+                      size={24}
+                      color={done ? colors.primary : colors.textMuted}
+                    />
+                  </TouchableOpacity>
+                ) : null}
+              </TouchableOpacity>
+            );
+          })}
+          {canPickTasks &&
+          participationStatus &&
+          !pendingParticipation &&
+          taskSelectionChanged ? (
+            <PrimaryButton
+              title={
+                savingTasks
+                  ? t("eventDetails.tasksSaving")
+                  : t("eventDetails.saveTasksButton")
+              }
+              icon="clipboard-check-outline"
+              onPress={handleSaveTasks}
+              disabled={savingTasks}
+              style={styles.ownerButton}
+            />
+          ) : null}
+          {canPickTasks && !participationStatus && event.tasks.length > 0 ? (
+            <Text style={styles.shiftMeta}>
+              {t("eventDetails.pickTasksHint")}
+            </Text>
+          ) : null}
         </View>
 
+        {event.bringList.length > 0 ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              {t("eventDetails.sectionBringList")}
+            </Text>
+            {event.bringList.map((item) => {
+              const mine = bringDraft[item.id] ?? 0;
+              // Others' commitments plus the amount in the volunteer's draft.
+              const covered =
+                item.committed - (myBringing[item.id] ?? 0) + mine;
+              const missing = Math.max(item.quantity - covered, 0);
+              return (
+                <View key={item.id} style={styles.shiftRow}>
+                  <MaterialCommunityIcons
+                    name={missing === 0 ? "check-circle" : "toolbox-outline"}
+                    size={20}
+                    color={missing === 0 ? colors.primary : colors.accent}
+                  />
+                  <View style={styles.shiftBody}>
+                    <Text style={styles.shiftTitle}>
+                      {t("eventDetails.bringItem", {
+                        name: item.name,
+                        count: item.quantity,
+                      })}
+                    </Text>
+                    <Text style={styles.shiftMeta}>
+                      {missing === 0
+                        ? t("eventDetails.bringCovered")
+                        : t("eventDetails.bringMissing", { count: missing })}
+                      {mine > 0
+                        ? ` · ${t("eventDetails.bringMine", { count: mine })}`
+                        : ""}
+                    </Text>
+                  </View>
+                  {canCommitToBring ? (
+                    <View style={styles.stepper}>
+                      <TouchableOpacity
+                        onPress={() => adjustBringDraft(item.id, -1)}
+                        disabled={mine === 0}
+                        accessibilityLabel={t("eventDetails.bringLess")}
+                        hitSlop={8}
+                      >
+                        <MaterialCommunityIcons
+                          name="minus-circle-outline"
+                          size={24}
+                          color={
+                            mine === 0 ? colors.textMuted : colors.primary
+                          }
+                        />
+                      </TouchableOpacity>
+                      <Text style={styles.stepperValue}>{mine}</Text>
+                      <TouchableOpacity
+                        onPress={() => adjustBringDraft(item.id, 1)}
+                        disabled={missing === 0}
+                        accessibilityLabel={t("eventDetails.bringMore")}
+                        hitSlop={8}
+                      >
+                        <MaterialCommunityIcons
+                          name="plus-circle-outline"
+                          size={24}
+                          color={
+                            missing === 0 ? colors.textMuted : colors.primary
+                          }
+                        />
+                      </TouchableOpacity>
+                    </View>
+                  ) : null}
+                </View>
+              );
+            })}
+            {canCommitToBring && bringingChanged ? (
+              <PrimaryButton
+                title={
+                  savingBringing
+                    ? t("eventDetails.tasksSaving")
+                    : t("eventDetails.saveBringingButton")
+                }
+                icon="toolbox"
+                onPress={handleSaveBringing}
+                disabled={savingBringing}
+                style={styles.ownerButton}
+              />
+            ) : null}
+            {!canCommitToBring && !isOwner && !isCancelled ? (
+              <Text style={styles.shiftMeta}>
+                {t("eventDetails.bringSignUpHint")}
+              </Text>
+            ) : null}
+          </View>
+        ) : null}
+
+        {hasShifts ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              {t("eventDetails.sectionShifts")}
+            </Text>
+            {event.shifts.map((shift) => {
+              const selected = selectedShiftIds.includes(shift.id);
+              const held = myShiftIds.includes(shift.id);
+              const full = shift.currentVolunteers >= shift.maxVolunteers;
+              return (
+                <TouchableOpacity
+                  key={shift.id}
+                  style={[
+                    styles.shiftRow,
+                    selected ? styles.shiftRowSelected : null,
+                  ]}
+                  disabled={!canPickShifts || (full && !held)}
+                  onPress={() => toggleShift(shift.id)}
+                >
+                  {canPickShifts ? (
+                    <MaterialCommunityIcons
+                      name={
+                        selected ? "checkbox-marked" : "checkbox-blank-outline"
+                      }
+                      size={20}
+                      color={
+                        full && !held ? colors.textMuted : colors.primary
+                      }
+                    />
+                  ) : null}
+                  <View style={styles.shiftBody}>
+                    <Text style={styles.shiftTitle}>
+                      {shift.label
+                        ? `${shift.label} · ${formatShiftTime(shift)}`
+                        : formatShiftTime(shift)}
+                    </Text>
+                    <Text style={styles.shiftMeta}>
+                      {full
+                        ? t("eventDetails.shiftFull", {
+                            max: shift.maxVolunteers,
+                          })
+                        : t("eventDetails.shiftCapacity", {
+                            current: shift.currentVolunteers,
+                            max: shift.maxVolunteers,
+                          })}
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+            {canPickShifts &&
+            !pendingParticipation &&
+            (!participationStatus || shiftSelectionChanged) ? (
+              <PrimaryButton
+                title={
+                  savingShifts
+                    ? t("eventDetails.shiftsSaving")
+                    : participationStatus
+                    ? t("eventDetails.updateShiftsButton")
+                    : t("eventDetails.signUpShiftsButton")
+                }
+                icon="clock-check-outline"
+                onPress={handleSaveShifts}
+                disabled={savingShifts || selectedShiftIds.length === 0}
+                style={styles.ownerButton}
+              />
+            ) : null}
+          </View>
+        ) : null}
+
+        {event.seriesId ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              {t("eventDetails.sectionSeries")}
+            </Text>
+            <View style={styles.seriesSummary}>
+              <MaterialCommunityIcons
+                name="repeat"
+                size={18}
+                color={colors.textSecondary}
+              />
+              <Text style={styles.metaText}>
+                {t("eventDetails.seriesSummary", {
+                  recurrence: t(`recurrence.${event.recurrence ?? "custom"}`),
+                  count: upcomingOccurrences.length,
+                })}
+              </Text>
+            </View>
+            {upcomingOccurrences
+              .slice(0, SERIES_PREVIEW_COUNT)
+              .map((occurrence) => (
+              <TouchableOpacity
+                key={occurrence.id}
+                style={styles.occurrenceRow}
+                onPress={() =>
+                  navigation.push("EventDetails", { eventId: occurrence.id })
+                }
+              >
+                <MaterialCommunityIcons
+                  name="calendar"
+                  size={16}
+                  color={colors.textSecondary}
+                />
+                <Text style={styles.occurrenceText}>
+                  {new Intl.DateTimeFormat(locale, {
+                    dateStyle: "medium",
+                    timeStyle: "short",
+                  }).format(occurrence.dateTime)}
+                </Text>
+                <MaterialCommunityIcons
+                  name="chevron-right"
+                  size={18}
+                  color={colors.textMuted}
+                />
+              </TouchableOpacity>
+            ))}
+            {upcomingOccurrences.length > SERIES_PREVIEW_COUNT ? (
+              <Text style={styles.sectionBody}>
+                {t("eventDetails.seriesMore", {
+                  count: upcomingOccurrences.length - SERIES_PREVIEW_COUNT,
+                })}
+              </Text>
+            ) : null}
+            {appUser && !isOwner && !isCancelled ? (
+              hasShifts ? (
+                <Text style={styles.sectionBody}>
+                  {t("eventDetails.seriesShiftsHint")}
+                </Text>
+              ) : (
+                <PrimaryButton
+                  title={
+                    joiningSeries
+                      ? t("eventDetails.seriesSignUpLoading")
+                      : t("eventDetails.seriesSignUpButton")
+                  }
+                  icon="calendar-multiple-check"
+                  onPress={handleSignUpForSeries}
+                  disabled={joiningSeries}
+                  style={styles.ownerButton}
+                />
+              )
+            ) : null}
+          </View>
+        ) : null}
+
         {appUser && (
           <View style={styles.actions}>
-            {canSignUp ? (
+            {pendingParticipation ? (
+              <View style={styles.successPill}>
+                <MaterialCommunityIcons
+                  name="cloud-upload-outline"
+                  size={18}
+                  color={colors.textSecondary}
+                />
+                <Text style={styles.successText}>
+                  {t(`eventDetails.pending.${pendingParticipation}`)}
+                </Text>
+              </View>
+            ) : canSignUp ? (
               <PrimaryButton
                 title={t("eventDetails.signUpButton")}
                 icon="hand-coin"
@@ -558,6 +1329,103 @@ useEffect(() => {
                     {t("eventDetails.signedUpLabel")}
                   </Text>
                 </View>
+                <OutlinedButton
+                  title={t("eventDetails.scanCheckInButton")}
+                  icon="qrcode-scan"
+                  onPress={() => navigation.navigate("ScanCheckIn")}
+                  style={styles.shareButton}
+                />
+              </>
+            ) : canLeaveWaitlist ? (
+              <>
+                <PrimaryButton
+                  title={
+                    withdrawing
+                      ? t("eventDetails.withdrawLoading")
+                      : t("eventDetails.leaveWaitlistButton")
+                  }
+                  icon="account-clock"
+                  onPress={handleWithdraw}
+                  disabled={withdrawing}
+                />
+                <View style={styles.successPill}>
+                  <MaterialCommunityIcons
+                    name="timer-sand"
+                    size={18}
+                    color={colors.textSecondary}
+                  />
+                  <Text style={styles.successText}>
+                    {queuePosition > 0
+                      ? t("eventDetails.waitlistedLabel", {
+                          position: queuePosition,
+                        })
+                      : t("eventDetails.waitlistedLabelPending")}
+                  </Text>
+                </View>
+              </>
+            ) : participationStatus === "attended" ||
+              participationStatus === "no_show" ? (
+              <View style={styles.successPill}>
+                <MaterialCommunityIcons
+                  name={
+                    participationStatus === "attended"
+                      ? "check-decagram"
+                      : "account-cancel"
+                  }
+                  size={18}
+                  color={
+                    participationStatus === "attended"
+                      ? colors.success
+                      : colors.textSecondary
+                  }
+                />
+                <Text style={styles.successText}>
+                  {participationStatus === "attended"
+                    ? t("eventDetails.attendedLabel")
+                    : t("eventDetails.noShowLabel")}
+                </Text>
+              </View>
+            ) : hasShifts && !participationStatus && !isCancelled ? (
+              <View style={styles.successPill}>
+                <MaterialCommunityIcons
+                  name="clock-outline"
+                  size={18}
+                  color={colors.textSecondary}
+                />
+                <Text style={styles.successText}>
+                  {t("eventDetails.pickShiftsHint")}
+                </Text>
+              </View>
+            ) : isCancelled ? (
+              <View style={styles.successPill}>
+                <MaterialCommunityIcons
+                  name="calendar-remove"
+                  size={18}
+                  color={colors.textSecondary}
+                />
+                <Text style={styles.successText}>
+                  {t("eventDetails.cancelledLabel")}
+                </Text>
+              </View>
+            ) : canJoinWaitlist ? (
+              <>
+                <PrimaryButton
+                  title={t("eventDetails.joinWaitlistButton")}
+                  icon="account-clock"
+                  onPress={handleJoinWaitlist}
+                />
+                <View style={styles.successPill}>
+                  <MaterialCommunityIcons
+                    name="calendar-check"
+                    size={18}
+                    color={colors.textSecondary}
+                  />
+                  <Text style={styles.successText}>
+                    {t("eventDetails.fullWaitlistHint", {
+                      count: event.waitlist.length,
+                    })}
+                  </Text>
+                </View>
               </>
             ) : (
               <View style={styles.successPill}>
@@ -571,121 +1439,38 @@ useEffect(() => {
                 </Text>
               </View>
             )}
+            {!isOwner && participationId ? (
+              <OutlinedButton
+                title={t("messages.contactOrganiser")}
+                icon="message-text-outline"
+                onPress={handleContactOrganiser}
+                style={styles.shareButton}
+              />
+            ) : null}
+            {!isCancelled ? (
+              <OutlinedButton
+                title={t("eventDetails.addToCalendarButton")}
+                icon="calendar-export"
+                onPress={handleAddToCalendar}
+                style={styles.shareButton}
+              />
+            ) : null}
             <OutlinedButton
               title={t("eventDetails.shareButton")}
               icon="share-variant"
-              onPress={() =>
-                Alert.alert(
-                  t("eventDetails.shareButton"),
-                  t("eventDetails.shareMessage")
-                )
-              }
+              onPress={handleShare}
               style={styles.shareButton}
             />
-          </View>
-        )}
-
-        {/* COMMENTS SECTION */}
-  <View style={{ marginTop: 24 }}>
-    <Text style={{ fontSize: 18, fontWeight: "bold", marginBottom: 10 }}>
-      {t("eventDetails.commentsTitle")}
-    </Text>
-
-  <FlatList
-    data={comments}
-    keyExtractor={(item) => item.id}
-    scrollEnabled={false}
-    renderItem={({ item }) => (
-      <View
-            style={{
-              flexDirection: "row",
-              paddingVertical: 12,
-              borderBottomWidth: 1,
-              borderColor: "#ececec",
-              alignItems: "center",
-            }}
-          >
-            {/* Avatar */}
-            <View
-              style={{
-                width: 40,
-                height: 40,
-                borderRadius: 20,
-                backgroundColor: "#e0f2f1",
-                alignItems: "center",
-                justifyContent: "center",
-                marginRight: 12,
-              }}
-            >
-              <Text style={{ fontWeight: "600" }}>
-                {item.userName ? item.userName[0].toUpperCase() : "U"}
-              </Text>
-            </View>
-
-            {/* Comment text */}
-            <View style={{ flex: 1 }}>
-              <Text style={{ fontWeight: "600" }}>{item.userName}</Text>
-              <Text>{item.text}</Text>
-              <Text style={{ fontSize: 11, marginTop: 4, color: "gray" }}>
-                {item.timestamp?.toDate
-                  ? item.timestamp.toDate().toLocaleString()
-                  : t("eventDetails.sending")}
+            {linkCopied ? (
+              <Text style={styles.linkCopied}>
+                {t("eventDetails.linkCopied")}
               </Text>
-            </View>
-
-            {/* DELETE BUTTON — Only for the owner and the organiser */}
-            {(item.userId === auth.currentUser?.uid || isOwnerOfEvent) && (
-              <TouchableOpacity
-                onPress={() =>
-                  Alert.alert(
-                    "Delete comment",
-                    "Are you sure?",
-                    [
-                      { text: "Cancel", style: "cancel" },
-                      { text: "Delete", style: "destructive", onPress: () => deleteComment(item.id) },
-                    ]
-                  )
-                }
-                style={{ padding: 6 }}
-              >
-                <MaterialCommunityIcons name="trash-can-outline" size={20} color="red" />
-              </TouchableOpacity>
-            )}
+            ) : null}
           </View>
-          )}
-          >
+        )}
 
-          </FlatList>
-
-      {/* Input Field */}
-      <View
-        style={{
-          flexDirection: "row",
-          alignItems: "center",
-          marginTop: 12,
-          backgroundColor: "#f5f5f5",
-          padding: 10,
-          borderRadius: 10,
-        }}
-      >
-        <TextInput
-          value={commentText}
-          onChangeText={setCommentText}
-          placeholder={t("eventDetails.writeCommentPlaceholder")}
-          style={{
-            flex: 1,
-            backgroundColor: "#fff",
-            padding: 10,
-            borderRadius: 8,
-            marginRight: 10,
-          }}
-        />
-        <TouchableOpacity onPress={sendComment}>
-          <Ionicons name="send" size={26} color="#2e7d32" />
-        </TouchableOpacity>
-      </View>
-    </View>
-    {/* END COMMENTS */}
+        <EventFaq event={event} isOwner={isOwner} />
+        <EventComments event={event} />
 
     
     {isOwner && (
@@ -714,6 +1499,51 @@ useEffect(() => {
           }
           style={styles.ownerButton}
         />
+        <OutlinedButton
+          title={t("eventDetails.checkInCodeButton")}
+          icon="qrcode"
+          onPress={() =>
+            navigation.navigate("CheckInCode", {
+              eventId: event.id,
+            })
+          }
+          style={styles.ownerButton}
+        />
+        {!isCancelled && !cancelFormOpen ? (
+          <OutlinedButton
+            title={t("eventDetails.cancelEventButton")}
+            icon="calendar-remove"
+            onPress={() => setCancelFormOpen(true)}
+            style={[styles.ownerButton, styles.destructiveButton]}
+          />
+        ) : null}
+        {!isCancelled && cancelFormOpen ? (
+          <View style={styles.ownerButton}>
+            <TextInput
+              value={cancellationReason}
+              onChangeText={setCancellationReason}
+              placeholder={t("eventDetails.cancelReasonPlaceholder")}
+              placeholderTextColor={colors.textMuted}
+              multiline
+              style={styles.reasonInput}
+            />
+            <OutlinedButton
+              title={
+                cancelling
+                  ? t("eventDetails.cancelLoading")
+                  : t("eventDetails.cancelEventButton")
+              }
+              icon="calendar-remove"
+              onPress={cancelling ? () => {} : handleCancelEvent}
+              style={[styles.ownerButton, styles.destructiveButton]}
+            />
+            <OutlinedButton
+              title={t("common.cancel")}
+              onPress={() => setCancelFormOpen(false)}
+              style={styles.ownerButton}
+            />
+          </View>
+        ) : null}
         <OutlinedButton
           title={
             deleting
@@ -870,6 +1700,123 @@ const styles = StyleSheet.create({
     borderColor: colors.accent,
     backgroundColor: "rgba(244, 63, 94, 0.08)",
   },
+  cancelledBanner: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    marginHorizontal: 18,
+    marginTop: 18,
+    padding: 16,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: colors.accent,
+    backgroundColor: "rgba(244, 63, 94, 0.08)",
+  },
+  announcementBanner: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    marginHorizontal: 18,
+    marginTop: 18,
+    padding: 16,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    backgroundColor: colors.surface,
+  },
+  announcementMeta: {
+    marginTop: 6,
+    color: colors.textMuted,
+    fontSize: 12,
+  },
+  cancelledBody: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  cancelledTitle: {
+    color: colors.textPrimary,
+    fontWeight: "700",
+    fontSize: 16,
+  },
+  cancelledText: {
+    marginTop: 4,
+    color: colors.textSecondary,
+    lineHeight: 20,
+  },
+  reasonInput: {
+    minHeight: 80,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 14,
+    padding: 12,
+    color: colors.textPrimary,
+    backgroundColor: colors.background,
+    textAlignVertical: "top",
+  },
+  shiftRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    paddingHorizontal: 10,
+    marginBottom: 8,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  shiftRowSelected: {
+    borderColor: colors.primary,
+    backgroundColor: "rgba(45, 212, 191, 0.12)",
+  },
+  shiftBody: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  shiftTitle: {
+    color: colors.textPrimary,
+    fontWeight: "600",
+  },
+  shiftMeta: {
+    marginTop: 2,
+    color: colors.textSecondary,
+    fontSize: 13,
+  },
+  miniMap: {
+    height: 160,
+  },
+  directionsButton: {
+    alignSelf: "flex-start",
+    marginTop: 12,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  stepperValue: {
+    minWidth: 20,
+    textAlign: "center",
+    color: colors.textPrimary,
+    fontWeight: "700",
+  },
+  taskDone: {
+    textDecorationLine: "line-through",
+    color: colors.textSecondary,
+  },
+  seriesSummary: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  occurrenceRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderColor: colors.border,
+  },
+  occurrenceText: {
+    flex: 1,
+    marginLeft: 8,
+    color: colors.textPrimary,
+  },
   successPill: {
     flexDirection: "row",
     alignItems: "center",
@@ -886,6 +1833,10 @@ const styles = StyleSheet.create({
   shareButton: {
     marginTop: 16,
   },
+  linkCopied: {
+    marginTop: 8,
+    color: colors.textSecondary,
+  },
 });
 
 export default EventDetailsScreen;
@@ -3,60 +3,109 @@
  * ---------------
  * Landing view that streams volunteer events from Firestore in real time. Users
  * can search, filter by category, toggle featured events, and navigate to detail
- * or creation flows depending on their role.
+ * or creation flows depending on their role. Cancelled events are hidden unless
+ * the user asks to see them. With the device position the list can be limited
+ * to events within a radius, sorted by distance, or shown as pins on a map.
+ * Links to `/events` can preset the search, category and view (see
+ * `EventListParams`).
  */
 import React, { useEffect, useMemo, useState } from "react";
-import { View, TextInput, FlatList, StyleSheet, Text } from "react-native";
+import {
+  View,
+  TextInput,
+  FlatList,
+  ScrollView,
+  StyleSheet,
+  Text,
+} from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { useNavigation } from "@react-navigation/native";
+import { RouteProp, useNavigation, useRoute } from "@react-navigation/native";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
-import { collection, onSnapshot, orderBy, query } from "firebase/firestore";
+import { orderBy, query } from "firebase/firestore";
 
+import ErrorBanner from "../../components/ErrorBanner";
 import EventCard from "../../components/EventCard";
+import EventMap from "../../components/EventMap";
 import OutlinedButton from "../../components/OutlinedButton";
 import PrimaryButton from "../../components/PrimaryButton";
 import LanguageSwitcher from "../../components/LanguageSwitcher";
-import { db } from "../../firebaseConfig";
+import { useQuery } from "../../hooks/useFirestore";
+import { distanceKm, nearestFirst } from "../../services/geo";
+import {
+  DEFAULT_MAP_CENTER,
+  getCurrentPosition,
+  LocationError,
+} from "../../services/location";
+import { eventsCollection } from "../../services/repository";
 import { colors } from "../../theme/colors";
-import { Event } from "../../types";
 import { useAuth } from "../../context/AuthContext";
 import { useLanguage } from "../../context/LanguageContext";
+import { Coordinates } from "../../types";
+
+// Radius options for the "within X km" filter.
+const RADIUS_OPTIONS_KM = [5, 10, 25, 50];
+
+/** Filters a link can preset, e.g. `/events?category=environment&view=map`. */
+export interface EventListParams {
+  q?: string;
+  category?: string;
+  featured?: boolean;
+  cancelled?: boolean;
+  view?: "list" | "map";
+}
+
+type EventListRouteProp = RouteProp<any, "Events">;
 
 const EventListScreen: React.FC = () => {
   const navigation = useNavigation<any>();
-  const [events, setEvents] = useState<Event[]>([]);
+  const route = useRoute<EventListRouteProp>();
+  const params = route.params as EventListParams | undefined;
   const [search, setSearch] = useState("");
   const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
   const [showOnlyFeatured, setShowOnlyFeatured] = useState(false);
+  const [showCancelled, setShowCancelled] = useState(false);
+  const [viewMode, setViewMode] = useState<"list" | "map">("list");
+  const [radiusKm, setRadiusKm] = useState<number | null>(null);
+  const [sortByDistance, setSortByDistance] = useState(false);
+  const [position, setPosition] = useState<Coordinates | null>(null);
+  const [locationError, setLocationError] = useState<string | null>(null);
   const { appUser } = useAuth();
   const { t } = useLanguage();
 
+  // Each incoming link replaces the filters; the user can change them after.
   useEffect(() => {
-    // Subscribe to event collection updates so the list stays fresh without manual refreshes.
-    const colRef = collection(db, "events");
-    const q = query(colRef, orderBy("createdAt", "desc"));
-    const unsub = onSnapshot(q, (snapshot) => {
-      const list: Event[] = snapshot.docs.map((docSnap) => {
-        const data = docSnap.data() as any;
-        return {
-          id: docSnap.id,
-          title: data.title,
-          description: data.description,
-          tasks: data.tasks,
-          category: data.category,
-          locationText: data.locationText,
-          dateTime: data.dateTime?.toDate?.() ?? new Date(),
-          createdBy: data.createdBy,
-          maxVolunteers: data.maxVolunteers,
-          currentVolunteers: data.currentVolunteers,
-          imageUrls: data.imageUrls || [],
-        };
-      });
-      setEvents(list);
-    });
+    if (!params) return;
+    setSearch(params.q ?? "");
+    setCategoryFilter(params.category ?? null);
+    setShowOnlyFeatured(params.featured ?? false);
+    setShowCancelled(params.cancelled ?? false);
+    setViewMode(params.view === "map" ? "map" : "list");
+  }, [params]);
+
+  // Distance features need the device position; it is asked for on first use.
+  const withPosition = async (apply: () => void) => {
+    if (position) {
+      apply();
+      return;
+    }
+    setLocationError(null);
+    try {
+      setPosition(await getCurrentPosition());
+      apply();
+    } catch (e: any) {
+      setLocationError(
+        e instanceof LocationError
+          ? t(`location.error.${e.code}`)
+          : e.message ?? t("location.error.unavailable")
+      );
+    }
+  };
 
-    return () => unsub();
-  }, []);
+  // Subscribe to event collection updates so the list stays fresh without manual refreshes.
+  const { data: events } = useQuery(
+    query(eventsCollection(), orderBy("createdAt", "desc")),
+    { cacheKey: "events" }
+  );
 
   const filtered = useMemo(() => {
     // Apply text, category, and featured filters on the fly for responsive UX.
@@ -67,9 +116,52 @@ const EventListScreen: React.FC = () => {
         e.description.toLowerCase().includes(search.toLowerCase());
       const matchesCategory = !categoryFilter || e.category === categoryFilter;
       const matchesFeatured = showOnlyFeatured ? e.imageUrls.length > 0 : true;
-      return matchesSearch && matchesCategory && matchesFeatured;
+      const matchesStatus = showCancelled || e.status !== "cancelled";
+      return matchesSearch && matchesCategory && matchesFeatured && matchesStatus;
     });
-  }, [events, search, categoryFilter, showOnlyFeatured]);
+  }, [events, search, categoryFilter, showOnlyFeatured, showCancelled]);
+
+  // Distance from the device to each event; events without coordinates have none.
+  const located = useMemo(() => {
+    const withDistance = filtered.map((event) => ({
+      event,
+      distance:
+        position && event.coordinates
+          ? distanceKm(position, event.coordinates)
+          : undefined,
+    }));
+    const inRange =
+      radiusKm === null
+        ? withDistance
+        : withDistance.filter(
+            ({ distance }) => distance !== undefined && distance <= radiusKm
+          );
+    return sortByDistance ? nearestFirst(inRange) : inRange;
+  }, [filtered, position, radiusKm, sortByDistance]);
+
+  const mapMarkers = useMemo(
+    () =>
+      located.flatMap(({ event, distance }) =>
+        event.coordinates
+          ? [
+              {
+                id: event.id,
+                coordinate: event.coordinates,
+                title: event.title,
+                description:
+                  distance !== undefined
+                    ? t("eventCard.distance", {
+                        distance: distance.toFixed(distance < 10 ? 1 : 0),
+                      })
+                    : event.locationText,
+              },
+            ]
+          : []
+      ),
+    [located, t]
+  );
+  const mapCenter =
+    position ?? mapMarkers[0]?.coordinate ?? DEFAULT_MAP_CENTER;
 
   return (
     <SafeAreaView style={styles.safeArea} edges={["top"]}>
@@ -132,10 +224,27 @@ const EventListScreen: React.FC = () => {
               icon={showOnlyFeatured ? "star" : "star-outline"}
               active={showOnlyFeatured}
               onPress={() => setShowOnlyFeatured((prev) => !prev)}
-              style={[
-                styles.toggleButton,
-                appUser?.role === "organiser" ? null : styles.toggleButtonFull,
-              ]}
+              style={styles.toggleButton}
+            />
+            <OutlinedButton
+              title={t("eventList.toggle.cancelled")}
+              icon={showCancelled ? "eye" : "eye-off-outline"}
+              active={showCancelled}
+              onPress={() => setShowCancelled((prev) => !prev)}
+              style={styles.toggleButton}
+            />
+            <OutlinedButton
+              title={
+                viewMode === "map"
+                  ? t("eventList.toggle.list")
+                  : t("eventList.toggle.map")
+              }
+              icon={viewMode === "map" ? "format-list-bulleted" : "map-outline"}
+              active={viewMode === "map"}
+              onPress={() =>
+                setViewMode((prev) => (prev === "map" ? "list" : "map"))
+              }
+              style={[styles.toggleButton, styles.toggleButtonFull]}
             />
             {/*{appUser?.role === "organiser" ? (
               
@@ -150,9 +259,46 @@ const EventListScreen: React.FC = () => {
 
             ) : null}  */}
           </View>
+
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.distanceRow}
+          >
+            <OutlinedButton
+              title={t("eventList.distance.any")}
+              icon="earth"
+              active={radiusKm === null}
+              onPress={() => setRadiusKm(null)}
+              style={styles.distanceChip}
+            />
+            {RADIUS_OPTIONS_KM.map((km) => (
+              <OutlinedButton
+                key={km}
+                title={t("eventList.distance.within", { km })}
+                icon="map-marker-radius-outline"
+                active={radiusKm === km}
+                onPress={() => withPosition(() => setRadiusKm(km))}
+                style={styles.distanceChip}
+              />
+            ))}
+            <OutlinedButton
+              title={t("eventList.distance.nearestFirst")}
+              icon="sort-ascending"
+              active={sortByDistance}
+              onPress={() =>
+                sortByDistance
+                  ? setSortByDistance(false)
+                  : withPosition(() => setSortByDistance(true))
+              }
+              style={styles.distanceChip}
+            />
+          </ScrollView>
         </View>
 
-        {filtered.length === 0 ? (
+        <ErrorBanner message={locationError} />
+
+        {located.length === 0 ? (
           <View style={styles.empty}>
             <MaterialCommunityIcons
               name="calendar-remove"
@@ -164,15 +310,37 @@ const EventListScreen: React.FC = () => {
               {t("eventList.emptySubtitle")}
             </Text>
           </View>
+        ) : viewMode === "map" ? (
+          <View style={styles.mapContainer}>
+            <EventMap
+              markers={mapMarkers}
+              center={mapCenter}
+              spanKm={radiusKm ? radiusKm * 2 : 30}
+              onMarkerPress={(eventId) =>
+                navigation.navigate("EventDetails", { eventId })
+              }
+              style={styles.map}
+            />
+            {mapMarkers.length < located.length ? (
+              <Text style={styles.mapNote}>
+                {t("eventList.unplaced", {
+                  count: located.length - mapMarkers.length,
+                })}
+              </Text>
+            ) : null}
+          </View>
         ) : (
           <FlatList
-            data={filtered}
-            keyExtractor={(item) => item.id}
+            data={located}
+            keyExtractor={(item) => item.event.id}
             renderItem={({ item }) => (
               <EventCard
-                event={item}
+                event={item.event}
+                distanceKm={item.distance}
                 onPress={() =>
-                  navigation.navigate("EventDetails", { eventId: item.id })
+                  navigation.navigate("EventDetails", {
+                    eventId: item.event.id,
+                  })
                 }
               />
             )}
@@ -238,6 +406,28 @@ const styles = StyleSheet.create({
   createButton: {
     flex: 1,
   },
+  distanceRow: {
+    marginTop: 12,
+    gap: 8,
+  },
+  distanceChip: {
+    marginRight: 0,
+  },
+  mapContainer: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingBottom: 120,
+  },
+  map: {
+    flex: 1,
+    height: undefined,
+  },
+  mapNote: {
+    marginTop: 8,
+    color: colors.textMuted,
+    fontSize: 13,
+    textAlign: "center",
+  },
   empty: {
     flex: 1,
     justifyContent: "center",
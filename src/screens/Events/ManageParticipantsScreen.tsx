@@ -2,8 +2,12 @@
  * ManageParticipantsScreen
  * ------------------------
  * Allows organisers to review and update the volunteer list for a given event.
- * Provides quick actions to remove or reinstate participants and keeps the
- * displayed capacity in sync with Firestore.
+ * Provides quick actions to remove or reinstate participants, shows the
+ * waitlist in queue order, and keeps the displayed capacity in sync with Firestore.
+ * From the event day onwards a check-in mode lets organisers record attendance.
+ * Events with shifts list their signed-up volunteers per shift. Organisers can
+ * broadcast an announcement to everyone taking part and follow how many of
+ * them have read it.
  */
 import React, {
   useCallback,
@@ -19,23 +23,15 @@ import {
   ScrollView,
   StyleSheet,
   Text,
+  TextInput,
   View,
   StyleProp,
   TextStyle,
   ViewStyle,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { RouteProp, useRoute } from "@react-navigation/native";
-import {
-  collection,
-  doc,
-  getDoc,
-  increment,
-  onSnapshot,
-  query,
-  updateDoc,
-  where,
-} from "firebase/firestore";
+import { RouteProp, useNavigation, useRoute } from "@react-navigation/native";
+import { onSnapshot, orderBy, query, where } from "firebase/firestore";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 
 import LanguageSwitcher from "../../components/LanguageSwitcher";
@@ -43,9 +39,46 @@ import ErrorBanner from "../../components/ErrorBanner";
 import OutlinedButton from "../../components/OutlinedButton";
 import { useAuth } from "../../context/AuthContext";
 import { useLanguage } from "../../context/LanguageContext";
-import { db } from "../../firebaseConfig";
+import { useOutbox } from "../../context/OutboxContext";
+import { useQuery } from "../../hooks/useFirestore";
+import {
+  ANNOUNCEMENT_AUDIENCE,
+  ANNOUNCEMENT_MAX_LENGTH,
+  AnnouncementError,
+  sendAnnouncement,
+} from "../../services/announcements";
+import { openConversation } from "../../services/messages";
+import { notifyUsers } from "../../services/notifications";
+import { pendingForEvent, runOrQueue } from "../../services/outbox";
+import {
+  AttendanceOutcome,
+  ParticipationError,
+  holdsSpot,
+  participationHours,
+  recordCheckOut,
+  setHoursOverride,
+  setParticipationStatus,
+  waitlistPosition,
+} from "../../services/participations";
+import {
+  announcementsCollection,
+  eventRef,
+  getDocument,
+  participationsCollection,
+  readDoc,
+  readDocs,
+  userRef,
+} from "../../services/repository";
+import { bringListCoverage } from "../../services/bringList";
+import { assignTasks, taskStaffing } from "../../services/tasks";
 import { colors } from "../../theme/colors";
-import { Participation } from "../../types";
+import {
+  BringItem,
+  Event,
+  EventShift,
+  EventTask,
+  Participation,
+} from "../../types";
 
 interface ParticipantRow {
   id: string;
@@ -54,6 +87,21 @@ interface ParticipantRow {
   email: string;
   status: Participation["status"];
   createdAt: Date | null;
+  attendanceMarkedBy: string | null;
+  attendanceMarkedAt: Date | null;
+  checkInAt: Date | null;
+  checkOutAt: Date | null;
+  hoursOverride: number | null;
+  hours: number;
+  shiftIds: string[];
+  taskIds: string[];
+  bringing: Record<string, number>;
+}
+
+interface ParticipantAction {
+  label: string;
+  icon: IconName;
+  onPress: () => void;
 }
 
 type IconName = React.ComponentProps<typeof MaterialCommunityIcons>["name"];
@@ -66,6 +114,7 @@ interface StatusStyle {
 type ManageParticipantsRoute = RouteProp<any, "ManageParticipants">;
 
 const ManageParticipantsScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
   const route = useRoute<ManageParticipantsRoute>();
   const { eventId } = route.params as { eventId: string };
   const { appUser } = useAuth();
@@ -78,11 +127,25 @@ const ManageParticipantsScreen: React.FC = () => {
   const [allowed, setAllowed] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [checkInMode, setCheckInMode] = useState(false);
+  const [bulkMarking, setBulkMarking] = useState(false);
+  const [editingHoursId, setEditingHoursId] = useState<string | null>(null);
+  const [hoursDraft, setHoursDraft] = useState("");
+  const [editingTasksId, setEditingTasksId] = useState<string | null>(null);
+  const [tasksDraft, setTasksDraft] = useState<string[]>([]);
+  const [composingAnnouncement, setComposingAnnouncement] = useState(false);
+  const [announcementDraft, setAnnouncementDraft] = useState("");
+  const [sendingAnnouncement, setSendingAnnouncement] = useState(false);
   const [eventStats, setEventStats] = useState<{
     title: string;
     currentVolunteers: number;
     maxVolunteers: number;
     ownerId: string;
+    waitlist: string[];
+    dateTime: Date | null;
+    shifts: EventShift[];
+    tasks: EventTask[];
+    bringList: BringItem[];
   } | null>(null);
   const refreshTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
 
@@ -90,6 +153,52 @@ const ManageParticipantsScreen: React.FC = () => {
     () => participants.filter((p) => p.status === "signed_up"),
     [participants]
   );
+  // Names of the volunteers holding a spot on each task.
+  const taskGroups = useMemo(() => {
+    const tasks = eventStats?.tasks ?? [];
+    const staffing = taskStaffing(tasks, participants);
+    return tasks.map((task) => ({
+      task,
+      names: staffing[task.id].map(
+        (userId) =>
+          participants.find((p) => p.userId === userId)?.displayName ??
+          t("manageParticipants.unknownUser")
+      ),
+    }));
+  }, [eventStats?.tasks, participants, t]);
+  const bringCoverage = useMemo(
+    () => bringListCoverage(eventStats?.bringList ?? [], participants),
+    [eventStats?.bringList, participants]
+  );
+  // Signed-up volunteers per shift; someone on two shifts appears under both.
+  const shiftGroups = useMemo(() => {
+    const shifts = eventStats?.shifts ?? [];
+    if (shifts.length === 0) return null;
+    const groups = shifts.map((shift) => ({
+      shift: shift as EventShift | null,
+      participants: activeParticipants.filter((p) =>
+        p.shiftIds.includes(shift.id)
+      ),
+    }));
+    const unassigned = activeParticipants.filter(
+      (p) => !p.shiftIds.some((id) => shifts.some((shift) => shift.id === id))
+    );
+    if (unassigned.length > 0) {
+      groups.push({ shift: null, participants: unassigned });
+    }
+    return groups;
+  }, [activeParticipants, eventStats?.shifts]);
+  const waitlistedParticipants = useMemo(() => {
+    const queue = eventStats?.waitlist ?? [];
+    // Entries missing from the queue (mid-update) sort last rather than first.
+    const rank = (id: string) => {
+      const index = queue.indexOf(id);
+      return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+    };
+    return participants
+      .filter((p) => p.status === "waitlisted")
+      .sort((a, b) => rank(a.id) - rank(b.id));
+  }, [eventStats?.waitlist, participants]);
   const withdrawnParticipants = useMemo(
     () => participants.filter((p) => p.status === "withdrawn"),
     [participants]
@@ -98,6 +207,55 @@ const ManageParticipantsScreen: React.FC = () => {
     () => participants.filter((p) => p.status === "attended"),
     [participants]
   );
+  const totalHours = useMemo(
+    () => participants.reduce((sum, p) => sum + p.hours, 0),
+    [participants]
+  );
+  const announcementAudience = useMemo(
+    () =>
+      new Set(
+        participants
+          .filter((p) => ANNOUNCEMENT_AUDIENCE.includes(p.status))
+          .map((p) => p.userId)
+      ).size,
+    [participants]
+  );
+  const { data: announcements } = useQuery(
+    eventId && allowed
+      ? query(announcementsCollection(eventId), orderBy("createdAt", "desc"))
+      : null
+  );
+  const noShowParticipants = useMemo(
+    () => participants.filter((p) => p.status === "no_show"),
+    [participants]
+  );
+  // Latest queued attendance mark per participation, for the "pending" hint.
+  const { entries: outboxEntries } = useOutbox();
+  const pendingAttendance = useMemo(() => {
+    const pending = new Map<string, AttendanceOutcome | null>();
+    pendingForEvent(outboxEntries, eventId).forEach(({ action }) => {
+      if (action.type !== "attendance") return;
+      action.participationIds.forEach((id) => pending.set(id, action.outcome));
+    });
+    return pending;
+  }, [eventId, outboxEntries]);
+
+  // Check-in opens on the day of the event and stays available afterwards.
+  const checkInAvailable = useMemo(() => {
+    if (!eventStats?.dateTime) return false;
+    const eventDay = new Date(eventStats.dateTime);
+    eventDay.setHours(0, 0, 0, 0);
+    return eventDay.getTime() <= Date.now();
+  }, [eventStats?.dateTime]);
+
+  const describeShift = useCallback(
+    (shift: EventShift) => {
+      const format = new Intl.DateTimeFormat(locale, { timeStyle: "short" });
+      const span = `${format.format(shift.start)}–${format.format(shift.end)}`;
+      return shift.label ? `${shift.label} · ${span}` : span;
+    },
+    [locale]
+  );
 
   const formatJoinedLabel = useCallback(
     (date: Date | null) => {
@@ -121,11 +279,23 @@ const ManageParticipantsScreen: React.FC = () => {
     setLoading(true);
     setError(null);
 
-    const eventRef = doc(db, "events", eventId);
     const unsubscribe = onSnapshot(
-      eventRef,
+      eventRef(eventId),
       (snapshot) => {
-        if (!snapshot.exists()) {
+        let event: Event | null;
+        try {
+          event = readDoc(snapshot);
+        } catch (malformed: any) {
+          if (isMounted) {
+            setAllowed(false);
+            setEventStats(null);
+            setError(malformed.message ?? t("manageParticipants.errorLoad"));
+            setLoading(false);
+          }
+          return;
+        }
+
+        if (!event) {
           if (isMounted) {
             setAllowed(false);
             setEventStats(null);
@@ -135,18 +305,23 @@ const ManageParticipantsScreen: React.FC = () => {
           return;
         }
 
-        const eventData = snapshot.data() as any;
-        const ownerId = eventData.createdBy;
+        const ownerId = event.createdBy;
+        const stats = {
+          title: event.title,
+          currentVolunteers: event.currentVolunteers,
+          maxVolunteers: event.maxVolunteers,
+          ownerId,
+          waitlist: event.waitlist,
+          dateTime: event.dateTime,
+          shifts: event.shifts,
+          tasks: event.tasks,
+          bringList: event.bringList,
+        };
 
         if (!appUser) {
           if (isMounted) {
             setAllowed(false);
-            setEventStats({
-              title: eventData.title ?? "",
-              currentVolunteers: eventData.currentVolunteers ?? 0,
-              maxVolunteers: eventData.maxVolunteers ?? 0,
-              ownerId,
-            });
+            setEventStats(stats);
             setError(t("manageParticipants.authRequired"));
             setLoading(false);
           }
@@ -156,12 +331,7 @@ const ManageParticipantsScreen: React.FC = () => {
         if (ownerId !== appUser.id) {
           if (isMounted) {
             setAllowed(false);
-            setEventStats({
-              title: eventData.title ?? "",
-              currentVolunteers: eventData.currentVolunteers ?? 0,
-              maxVolunteers: eventData.maxVolunteers ?? 0,
-              ownerId,
-            });
+            setEventStats(stats);
             setError(t("manageParticipants.notOwner"));
             setLoading(false);
           }
@@ -170,12 +340,7 @@ const ManageParticipantsScreen: React.FC = () => {
 
         if (isMounted) {
           setAllowed(true);
-          setEventStats({
-            title: eventData.title ?? "",
-            currentVolunteers: eventData.currentVolunteers ?? 0,
-            maxVolunteers: eventData.maxVolunteers ?? 0,
-            ownerId,
-          });
+          setEventStats(stats);
           setError(null);
           setLoading(false);
         }
@@ -207,7 +372,7 @@ const ManageParticipantsScreen: React.FC = () => {
     const userCache = new Map<string, { displayName: string; email: string }>();
 
     const participationQuery = query(
-      collection(db, "participations"),
+      participationsCollection(),
       where("eventId", "==", eventId)
     );
 
@@ -216,23 +381,17 @@ const ManageParticipantsScreen: React.FC = () => {
       async (snapshot) => {
         try {
           const rows: ParticipantRow[] = await Promise.all(
-            snapshot.docs.map(async (docSnap) => {
-              const data = docSnap.data() as any;
-              const userId = data.userId as string;
+            readDocs(snapshot).map(async (participation) => {
+              const userId = participation.userId;
 
               let profile = userCache.get(userId);
               if (!profile) {
                 try {
-                  const userSnap = await getDoc(doc(db, "users", userId));
-                  if (userSnap.exists()) {
-                    const userData = userSnap.data() as any;
-                    profile = {
-                      displayName: userData.displayName || "",
-                      email: userData.email || "",
-                    };
-                  } else {
-                    profile = { displayName: "", email: "" };
-                  }
+                  const user = await getDocument(userRef(userId));
+                  profile = {
+                    displayName: user?.displayName ?? "",
+                    email: user?.email ?? "",
+                  };
                 } catch (userError) {
                   console.warn("Failed to load user profile", userError);
                   profile = { displayName: "", email: "" };
@@ -240,23 +399,25 @@ const ManageParticipantsScreen: React.FC = () => {
                 userCache.set(userId, profile);
               }
 
-              const createdAtRaw = data.createdAt;
-              const createdAt = createdAtRaw?.toDate?.()
-                ? createdAtRaw.toDate()
-                : createdAtRaw instanceof Date
-                ? createdAtRaw
-                : null;
-
               return {
-                id: docSnap.id,
+                id: participation.id,
                 userId,
-                status: (data.status as Participation["status"]) || "signed_up",
-                createdAt,
+                status: participation.status,
+                createdAt: participation.createdAt,
+                attendanceMarkedBy: participation.attendanceMarkedBy ?? null,
+                attendanceMarkedAt: participation.attendanceMarkedAt ?? null,
+                checkInAt: participation.checkInAt ?? null,
+                checkOutAt: participation.checkOutAt ?? null,
+                hoursOverride: participation.hoursOverride ?? null,
+                hours: participationHours(participation),
+                shiftIds: participation.shiftIds,
+                taskIds: participation.taskIds,
+                bringing: participation.bringing,
                 displayName:
-                  profile?.displayName ||
-                  profile?.email ||
+                  profile.displayName ||
+                  profile.email ||
                   t("manageParticipants.unknownUser"),
-                email: profile?.email ?? "",
+                email: profile.email,
               };
             })
           );
@@ -324,8 +485,8 @@ const ManageParticipantsScreen: React.FC = () => {
       }
 
       if (
-        participant.status !== "signed_up" &&
-        nextStatus === "signed_up" &&
+        !holdsSpot(participant.status) &&
+        holdsSpot(nextStatus) &&
         eventStats.currentVolunteers >= eventStats.maxVolunteers
       ) {
         setError(t("manageParticipants.errorFull"));
@@ -335,25 +496,22 @@ const ManageParticipantsScreen: React.FC = () => {
       setUpdatingId(participant.id);
       setError(null);
       try {
-        const participationRef = doc(db, "participations", participant.id);
-        await updateDoc(participationRef, { status: nextStatus });
-
-        let delta = 0;
-        if (participant.status === "signed_up" && nextStatus !== "signed_up") {
-          delta = -1;
-        } else if (
-          participant.status !== "signed_up" &&
-          nextStatus === "signed_up"
-        ) {
-          delta = 1;
-        }
-
-        if (delta !== 0) {
-          const eventRef = doc(db, "events", eventId);
-          await updateDoc(eventRef, { currentVolunteers: increment(delta) });
+        await setParticipationStatus(participant.id, nextStatus);
+        // Removed volunteers find out from their inbox instead of by surprise.
+        if (nextStatus === "withdrawn") {
+          await notifyUsers([participant.userId], {
+            type: "removed",
+            eventId,
+            eventTitle: eventStats.title,
+            senderId: appUser.id,
+          });
         }
       } catch (err: any) {
-        setError(err?.message ?? t("manageParticipants.errorUpdate"));
+        setError(
+          err instanceof ParticipationError
+            ? t(`participation.error.${err.code}`)
+            : err?.message ?? t("manageParticipants.errorUpdate")
+        );
       } finally {
         setUpdatingId(null);
       }
@@ -361,6 +519,38 @@ const ManageParticipantsScreen: React.FC = () => {
     [appUser, eventId, eventStats, t]
   );
 
+  const handleSendAnnouncement = useCallback(async () => {
+    if (!appUser || !eventStats || sendingAnnouncement) return;
+    setSendingAnnouncement(true);
+    setError(null);
+    try {
+      await sendAnnouncement(
+        { id: eventId, title: eventStats.title },
+        announcementDraft,
+        appUser.id
+      );
+      setAnnouncementDraft("");
+      setComposingAnnouncement(false);
+    } catch (err: any) {
+      setError(
+        err instanceof AnnouncementError
+          ? t(`announcement.error.${err.code}`, {
+              max: ANNOUNCEMENT_MAX_LENGTH,
+            })
+          : err?.message ?? t("announcement.errorSend")
+      );
+    } finally {
+      setSendingAnnouncement(false);
+    }
+  }, [
+    announcementDraft,
+    appUser,
+    eventId,
+    eventStats,
+    sendingAnnouncement,
+    t,
+  ]);
+
   const confirmStatusChange = useCallback(
     (participant: ParticipantRow, nextStatus: Participation["status"]) => {
       const isReinstate = nextStatus === "signed_up";
@@ -393,18 +583,265 @@ const ManageParticipantsScreen: React.FC = () => {
     [handleStatusChange, t]
   );
 
+  const handleAttendance = useCallback(
+    async (participant: ParticipantRow, outcome: AttendanceOutcome | null) => {
+      if (!appUser || eventStats?.ownerId !== appUser.id) {
+        setError(t("manageParticipants.notOwner"));
+        return;
+      }
+      setUpdatingId(participant.id);
+      setError(null);
+      try {
+        // Marks made without coverage are queued and synced later.
+        await runOrQueue({
+          type: "attendance",
+          eventId,
+          participationIds: [participant.id],
+          outcome,
+          markedBy: appUser.id,
+        });
+      } catch (err: any) {
+        setError(err?.message ?? t("manageParticipants.errorAttendance"));
+      } finally {
+        setUpdatingId(null);
+      }
+    },
+    [appUser, eventId, eventStats?.ownerId, t]
+  );
+
+  const confirmMarkAllPresent = useCallback(() => {
+    if (!appUser || activeParticipants.length === 0) return;
+    Alert.alert(
+      t("manageParticipants.markAllConfirmTitle"),
+      t("manageParticipants.markAllConfirmMessage", {
+        count: activeParticipants.length,
+      }),
+      [
+        {
+          text: t("common.cancel"),
+          style: "cancel",
+        },
+        {
+          text: t("manageParticipants.markAllAction"),
+          onPress: async () => {
+            setBulkMarking(true);
+            setError(null);
+            try {
+              await runOrQueue({
+                type: "attendance",
+                eventId,
+                participationIds: activeParticipants.map((p) => p.id),
+                outcome: "attended",
+                markedBy: appUser.id,
+              });
+            } catch (err: any) {
+              setError(
+                err?.message ?? t("manageParticipants.errorAttendance")
+              );
+            } finally {
+              setBulkMarking(false);
+            }
+          },
+        },
+      ]
+    );
+  }, [activeParticipants, appUser, eventId, t]);
+
+  const handleCheckOut = useCallback(
+    async (participant: ParticipantRow) => {
+      setUpdatingId(participant.id);
+      setError(null);
+      try {
+        await recordCheckOut([participant.id]);
+      } catch (err: any) {
+        setError(err?.message ?? t("manageParticipants.errorAttendance"));
+      } finally {
+        setUpdatingId(null);
+      }
+    },
+    [t]
+  );
+
+  const startEditingHours = useCallback((participant: ParticipantRow) => {
+    setEditingHoursId(participant.id);
+    setHoursDraft(
+      participant.hoursOverride !== null
+        ? String(participant.hoursOverride)
+        : participant.hours
+        ? String(participant.hours)
+        : ""
+    );
+  }, []);
+
+  // An empty field clears the override so the computed check-in/out span applies again.
+  const saveHours = useCallback(
+    async (participant: ParticipantRow) => {
+      const trimmed = hoursDraft.trim().replace(",", ".");
+      const hours = trimmed === "" ? null : Number(trimmed);
+      setUpdatingId(participant.id);
+      setError(null);
+      try {
+        await setHoursOverride(participant.id, hours);
+        setEditingHoursId(null);
+      } catch (err: any) {
+        setError(
+          err instanceof ParticipationError
+            ? t(`participation.error.${err.code}`)
+            : err?.message ?? t("manageParticipants.errorHours")
+        );
+      } finally {
+        setUpdatingId(null);
+      }
+    },
+    [hoursDraft, t]
+  );
+
+  const startEditingTasks = useCallback((participant: ParticipantRow) => {
+    setEditingTasksId(participant.id);
+    setTasksDraft(participant.taskIds);
+  }, []);
+
+  const toggleTaskDraft = (taskId: string) =>
+    setTasksDraft((prev) =>
+      prev.includes(taskId)
+        ? prev.filter((id) => id !== taskId)
+        : [...prev, taskId]
+    );
+
+  // Organisers may reassign freely, even onto a task that is already staffed.
+  const saveTasks = useCallback(
+    async (participant: ParticipantRow) => {
+      setUpdatingId(participant.id);
+      setError(null);
+      try {
+        await assignTasks(participant.id, tasksDraft);
+        setEditingTasksId(null);
+      } catch (err: any) {
+        setError(err?.message ?? t("manageParticipants.errorTasks"));
+      } finally {
+        setUpdatingId(null);
+      }
+    },
+    [tasksDraft, t]
+  );
+
+  const describeHours = useCallback(
+    (participant: ParticipantRow) => {
+      if (participant.status !== "attended") return null;
+      const formatTime = (date: Date) =>
+        new Intl.DateTimeFormat(locale, { timeStyle: "short" }).format(date);
+      if (participant.hoursOverride !== null) {
+        return t("manageParticipants.hoursOverride", {
+          hours: participant.hours,
+        });
+      }
+      if (participant.checkInAt && participant.checkOutAt) {
+        return t("manageParticipants.hoursSpan", {
+          hours: participant.hours,
+          from: formatTime(participant.checkInAt),
+          to: formatTime(participant.checkOutAt),
+        });
+      }
+      if (participant.checkInAt) {
+        return t("manageParticipants.hoursOpen", {
+          from: formatTime(participant.checkInAt),
+        });
+      }
+      return null;
+    },
+    [locale, t]
+  );
+
+  const describeAttendanceMark = useCallback(
+    (participant: ParticipantRow) => {
+      if (!participant.attendanceMarkedBy) return null;
+      const markedBy =
+        participant.attendanceMarkedBy === appUser?.id
+          ? t("manageParticipants.markedByYou")
+          : participant.attendanceMarkedBy === participant.userId
+          ? t("manageParticipants.markedBySelf")
+          : participants.find(
+              (p) => p.userId === participant.attendanceMarkedBy
+            )?.displayName ?? t("manageParticipants.unknownUser");
+      if (!participant.attendanceMarkedAt) {
+        return t("manageParticipants.markedBy", { name: markedBy });
+      }
+      return t("manageParticipants.markedByAt", {
+        name: markedBy,
+        time: new Intl.DateTimeFormat(locale, {
+          timeStyle: "short",
+        }).format(participant.attendanceMarkedAt),
+      });
+    },
+    [appUser?.id, locale, participants, t]
+  );
+
+  const openMessages = useCallback(
+    async (participant: ParticipantRow) => {
+      if (!eventStats) return;
+      try {
+        const conversationId = await openConversation(
+          {
+            id: eventId,
+            title: eventStats.title,
+            createdBy: eventStats.ownerId,
+          },
+          participant.userId,
+          participant.id
+        );
+        navigation.navigate("Conversation", { conversationId });
+      } catch (e: any) {
+        setError(e.message ?? t("messages.errorOpen"));
+      }
+    },
+    [eventId, eventStats, navigation, t]
+  );
+
   const renderParticipantCard = useCallback(
     (
       participant: ParticipantRow,
       statusStyle: StatusStyle,
-      action?: {
-        nextStatus: Participation["status"];
-        label: string;
-        icon: IconName;
-      }
+      actions: ParticipantAction[] = []
     ) => {
       const joinedLabel = formatJoinedLabel(participant.createdAt);
+      const attendanceLabel = describeAttendanceMark(participant);
+      const hoursLabel = describeHours(participant);
+      const isEditingHours = editingHoursId === participant.id;
       const isUpdating = updatingId === participant.id;
+      const pendingOutcome = pendingAttendance.get(participant.id);
+      const shiftNames = (eventStats?.shifts ?? [])
+        .filter((shift) => participant.shiftIds.includes(shift.id))
+        .map(describeShift);
+      const shiftLabel =
+        shiftNames.length > 0
+          ? t("manageParticipants.shifts", { shifts: shiftNames.join(", ") })
+          : null;
+      const taskNames = (eventStats?.tasks ?? [])
+        .filter((task) => participant.taskIds.includes(task.id))
+        .map((task) => task.title);
+      const taskLabel =
+        taskNames.length > 0
+          ? t("manageParticipants.tasks", { tasks: taskNames.join(", ") })
+          : null;
+      const isEditingTasks = editingTasksId === participant.id;
+      const bringingNames = (eventStats?.bringList ?? [])
+        .filter((item) => (participant.bringing[item.id] ?? 0) > 0)
+        .map((item) =>
+          t("eventDetails.bringItem", {
+            name: item.name,
+            count: participant.bringing[item.id],
+          })
+        );
+      const bringingLabel =
+        bringingNames.length > 0
+          ? t("manageParticipants.bringing", {
+              items: bringingNames.join(", "),
+            })
+          : null;
+      const queuePosition =
+        participant.status === "waitlisted"
+          ? waitlistPosition(eventStats?.waitlist, participant.id)
+          : 0;
 
       return (
         <View key={participant.id} style={styles.card}>
@@ -431,28 +868,172 @@ const ManageParticipantsScreen: React.FC = () => {
             </View>
           </View>
           <Text style={styles.joinedLabel}>{joinedLabel}</Text>
-          {action ? (
-            <View style={styles.cardActions}>
-              {isUpdating ? (
-                <ActivityIndicator size="small" color={colors.primary} />
-              ) : (
+          {shiftLabel ? (
+            <Text style={styles.joinedLabel}>{shiftLabel}</Text>
+          ) : null}
+          {taskLabel ? (
+            <Text style={styles.joinedLabel}>{taskLabel}</Text>
+          ) : null}
+          {bringingLabel ? (
+            <Text style={styles.joinedLabel}>{bringingLabel}</Text>
+          ) : null}
+          {queuePosition > 0 ? (
+            <Text style={styles.joinedLabel}>
+              {t("manageParticipants.queuePosition", {
+                position: queuePosition,
+              })}
+            </Text>
+          ) : null}
+          {attendanceLabel ? (
+            <Text style={styles.joinedLabel}>{attendanceLabel}</Text>
+          ) : null}
+          {pendingOutcome !== undefined ? (
+            <View style={styles.pendingRow}>
+              <MaterialCommunityIcons
+                name="cloud-upload-outline"
+                size={14}
+                color={colors.accent}
+              />
+              <Text style={styles.pendingLabel}>
+                {t(`manageParticipants.pending.${pendingOutcome ?? "cleared"}`)}
+              </Text>
+            </View>
+          ) : null}
+          {hoursLabel ? (
+            <Text style={styles.hoursLabel}>{hoursLabel}</Text>
+          ) : null}
+          {isEditingHours ? (
+            <View style={styles.hoursEditor}>
+              <TextInput
+                style={styles.hoursInput}
+                value={hoursDraft}
+                onChangeText={setHoursDraft}
+                keyboardType="decimal-pad"
+                placeholder={t("manageParticipants.hoursPlaceholder")}
+                placeholderTextColor={colors.textMuted}
+              />
+              <OutlinedButton
+                title={t("manageParticipants.saveHoursAction")}
+                icon="content-save"
+                onPress={() => saveHours(participant)}
+                style={styles.actionButton}
+              />
+              <OutlinedButton
+                title={t("common.cancel")}
+                onPress={() => setEditingHoursId(null)}
+                style={styles.actionButton}
+              />
+            </View>
+          ) : null}
+          {isEditingTasks ? (
+            <View style={styles.hoursEditor}>
+              {(eventStats?.tasks ?? []).map((task) => (
                 <OutlinedButton
-                  title={action.label}
-                  icon={action.icon}
-                  onPress={() =>
-                    confirmStatusChange(participant, action.nextStatus)
+                  key={task.id}
+                  title={task.title}
+                  icon={
+                    tasksDraft.includes(task.id)
+                      ? "checkbox-marked"
+                      : "checkbox-blank-outline"
                   }
+                  active={tasksDraft.includes(task.id)}
+                  onPress={() => toggleTaskDraft(task.id)}
                   style={styles.actionButton}
                 />
+              ))}
+              <OutlinedButton
+                title={t("manageParticipants.saveHoursAction")}
+                icon="content-save"
+                onPress={() => saveTasks(participant)}
+                style={styles.actionButton}
+              />
+              <OutlinedButton
+                title={t("common.cancel")}
+                onPress={() => setEditingTasksId(null)}
+                style={styles.actionButton}
+              />
+            </View>
+          ) : null}
+          {!isEditingHours && !isEditingTasks ? (
+            <View style={styles.cardActions}>
+              {isUpdating ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                [
+                  ...actions,
+                  {
+                    label: t("messages.messageAction"),
+                    icon: "message-text-outline" as IconName,
+                    onPress: () => openMessages(participant),
+                  },
+                ].map((action) => (
+                  <OutlinedButton
+                    key={action.label}
+                    title={action.label}
+                    icon={action.icon}
+                    onPress={action.onPress}
+                    style={styles.actionButton}
+                  />
+                ))
               )}
             </View>
           ) : null}
         </View>
       );
     },
-    [confirmStatusChange, formatJoinedLabel, t, updatingId]
+    [
+      describeAttendanceMark,
+      describeHours,
+      describeShift,
+      editingHoursId,
+      editingTasksId,
+      eventStats?.bringList,
+      eventStats?.shifts,
+      eventStats?.tasks,
+      eventStats?.waitlist,
+      formatJoinedLabel,
+      hoursDraft,
+      openMessages,
+      pendingAttendance,
+      saveHours,
+      saveTasks,
+      t,
+      tasksDraft,
+      updatingId,
+    ]
   );
 
+  const activeActions = (participant: ParticipantRow): ParticipantAction[] =>
+    checkInMode
+      ? [
+          {
+            label: t("manageParticipants.markAttendedAction"),
+            icon: "account-check",
+            onPress: () => handleAttendance(participant, "attended"),
+          },
+          {
+            label: t("manageParticipants.markNoShowAction"),
+            icon: "account-cancel",
+            onPress: () => handleAttendance(participant, "no_show"),
+          },
+        ]
+      : [
+          ...(eventStats && eventStats.tasks.length > 0
+            ? [
+                {
+                  label: t("manageParticipants.assignTasksAction"),
+                  icon: "clipboard-list-outline" as IconName,
+                  onPress: () => startEditingTasks(participant),
+                },
+              ]
+            : []),
+          {
+            label: t("manageParticipants.removeAction"),
+            icon: "account-remove",
+            onPress: () => confirmStatusChange(participant, "withdrawn"),
+          },
+        ];
+
   useEffect(() => {
     return () => {
       if (refreshTimeout.current) {
@@ -501,6 +1082,82 @@ const ManageParticipantsScreen: React.FC = () => {
               </Text>
             </View>
           ) : null}
+          {totalHours > 0 ? (
+            <View style={styles.capacityPill}>
+              <MaterialCommunityIcons
+                name="clock-check-outline"
+                size={18}
+                color={colors.textSecondary}
+              />
+              <Text style={styles.capacityText}>
+                {t("manageParticipants.totalHours", { hours: totalHours })}
+              </Text>
+            </View>
+          ) : null}
+          {allowed && checkInAvailable ? (
+            <View style={styles.checkInBar}>
+              <OutlinedButton
+                title={
+                  checkInMode
+                    ? t("manageParticipants.checkInModeOn")
+                    : t("manageParticipants.checkInModeOff")
+                }
+                icon="clipboard-check-outline"
+                active={checkInMode}
+                onPress={() => setCheckInMode((prev) => !prev)}
+                style={styles.actionButton}
+              />
+              {checkInMode && activeParticipants.length > 0 ? (
+                <OutlinedButton
+                  title={
+                    bulkMarking
+                      ? t("manageParticipants.markAllLoading")
+                      : t("manageParticipants.markAllAction")
+                  }
+                  icon="account-multiple-check"
+                  onPress={bulkMarking ? () => {} : confirmMarkAllPresent}
+                  style={styles.actionButton}
+                />
+              ) : null}
+            </View>
+          ) : null}
+          {allowed && eventStats ? (
+            <View style={styles.checkInBar}>
+              <OutlinedButton
+                title={t("announcement.announceAction")}
+                icon="bullhorn-outline"
+                active={composingAnnouncement}
+                onPress={() => setComposingAnnouncement((prev) => !prev)}
+                style={styles.actionButton}
+              />
+            </View>
+          ) : null}
+          {allowed && composingAnnouncement ? (
+            <View style={styles.announcementComposer}>
+              <Text style={styles.participantEmail}>
+                {t("announcement.audience", { count: announcementAudience })}
+              </Text>
+              <TextInput
+                value={announcementDraft}
+                onChangeText={setAnnouncementDraft}
+                placeholder={t("announcement.placeholder")}
+                placeholderTextColor={colors.textMuted}
+                maxLength={ANNOUNCEMENT_MAX_LENGTH}
+                multiline
+                style={styles.announcementInput}
+              />
+              <OutlinedButton
+                title={
+                  sendingAnnouncement
+                    ? t("announcement.sending")
+                    : t("announcement.send")
+                }
+                icon="send"
+                onPress={handleSendAnnouncement}
+                style={styles.actionButton}
+              />
+            </View>
+          ) : null}
         </View>
 
         {loading ? (
@@ -512,17 +1169,174 @@ const ManageParticipantsScreen: React.FC = () => {
           </View>
         ) : allowed ? (
           <>
-            {activeParticipants.length > 0 ? (
+            {announcements.length > 0 ? (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>
+                  {t("announcement.sectionTitle")}
+                </Text>
+                {announcements.map((announcement) => (
+                  <View key={announcement.id} style={styles.taskRow}>
+                    <MaterialCommunityIcons
+                      name="bullhorn-outline"
+                      size={20}
+                      color={colors.primary}
+                    />
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.participantName}>
+                        {announcement.message}
+                      </Text>
+                      <Text style={styles.participantEmail}>
+                        {t("announcement.stats", {
+                          date: new Intl.DateTimeFormat(locale, {
+                            dateStyle: "medium",
+                            timeStyle: "short",
+                          }).format(announcement.createdAt),
+                          delivered: announcement.recipientIds.length,
+                          read: announcement.readBy.length,
+                        })}
+                      </Text>
+                    </View>
+                  </View>
+                ))}
+              </View>
+            ) : null}
+
+            {taskGroups.length > 0 ? (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>
+                  {t("manageParticipants.section.tasks")}
+                </Text>
+                {taskGroups.map(({ task, names }) => (
+                  <View key={task.id} style={styles.taskRow}>
+                    <MaterialCommunityIcons
+                      name={
+                        task.doneAt
+                          ? "check-circle"
+                          : names.length >= task.headcount
+                          ? "account-check-outline"
+                          : "account-alert-outline"
+                      }
+                      size={20}
+                      color={
+                        task.doneAt || names.length >= task.headcount
+                          ? colors.primary
+                          : colors.accent
+                      }
+                    />
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.participantName}>
+                        {t("manageParticipants.taskStaffing", {
+                          task: task.title,
+                          current: names.length,
+                          count: task.headcount,
+                        })}
+                      </Text>
+                      <Text style={styles.participantEmail}>
+                        {names.length > 0
+                          ? names.join(", ")
+                          : t("manageParticipants.taskUnstaffed")}
+                      </Text>
+                    </View>
+                  </View>
+                ))}
+              </View>
+            ) : null}
+
+            {eventStats && eventStats.bringList.length > 0 ? (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>
+                  {t("eventDetails.sectionBringList")}
+                </Text>
+                {eventStats.bringList.map((item) => {
+                  const covered = bringCoverage[item.id] ?? 0;
+                  return (
+                    <View key={item.id} style={styles.taskRow}>
+                      <MaterialCommunityIcons
+                        name={
+                          covered >= item.quantity
+                            ? "check-circle"
+                            : "toolbox-outline"
+                        }
+                        size={20}
+                        color={
+                          covered >= item.quantity
+                            ? colors.primary
+                            : colors.accent
+                        }
+                      />
+                      <Text style={[styles.participantName, { flex: 1 }]}>
+                        {t("manageParticipants.bringCoverage", {
+                          name: item.name,
+                          current: Math.min(covered, item.quantity),
+                          count: item.quantity,
+                        })}
+                      </Text>
+                    </View>
+                  );
+                })}
+              </View>
+            ) : null}
+
+            {shiftGroups
+              ? shiftGroups.map(({ shift, participants: members }) => (
+                  <View key={shift?.id ?? "unassigned"} style={styles.section}>
+                    <Text style={styles.sectionTitle}>
+                      {shift
+                        ? t("manageParticipants.section.shift", {
+                            shift: describeShift(shift),
+                            current: shift.currentVolunteers,
+                            max: shift.maxVolunteers,
+                          })
+                        : t("manageParticipants.section.noShift")}
+                    </Text>
+                    {members.length === 0 ? (
+                      <Text style={styles.joinedLabel}>
+                        {t("manageParticipants.shiftEmpty")}
+                      </Text>
+                    ) : (
+                      members.map((participant) =>
+                        renderParticipantCard(
+                          participant,
+                          statusStyles.active,
+                          activeActions(participant)
+                        )
+                      )
+                    )}
+                  </View>
+                ))
+              : null}
+
+            {!shiftGroups && activeParticipants.length > 0 ? (
               <View style={styles.section}>
                 <Text style={styles.sectionTitle}>
                   {t("manageParticipants.section.active")}
                 </Text>
                 {activeParticipants.map((participant) =>
-                  renderParticipantCard(participant, statusStyles.active, {
-                    nextStatus: "withdrawn",
-                    label: t("manageParticipants.removeAction"),
-                    icon: "account-remove",
-                  })
+                  renderParticipantCard(
+                    participant,
+                    statusStyles.active,
+                    activeActions(participant)
+                  )
+                )}
+              </View>
+            ) : null}
+
+            {waitlistedParticipants.length > 0 ? (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>
+                  {t("manageParticipants.section.waitlist", {
+                    count: waitlistedParticipants.length,
+                  })}
+                </Text>
+                {waitlistedParticipants.map((participant) =>
+                  renderParticipantCard(participant, statusStyles.waitlisted, [
+                    {
+                      label: t("manageParticipants.removeAction"),
+                      icon: "account-remove",
+                      onPress: () =>
+                        confirmStatusChange(participant, "withdrawn"),
+                    },
+                  ])
                 )}
               </View>
             ) : null}
@@ -533,11 +1347,14 @@ const ManageParticipantsScreen: React.FC = () => {
                   {t("manageParticipants.section.withdrawn")}
                 </Text>
                 {withdrawnParticipants.map((participant) =>
-                  renderParticipantCard(participant, statusStyles.withdrawn, {
-                    nextStatus: "signed_up",
-                    label: t("manageParticipants.reinstateAction"),
-                    icon: "account-plus",
-                  })
+                  renderParticipantCard(participant, statusStyles.withdrawn, [
+                    {
+                      label: t("manageParticipants.reinstateAction"),
+                      icon: "account-plus",
+                      onPress: () =>
+                        confirmStatusChange(participant, "signed_up"),
+                    },
+                  ])
                 )}
               </View>
             ) : null}
@@ -548,7 +1365,59 @@ const ManageParticipantsScreen: React.FC = () => {
                   {t("manageParticipants.section.attended")}
                 </Text>
                 {attendedParticipants.map((participant) =>
-                  renderParticipantCard(participant, statusStyles.attended)
+                  renderParticipantCard(
+                    participant,
+                    statusStyles.attended,
+                    [
+                      ...(checkInMode
+                        ? [
+                            {
+                              label: t("manageParticipants.undoMarkAction"),
+                              icon: "undo" as IconName,
+                              onPress: () =>
+                                handleAttendance(participant, null),
+                            },
+                          ]
+                        : []),
+                      ...(checkInMode && !participant.checkOutAt
+                        ? [
+                            {
+                              label: t("manageParticipants.checkOutAction"),
+                              icon: "logout" as IconName,
+                              onPress: () => handleCheckOut(participant),
+                            },
+                          ]
+                        : []),
+                      {
+                        label: t("manageParticipants.editHoursAction"),
+                        icon: "clock-edit-outline",
+                        onPress: () => startEditingHours(participant),
+                      },
+                    ]
+                  )
+                )}
+              </View>
+            ) : null}
+
+            {noShowParticipants.length > 0 ? (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>
+                  {t("manageParticipants.section.noShow")}
+                </Text>
+                {noShowParticipants.map((participant) =>
+                  renderParticipantCard(
+                    participant,
+                    statusStyles.withdrawn,
+                    checkInMode
+                      ? [
+                          {
+                            label: t("manageParticipants.undoMarkAction"),
+                            icon: "undo",
+                            onPress: () => handleAttendance(participant, null),
+                          },
+                        ]
+                      : []
+                  )
                 )}
               </View>
             ) : null}
@@ -583,7 +1452,10 @@ const ManageParticipantsScreen: React.FC = () => {
   );
 };
 
-const statusStyles: Record<"active" | "withdrawn" | "attended", StatusStyle> = {
+const statusStyles: Record<
+  "active" | "waitlisted" | "withdrawn" | "attended",
+  StatusStyle
+> = {
   active: {
     container: {
       backgroundColor: "rgba(127, 90, 240, 0.16)",
@@ -593,6 +1465,15 @@ const statusStyles: Record<"active" | "withdrawn" | "attended", StatusStyle> = {
       color: colors.primary,
     },
   },
+  waitlisted: {
+    container: {
+      backgroundColor: "rgba(136, 168, 160, 0.16)",
+      borderColor: colors.secondary,
+    },
+    label: {
+      color: colors.textSecondary,
+    },
+  },
   withdrawn: {
     container: {
       backgroundColor: "rgba(239, 69, 101, 0.16)",
@@ -701,6 +1582,17 @@ const styles = StyleSheet.create({
     borderRadius: 999,
     borderWidth: 1,
   },
+  pendingRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginTop: 12,
+  },
+  pendingLabel: {
+    color: colors.accent,
+    fontSize: 12,
+    fontWeight: "600",
+  },
   statusLabel: {
     fontSize: 12,
     fontWeight: "700",
@@ -711,10 +1603,62 @@ const styles = StyleSheet.create({
   },
   cardActions: {
     marginTop: 16,
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 10,
   },
   actionButton: {
     alignSelf: "flex-start",
   },
+  hoursLabel: {
+    marginTop: 6,
+    color: colors.textPrimary,
+    fontWeight: "600",
+  },
+  taskRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    marginBottom: 12,
+  },
+  hoursEditor: {
+    marginTop: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    flexWrap: "wrap",
+    gap: 10,
+  },
+  hoursInput: {
+    minWidth: 90,
+    backgroundColor: colors.surfaceElevated,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    color: colors.textPrimary,
+  },
+  announcementComposer: {
+    marginTop: 12,
+    gap: 10,
+  },
+  announcementInput: {
+    minHeight: 90,
+    backgroundColor: colors.surfaceElevated,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    color: colors.textPrimary,
+    textAlignVertical: "top",
+  },
+  checkInBar: {
+    marginTop: 14,
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 10,
+  },
   emptyState: {
     marginTop: 40,
     alignItems: "center",
@@ -0,0 +1,308 @@
+/**
+ * ModerationScreen
+ * ----------------
+ * The organiser's queue of reported comments across their events, one card
+ * per comment with the reasons given. Hiding a comment or dismissing the
+ * reports resolves them; the reports themselves are kept as a record.
+ */
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { doc, query, where } from "firebase/firestore";
+
+import ErrorBanner from "../../components/ErrorBanner";
+import OutlinedButton from "../../components/OutlinedButton";
+import { useAuth } from "../../context/AuthContext";
+import { useLanguage } from "../../context/LanguageContext";
+import { useDocument, useQuery } from "../../hooks/useFirestore";
+import { getUserNames } from "../../services/comments";
+import { mentionsToText } from "../../services/mentions";
+import { resolveReports, setCommentHidden } from "../../services/moderation";
+import {
+  commentReportsCollection,
+  commentsCollection,
+  eventRef,
+  hiddenCommentRef,
+} from "../../services/repository";
+import { colors } from "../../theme/colors";
+import { CommentReport } from "../../types";
+
+interface ReportGroup {
+  key: string;
+  eventId: string;
+  commentId: string;
+  reports: CommentReport[];
+}
+
+interface ReportedCommentProps {
+  group: ReportGroup;
+  onError: (message: string) => void;
+}
+
+const ReportedComment: React.FC<ReportedCommentProps> = ({
+  group,
+  onError,
+}) => {
+  const navigation = useNavigation<any>();
+  const { appUser } = useAuth();
+  const { t } = useLanguage();
+  const [busy, setBusy] = useState(false);
+  const { data: event } = useDocument(eventRef(group.eventId));
+  const { data: stored, exists, loading } = useDocument(
+    doc(commentsCollection(group.eventId), group.commentId)
+  );
+  // Hidden comments keep their text apart, readable by the event owner.
+  const { data: hiddenContent } = useDocument(
+    stored?.hidden ? hiddenCommentRef(group.eventId, group.commentId) : null
+  );
+  const comment =
+    stored && hiddenContent
+      ? {
+          ...stored,
+          text: hiddenContent.text,
+          mentions: hiddenContent.mentions,
+        }
+      : stored;
+
+  const [names, setNames] = useState<Record<string, string>>({});
+  const mentionKey = comment?.mentions.join(",") ?? "";
+
+  useEffect(() => {
+    if (!mentionKey) return;
+    let isMounted = true;
+    getUserNames(mentionKey.split(",")).then((loaded) => {
+      if (isMounted) setNames(loaded);
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, [mentionKey]);
+
+  const reasons = group.reports
+    .map((report) => t(`moderation.reason.${report.reason}`))
+    .filter((reason, index, all) => all.indexOf(reason) === index)
+    .join(", ");
+  const reportIds = group.reports.map((report) => report.id);
+
+  const handleHide = async () => {
+    if (!appUser || !comment || !event || busy) return;
+    setBusy(true);
+    try {
+      await setCommentHidden(event, comment, true, appUser.id);
+      await resolveReports(group.eventId, group.commentId, reportIds, false);
+    } catch (e: any) {
+      onError(e.message ?? t("moderation.errorResolve"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDismiss = async () => {
+    if (busy) return;
+    setBusy(true);
+    try {
+      // A deleted comment has no report count left to clear.
+      await resolveReports(group.eventId, group.commentId, reportIds, exists);
+    } catch (e: any) {
+      onError(e.message ?? t("moderation.errorResolve"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.eventTitle}>{event?.title ?? ""}</Text>
+      <Text style={styles.meta}>
+        {t("moderation.reportSummary", {
+          count: group.reports.length,
+          reasons,
+        })}
+      </Text>
+      {loading ? (
+        <ActivityIndicator color={colors.primary} style={styles.loader} />
+      ) : comment ? (
+        <View style={styles.comment}>
+          <Text style={styles.author}>{comment.userName}</Text>
+          <Text style={styles.text}>
+            {mentionsToText(comment.text, names, t("comments.unknownUser"))}
+          </Text>
+          {comment.hidden ? (
+            <Text style={styles.meta}>{t("moderation.alreadyHidden")}</Text>
+          ) : null}
+        </View>
+      ) : (
+        <Text style={[styles.meta, styles.comment]}>
+          {t("moderation.commentDeleted")}
+        </Text>
+      )}
+      <View style={styles.actions}>
+        {comment && !comment.hidden ? (
+          <OutlinedButton
+            title={t("moderation.hide")}
+            icon="eye-off-outline"
+            onPress={handleHide}
+            active
+          />
+        ) : null}
+        <OutlinedButton
+          title={t("moderation.dismiss")}
+          icon="check"
+          onPress={handleDismiss}
+        />
+        <OutlinedButton
+          title={t("moderation.openEvent")}
+          icon="open-in-new"
+          onPress={() =>
+            navigation.navigate("EventDetails", { eventId: group.eventId })
+          }
+        />
+      </View>
+    </View>
+  );
+};
+
+const ModerationScreen: React.FC = () => {
+  const { appUser } = useAuth();
+  const { t } = useLanguage();
+  const [error, setError] = useState<string | null>(null);
+
+  const { data, loading } = useQuery(
+    appUser
+      ? query(
+          commentReportsCollection(),
+          where("eventOwnerId", "==", appUser.id),
+          where("status", "==", "open")
+        )
+      : null
+  );
+
+  // Most recently reported first; sorted here so no index is needed.
+  const groups = useMemo(() => {
+    const byComment = new Map<string, ReportGroup>();
+    [...data]
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .forEach((report) => {
+        const key = `${report.eventId}/${report.commentId}`;
+        const group = byComment.get(key) ?? {
+          key,
+          eventId: report.eventId,
+          commentId: report.commentId,
+          reports: [],
+        };
+        group.reports.push(report);
+        byComment.set(key, group);
+      });
+    return Array.from(byComment.values());
+  }, [data]);
+
+  return (
+    <View style={styles.screen}>
+      <ErrorBanner message={error} />
+      {loading ? (
+        <View style={styles.center}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : groups.length === 0 ? (
+        <View style={styles.center}>
+          <MaterialCommunityIcons
+            name="shield-check-outline"
+            size={40}
+            color={colors.textSecondary}
+            style={{ marginBottom: 12 }}
+          />
+          <Text style={styles.emptyTitle}>{t("moderation.emptyTitle")}</Text>
+          <Text style={styles.emptySubtitle}>
+            {t("moderation.emptySubtitle")}
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={groups}
+          keyExtractor={(group) => group.key}
+          renderItem={({ item }) => (
+            <ReportedComment group={item} onError={setError} />
+          )}
+          contentContainerStyle={styles.listContent}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  center: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 32,
+  },
+  listContent: {
+    paddingVertical: 12,
+  },
+  card: {
+    marginHorizontal: 16,
+    marginVertical: 6,
+    padding: 14,
+    borderRadius: 18,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  eventTitle: {
+    color: colors.textPrimary,
+    fontWeight: "700",
+  },
+  meta: {
+    color: colors.textMuted,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  loader: {
+    marginVertical: 12,
+  },
+  comment: {
+    marginTop: 10,
+    paddingLeft: 10,
+    borderLeftWidth: 2,
+    borderColor: colors.border,
+  },
+  author: {
+    color: colors.textPrimary,
+    fontWeight: "600",
+  },
+  text: {
+    color: colors.textPrimary,
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 12,
+  },
+  emptyTitle: {
+    color: colors.textPrimary,
+    fontSize: 18,
+    fontWeight: "600",
+    textAlign: "center",
+  },
+  emptySubtitle: {
+    color: colors.textSecondary,
+    textAlign: "center",
+    marginTop: 6,
+  },
+});
+
+export default ModerationScreen;
@@ -1,20 +1,35 @@
 /**
  * MyEventsScreen
  * --------------
- * Shows the volunteer opportunities the user has already joined. Fetches
- * participation records then hydrates them with the corresponding event details
- * to render familiar EventCard components.
+ * Shows the volunteer opportunities the user has already joined, streamed by
+ * useSignedUpEvents and rendered as familiar EventCard components. The
+ * calendar feed panel hands out the user's personal subscription link for the
+ * same list of events.
  */
-import React, { useEffect, useState } from "react";
-import { View, Text, FlatList, StyleSheet } from "react-native";
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  FlatList,
+  Linking,
+  Platform,
+  Share,
+  StyleSheet,
+} from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
-import { collection, doc, onSnapshot, query, where } from "firebase/firestore";
-import { db } from "../../firebaseConfig";
 import { useAuth } from "../../context/AuthContext";
-import { Event } from "../../types";
+import { useSignedUpEvents } from "../../hooks/useSignedUpEvents";
+import {
+  calendarFeedUrl,
+  calendarSubscribeUrl,
+  getCalendarFeedToken,
+  resetCalendarFeedToken,
+} from "../../services/calendar";
+import ErrorBanner from "../../components/ErrorBanner";
 import EventCard from "../../components/EventCard";
 import LanguageSwitcher from "../../components/LanguageSwitcher";
+import OutlinedButton from "../../components/OutlinedButton";
 import { useNavigation } from "@react-navigation/native";
 import { colors } from "../../theme/colors";
 import { useLanguage } from "../../context/LanguageContext";
@@ -22,124 +37,45 @@ import { useLanguage } from "../../context/LanguageContext";
 const MyEventsScreen: React.FC = () => {
   const { appUser } = useAuth();
   const navigation = useNavigation<any>();
-  const [events, setEvents] = useState<Event[]>([]);
+  const events = useSignedUpEvents(appUser?.id);
+  const [feedOpen, setFeedOpen] = useState(false);
+  const [feedToken, setFeedToken] = useState<string | null>(null);
+  const [feedBusy, setFeedBusy] = useState(false);
+  const [feedError, setFeedError] = useState<string | null>(null);
   const { t } = useLanguage();
 
-  useEffect(() => {
-    if (!appUser?.id) {
-      setEvents([]);
-      return;
+  const loadFeed = async (reset: boolean) => {
+    if (!appUser?.id || feedBusy) return;
+    setFeedBusy(true);
+    setFeedError(null);
+    try {
+      setFeedToken(
+        reset
+          ? await resetCalendarFeedToken(appUser.id)
+          : await getCalendarFeedToken(appUser.id)
+      );
+    } catch (e: any) {
+      setFeedError(e.message ?? t("myEvents.calendarFeedError"));
+    } finally {
+      setFeedBusy(false);
     }
+  };
 
-    let isMounted = true;
-    const eventCache = new Map<string, Event>();
-    const eventSubscriptions = new Map<string, () => void>();
-    let latestParticipationDocs: any[] = [];
-
-    const recomputeEvents = () => {
-      if (!isMounted) return;
-      const ordered = [...latestParticipationDocs]
-        .sort((a, b) => {
-          const aData = a.data() as any;
-          const bData = b.data() as any;
-          const aDate =
-            aData.createdAt?.toDate?.()?.getTime?.() ??
-            aData.createdAt?.getTime?.() ??
-            0;
-          const bDate =
-            bData.createdAt?.toDate?.()?.getTime?.() ??
-            bData.createdAt?.getTime?.() ??
-            0;
-          return bDate - aDate;
-        })
-        .map((docSnap) => {
-          const data = docSnap.data() as any;
-          return eventCache.get(data.eventId);
-        })
-        .filter((event): event is Event => Boolean(event));
-      setEvents(ordered);
-    };
-
-    const participationQuery = query(
-      collection(db, "participations"),
-      where("userId", "==", appUser.id),
-      where("status", "==", "signed_up")
-    );
-
-    const unsubscribeParticipations = onSnapshot(
-      participationQuery,
-      (snapshot) => {
-        latestParticipationDocs = snapshot.docs;
-        const nextEventIds = new Set(
-          snapshot.docs.map((docSnap) => {
-            const data = docSnap.data() as any;
-            return data.eventId as string;
-          })
-        );
-
-        // Remove subscriptions for events no longer referenced.
-        eventSubscriptions.forEach((unsubscribe, eventId) => {
-          if (!nextEventIds.has(eventId)) {
-            unsubscribe();
-            eventSubscriptions.delete(eventId);
-            eventCache.delete(eventId);
-          }
-        });
-
-        // Add subscriptions for new event references.
-        nextEventIds.forEach((eventId) => {
-          if (eventSubscriptions.has(eventId)) {
-            return;
-          }
-          const eventRef = doc(db, "events", eventId);
-          const unsubscribeEvent = onSnapshot(
-            eventRef,
-            (eventSnap) => {
-              if (!eventSnap.exists()) {
-                eventCache.delete(eventId);
-              } else {
-                const eventData = eventSnap.data() as any;
-                eventCache.set(eventId, {
-                  id: eventSnap.id,
-                  title: eventData.title,
-                  description: eventData.description,
-                  tasks: eventData.tasks,
-                  category: eventData.category,
-                  locationText: eventData.locationText,
-                  dateTime: eventData.dateTime?.toDate?.() ?? new Date(),
-                  createdBy: eventData.createdBy,
-                  maxVolunteers: eventData.maxVolunteers,
-                  currentVolunteers: eventData.currentVolunteers,
-                  imageUrls: eventData.imageUrls || [],
-                });
-              }
-              recomputeEvents();
-            },
-            (error) => {
-              console.warn("Failed to stream event", error);
-            }
-          );
-          eventSubscriptions.set(eventId, unsubscribeEvent);
-        });
-
-        recomputeEvents();
-      },
-      (error) => {
-        console.warn("Failed to stream participations", error);
-        if (isMounted) {
-          setEvents([]);
-        }
-      }
-    );
+  const handleToggleFeed = () => {
+    if (!feedOpen && !feedToken) {
+      loadFeed(false);
+    }
+    setFeedOpen((open) => !open);
+  };
 
-    return () => {
-      isMounted = false;
-      unsubscribeParticipations();
-      eventSubscriptions.forEach((unsubscribe) => unsubscribe());
-      eventSubscriptions.clear();
-      eventCache.clear();
-    };
-  }, [appUser?.id]);
+  const handleSubscribe = async () => {
+    if (!feedToken) return;
+    try {
+      await Linking.openURL(calendarSubscribeUrl(feedToken));
+    } catch (e: any) {
+      setFeedError(e.message ?? t("myEvents.calendarFeedError"));
+    }
+  };
 
   if (!appUser) {
     return (
@@ -156,8 +92,49 @@ const MyEventsScreen: React.FC = () => {
     <SafeAreaView style={styles.safeArea} edges={["top"]}>
       <View style={styles.screen}>
         <View style={styles.languageWrapper}>
+          <OutlinedButton
+            title={t("myEvents.calendarFeedButton")}
+            icon="calendar-sync"
+            onPress={handleToggleFeed}
+          />
           <LanguageSwitcher />
         </View>
+        {feedOpen ? (
+          <View style={styles.feedPanel}>
+            <Text style={styles.feedHint}>{t("myEvents.calendarFeedHint")}</Text>
+            {feedToken ? (
+              <Text style={styles.feedUrl} selectable>
+                {calendarFeedUrl(feedToken)}
+              </Text>
+            ) : null}
+            <ErrorBanner message={feedError} />
+            <View style={styles.feedActions}>
+              <OutlinedButton
+                title={t("myEvents.calendarFeedSubscribe")}
+                icon="calendar-plus"
+                onPress={handleSubscribe}
+              />
+              {Platform.OS !== "web" ? (
+                <OutlinedButton
+                  title={t("myEvents.calendarFeedShare")}
+                  icon="share-variant"
+                  onPress={() =>
+                    feedToken &&
+                    Share.share({ message: calendarFeedUrl(feedToken) })
+                  }
+                  />
+              ) : null}
+              <OutlinedButton
+                title={t("myEvents.calendarFeedReset")}
+                icon="refresh"
+                onPress={() => loadFeed(true)}
+              />
+            </View>
+            <Text style={styles.feedHint}>
+              {t("myEvents.calendarFeedResetHint")}
+            </Text>
+          </View>
+        ) : null}
         {events.length === 0 ? (
           <View style={styles.center}>
             <MaterialCommunityIcons
@@ -217,11 +194,34 @@ const styles = StyleSheet.create({
     marginTop: 6,
   },
   languageWrapper: {
-    alignItems: "flex-end",
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
     paddingHorizontal: 20,
     paddingTop: 18,
     marginBottom: 8,
   },
+  feedPanel: {
+    marginHorizontal: 20,
+    marginBottom: 12,
+    padding: 16,
+    borderRadius: 16,
+    backgroundColor: colors.surface,
+    gap: 10,
+  },
+  feedHint: {
+    color: colors.textSecondary,
+    fontSize: 13,
+  },
+  feedUrl: {
+    color: colors.textPrimary,
+    fontSize: 12,
+  },
+  feedActions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
 });
 
 export default MyEventsScreen;
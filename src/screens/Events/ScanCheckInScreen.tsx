@@ -0,0 +1,108 @@
+/**
+ * ScanCheckInScreen
+ * -----------------
+ * In-app scanner for the organiser's check-in QR code. A recognised code hands
+ * over to CheckInScreen, the same confirmation screen a deep link opens.
+ */
+import React, { useState } from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useNavigation } from "@react-navigation/native";
+import { CameraView, useCameraPermissions } from "expo-camera";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+
+import ErrorBanner from "../../components/ErrorBanner";
+import PrimaryButton from "../../components/PrimaryButton";
+import { useLanguage } from "../../context/LanguageContext";
+import { parseCheckInUrl } from "../../services/checkIn";
+import { colors } from "../../theme/colors";
+
+const ScanCheckInScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const { t } = useLanguage();
+  const [permission, requestPermission] = useCameraPermissions();
+  const [error, setError] = useState<string | null>(null);
+  const [handled, setHandled] = useState(false);
+
+  const handleScanned = ({ data }: { data: string }) => {
+    if (handled) return;
+    const payload = parseCheckInUrl(data);
+    if (!payload) {
+      setError(t("scanCheckIn.unknownCode"));
+      return;
+    }
+    setHandled(true);
+    navigation.replace("CheckIn", payload);
+  };
+
+  if (!permission) {
+    return <View style={styles.safeArea} />;
+  }
+
+  if (!permission.granted) {
+    return (
+      <SafeAreaView style={styles.safeArea} edges={["bottom"]}>
+        <View style={styles.center}>
+          <MaterialCommunityIcons
+            name="camera-off"
+            size={40}
+            color={colors.textSecondary}
+          />
+          <Text style={styles.message}>{t("scanCheckIn.permission")}</Text>
+          <PrimaryButton
+            title={t("scanCheckIn.allowCamera")}
+            icon="camera"
+            onPress={requestPermission}
+            style={styles.button}
+          />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={["bottom"]}>
+      <CameraView
+        style={styles.camera}
+        facing="back"
+        barcodeScannerSettings={{ barcodeTypes: ["qr"] }}
+        onBarcodeScanned={handled ? undefined : handleScanned}
+      />
+      <View style={styles.footer}>
+        <ErrorBanner message={error} />
+        <Text style={styles.message}>{t("scanCheckIn.hint")}</Text>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  camera: {
+    flex: 1,
+  },
+  footer: {
+    paddingVertical: 18,
+    paddingHorizontal: 20,
+  },
+  center: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 32,
+  },
+  message: {
+    marginTop: 12,
+    color: colors.textSecondary,
+    textAlign: "center",
+  },
+  button: {
+    marginTop: 20,
+    alignSelf: "stretch",
+  },
+});
+
+export default ScanCheckInScreen;
@@ -0,0 +1,312 @@
+/**
+ * InboxScreen
+ * -----------
+ * The signed-in user's notices, newest first: cancellations, new start times,
+ * waitlist promotions, new comments and mentions, organiser announcements,
+ * answers to the user's questions and removals.
+ * Opening a notice marks it read and jumps to its event; the tab badge counts
+ * the unread ones, plus unread private messages (see RootNavigator), which
+ * are reached through the Messages button.
+ */
+import React, { useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  View,
+  Text,
+  FlatList,
+  StyleSheet,
+  TouchableOpacity,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useNavigation } from "@react-navigation/native";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { query, where } from "firebase/firestore";
+
+import ErrorBanner from "../../components/ErrorBanner";
+import LanguageSwitcher from "../../components/LanguageSwitcher";
+import OutlinedButton from "../../components/OutlinedButton";
+import { useAuth } from "../../context/AuthContext";
+import { useLanguage } from "../../context/LanguageContext";
+import { useQuery } from "../../hooks/useFirestore";
+import { unreadMessageCount } from "../../services/messages";
+import { markNotificationsRead } from "../../services/notifications";
+import {
+  conversationsCollection,
+  notificationsCollection,
+} from "../../services/repository";
+import { colors } from "../../theme/colors";
+import { AppNotification, NotificationType } from "../../types";
+
+type IconName = React.ComponentProps<typeof MaterialCommunityIcons>["name"];
+
+const TYPE_ICONS: Record<NotificationType, IconName> = {
+  event_cancelled: "calendar-remove",
+  waitlist_promoted: "account-check",
+  time_changed: "clock-edit-outline",
+  new_comment: "comment-text-outline",
+  removed: "account-remove",
+  announcement: "bullhorn-outline",
+  question_answered: "comment-check-outline",
+  mentioned: "at",
+};
+
+const InboxScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const { appUser } = useAuth();
+  const { t, language } = useLanguage();
+  const locale = language === "no" ? "nb-NO" : "en-GB";
+  const [error, setError] = useState<string | null>(null);
+
+  const { data, loading } = useQuery(
+    appUser
+      ? query(notificationsCollection(), where("userId", "==", appUser.id))
+      : null
+  );
+  // Sorted here so the query needs no composite index.
+  const notifications = useMemo(
+    () =>
+      [...data].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+    [data]
+  );
+  const { data: conversations } = useQuery(
+    appUser
+      ? query(
+          conversationsCollection(),
+          where("participants", "array-contains", appUser.id)
+        )
+      : null
+  );
+  const unreadMessages = appUser
+    ? unreadMessageCount(conversations, appUser.id)
+    : 0;
+  const unreadIds = notifications
+    .filter((notification) => !notification.read)
+    .map((notification) => notification.id);
+
+  const formatDate = (date: Date) =>
+    new Intl.DateTimeFormat(locale, {
+      dateStyle: "medium",
+      timeStyle: "short",
+    }).format(date);
+
+  const handleOpen = async (notification: AppNotification) => {
+    navigation.navigate("EventDetails", { eventId: notification.eventId });
+    if (notification.read) return;
+    try {
+      await markNotificationsRead([notification.id]);
+    } catch (e: any) {
+      setError(e.message ?? t("inbox.errorMarkRead"));
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    setError(null);
+    try {
+      await markNotificationsRead(unreadIds);
+    } catch (e: any) {
+      setError(e.message ?? t("inbox.errorMarkRead"));
+    }
+  };
+
+  const renderItem = ({ item }: { item: AppNotification }) => (
+    <TouchableOpacity
+      style={[styles.item, !item.read ? styles.itemUnread : null]}
+      onPress={() => handleOpen(item)}
+    >
+      <MaterialCommunityIcons
+        name={TYPE_ICONS[item.type]}
+        size={22}
+        color={item.read ? colors.textSecondary : colors.primary}
+        style={styles.itemIcon}
+      />
+      <View style={styles.itemBody}>
+        <Text
+          style={[styles.itemTitle, !item.read ? styles.unreadText : null]}
+        >
+          {item.eventTitle}
+        </Text>
+        <Text style={styles.itemText}>
+          {t(`inbox.type.${item.type}`, {
+            date: item.dateTime ? formatDate(item.dateTime) : "",
+          })}
+        </Text>
+        {item.message ? (
+          <Text style={styles.itemMessage} numberOfLines={3}>
+            {item.message}
+          </Text>
+        ) : null}
+        <Text style={styles.itemDate}>{formatDate(item.createdAt)}</Text>
+      </View>
+      {!item.read ? <View style={styles.unreadDot} /> : null}
+    </TouchableOpacity>
+  );
+
+  if (!appUser) {
+    return (
+      <SafeAreaView style={styles.safeArea} edges={["top"]}>
+        <View style={[styles.screen, styles.center]}>
+          <LanguageSwitcher />
+          <Text style={styles.emptyTitle}>{t("inbox.loginPrompt")}</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={["top"]}>
+      <View style={styles.screen}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{t("inbox.title")}</Text>
+          <LanguageSwitcher />
+        </View>
+        <View style={styles.actions}>
+          <OutlinedButton
+            title={
+              unreadMessages > 0
+                ? t("inbox.messagesUnread", { count: unreadMessages })
+                : t("inbox.messages")
+            }
+            icon="message-text-outline"
+            onPress={() => navigation.navigate("Conversations")}
+            active={unreadMessages > 0}
+          />
+          {unreadIds.length > 0 ? (
+            <OutlinedButton
+              title={t("inbox.markAllRead")}
+              icon="email-open-multiple-outline"
+              onPress={handleMarkAllRead}
+            />
+          ) : null}
+        </View>
+        <ErrorBanner message={error} />
+        {loading ? (
+          <View style={styles.center}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : notifications.length === 0 ? (
+          <View style={styles.center}>
+            <MaterialCommunityIcons
+              name="bell-sleep-outline"
+              size={40}
+              color={colors.textSecondary}
+              style={{ marginBottom: 12 }}
+            />
+            <Text style={styles.emptyTitle}>{t("inbox.emptyTitle")}</Text>
+            <Text style={styles.emptySubtitle}>
+              {t("inbox.emptySubtitle")}
+            </Text>
+          </View>
+        ) : (
+          <FlatList
+            data={notifications}
+            keyExtractor={(item) => item.id}
+            renderItem={renderItem}
+            contentContainerStyle={styles.listContent}
+          />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  screen: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  center: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 32,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingTop: 18,
+    marginBottom: 8,
+  },
+  title: {
+    color: colors.textPrimary,
+    fontSize: 22,
+    fontWeight: "800",
+  },
+  actions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginHorizontal: 20,
+    marginBottom: 8,
+  },
+  listContent: {
+    paddingBottom: 24,
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    marginHorizontal: 16,
+    marginVertical: 6,
+    padding: 14,
+    borderRadius: 18,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  itemUnread: {
+    borderColor: colors.primary,
+  },
+  itemIcon: {
+    marginRight: 12,
+    marginTop: 2,
+  },
+  itemBody: {
+    flex: 1,
+  },
+  itemTitle: {
+    color: colors.textPrimary,
+    fontWeight: "600",
+  },
+  unreadText: {
+    fontWeight: "800",
+  },
+  itemText: {
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  itemMessage: {
+    color: colors.textPrimary,
+    marginTop: 6,
+  },
+  itemDate: {
+    color: colors.textMuted,
+    fontSize: 12,
+    marginTop: 6,
+  },
+  unreadDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: colors.primary,
+    marginLeft: 8,
+    marginTop: 6,
+  },
+  emptyTitle: {
+    color: colors.textPrimary,
+    fontSize: 18,
+    fontWeight: "600",
+    textAlign: "center",
+  },
+  emptySubtitle: {
+    color: colors.textSecondary,
+    textAlign: "center",
+    marginTop: 6,
+  },
+});
+
+export default InboxScreen;
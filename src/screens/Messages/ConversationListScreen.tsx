@@ -0,0 +1,233 @@
+/**
+ * ConversationListScreen
+ * ----------------------
+ * The signed-in user's private conversations with organisers or volunteers,
+ * most recent first, each with its event, the last message and how many
+ * messages are unread. Conversations of past events stay listed.
+ */
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { query, where } from "firebase/firestore";
+
+import { useAuth } from "../../context/AuthContext";
+import { useLanguage } from "../../context/LanguageContext";
+import { useQuery } from "../../hooks/useFirestore";
+import { getUserNames } from "../../services/comments";
+import { otherParticipant } from "../../services/messages";
+import { conversationsCollection } from "../../services/repository";
+import { colors } from "../../theme/colors";
+import { Conversation } from "../../types";
+
+const lastActivity = (conversation: Conversation) =>
+  (conversation.lastMessageAt ?? conversation.createdAt).getTime();
+
+const ConversationListScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const { appUser } = useAuth();
+  const { t, language } = useLanguage();
+  const locale = language === "no" ? "nb-NO" : "en-GB";
+  const [names, setNames] = useState<Record<string, string>>({});
+
+  const { data, loading } = useQuery(
+    appUser
+      ? query(
+          conversationsCollection(),
+          where("participants", "array-contains", appUser.id)
+        )
+      : null
+  );
+  // Sorted here so the query needs no composite index.
+  const conversations = useMemo(
+    () => [...data].sort((a, b) => lastActivity(b) - lastActivity(a)),
+    [data]
+  );
+
+  const otherIds = appUser
+    ? Array.from(
+        new Set(
+          conversations.map((conversation) =>
+            otherParticipant(conversation, appUser.id)
+          )
+        )
+      )
+        .sort()
+        .join(",")
+    : "";
+
+  useEffect(() => {
+    if (!otherIds) return;
+    let isMounted = true;
+    getUserNames(otherIds.split(",")).then((loaded) => {
+      if (isMounted) setNames(loaded);
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, [otherIds]);
+
+  const formatDate = (date: Date) =>
+    new Intl.DateTimeFormat(locale, {
+      dateStyle: "medium",
+      timeStyle: "short",
+    }).format(date);
+
+  const renderItem = ({ item }: { item: Conversation }) => {
+    if (!appUser) return null;
+    const unread = item.unreadCounts[appUser.id] ?? 0;
+    const other = otherParticipant(item, appUser.id);
+    const preview = item.lastMessage
+      ? item.lastSenderId === appUser.id
+        ? t("messages.youWrote", { message: item.lastMessage })
+        : item.lastMessage
+      : t("messages.noMessagesYet");
+    return (
+      <TouchableOpacity
+        style={[styles.item, unread > 0 ? styles.itemUnread : null]}
+        onPress={() =>
+          navigation.navigate("Conversation", { conversationId: item.id })
+        }
+      >
+        <View style={styles.itemBody}>
+          <Text
+            style={[styles.itemTitle, unread > 0 ? styles.unreadText : null]}
+          >
+            {names[other] || t("messages.unknownUser")}
+            {other === item.organiserId ? ` · ${t("messages.organiser")}` : ""}
+          </Text>
+          <Text style={styles.itemEvent}>{item.eventTitle}</Text>
+          <Text style={styles.itemMessage} numberOfLines={2}>
+            {preview}
+          </Text>
+          <Text style={styles.itemDate}>
+            {formatDate(item.lastMessageAt ?? item.createdAt)}
+          </Text>
+        </View>
+        {unread > 0 ? (
+          <View style={styles.unreadBadge}>
+            <Text style={styles.unreadBadgeText}>{unread}</Text>
+          </View>
+        ) : null}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.screen}>
+      {loading ? (
+        <View style={styles.center}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : conversations.length === 0 ? (
+        <View style={styles.center}>
+          <MaterialCommunityIcons
+            name="message-text-outline"
+            size={40}
+            color={colors.textSecondary}
+            style={{ marginBottom: 12 }}
+          />
+          <Text style={styles.emptyTitle}>{t("messages.emptyTitle")}</Text>
+          <Text style={styles.emptySubtitle}>
+            {t("messages.emptySubtitle")}
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={conversations}
+          keyExtractor={(item) => item.id}
+          renderItem={renderItem}
+          contentContainerStyle={styles.listContent}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  center: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 32,
+  },
+  listContent: {
+    paddingVertical: 12,
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginHorizontal: 16,
+    marginVertical: 6,
+    padding: 14,
+    borderRadius: 18,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  itemUnread: {
+    borderColor: colors.primary,
+  },
+  itemBody: {
+    flex: 1,
+  },
+  itemTitle: {
+    color: colors.textPrimary,
+    fontWeight: "600",
+  },
+  unreadText: {
+    fontWeight: "800",
+  },
+  itemEvent: {
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  itemMessage: {
+    color: colors.textPrimary,
+    marginTop: 6,
+  },
+  itemDate: {
+    color: colors.textMuted,
+    fontSize: 12,
+    marginTop: 6,
+  },
+  unreadBadge: {
+    minWidth: 22,
+    height: 22,
+    borderRadius: 11,
+    paddingHorizontal: 6,
+    marginLeft: 8,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: colors.accent,
+  },
+  unreadBadgeText: {
+    color: colors.surface,
+    fontSize: 12,
+    fontWeight: "700",
+  },
+  emptyTitle: {
+    color: colors.textPrimary,
+    fontSize: 18,
+    fontWeight: "600",
+    textAlign: "center",
+  },
+  emptySubtitle: {
+    color: colors.textSecondary,
+    textAlign: "center",
+    marginTop: 6,
+  },
+});
+
+export default ConversationListScreen;
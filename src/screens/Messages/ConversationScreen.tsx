@@ -0,0 +1,313 @@
+/**
+ * ConversationScreen
+ * ------------------
+ * One private conversation between an event's organiser and a volunteer.
+ * Opening it marks the messages as read; the history stays available after
+ * the event has ended.
+ */
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { RouteProp, useNavigation, useRoute } from "@react-navigation/native";
+import { Ionicons } from "@expo/vector-icons";
+import { orderBy, query } from "firebase/firestore";
+
+import ErrorBanner from "../../components/ErrorBanner";
+import { useAuth } from "../../context/AuthContext";
+import { useLanguage } from "../../context/LanguageContext";
+import { useDocument, useQuery } from "../../hooks/useFirestore";
+import { getUserNames } from "../../services/comments";
+import {
+  markConversationRead,
+  MESSAGE_MAX_LENGTH,
+  MessageError,
+  otherParticipant,
+  sendMessage,
+} from "../../services/messages";
+import {
+  conversationRef,
+  messagesCollection,
+} from "../../services/repository";
+import { colors } from "../../theme/colors";
+import { DirectMessage } from "../../types";
+
+type ConversationRouteProp = RouteProp<any, "Conversation">;
+
+const ConversationScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const route = useRoute<ConversationRouteProp>();
+  const { conversationId } = route.params as any;
+  const { appUser } = useAuth();
+  const { t, language } = useLanguage();
+  const locale = language === "no" ? "nb-NO" : "en-GB";
+
+  const [text, setText] = useState("");
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [otherName, setOtherName] = useState("");
+
+  const { data: conversation, loading } = useDocument(
+    conversationRef(conversationId)
+  );
+  const { data: messages } = useQuery(
+    query(messagesCollection(conversationId), orderBy("createdAt", "asc"))
+  );
+  // Newest first for the inverted list, which keeps it scrolled to the end.
+  const newestFirst = useMemo(() => [...messages].reverse(), [messages]);
+
+  const otherId =
+    conversation && appUser ? otherParticipant(conversation, appUser.id) : "";
+  const unread =
+    conversation && appUser ? conversation.unreadCounts[appUser.id] ?? 0 : 0;
+
+  useEffect(() => {
+    if (!otherId) return;
+    let isMounted = true;
+    getUserNames([otherId]).then((loaded) => {
+      if (isMounted) setOtherName(loaded[otherId] ?? "");
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, [otherId]);
+
+  useEffect(() => {
+    if (!appUser || unread === 0) return;
+    markConversationRead(conversationId, appUser.id).catch((e: any) =>
+      console.warn("Could not mark conversation read", e)
+    );
+  }, [conversationId, appUser, unread]);
+
+  const handleSend = async () => {
+    if (!appUser || !conversation || sending) return;
+    setSending(true);
+    setError(null);
+    try {
+      await sendMessage(conversation, appUser.id, text);
+      setText("");
+    } catch (e: any) {
+      setError(
+        e instanceof MessageError
+          ? t(`messages.error.${e.code}`, { max: MESSAGE_MAX_LENGTH })
+          : e.message ?? t("messages.errorSend")
+      );
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const formatTime = (date: Date) =>
+    new Intl.DateTimeFormat(locale, {
+      dateStyle: "short",
+      timeStyle: "short",
+    }).format(date);
+
+  const renderMessage = ({ item }: { item: DirectMessage }) => {
+    const mine = item.senderId === appUser?.id;
+    return (
+      <View
+        style={[styles.bubble, mine ? styles.bubbleMine : styles.bubbleTheirs]}
+      >
+        <Text style={mine ? styles.textMine : styles.textTheirs}>
+          {item.text}
+        </Text>
+        <Text style={[styles.time, mine ? styles.timeMine : null]}>
+          {item.createdAt ? formatTime(item.createdAt) : t("messages.sending")}
+        </Text>
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (!conversation || !appUser) {
+    return (
+      <View style={styles.center}>
+        <Text style={styles.emptyTitle}>{t("messages.notFound")}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.screen}
+      behavior={Platform.OS === "ios" ? "padding" : undefined}
+      keyboardVerticalOffset={Platform.OS === "ios" ? 90 : 0}
+    >
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() =>
+          navigation.navigate("EventDetails", {
+            eventId: conversation.eventId,
+          })
+        }
+      >
+        <View style={styles.headerBody}>
+          <Text style={styles.headerTitle}>
+            {t("messages.withUser", {
+              name: otherName || t("messages.unknownUser"),
+            })}
+            {otherId === conversation.organiserId
+              ? ` · ${t("messages.organiser")}`
+              : ""}
+          </Text>
+          <Text style={styles.headerEvent}>{conversation.eventTitle}</Text>
+        </View>
+        <Ionicons
+          name="chevron-forward"
+          size={20}
+          color={colors.textSecondary}
+        />
+      </TouchableOpacity>
+      <ErrorBanner message={error} />
+      <FlatList
+        data={newestFirst}
+        keyExtractor={(item) => item.id}
+        renderItem={renderMessage}
+        inverted
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={
+          <Text style={styles.empty}>{t("messages.startConversation")}</Text>
+        }
+      />
+      <View style={styles.inputRow}>
+        <TextInput
+          value={text}
+          onChangeText={setText}
+          placeholder={t("messages.placeholder")}
+          placeholderTextColor={colors.textMuted}
+          style={styles.input}
+          maxLength={MESSAGE_MAX_LENGTH}
+          multiline
+        />
+        <TouchableOpacity
+          onPress={handleSend}
+          disabled={sending}
+          accessibilityLabel={t("messages.send")}
+        >
+          <Ionicons
+            name="send"
+            size={26}
+            color={sending ? colors.textMuted : colors.primary}
+          />
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  center: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 32,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 14,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderColor: colors.border,
+  },
+  headerBody: {
+    flex: 1,
+  },
+  headerTitle: {
+    color: colors.textPrimary,
+    fontWeight: "700",
+  },
+  headerEvent: {
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  listContent: {
+    flexGrow: 1,
+    padding: 12,
+  },
+  empty: {
+    color: colors.textSecondary,
+    textAlign: "center",
+    marginTop: 24,
+    // The list is inverted, so flip the placeholder back upright.
+    transform: [{ scaleY: -1 }],
+  },
+  bubble: {
+    maxWidth: "80%",
+    marginVertical: 4,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+  },
+  bubbleMine: {
+    alignSelf: "flex-end",
+    backgroundColor: colors.primary,
+  },
+  bubbleTheirs: {
+    alignSelf: "flex-start",
+    backgroundColor: colors.surfaceElevated,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  textMine: {
+    color: colors.textOnPrimary,
+  },
+  textTheirs: {
+    color: colors.textPrimary,
+  },
+  time: {
+    color: colors.textMuted,
+    fontSize: 11,
+    marginTop: 4,
+  },
+  timeMine: {
+    color: colors.textOnPrimary,
+    opacity: 0.8,
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: colors.surface,
+    padding: 10,
+    borderTopWidth: 1,
+    borderColor: colors.border,
+  },
+  input: {
+    flex: 1,
+    maxHeight: 120,
+    backgroundColor: colors.surfaceElevated,
+    padding: 10,
+    borderRadius: 8,
+    marginRight: 10,
+    color: colors.textPrimary,
+  },
+  emptyTitle: {
+    color: colors.textPrimary,
+    fontSize: 18,
+    fontWeight: "600",
+    textAlign: "center",
+  },
+});
+
+export default ConversationScreen;
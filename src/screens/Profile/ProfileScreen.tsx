@@ -1,21 +1,30 @@
 /**
  * ProfileScreen
  * -------------
- * Combines volunteer statistics, language switching, favourites, and role
- * toggling in one place. Data is aggregated from participations and favourites so
- * users immediately see the impact of their activity.
+ * Combines volunteer statistics (including logged volunteer hours and their
+ * split per year, as grant applications ask for), language switching,
+ * favourites, and role toggling in one place. Data is aggregated from
+ * participations and favourites so users immediately see the impact of their
+ * activity. Notification settings
+ * let them turn each kind of reminder or notice off. Organisers also find
+ * their queue of reported comments here.
  */
 import React, { useEffect, useState } from "react";
-import { View, Text, StyleSheet, FlatList } from "react-native";
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  Platform,
+  Switch,
+} from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useNavigation } from "@react-navigation/native";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 import {
-  collection,
   query,
   where,
   doc,
-  getDoc,
   onSnapshot,
   updateDoc,
 } from "firebase/firestore";
@@ -26,20 +35,49 @@ import OutlinedButton from "../../components/OutlinedButton";
 import PrimaryButton from "../../components/PrimaryButton";
 import { useAuth } from "../../context/AuthContext";
 import { useLanguage } from "../../context/LanguageContext";
+import { useNotifications } from "../../context/NotificationsContext";
 import { db } from "../../firebaseConfig";
+import { useQuery } from "../../hooks/useFirestore";
+import { participationHours } from "../../services/participations";
+import { setNotificationOptOut } from "../../services/push";
+import {
+  commentReportsCollection,
+  favoritesCollection,
+  getEvents,
+  NOTIFICATION_CHANNELS,
+  participationsCollection,
+  readDocs,
+} from "../../services/repository";
 import { colors } from "../../theme/colors";
-import { Event, Participation, UserRole } from "../../types";
+import { Event, NotificationChannel, UserRole } from "../../types";
 
 const ProfileScreen: React.FC = () => {
   const navigation = useNavigation<any>();
   const { appUser, signOutUser } = useAuth();
   const { t } = useLanguage();
-  const [stats, setStats] = useState({ total: 0, upcoming: 0, past: 0 });
+  const { permissionGranted } = useNotifications();
+  const [stats, setStats] = useState({
+    total: 0,
+    upcoming: 0,
+    past: 0,
+    hours: 0,
+    hoursByYear: [] as { year: number; hours: number }[],
+  });
   const [favorites, setFavorites] = useState<Event[]>([]);
 
+  const { data: openReports } = useQuery(
+    appUser?.role === "organiser"
+      ? query(
+          commentReportsCollection(),
+          where("eventOwnerId", "==", appUser.id),
+          where("status", "==", "open")
+        )
+      : null
+  );
+
   useEffect(() => {
     if (!appUser?.id) {
-      setStats({ total: 0, upcoming: 0, past: 0 });
+      setStats({ total: 0, upcoming: 0, past: 0, hours: 0, hoursByYear: [] });
       setFavorites([]);
       return;
     }
@@ -47,51 +85,57 @@ const ProfileScreen: React.FC = () => {
     let isMounted = true;
 
     const participationQuery = query(
-      collection(db, "participations"),
+      participationsCollection(),
       where("userId", "==", appUser.id),
-      where("status", "==", "signed_up")
+      // Attended events keep counting towards the stats once check-in has happened.
+      where("status", "in", ["signed_up", "attended"])
     );
 
     const participationUnsubscribe = onSnapshot(
       participationQuery,
       async (snapshot) => {
         try {
-          const participations: Participation[] = snapshot.docs.map(
-            (docSnap) => {
-              const data = docSnap.data() as any;
-              return {
-                id: docSnap.id,
-                userId: data.userId,
-                eventId: data.eventId,
-                status: data.status,
-                createdAt: data.createdAt?.toDate?.() ?? new Date(),
-              };
-            }
-          );
+          const participations = readDocs(snapshot);
 
           const now = new Date();
-          const eventDates = await Promise.all(
-            participations.map(async (participation) => {
-              const eventSnapshot = await getDoc(
-                doc(db, "events", participation.eventId)
-              );
-
-              if (!eventSnapshot.exists()) return null;
-              const eventData = eventSnapshot.data() as any;
-              return eventData.dateTime?.toDate?.() ?? new Date();
-            })
+          const events = await getEvents(
+            participations.map((participation) => participation.eventId)
           );
 
           let upcoming = 0;
           let past = 0;
-          for (const eventDate of eventDates) {
-            if (!eventDate) continue;
-            if (eventDate >= now) upcoming += 1;
+          for (const { dateTime } of events) {
+            if (dateTime >= now) upcoming += 1;
             else past += 1;
           }
 
+          // Hours count towards the year the event took place in.
+          const eventYears = new Map(
+            events.map(({ id, dateTime }) => [id, dateTime.getFullYear()])
+          );
+          const yearTotals = new Map<number, number>();
+          let hours = 0;
+          for (const participation of participations) {
+            const credited = participationHours(participation);
+            const year =
+              eventYears.get(participation.eventId) ??
+              participation.checkInAt?.getFullYear();
+            hours += credited;
+            if (credited === 0 || year === undefined) continue;
+            yearTotals.set(year, (yearTotals.get(year) ?? 0) + credited);
+          }
+          const hoursByYear = [...yearTotals]
+            .map(([year, total]) => ({ year, hours: total }))
+            .sort((a, b) => b.year - a.year);
+
           if (isMounted) {
-            setStats({ total: participations.length, upcoming, past });
+            setStats({
+              total: participations.length,
+              upcoming,
+              past,
+              hours,
+              hoursByYear,
+            });
           }
         } catch (error) {
           console.warn("Failed to update participation stats", error);
@@ -100,7 +144,7 @@ const ProfileScreen: React.FC = () => {
     );
 
     const favoritesQuery = query(
-      collection(db, "favorites"),
+      favoritesCollection(),
       where("userId", "==", appUser.id)
     );
 
@@ -108,37 +152,12 @@ const ProfileScreen: React.FC = () => {
       favoritesQuery,
       async (snapshot) => {
         try {
-          const favoriteEvents = await Promise.all(
-            snapshot.docs.map(async (favoriteDoc) => {
-              const favoriteData = favoriteDoc.data() as any;
-              const eventSnapshot = await getDoc(
-                doc(db, "events", favoriteData.eventId)
-              );
-
-              if (!eventSnapshot.exists()) return null;
-              const eventData = eventSnapshot.data() as any;
-              const event: Event = {
-                id: eventSnapshot.id,
-                title: eventData.title,
-                description: eventData.description,
-                tasks: eventData.tasks,
-                category: eventData.category,
-                locationText: eventData.locationText,
-                dateTime: eventData.dateTime?.toDate?.() ?? new Date(),
-                createdBy: eventData.createdBy,
-                maxVolunteers: eventData.maxVolunteers,
-                currentVolunteers: eventData.currentVolunteers,
-                imageUrls: eventData.imageUrls || [],
-              };
-
-              return event;
-            })
+          const favoriteEvents = await getEvents(
+            readDocs(snapshot).map((favorite) => favorite.eventId)
           );
 
           if (isMounted) {
-            setFavorites(
-              favoriteEvents.filter((event): event is Event => Boolean(event))
-            );
+            setFavorites(favoriteEvents);
           }
         } catch (error) {
           console.warn("Failed to update favorites", error);
@@ -161,6 +180,18 @@ const ProfileScreen: React.FC = () => {
     await updateDoc(doc(db, "users", appUser.id), { role: updatedRole });
   };
 
+  const handleToggleChannel = async (
+    channel: NotificationChannel,
+    enabled: boolean
+  ) => {
+    if (!appUser) return;
+    try {
+      await setNotificationOptOut(appUser.id, channel, !enabled);
+    } catch (error) {
+      console.warn("Failed to update notification settings", error);
+    }
+  };
+
   if (!appUser) {
     // Encourage authentication while still exposing language switching.
     return (
@@ -215,7 +246,21 @@ const ProfileScreen: React.FC = () => {
               <Text style={styles.statNumber}>{stats.past}</Text>
               <Text style={styles.statLabel}>{t("profile.completed")}</Text>
             </View>
+            <View style={styles.statBox}>
+              <Text style={styles.statNumber}>{stats.hours}</Text>
+              <Text style={styles.statLabel}>{t("profile.hours")}</Text>
+            </View>
           </View>
+          {stats.hoursByYear.length > 0 ? (
+            <View style={styles.yearRow}>
+              <Text style={styles.yearTitle}>{t("profile.hoursByYear")}</Text>
+              {stats.hoursByYear.map(({ year, hours }) => (
+                <Text key={year} style={styles.yearHours}>
+                  {t("profile.hoursInYear", { year, hours })}
+                </Text>
+              ))}
+            </View>
+          ) : null}
 
           <View style={styles.actionRow}>
             <OutlinedButton
@@ -237,6 +282,44 @@ const ProfileScreen: React.FC = () => {
               style={styles.signOutButton}
             />
           </View>
+          {appUser.role === "organiser" ? (
+            <OutlinedButton
+              title={
+                openReports.length > 0
+                  ? t("profile.moderationCount", { count: openReports.length })
+                  : t("profile.moderation")
+              }
+              icon="shield-alert-outline"
+              onPress={() => navigation.navigate("Moderation")}
+              style={styles.moderationButton}
+            />
+          ) : null}
+        </View>
+
+        {/* Each channel can be switched off; reminders only exist on phones. */}
+        <View style={styles.notificationsCard}>
+          <Text style={styles.sectionTitle}>
+            {t("profile.notificationsTitle")}
+          </Text>
+          {Platform.OS !== "web" && permissionGranted === false ? (
+            <Text style={styles.scrollHint}>
+              {t("profile.notificationsDisabled")}
+            </Text>
+          ) : null}
+          {NOTIFICATION_CHANNELS.map((channel) => (
+            <View key={channel} style={styles.channelRow}>
+              <Text style={styles.channelLabel}>
+                {t(`profile.notificationChannel.${channel}`)}
+              </Text>
+              <Switch
+                value={!appUser.notificationOptOuts.includes(channel)}
+                onValueChange={(enabled) =>
+                  handleToggleChannel(channel, enabled)
+                }
+                trackColor={{ true: colors.primary }}
+              />
+            </View>
+          ))}
         </View>
 
         {/* Favourites provide quick access to saved volunteering opportunities. */}
@@ -369,6 +452,24 @@ const styles = StyleSheet.create({
     textTransform: "uppercase",
     color: colors.textMuted,
   },
+  yearRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    justifyContent: "center",
+    marginTop: 10,
+  },
+  yearTitle: {
+    color: colors.textSecondary,
+    fontSize: 12,
+    marginRight: 6,
+  },
+  yearHours: {
+    color: colors.textPrimary,
+    fontSize: 12,
+    fontWeight: "600",
+    marginHorizontal: 6,
+  },
   sectionWrapper: {
     flex: 1,
     marginHorizontal: 20,
@@ -408,6 +509,31 @@ const styles = StyleSheet.create({
     flexShrink: 1,
     minWidth: "35%",
   },
+  moderationButton: {
+    alignSelf: "flex-start",
+    marginTop: 12,
+  },
+  notificationsCard: {
+    marginTop: 18,
+    marginHorizontal: 20,
+    backgroundColor: colors.surface,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingVertical: 14,
+    paddingHorizontal: 18,
+  },
+  channelRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 4,
+  },
+  channelLabel: {
+    flex: 1,
+    color: colors.textPrimary,
+    marginRight: 12,
+  },
   favoritesContent: {
     paddingBottom: 24,
   },
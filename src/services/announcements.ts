@@ -0,0 +1,111 @@
+/**
+ * announcements.ts
+ * ----------------
+ * Organiser broadcasts to everyone taking part in an event. An announcement is
+ * stored under `events/{eventId}/announcements`, where the latest one is pinned
+ * on the event page, and each recipient also gets a notice in their inbox,
+ * which is pushed to their devices unless they muted announcements. The
+ * recipient list is fixed when it is sent; recipients add themselves to
+ * `readBy` once they have seen it, so the organiser can follow how many did.
+ */
+import {
+  addDoc,
+  arrayUnion,
+  collection,
+  doc,
+  getDocs,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+
+import { db } from "../firebaseConfig";
+import { Event, Participation } from "../types";
+import { notifyUsers } from "./notifications";
+import { participationsCollection, readDocs } from "./repository";
+
+/** Volunteers an announcement reaches: those with a spot, waiting or who came. */
+export const ANNOUNCEMENT_AUDIENCE: Participation["status"][] = [
+  "signed_up",
+  "waitlisted",
+  "attended",
+];
+
+/** Longest announcement, so it still fits a push notification. */
+export const ANNOUNCEMENT_MAX_LENGTH = 500;
+
+export type AnnouncementErrorCode = "empty" | "too_long" | "no_recipients";
+
+/** Raised when an announcement cannot be sent. */
+export class AnnouncementError extends Error {
+  code: AnnouncementErrorCode;
+
+  constructor(code: AnnouncementErrorCode) {
+    super(code);
+    this.name = "AnnouncementError";
+    this.code = code;
+  }
+}
+
+/** Ids of the volunteers an announcement for the event would reach. */
+export async function announcementRecipients(
+  eventId: string
+): Promise<string[]> {
+  const snapshot = await getDocs(
+    query(
+      participationsCollection(),
+      where("eventId", "==", eventId),
+      where("status", "in", ANNOUNCEMENT_AUDIENCE)
+    )
+  );
+  return Array.from(
+    new Set(readDocs(snapshot).map((participation) => participation.userId))
+  );
+}
+
+/**
+ * Pins the message on the event and notifies every volunteer in
+ * `ANNOUNCEMENT_AUDIENCE`. Returns the number of recipients.
+ */
+export async function sendAnnouncement(
+  event: Pick<Event, "id" | "title">,
+  message: string,
+  senderId: string
+): Promise<number> {
+  const text = message.trim();
+  if (!text) throw new AnnouncementError("empty");
+  if (text.length > ANNOUNCEMENT_MAX_LENGTH) {
+    throw new AnnouncementError("too_long");
+  }
+  const recipientIds = await announcementRecipients(event.id);
+  if (recipientIds.length === 0) throw new AnnouncementError("no_recipients");
+
+  await addDoc(collection(db, "events", event.id, "announcements"), {
+    message: text,
+    senderId,
+    recipientIds,
+    readBy: [],
+    createdAt: serverTimestamp(),
+  });
+  await notifyUsers(recipientIds, {
+    type: "announcement",
+    eventId: event.id,
+    eventTitle: event.title,
+    message: text,
+    senderId,
+  });
+  return recipientIds.length;
+}
+
+/** Records that the user has seen the announcement. */
+export async function markAnnouncementRead(
+  eventId: string,
+  announcementId: string,
+  userId: string
+): Promise<void> {
+  await updateDoc(
+    doc(db, "events", eventId, "announcements", announcementId),
+    { readBy: arrayUnion(userId) }
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * bringList.ts
+ * ------------
+ * "What to bring" lists. Organisers list equipment with quantities on the
+ * event (`bringList`); volunteers who hold a spot commit to bringing some of
+ * it through their participation (`bringing`, quantity per item id). The
+ * event's `bringCounts` map keeps the committed total per item, written in
+ * the same transaction, so the rules can hold it to the quantity asked for.
+ * Withdrawing clears the commitments (see `setParticipationStatus`), so the
+ * list shows those items as uncovered again.
+ */
+import { doc, runTransaction, serverTimestamp } from "firebase/firestore";
+
+import { db } from "../firebaseConfig";
+import { BringItem, Participation } from "../types";
+import {
+  bringCountUpdates,
+  committedBringing,
+  holdsSpot,
+  participationDocId,
+  ParticipationError,
+} from "./participations";
+
+/** Items per event; the security rules check their counts one by one. */
+export const MAX_BRING_ITEMS = 10;
+
+/** An item as organisers list it; commitments are counted separately. */
+export type BringItemDefinition = Omit<BringItem, "committed">;
+
+/** How many of each item volunteers holding a spot have committed to, by id. */
+export function bringListCoverage(
+  items: BringItemDefinition[],
+  participations: Pick<Participation, "status" | "bringing">[]
+): Record<string, number> {
+  const coverage: Record<string, number> = {};
+  items.forEach((item) => {
+    coverage[item.id] = participations
+      .filter((participation) => holdsSpot(participation.status))
+      .reduce(
+        (sum, participation) => sum + (participation.bringing[item.id] ?? 0),
+        0
+      );
+  });
+  return coverage;
+}
+
+/**
+ * Whether replacing the list with `next` would strand commitments: an item
+ * volunteers committed to is dropped, or asks for fewer than they bring.
+ */
+export const strandsCommitments = (
+  items: BringItem[],
+  next: BringItemDefinition[]
+) =>
+  items.some(
+    (item) =>
+      item.committed > 0 &&
+      (next.find((entry) => entry.id === item.id)?.quantity ?? 0) <
+        item.committed
+  );
+
+const readItems = (data: any): BringItemDefinition[] =>
+  Array.isArray(data?.bringList) ? data.bringList : [];
+
+/**
+ * Replaces what the volunteer commits to bringing (zero quantities are
+ * dropped). Only volunteers holding a spot can commit, and no item can be
+ * committed beyond what the organiser asked for, checked against the event's
+ * latest counts.
+ */
+export async function commitToBring(
+  eventId: string,
+  userId: string,
+  bringing: Record<string, number>
+): Promise<void> {
+  const eventRef = doc(db, "events", eventId);
+  const participationRef = doc(
+    db,
+    "participations",
+    participationDocId(eventId, userId)
+  );
+
+  await runTransaction(db, async (transaction) => {
+    const eventSnap = await transaction.get(eventRef);
+    if (!eventSnap.exists()) {
+      throw new ParticipationError("event_missing");
+    }
+    const participationSnap = await transaction.get(participationRef);
+    const participation = participationSnap.data();
+    if (!holdsSpot(participation?.status)) {
+      throw new ParticipationError("bring_unregistered");
+    }
+
+    const eventData = eventSnap.data();
+    const items = readItems(eventData);
+    const committed: Record<string, number> = {};
+    Object.entries(bringing).forEach(([itemId, quantity]) => {
+      if (quantity > 0) committed[itemId] = Math.floor(quantity);
+    });
+    if (
+      Object.keys(committed).some(
+        (id) => !items.some((item) => item.id === id)
+      )
+    ) {
+      throw new ParticipationError("bring_item_missing");
+    }
+
+    const previous = committedBringing(participation);
+    const countUpdates = bringCountUpdates(eventData, previous, committed);
+    const covered = items.some(
+      (item) =>
+        (committed[item.id] ?? 0) > (previous[item.id] ?? 0) &&
+        countUpdates[`bringCounts.${item.id}`] > item.quantity
+    );
+    if (covered) {
+      throw new ParticipationError("bring_item_covered");
+    }
+
+    transaction.update(participationRef, {
+      bringing: committed,
+      updatedAt: serverTimestamp(),
+    });
+    if (Object.keys(countUpdates).length > 0) {
+      transaction.update(eventRef, countUpdates);
+    }
+  });
+}
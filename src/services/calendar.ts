@@ -0,0 +1,118 @@
+/**
+ * calendar.ts
+ * -----------
+ * Getting events out of the app and into the user's calendar. "Add to
+ * calendar" writes a single-event .ics file and hands it to the share sheet
+ * (or downloads it on web). The personal feed is served by the `calendarFeed`
+ * function, which rebuilds it from Firestore on every fetch, so time and
+ * location changes show up and withdrawn or cancelled events drop out. Access
+ * is by an unguessable token kept in `calendarFeeds/{token}`; resetting it
+ * revokes every subscription made with the old link.
+ */
+import { Platform } from "react-native";
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  limit,
+  query,
+  serverTimestamp,
+  setDoc,
+  where,
+} from "firebase/firestore";
+
+import { db } from "../firebaseConfig";
+import { Event } from "../types";
+import {
+  buildCalendar,
+  CalendarEntry,
+  eventDescription,
+  eventTimeSpan,
+  eventUid,
+} from "./ics";
+
+/** Region the feed function is deployed to (see functions/src/index.ts). */
+const FEED_REGION = "europe-west1";
+
+const feedBaseUrl = () =>
+  process.env.EXPO_PUBLIC_CALENDAR_FEED_URL ??
+  `https://${FEED_REGION}-${process.env.EXPO_PUBLIC_FIREBASE_PROJECT_ID}.cloudfunctions.net/calendarFeed`;
+
+export const calendarEntry = (event: Event): CalendarEntry => ({
+  uid: eventUid(event.id),
+  title: event.title,
+  description: eventDescription(event.description, event.faq),
+  location: event.locationText,
+  geo: event.coordinates,
+  cancelled: event.status === "cancelled",
+  ...eventTimeSpan(event.dateTime, event.shifts),
+});
+
+// Drops characters that are not allowed in file names on some platforms.
+const fileNameFor = (event: Event) => {
+  const base = event.title
+    .replace(/[\\/:*?"<>|\s]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${base || "event"}.ics`;
+};
+
+/** Exports the event as an .ics file the user can open in their calendar app. */
+export async function exportEventToCalendar(event: Event): Promise<void> {
+  const ics = buildCalendar([calendarEntry(event)]);
+
+  if (Platform.OS === "web") {
+    const url = URL.createObjectURL(new Blob([ics], { type: "text/calendar" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileNameFor(event);
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  const file = new File(Paths.cache, fileNameFor(event));
+  file.create({ overwrite: true });
+  file.write(ics);
+  await Sharing.shareAsync(file.uri, {
+    mimeType: "text/calendar",
+    UTI: "com.apple.ical.ics",
+  });
+}
+
+/** HTTPS address of the feed; calendar apps that ask for a URL take this one. */
+export const calendarFeedUrl = (token: string) =>
+  `${feedBaseUrl()}?token=${encodeURIComponent(token)}`;
+
+/** Same feed on the webcal scheme, which opens the subscribe dialog. */
+export const calendarSubscribeUrl = (token: string) =>
+  calendarFeedUrl(token).replace(/^https?:/, "webcal:");
+
+async function createFeedToken(userId: string): Promise<string> {
+  const feedRef = doc(collection(db, "calendarFeeds"));
+  await setDoc(feedRef, { userId, createdAt: serverTimestamp() });
+  return feedRef.id;
+}
+
+/** The user's feed token, created on first use. */
+export async function getCalendarFeedToken(userId: string): Promise<string> {
+  const existing = await getDocs(
+    query(
+      collection(db, "calendarFeeds"),
+      where("userId", "==", userId),
+      limit(1)
+    )
+  );
+  return existing.empty ? createFeedToken(userId) : existing.docs[0].id;
+}
+
+/** Revokes the user's current feed link(s) and returns a fresh token. */
+export async function resetCalendarFeedToken(userId: string): Promise<string> {
+  const existing = await getDocs(
+    query(collection(db, "calendarFeeds"), where("userId", "==", userId))
+  );
+  await Promise.all(existing.docs.map((docSnap) => deleteDoc(docSnap.ref)));
+  return createFeedToken(userId);
+}
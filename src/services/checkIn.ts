@@ -0,0 +1,135 @@
+/**
+ * checkIn.ts
+ * ----------
+ * QR self check-in. The organiser's device issues short-lived tokens into the
+ * `checkInTokens` collection; the QR code carries the token id, which is a
+ * random Firestore id and therefore unguessable. A volunteer's check-in is only
+ * accepted while the token document exists, belongs to the event and has not
+ * expired, so a screenshot from yesterday points at a dead token.
+ */
+import * as Linking from "expo-linking";
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  where,
+} from "firebase/firestore";
+
+import { db } from "../firebaseConfig";
+import { ParticipationError, holdsSpot } from "./participations";
+
+/** How long a single QR code is accepted after it was issued. */
+export const CHECK_IN_TOKEN_TTL_MS = 10 * 60 * 1000;
+/** How often the organiser screen swaps in a fresh code, well before expiry. */
+export const CHECK_IN_ROTATE_MS = 4 * 60 * 1000;
+
+export interface CheckInToken {
+  id: string;
+  eventId: string;
+  expiresAt: Date;
+}
+
+/** Issues a fresh token for the event on behalf of its organiser. */
+export async function issueCheckInToken(
+  eventId: string,
+  organiserId: string
+): Promise<CheckInToken> {
+  const tokenRef = doc(collection(db, "checkInTokens"));
+  const expiresAt = new Date(Date.now() + CHECK_IN_TOKEN_TTL_MS);
+  await setDoc(tokenRef, {
+    eventId,
+    createdBy: organiserId,
+    expiresAt: Timestamp.fromDate(expiresAt),
+    createdAt: serverTimestamp(),
+  });
+  return { id: tokenRef.id, eventId, expiresAt };
+}
+
+/** URL encoded into the QR code; opens the CheckIn screen as a deep link. */
+export const buildCheckInUrl = (token: CheckInToken) =>
+  Linking.createURL("check-in", {
+    queryParams: { eventId: token.eventId, token: token.id },
+  });
+
+/** Extracts the event and token from a scanned code, or null if it is not ours. */
+export function parseCheckInUrl(
+  url: string
+): { eventId: string; token: string } | null {
+  try {
+    const { path, hostname, queryParams } = Linking.parse(url);
+    const route = path || hostname;
+    const eventId = queryParams?.eventId;
+    const token = queryParams?.token;
+    if (
+      route !== "check-in" ||
+      typeof eventId !== "string" ||
+      typeof token !== "string"
+    ) {
+      return null;
+    }
+    return { eventId, token };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Marks the signed-in volunteer as attended using a scanned token. The token is
+ * validated inside the same transaction that updates the participation.
+ */
+export async function selfCheckIn(
+  eventId: string,
+  tokenId: string,
+  userId: string
+): Promise<void> {
+  // Transactions cannot run queries, so locate the participation up front.
+  const participationSnap = await getDocs(
+    query(
+      collection(db, "participations"),
+      where("eventId", "==", eventId),
+      where("userId", "==", userId)
+    )
+  );
+  const participationDoc = participationSnap.docs.find((docSnap) =>
+    holdsSpot(docSnap.data().status)
+  );
+  if (!participationDoc) {
+    throw new ParticipationError("not_signed_up");
+  }
+
+  const tokenRef = doc(db, "checkInTokens", tokenId);
+
+  await runTransaction(db, async (transaction) => {
+    const tokenSnap = await transaction.get(tokenRef);
+    if (!tokenSnap.exists() || tokenSnap.data().eventId !== eventId) {
+      throw new ParticipationError("invalid_check_in_code");
+    }
+    const expiresAt: Date | undefined = tokenSnap.data().expiresAt?.toDate?.();
+    if (!expiresAt || expiresAt.getTime() < Date.now()) {
+      throw new ParticipationError("expired_check_in_code");
+    }
+
+    const currentSnap = await transaction.get(participationDoc.ref);
+    const status = currentSnap.data()?.status;
+    if (status === "attended") {
+      throw new ParticipationError("already_checked_in");
+    }
+    if (!currentSnap.exists() || !holdsSpot(status)) {
+      throw new ParticipationError("not_signed_up");
+    }
+
+    transaction.update(participationDoc.ref, {
+      status: "attended",
+      attendanceMarkedBy: userId,
+      attendanceMarkedAt: serverTimestamp(),
+      checkInAt: serverTimestamp(),
+      checkInToken: tokenId,
+      updatedAt: serverTimestamp(),
+    });
+  });
+}
@@ -0,0 +1,45 @@
+/**
+ * commentFilter.ts
+ * ----------------
+ * The word filter and rate limit for comments. Kept free of app and Firebase
+ * imports because the functions (functions/src/index.ts) compile this same
+ * file: the app refuses a comment before sending it, and the backend hides
+ * any that get past the app anyway.
+ */
+
+/** `hiddenBy` of comments the backend hid for getting past the app's checks. */
+export const FILTER_HIDDEN_BY = "system";
+
+/** At most `count` comments per user and event within `windowMs`. */
+export const COMMENT_RATE_LIMIT = { count: 5, windowMs: 10 * 60 * 1000 };
+
+// Splits on whitespace and punctuation so "word!" still matches "word".
+const WORD_SEPARATORS = /[\s.,!?;:"'()[\]{}<>*_~/\\-]+/;
+
+/** Blocked words and phrases from a comma-separated setting. */
+export const parseBlockedWords = (list: string | undefined): string[] =>
+  (list ?? "")
+    .split(",")
+    .map((word) => word.trim().toLowerCase())
+    .filter(Boolean);
+
+/** True when the text contains one of the blocked words or phrases. */
+export function containsBlockedWord(
+  text: string,
+  blockedWords: string[]
+): boolean {
+  const normalised = ` ${text
+    .toLowerCase()
+    .split(WORD_SEPARATORS)
+    .filter(Boolean)
+    .join(" ")} `;
+  return blockedWords.some((word) =>
+    normalised.includes(` ${word.split(WORD_SEPARATORS).join(" ")} `)
+  );
+}
+
+/** How many of the given comment times fall within the rate limit window. */
+export const recentCommentCount = (timestamps: Date[], now = Date.now()) =>
+  timestamps.filter(
+    (date) => date.getTime() >= now - COMMENT_RATE_LIMIT.windowMs
+  ).length;
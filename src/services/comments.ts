@@ -0,0 +1,283 @@
+/**
+ * comments.ts
+ * -----------
+ * Event comments beyond posting them (which goes through the outbox so it
+ * works offline). Comments form threads one level deep: a reply carries the
+ * `parentId` of a top-level comment. Authors can edit their text; the previous
+ * version is kept in the comment's `history` subcollection, which only the
+ * event owner can read. Reactions are stored per name as the list of users
+ * who reacted, so each user toggles only their own entry. Mentions are kept
+ * in step with the text on every edit (see mentions.ts), and so is the FAQ
+ * copy of a pinned question (see questions.ts), which goes when the question
+ * is deleted.
+ */
+import {
+  arrayRemove,
+  arrayUnion,
+  collection,
+  doc,
+  getDocs,
+  orderBy,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+
+import { db } from "../firebaseConfig";
+import {
+  CommentReaction,
+  CommentRevision,
+  Event,
+  EventComment,
+  Participation,
+} from "../types";
+import { containsBlockedWord, parseBlockedWords } from "./commentFilter";
+import { MAX_MENTIONS, mentionedIds, mentionsToText } from "./mentions";
+import {
+  commentHistoryCollection,
+  getDocument,
+  hiddenCommentRef,
+  readDocs,
+  userRef,
+} from "./repository";
+
+/** Reactions in the order they are offered, with the emoji shown for each. */
+export const COMMENT_REACTIONS: [CommentReaction, string][] = [
+  ["thumbs_up", "👍"],
+  ["heart", "❤️"],
+  ["clap", "👏"],
+  ["laugh", "😄"],
+];
+
+/** Comments loaded per page, replies included. */
+export const COMMENTS_PAGE_SIZE = 20;
+
+/** Volunteers who can be mentioned, besides the organiser. */
+export const MENTIONABLE_STATUSES: Participation["status"][] = [
+  "signed_up",
+  "waitlisted",
+  "attended",
+];
+
+/** Firestore rejects batches with more than 500 writes. */
+const BATCH_LIMIT = 500;
+
+type FaqEvent = Pick<Event, "id" | "faq">;
+
+const BLOCKED_WORDS = parseBlockedWords(
+  process.env.EXPO_PUBLIC_COMMENT_BLOCKED_WORDS
+);
+
+export type CommentErrorCode =
+  | "empty"
+  | "unchanged"
+  | "blocked_words"
+  | "rate_limited"
+  | "too_many_mentions";
+
+/** Raised when a comment or an edit cannot be saved. */
+export class CommentError extends Error {
+  code: CommentErrorCode;
+
+  constructor(code: CommentErrorCode) {
+    super(code);
+    this.name = "CommentError";
+    this.code = code;
+  }
+}
+
+export interface CommentThread<T extends EventComment = EventComment> {
+  comment: T;
+  /** Oldest first, like a conversation. */
+  replies: T[];
+}
+
+/**
+ * Groups comments listed newest first into threads. A reply is always newer
+ * than its parent, so a loaded parent comes with all of its replies. Replies
+ * whose parent is not loaded yet are left out until it is, unless `complete`
+ * says every comment is loaded, in which case the parent was deleted and the
+ * reply is shown on its own.
+ */
+export function groupThreads<T extends EventComment>(
+  comments: T[],
+  complete: boolean
+): CommentThread<T>[] {
+  const topLevelIds = new Set(
+    comments.filter((comment) => !comment.parentId).map((comment) => comment.id)
+  );
+  const repliesByParent = new Map<string, T[]>();
+  const threads: CommentThread<T>[] = [];
+  comments.forEach((comment) => {
+    if (comment.parentId && topLevelIds.has(comment.parentId)) {
+      const replies = repliesByParent.get(comment.parentId) ?? [];
+      replies.unshift(comment);
+      repliesByParent.set(comment.parentId, replies);
+    } else if (!comment.parentId || complete) {
+      threads.push({ comment, replies: [] });
+    }
+  });
+  return threads.map((thread) => ({
+    ...thread,
+    replies: repliesByParent.get(thread.comment.id) ?? [],
+  }));
+}
+
+/**
+ * Throws `CommentError` when the text contains a word or phrase from
+ * `EXPO_PUBLIC_COMMENT_BLOCKED_WORDS` (comma-separated).
+ */
+export function checkBlockedWords(text: string): void {
+  if (containsBlockedWord(text, BLOCKED_WORDS)) {
+    throw new CommentError("blocked_words");
+  }
+}
+
+/** Throws `CommentError` when the text mentions more than `MAX_MENTIONS`. */
+export function checkMentions(text: string): void {
+  if (mentionedIds(text).length > MAX_MENTIONS) {
+    throw new CommentError("too_many_mentions");
+  }
+}
+
+/**
+ * Display names of the given users, for showing mentions. Users whose profile
+ * cannot be loaded are left out.
+ */
+export async function getUserNames(
+  userIds: string[]
+): Promise<Record<string, string>> {
+  const entries = await Promise.all(
+    userIds.map(async (userId) => {
+      try {
+        const user = await getDocument(userRef(userId));
+        return user ? [[userId, user.displayName || user.email]] : [];
+      } catch (error) {
+        console.warn("Failed to load user profile", error);
+        return [];
+      }
+    })
+  );
+  return Object.fromEntries(entries.flat());
+}
+
+/**
+ * Replaces the comment's text and files the previous text in its history. A
+ * pinned question's FAQ copy takes the new text in the same batch.
+ */
+export async function editComment(
+  event: FaqEvent,
+  comment: Pick<EventComment, "id" | "text">,
+  text: string,
+  userId: string
+): Promise<void> {
+  const trimmed = text.trim();
+  if (!trimmed) throw new CommentError("empty");
+  if (trimmed === comment.text) throw new CommentError("unchanged");
+  checkBlockedWords(trimmed);
+  checkMentions(trimmed);
+
+  const commentRef = doc(db, "events", event.id, "comments", comment.id);
+  const batch = writeBatch(db);
+  batch.set(doc(collection(commentRef, "history")), {
+    text: comment.text,
+    editedBy: userId,
+    editedAt: serverTimestamp(),
+  });
+  batch.update(commentRef, {
+    text: trimmed,
+    mentions: mentionedIds(trimmed),
+    editedAt: serverTimestamp(),
+  });
+  const pinned = event.faq.find((entry) => entry.commentId === comment.id);
+  if (pinned) {
+    const names = await getUserNames(mentionedIds(trimmed));
+    const question = mentionsToText(trimmed, names);
+    if (question !== pinned.question) {
+      batch.update(doc(db, "events", event.id), {
+        faq: event.faq.map((entry) =>
+          entry === pinned ? { ...entry, question } : entry
+        ),
+      });
+    }
+  }
+  await batch.commit();
+}
+
+/** Earlier versions of an edited comment, newest first. Event owner only. */
+export async function getCommentHistory(
+  eventId: string,
+  commentId: string
+): Promise<CommentRevision[]> {
+  const snapshot = await getDocs(
+    query(
+      commentHistoryCollection(eventId, commentId),
+      orderBy("editedAt", "desc")
+    )
+  );
+  return readDocs(snapshot);
+}
+
+/** Adds the user's reaction, or takes it back when `reacted` is true. */
+export async function toggleReaction(
+  eventId: string,
+  commentId: string,
+  reaction: CommentReaction,
+  userId: string,
+  reacted: boolean
+): Promise<void> {
+  await updateDoc(doc(db, "events", eventId, "comments", commentId), {
+    [`reactions.${reaction}`]: reacted
+      ? arrayRemove(userId)
+      : arrayUnion(userId),
+  });
+}
+
+/**
+ * Deletes the comment together with its replies and the edit history and
+ * hidden text of each, and drops it from the FAQ when it is pinned. Allowed
+ * for the comment's author and the event owner.
+ */
+export async function deleteComment(
+  event: FaqEvent,
+  comment: Pick<EventComment, "id" | "parentId" | "hidden">
+): Promise<void> {
+  const eventId = event.id;
+  const comments = collection(db, "events", eventId, "comments");
+  const replies = comment.parentId
+    ? []
+    : (await getDocs(query(comments, where("parentId", "==", comment.id))))
+        .docs;
+  const commentIds = [comment.id, ...replies.map((reply) => reply.id)];
+  const histories = await Promise.all(
+    commentIds.map((commentId) =>
+      getDocs(collection(comments, commentId, "history"))
+    )
+  );
+  const hiddenIds = [
+    ...(comment.hidden ? [comment.id] : []),
+    ...replies.filter((reply) => reply.get("hidden")).map((reply) => reply.id),
+  ];
+  // The comment goes last: the rules check its author for the rest.
+  const refs = [
+    ...histories.flatMap((history) =>
+      history.docs.map((docSnap) => docSnap.ref)
+    ),
+    ...hiddenIds.map((commentId) => hiddenCommentRef(eventId, commentId)),
+    ...replies.map((reply) => reply.ref),
+    doc(comments, comment.id),
+  ];
+  const faq = event.faq.filter((entry) => entry.commentId !== comment.id);
+  // Each batch leaves room for the FAQ update, which goes with the comment.
+  const size = BATCH_LIMIT - 1;
+  for (let start = 0; start < refs.length; start += size) {
+    const batch = writeBatch(db);
+    refs.slice(start, start + size).forEach((ref) => batch.delete(ref));
+    if (start + size >= refs.length && faq.length < event.faq.length) {
+      batch.update(doc(db, "events", eventId), { faq });
+    }
+    await batch.commit();
+  }
+}
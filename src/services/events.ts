@@ -0,0 +1,283 @@
+/**
+ * events.ts
+ * ---------
+ * Event lifecycle operations that touch more than the event document itself.
+ * Cancelling an event keeps it (and its history) but stops sign-ups and
+ * notifies everyone who had a spot or was waiting for one; the same people
+ * hear about it when the event moves to a new time. Deleting an event removes
+ * everything hanging off it: participations, favourites, check-in tokens, the
+ * `comments` (with their edit history and hidden text) and `announcements`
+ * subcollections and the images uploaded to Storage under `events/{eventId}/`.
+ * The event document goes last, because the security rules check ownership
+ * through it; if anything fails it is kept so the organiser can simply retry.
+ */
+import {
+  collection,
+  deleteDoc,
+  DocumentReference,
+  getDocs,
+  query,
+  QueryFieldFilterConstraint,
+  QuerySnapshot,
+  serverTimestamp,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { deleteObject, listAll, ref } from "firebase/storage";
+
+import { db, storage } from "../firebaseConfig";
+import { Event } from "../types";
+import { notifyUsers } from "./notifications";
+import { eventRef, getDocument, hiddenCommentRef } from "./repository";
+
+/** Firestore rejects batches with more than 500 writes. */
+const BATCH_LIMIT = 500;
+
+export type EventDeletionTarget =
+  | "participations"
+  | "favorites"
+  | "checkInTokens"
+  | "comments"
+  | "announcements"
+  | "images";
+
+export interface EventDeletionFailure {
+  target: EventDeletionTarget;
+  /** Number of documents or files that could not be removed. */
+  count: number;
+  message: string;
+}
+
+export type EventErrorCode =
+  | "event_missing"
+  | "not_owner"
+  | "already_cancelled"
+  | "partial";
+
+/**
+ * Raised when an event cannot be cancelled or deleted. `partial` means some
+ * related data was left behind (listed in `failures`) and the event document
+ * was kept.
+ */
+export class EventError extends Error {
+  code: EventErrorCode;
+  failures: EventDeletionFailure[];
+
+  constructor(
+    code: EventErrorCode,
+    failures: EventDeletionFailure[] = []
+  ) {
+    super(
+      failures.length > 0
+        ? failures.map((f) => `${f.target}: ${f.message}`).join("; ")
+        : code
+    );
+    this.name = "EventError";
+    this.code = code;
+    this.failures = failures;
+  }
+}
+
+interface DeleteOutcome {
+  failed: number;
+  message?: string;
+}
+
+/** Deletes the given documents in batches, returning how many were left behind. */
+async function deleteInBatches(
+  refs: DocumentReference[]
+): Promise<DeleteOutcome> {
+  let failed = 0;
+  let message: string | undefined;
+  for (let start = 0; start < refs.length; start += BATCH_LIMIT) {
+    const chunk = refs.slice(start, start + BATCH_LIMIT);
+    const batch = writeBatch(db);
+    chunk.forEach((docRef) => batch.delete(docRef));
+    try {
+      await batch.commit();
+    } catch (error: any) {
+      failed += chunk.length;
+      message = error?.message ?? String(error);
+    }
+  }
+  return { failed, message };
+}
+
+const refsOf = (snapshot: QuerySnapshot) =>
+  snapshot.docs.map((docSnap) => docSnap.ref);
+
+/** Removes every file in the event's Storage folder. */
+async function deleteEventImages(eventId: string): Promise<DeleteOutcome> {
+  const listing = await listAll(ref(storage, `events/${eventId}`));
+  const results = await Promise.allSettled(
+    listing.items.map((item) => deleteObject(item))
+  );
+  const rejected = results.filter(
+    (result): result is PromiseRejectedResult => result.status === "rejected"
+  );
+  return {
+    failed: rejected.length,
+    message: rejected[0]?.reason?.message,
+  };
+}
+
+/** Volunteers who are signed up for the event or on its waitlist. */
+async function registeredUserIds(eventId: string): Promise<string[]> {
+  const registered = await getDocs(
+    query(
+      collection(db, "participations"),
+      where("eventId", "==", eventId),
+      where("status", "in", ["signed_up", "waitlisted"])
+    )
+  );
+  return registered.docs.map((docSnap) => docSnap.get("userId") as string);
+}
+
+/**
+ * Marks the event as cancelled with the organiser's reason and notifies every
+ * volunteer who is signed up or on the waitlist. Participations are left as
+ * they are so the event stays in everyone's history.
+ */
+export async function cancelEvent(
+  eventId: string,
+  requesterId: string,
+  reason: string
+): Promise<void> {
+  const event = await getDocument(eventRef(eventId));
+  if (!event) throw new EventError("event_missing");
+  if (event.createdBy !== requesterId) throw new EventError("not_owner");
+  if (event.status === "cancelled") throw new EventError("already_cancelled");
+
+  const cancellationReason = reason.trim();
+  await updateDoc(eventRef(eventId), {
+    status: "cancelled",
+    cancellationReason,
+    cancelledAt: serverTimestamp(),
+  });
+
+  await notifyUsers(await registeredUserIds(eventId), {
+    type: "event_cancelled",
+    eventId,
+    eventTitle: event.title,
+    message: cancellationReason,
+    senderId: requesterId,
+  });
+}
+
+/**
+ * Tells every volunteer signed up for the event or waiting for a spot that it
+ * now starts at `dateTime`. Called by the organiser after saving the change.
+ */
+export async function notifyTimeChanged(
+  event: Pick<Event, "id" | "title">,
+  dateTime: Date,
+  requesterId: string
+): Promise<void> {
+  await notifyUsers(await registeredUserIds(event.id), {
+    type: "time_changed",
+    eventId: event.id,
+    eventTitle: event.title,
+    dateTime,
+    senderId: requesterId,
+  });
+}
+
+/**
+ * Deletes the event and all data that belongs to it. Throws
+ * `EventError` with code `partial` when some of it could not be
+ * removed; calling again picks up whatever is left.
+ */
+export async function deleteEventCascade(
+  eventId: string,
+  requesterId: string
+): Promise<void> {
+  const event = await getDocument(eventRef(eventId));
+  if (!event) throw new EventError("event_missing");
+  if (event.createdBy !== requesterId) throw new EventError("not_owner");
+
+  const deleteWhereEvent = async (
+    collectionName: string,
+    ...filters: QueryFieldFilterConstraint[]
+  ) =>
+    deleteInBatches(
+      refsOf(
+        await getDocs(
+          query(
+            collection(db, collectionName),
+            where("eventId", "==", eventId),
+            ...filters
+          )
+        )
+      )
+    );
+
+  const steps: [EventDeletionTarget, () => Promise<DeleteOutcome>][] = [
+    ["participations", () => deleteWhereEvent("participations")],
+    ["favorites", () => deleteWhereEvent("favorites")],
+    // Only the issuing organiser may list tokens.
+    [
+      "checkInTokens",
+      () =>
+        deleteWhereEvent(
+          "checkInTokens",
+          where("createdBy", "==", requesterId)
+        ),
+    ],
+    [
+      "comments",
+      async () => {
+        const comments = await getDocs(
+          collection(db, "events", eventId, "comments")
+        );
+        // Edit history and hidden text first, while their comments still
+        // exist for the rules.
+        const histories = await Promise.all(
+          comments.docs
+            .filter((docSnap) => docSnap.get("editedAt"))
+            .map((docSnap) => getDocs(collection(docSnap.ref, "history")))
+        );
+        return deleteInBatches([
+          ...histories.flatMap(refsOf),
+          ...comments.docs
+            .filter((docSnap) => docSnap.get("hidden"))
+            .map((docSnap) => hiddenCommentRef(eventId, docSnap.id)),
+          ...refsOf(comments),
+        ]);
+      },
+    ],
+    [
+      "announcements",
+      async () =>
+        deleteInBatches(
+          refsOf(
+            await getDocs(collection(db, "events", eventId, "announcements"))
+          )
+        ),
+    ],
+    ["images", () => deleteEventImages(eventId)],
+  ];
+
+  const failures: EventDeletionFailure[] = [];
+  for (const [target, run] of steps) {
+    try {
+      const { failed, message } = await run();
+      if (failed > 0) {
+        failures.push({ target, count: failed, message: message ?? "" });
+      }
+    } catch (error: any) {
+      // Listing itself failed, so the number left behind is unknown.
+      failures.push({
+        target,
+        count: 0,
+        message: error?.message ?? String(error),
+      });
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new EventError("partial", failures);
+  }
+
+  await deleteDoc(eventRef(eventId));
+}
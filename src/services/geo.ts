@@ -0,0 +1,84 @@
+/**
+ * geo.ts
+ * ------
+ * Distance math and the geocoding provider contract. Kept free of Expo and
+ * React Native imports so the stub provider and the distance sorting can be
+ * unit tested; location.ts and geocoding.ts add the device and platform
+ * geocoder on top. Distances are great-circle distances, which is plenty for
+ * "within 10 km".
+ */
+import { Coordinates } from "../types";
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Great-circle distance between two points in kilometres. */
+export function distanceKm(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Nearest first. Items without a distance go last, keeping their original
+ * order.
+ */
+export const nearestFirst = <T extends { distance?: number }>(items: T[]) =>
+  [...items].sort(
+    (a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity)
+  );
+
+export interface GeocodingProvider {
+  /** Candidate positions for an address, best match first; empty if unknown. */
+  geocode(address: string): Promise<Coordinates[]>;
+  /** A readable address for the point, or null if there is none. */
+  reverseGeocode(point: Coordinates): Promise<string | null>;
+}
+
+/** Places the stub provider knows by default. */
+export const STUB_PLACES: Record<string, Coordinates> = {
+  Oslo: { latitude: 59.9139, longitude: 10.7522 },
+  Bergen: { latitude: 60.3913, longitude: 5.3221 },
+  Trondheim: { latitude: 63.4305, longitude: 10.3951 },
+  Stavanger: { latitude: 58.969, longitude: 5.7331 },
+  Tromsø: { latitude: 69.6492, longitude: 18.9553 },
+};
+
+// Reverse lookups further away than this from every known place find nothing.
+const STUB_REVERSE_RADIUS_KM = 10;
+
+/**
+ * Offline provider that matches addresses containing one of the given place
+ * names (case-insensitive) and reverse geocodes to the nearest of them.
+ */
+export function createStubGeocodingProvider(
+  places: Record<string, Coordinates> = STUB_PLACES
+): GeocodingProvider {
+  const entries = Object.entries(places);
+  return {
+    async geocode(address) {
+      const query = address.trim().toLowerCase();
+      if (!query) return [];
+      return entries
+        .filter(([name]) => query.includes(name.toLowerCase()))
+        .map(([, point]) => point);
+    },
+    async reverseGeocode(point) {
+      const [nearest] = nearestFirst(
+        entries.map(([name, place]) => ({
+          name,
+          distance: distanceKm(point, place),
+        }))
+      );
+      return nearest && nearest.distance <= STUB_REVERSE_RADIUS_KM
+        ? nearest.name
+        : null;
+    },
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * geocoding.ts
+ * ------------
+ * Turns the address organisers type into coordinates and back. Screens only
+ * talk to the active `GeocodingProvider`, so the backend can be swapped: the
+ * default uses the platform geocoder through expo-location, and the stub
+ * resolves a fixed list of places without any network, for tests and local
+ * development (`EXPO_PUBLIC_GEOCODING_PROVIDER=stub`; see geo.ts).
+ */
+import * as Location from "expo-location";
+
+import { Coordinates } from "../types";
+import { createStubGeocodingProvider, GeocodingProvider } from "./geo";
+import { LocationError } from "./location";
+
+/** Platform geocoder (Apple / Google) via expo-location; not available on web. */
+export const expoGeocodingProvider: GeocodingProvider = {
+  async geocode(address) {
+    try {
+      const results = await Location.geocodeAsync(address);
+      return results.map(({ latitude, longitude }) => ({ latitude, longitude }));
+    } catch (error: any) {
+      throw new LocationError("unavailable", error?.message);
+    }
+  },
+  async reverseGeocode(point) {
+    try {
+      const [place] = await Location.reverseGeocodeAsync(point);
+      if (!place) return null;
+      const street = [place.street, place.streetNumber]
+        .filter(Boolean)
+        .join(" ");
+      return [place.name !== street ? place.name : null, street, place.city]
+        .filter(Boolean)
+        .join(", ");
+    } catch (error: any) {
+      throw new LocationError("unavailable", error?.message);
+    }
+  },
+};
+
+let provider: GeocodingProvider =
+  process.env.EXPO_PUBLIC_GEOCODING_PROVIDER === "stub"
+    ? createStubGeocodingProvider()
+    : expoGeocodingProvider;
+
+/** Replaces the active provider, e.g. with a stub in tests. */
+export function setGeocodingProvider(next: GeocodingProvider) {
+  provider = next;
+}
+
+/** Best match for the address; throws `not_found` when there is none. */
+export async function geocodeAddress(address: string): Promise<Coordinates> {
+  const [best] = await provider.geocode(address);
+  if (!best) throw new LocationError("not_found");
+  return best;
+}
+
+export const reverseGeocode = (point: Coordinates) =>
+  provider.reverseGeocode(point);
@@ -0,0 +1,174 @@
+/**
+ * ics.ts
+ * ------
+ * iCalendar (RFC 5545) serialisation for events. Kept free of app and Firebase
+ * imports because the calendar feed function (functions/src/index.ts) compiles
+ * this same file: the app uses it for one-off "Add to calendar" exports and the
+ * function for each user's subscribable feed.
+ */
+import { mentionsToText } from "./mentions";
+
+/** One VEVENT. `uid` must stay the same across exports so calendars update it. */
+export interface CalendarEntry {
+  uid: string;
+  title: string;
+  description: string;
+  location: string;
+  start: Date;
+  end: Date;
+  geo?: { latitude: number; longitude: number };
+  url?: string;
+  /** Cancelled events are left out of the calendar. */
+  cancelled?: boolean;
+}
+
+export interface CalendarOptions {
+  /** Shown as the calendar's name by clients that subscribe to it. */
+  name?: string;
+  /** How often subscribed clients should refetch, in minutes. */
+  refreshMinutes?: number;
+}
+
+/** Events carry no end time, so one without shifts is assumed to last this long. */
+export const DEFAULT_EVENT_DURATION_MS = 3 * 60 * 60 * 1000;
+
+/** Start and end of an event: the later of its start and last shift end. */
+export function eventTimeSpan(
+  start: Date,
+  shifts: { start: Date; end: Date }[] = []
+): { start: Date; end: Date } {
+  const lastShiftEnd = Math.max(...shifts.map((shift) => shift.end.getTime()));
+  return {
+    start,
+    end:
+      shifts.length > 0 && lastShiftEnd > start.getTime()
+        ? new Date(lastShiftEnd)
+        : new Date(start.getTime() + DEFAULT_EVENT_DURATION_MS),
+  };
+}
+
+/** Labels put in front of each question and answer of an event's FAQ. */
+export interface FaqLabels {
+  question: string;
+  answer: string;
+  /** Shown for mentions left in pairs pinned before they were spelled out. */
+  unknownUser: string;
+}
+
+/** The pinned questions and answers as plain text, one pair per paragraph. */
+export function formatFaq(
+  faq: { question: string; answer: string }[],
+  labels: FaqLabels = { question: "Q", answer: "A", unknownUser: "someone" }
+): string {
+  return faq
+    .map(({ question, answer }) =>
+      [
+        `${labels.question}: ${question}`,
+        `${labels.answer}: ${answer}`,
+      ]
+        .map((line) => mentionsToText(line, {}, labels.unknownUser))
+        .join("\n")
+    )
+    .join("\n\n");
+}
+
+/** An event's description followed by its FAQ, as calendars show it. */
+export const eventDescription = (
+  description: string,
+  faq: { question: string; answer: string }[] = []
+) => [description, formatFaq(faq)].filter(Boolean).join("\n\n");
+
+/** Same UID for an event everywhere, so a re-import replaces the old copy. */
+export const eventUid = (eventId: string) => `${eventId}@dugnadhub`;
+
+// UTC "basic" form, e.g. 20260514T160000Z.
+const formatDateTime = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const utf8Length = (char: string) => {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+};
+
+// Lines may be at most 75 octets; longer ones continue on lines starting with
+// a space. Folding per code point keeps multi-byte characters intact.
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+/** Serialises the entries as a complete VCALENDAR document. */
+export function buildCalendar(
+  entries: CalendarEntry[],
+  options: CalendarOptions = {},
+  now: Date = new Date()
+): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//DugnadHub//DugnadHub//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  }
+  if (options.refreshMinutes) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`,
+      `X-PUBLISHED-TTL:PT${options.refreshMinutes}M`
+    );
+  }
+
+  entries.forEach((entry) => {
+    if (entry.cancelled) return;
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${entry.uid}`,
+      `DTSTAMP:${formatDateTime(now)}`,
+      `DTSTART:${formatDateTime(entry.start)}`,
+      `DTEND:${formatDateTime(entry.end)}`,
+      `SUMMARY:${escapeText(entry.title)}`
+    );
+    if (entry.location) {
+      lines.push(`LOCATION:${escapeText(entry.location)}`);
+    }
+    if (entry.geo) {
+      lines.push(`GEO:${entry.geo.latitude};${entry.geo.longitude}`);
+    }
+    if (entry.description) {
+      lines.push(`DESCRIPTION:${escapeText(entry.description)}`);
+    }
+    if (entry.url) {
+      lines.push(`URL:${entry.url}`);
+    }
+    lines.push("STATUS:CONFIRMED", "END:VEVENT");
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,27 @@
+/**
+ * links.ts
+ * --------
+ * Shareable links to screens in the app. The paths match the `linking` config
+ * in RootNavigator. With `EXPO_PUBLIC_WEB_URL` set (the deployed web build),
+ * links point there so they open in a browser for people without the app;
+ * otherwise they use the app scheme, or the current origin on web.
+ */
+import * as Linking from "expo-linking";
+
+type QueryParams = Record<string, string | undefined>;
+
+export function appUrl(path: string, queryParams: QueryParams = {}): string {
+  const webUrl = process.env.EXPO_PUBLIC_WEB_URL;
+  if (!webUrl) {
+    return Linking.createURL(path, { queryParams });
+  }
+  const query = Object.entries(queryParams)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join("&");
+  return `${webUrl.replace(/\/$/, "")}/${path}${query ? `?${query}` : ""}`;
+}
+
+/** Link that opens EventDetails for the event. */
+export const eventUrl = (eventId: string) =>
+  appUrl(`events/${encodeURIComponent(eventId)}`);
@@ -0,0 +1,64 @@
+/**
+ * location.ts
+ * -----------
+ * Device location behind the "near me" features. Events store their position
+ * as a Firestore GeoPoint in `coordinates`; the distance math is in geo.ts.
+ */
+import { Platform } from "react-native";
+import * as Location from "expo-location";
+import { GeoPoint } from "firebase/firestore";
+
+import { Coordinates } from "../types";
+
+export type LocationErrorCode = "permission_denied" | "unavailable" | "not_found";
+
+/**
+ * Raised when a position cannot be determined. Screens translate the code via
+ * `location.error.<code>`.
+ */
+export class LocationError extends Error {
+  code: LocationErrorCode;
+
+  constructor(code: LocationErrorCode, message?: string) {
+    super(message ?? code);
+    this.name = "LocationError";
+    this.code = code;
+  }
+}
+
+/** Where maps open when neither the device position nor any event is known (Oslo). */
+export const DEFAULT_MAP_CENTER: Coordinates = {
+  latitude: 59.9139,
+  longitude: 10.7522,
+};
+
+/** Value to store in an event's `coordinates` field; null clears it. */
+export const coordinatesField = (coordinates?: Coordinates | null) =>
+  coordinates ? new GeoPoint(coordinates.latitude, coordinates.longitude) : null;
+
+/** Asks for permission if needed and returns the device's current position. */
+export async function getCurrentPosition(): Promise<Coordinates> {
+  const { status } = await Location.requestForegroundPermissionsAsync();
+  if (status !== "granted") {
+    throw new LocationError("permission_denied");
+  }
+  try {
+    const position = await Location.getCurrentPositionAsync({
+      accuracy: Location.Accuracy.Balanced,
+    });
+    return {
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+    };
+  } catch (error: any) {
+    throw new LocationError("unavailable", error?.message);
+  }
+}
+
+/** Link that opens turn-by-turn directions to the point in the platform's maps app. */
+export function directionsUrl(destination: Coordinates): string {
+  const target = `${destination.latitude},${destination.longitude}`;
+  return Platform.OS === "ios"
+    ? `http://maps.apple.com/?daddr=${target}`
+    : `https://www.google.com/maps/dir/?api=1&destination=${target}`;
+}
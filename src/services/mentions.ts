@@ -0,0 +1,95 @@
+/**
+ * mentions.ts
+ * -----------
+ * @mentions in event comments. A mention is stored in the comment text as the
+ * token `@[userId]`, and the ids are repeated in the comment's `mentions` list
+ * for the rules and the backend, so renaming a user never breaks a mention:
+ * the current name is filled in when the comment is shown. While typing, the
+ * input holds readable `@Name` text, which `encodeMentions` turns into tokens
+ * for the mentions the user picked from the suggestions.
+ *
+ * Kept free of app and Firebase imports because the comment notice function
+ * (functions/src/index.ts) compiles this same file.
+ */
+
+/** Most users one comment can mention, also enforced by the rules. */
+export const MAX_MENTIONS = 10;
+
+const TOKEN_PATTERN = /@\[([A-Za-z0-9_-]+)\]/g;
+
+export interface Mention {
+  userId: string;
+  name: string;
+}
+
+export type CommentSegment =
+  | { type: "text"; text: string }
+  | { type: "mention"; userId: string };
+
+export const mentionToken = (userId: string) => `@[${userId}]`;
+
+/** Ids mentioned in stored comment text, each once, in order. */
+export function mentionedIds(text: string): string[] {
+  const ids = Array.from(text.matchAll(TOKEN_PATTERN), (match) => match[1]);
+  return Array.from(new Set(ids));
+}
+
+/** Stored comment text split into plain text and mentions, for rendering. */
+export function splitMentions(text: string): CommentSegment[] {
+  const segments: CommentSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) {
+      segments.push({ type: "text", text: text.slice(last, index) });
+    }
+    segments.push({ type: "mention", userId: match[1] });
+    last = index + match[0].length;
+  }
+  if (last < text.length) {
+    segments.push({ type: "text", text: text.slice(last) });
+  }
+  return segments;
+}
+
+/**
+ * Stored text with each mention replaced by `@Name`, e.g. for notices or to
+ * edit it. Mentions of users without a name keep their token unless a
+ * `fallbackName` is given.
+ */
+export function mentionsToText(
+  text: string,
+  names: Record<string, string>,
+  fallbackName?: string
+): string {
+  return text.replace(TOKEN_PATTERN, (token, userId: string) => {
+    const name = names[userId] || fallbackName;
+    return name ? `@${name}` : token;
+  });
+}
+
+/**
+ * Replaces the `@Name` of each picked mention still present in the typed text
+ * with its token. Longer names go first so "@Ann Marie" is not taken for
+ * "@Ann".
+ */
+export function encodeMentions(text: string, picked: Mention[]): string {
+  return [...picked]
+    .sort((a, b) => b.name.length - a.name.length)
+    .reduce(
+      (encoded, { userId, name }) =>
+        encoded.split(`@${name}`).join(mentionToken(userId)),
+      text
+    );
+}
+
+/** The mention being typed at the end of the input, without the `@`. */
+export function mentionQuery(text: string): string | null {
+  const match = /(?:^|\s)@([^\s@]*)$/.exec(text);
+  return match ? match[1] : null;
+}
+
+/** Completes the mention being typed with the picked name. */
+export function completeMention(text: string, name: string): string {
+  return text.replace(/@([^\s@]*)$/, `@${name} `);
+}
@@ -0,0 +1,125 @@
+/**
+ * messages.ts
+ * -----------
+ * Private one-to-one conversations between an event's organiser and one of
+ * its volunteers, for things that do not belong in the public comments. Each
+ * pair has one conversation per event, `conversations/${eventId}_${volunteerId}`,
+ * with its messages in a `messages` subcollection. Sending a message bumps the
+ * other participant's unread count; opening the conversation clears one's
+ * own. Conversations are never deleted, so they stay readable after the event.
+ */
+import {
+  collection,
+  doc,
+  getDoc,
+  increment,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  writeBatch,
+} from "firebase/firestore";
+
+import { db } from "../firebaseConfig";
+import { Conversation, Event } from "../types";
+
+/** Longest message, matching the limit in the security rules. */
+export const MESSAGE_MAX_LENGTH = 2000;
+
+export type MessageErrorCode = "empty" | "too_long";
+
+/** Raised when a message cannot be sent. */
+export class MessageError extends Error {
+  code: MessageErrorCode;
+
+  constructor(code: MessageErrorCode) {
+    super(code);
+    this.name = "MessageError";
+    this.code = code;
+  }
+}
+
+export const conversationId = (eventId: string, volunteerId: string) =>
+  `${eventId}_${volunteerId}`;
+
+/** The other participant, as seen by `userId`. */
+export const otherParticipant = (
+  conversation: Pick<Conversation, "organiserId" | "volunteerId">,
+  userId: string
+) =>
+  conversation.organiserId === userId
+    ? conversation.volunteerId
+    : conversation.organiserId;
+
+/** Unread messages across the conversations, for `userId`. */
+export const unreadMessageCount = (
+  conversations: Pick<Conversation, "unreadCounts">[],
+  userId: string
+) =>
+  conversations.reduce(
+    (sum, conversation) => sum + (conversation.unreadCounts[userId] ?? 0),
+    0
+  );
+
+/**
+ * Returns the id of the conversation between the event's organiser and the
+ * volunteer behind `participationId`, starting it if there is none yet.
+ * Either of the two may start it.
+ */
+export async function openConversation(
+  event: Pick<Event, "id" | "title" | "createdBy">,
+  volunteerId: string,
+  participationId: string
+): Promise<string> {
+  const id = conversationId(event.id, volunteerId);
+  const ref = doc(db, "conversations", id);
+  if (!(await getDoc(ref)).exists()) {
+    await setDoc(ref, {
+      eventId: event.id,
+      eventTitle: event.title,
+      organiserId: event.createdBy,
+      volunteerId,
+      participationId,
+      participants: [event.createdBy, volunteerId],
+      createdAt: serverTimestamp(),
+    });
+  }
+  return id;
+}
+
+/** Adds the message and counts it as unread for the other participant. */
+export async function sendMessage(
+  conversation: Pick<Conversation, "id" | "organiserId" | "volunteerId">,
+  senderId: string,
+  text: string
+): Promise<void> {
+  const message = text.trim();
+  if (!message) throw new MessageError("empty");
+  if (message.length > MESSAGE_MAX_LENGTH) {
+    throw new MessageError("too_long");
+  }
+
+  const ref = doc(db, "conversations", conversation.id);
+  const batch = writeBatch(db);
+  batch.set(doc(collection(ref, "messages")), {
+    senderId,
+    text: message,
+    createdAt: serverTimestamp(),
+  });
+  batch.update(ref, {
+    lastMessage: message,
+    lastMessageAt: serverTimestamp(),
+    lastSenderId: senderId,
+    [`unreadCounts.${otherParticipant(conversation, senderId)}`]: increment(1),
+  });
+  await batch.commit();
+}
+
+/** Clears the user's unread count for the conversation. */
+export async function markConversationRead(
+  id: string,
+  userId: string
+): Promise<void> {
+  await updateDoc(doc(db, "conversations", id), {
+    [`unreadCounts.${userId}`]: 0,
+  });
+}
@@ -0,0 +1,200 @@
+/**
+ * moderation.ts
+ * -------------
+ * Keeping event comments civil without destroying evidence. Anyone can report
+ * a comment; the report lands in the event owner's moderation queue and bumps
+ * the comment's `reportCount`, and comments past `COMMENT_REPORT_THRESHOLD`
+ * are shown collapsed. Owners hide comments instead of deleting them (and can
+ * show them again), then resolve the reports; hiding moves the text to
+ * `hiddenContent`, which only the owner and the author can read. Before a
+ * comment is sent it is checked against a per-user rate limit and the word
+ * filter (see commentFilter.ts); the backend hides comments that skip them.
+ */
+import {
+  doc,
+  getDocs,
+  increment,
+  query,
+  serverTimestamp,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+
+import { db } from "../firebaseConfig";
+import {
+  CommentReportReason,
+  Event,
+  EventComment,
+  HiddenCommentContent,
+} from "../types";
+import { COMMENT_RATE_LIMIT, recentCommentCount } from "./commentFilter";
+import { checkBlockedWords, CommentError } from "./comments";
+import {
+  commentsCollection,
+  getDocument,
+  hiddenCommentRef,
+  readDocs,
+} from "./repository";
+
+/** Open reports after which a comment is collapsed for everyone. */
+export const COMMENT_REPORT_THRESHOLD = 3;
+
+export const COMMENT_REPORT_REASONS: CommentReportReason[] = [
+  "offensive",
+  "spam",
+];
+
+/**
+ * Throws `CommentError` when the user may not post this comment now: it
+ * contains a blocked word (`blocked_words`) or the user already posted
+ * `COMMENT_RATE_LIMIT.count` comments on the event within the window
+ * (`rate_limited`). When the recent comments cannot be looked up, e.g.
+ * offline, only the word filter applies.
+ */
+export async function checkNewComment(
+  eventId: string,
+  userId: string,
+  text: string
+): Promise<void> {
+  checkBlockedWords(text);
+
+  let timestamps: Date[];
+  try {
+    const snapshot = await getDocs(
+      query(commentsCollection(eventId), where("userId", "==", userId))
+    );
+    timestamps = readDocs(snapshot).flatMap((comment) =>
+      comment.timestamp ? [comment.timestamp] : []
+    );
+  } catch (error) {
+    console.warn("Could not check the comment rate limit", error);
+    return;
+  }
+  if (recentCommentCount(timestamps) >= COMMENT_RATE_LIMIT.count) {
+    throw new CommentError("rate_limited");
+  }
+}
+
+export const commentReportId = (
+  eventId: string,
+  commentId: string,
+  reporterId: string
+) => `${eventId}_${commentId}_${reporterId}`;
+
+/** Files the user's report and counts it on the comment, once per user. */
+export async function reportComment(
+  event: Pick<Event, "id" | "createdBy">,
+  commentId: string,
+  reporterId: string,
+  reason: CommentReportReason
+): Promise<void> {
+  const batch = writeBatch(db);
+  batch.set(
+    doc(db, "commentReports", commentReportId(event.id, commentId, reporterId)),
+    {
+      eventId: event.id,
+      commentId,
+      eventOwnerId: event.createdBy,
+      reporterId,
+      reason,
+      status: "open",
+      createdAt: serverTimestamp(),
+    }
+  );
+  batch.update(doc(db, "events", event.id, "comments", commentId), {
+    reportCount: increment(1),
+  });
+  await batch.commit();
+}
+
+/**
+ * Hides the comment from everyone but the event owner and its author, moving
+ * its text and mentions to `hiddenContent` and dropping it from the FAQ, or
+ * shows it again and puts them back. A question shown again is not pinned
+ * again; the owner can do that.
+ */
+export async function setCommentHidden(
+  event: Pick<Event, "id" | "faq">,
+  comment: Pick<EventComment, "id" | "text" | "mentions">,
+  hidden: boolean,
+  ownerId: string
+): Promise<void> {
+  const contentRef = hiddenCommentRef(event.id, comment.id);
+  const batch = writeBatch(db);
+  let content = {};
+  if (hidden) {
+    batch.set(contentRef, {
+      id: contentRef.id,
+      text: comment.text,
+      mentions: comment.mentions,
+    });
+    content = { text: "", mentions: [] };
+    const faq = event.faq.filter((entry) => entry.commentId !== comment.id);
+    if (faq.length < event.faq.length) {
+      batch.update(doc(db, "events", event.id), { faq });
+    }
+  } else {
+    // Comments hidden before their text was moved out have none stored.
+    const stored = await getDocument(contentRef);
+    if (stored) {
+      batch.delete(contentRef);
+      content = { text: stored.text, mentions: stored.mentions };
+    }
+  }
+  batch.update(doc(db, "events", event.id, "comments", comment.id), {
+    ...content,
+    hidden,
+    hiddenBy: ownerId,
+    hiddenAt: serverTimestamp(),
+  });
+  await batch.commit();
+}
+
+/**
+ * Text and mentions of the given hidden comments, for the event owner and
+ * their authors. Comments hidden before their text was moved out, or that
+ * cannot be loaded, are left out.
+ */
+export async function getHiddenContent(
+  eventId: string,
+  commentIds: string[]
+): Promise<Record<string, HiddenCommentContent>> {
+  const entries = await Promise.all(
+    commentIds.map(async (commentId) => {
+      try {
+        const content = await getDocument(hiddenCommentRef(eventId, commentId));
+        return content ? [[commentId, content]] : [];
+      } catch (error) {
+        console.warn("Failed to load hidden comment", error);
+        return [];
+      }
+    })
+  );
+  return Object.fromEntries(entries.flat());
+}
+
+/**
+ * Closes the given reports on a comment. Dismissing them also clears the
+ * comment's report count so it is no longer collapsed; hiding the comment
+ * keeps the count as a record.
+ */
+export async function resolveReports(
+  eventId: string,
+  commentId: string,
+  reportIds: string[],
+  dismiss: boolean
+): Promise<void> {
+  const batch = writeBatch(db);
+  reportIds.forEach((reportId) =>
+    batch.update(doc(db, "commentReports", reportId), {
+      status: "resolved",
+      resolvedAt: serverTimestamp(),
+    })
+  );
+  if (dismiss) {
+    batch.update(doc(db, "events", eventId, "comments", commentId), {
+      reportCount: 0,
+    });
+  }
+  await batch.commit();
+}
@@ -0,0 +1,66 @@
+/**
+ * notifications.ts
+ * ----------------
+ * Writes notices into the `notifications` collection, one document per
+ * recipient, so each user can read and dismiss their own copy. Organisers'
+ * clients send the notices about their own events (cancellations, new times,
+ * removals, answers to questions); waitlist promotions and new comments are
+ * written by the backend (functions/src/index.ts), since whoever triggers them
+ * does not own the event.
+ */
+import {
+  collection,
+  doc,
+  serverTimestamp,
+  Timestamp,
+  writeBatch,
+} from "firebase/firestore";
+
+import { db } from "../firebaseConfig";
+import { AppNotification } from "../types";
+
+/** Firestore rejects batches with more than 500 writes. */
+const BATCH_LIMIT = 500;
+
+export type NotificationPayload = Pick<
+  AppNotification,
+  "type" | "eventId" | "eventTitle" | "message" | "dateTime" | "senderId"
+>;
+
+/** Sends the same notice to every user in `userIds` (duplicates are ignored). */
+export async function notifyUsers(
+  userIds: string[],
+  payload: NotificationPayload
+): Promise<void> {
+  const recipients = Array.from(new Set(userIds));
+  const { dateTime, ...fields } = payload;
+  for (let start = 0; start < recipients.length; start += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    recipients.slice(start, start + BATCH_LIMIT).forEach((userId) => {
+      batch.set(doc(collection(db, "notifications")), {
+        ...fields,
+        message: payload.message ?? "",
+        ...(dateTime ? { dateTime: Timestamp.fromDate(dateTime) } : {}),
+        userId,
+        read: false,
+        createdAt: serverTimestamp(),
+      });
+    });
+    await batch.commit();
+  }
+}
+
+/** Marks the given notices as read. */
+export async function markNotificationsRead(
+  notificationIds: string[]
+): Promise<void> {
+  for (let start = 0; start < notificationIds.length; start += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    notificationIds
+      .slice(start, start + BATCH_LIMIT)
+      .forEach((notificationId) =>
+        batch.update(doc(db, "notifications", notificationId), { read: true })
+      );
+    await batch.commit();
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * offlineCache.ts
+ * ---------------
+ * Last known data of the screens volunteers open on site, kept in AsyncStorage
+ * on native. The Firebase JS SDK can only persist its cache in IndexedDB,
+ * which React Native lacks, so without this the event list and details would
+ * be empty when the app starts without coverage. Web relies on Firestore's
+ * own persistent cache instead. Entries are dropped on sign-out.
+ */
+import { Platform } from "react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const KEY_PREFIX = "offlineCache:";
+
+export const offlineCacheEnabled = Platform.OS !== "web";
+
+// JSON has no dates; they are stored as `{ $date: ms }` and revived on read.
+function encodeDates(this: any, key: string, value: unknown) {
+  const original = this[key];
+  return original instanceof Date ? { $date: original.getTime() } : value;
+}
+
+const decodeDates = (_key: string, value: any) =>
+  value && typeof value === "object" && typeof value.$date === "number"
+    ? new Date(value.$date)
+    : value;
+
+/** The data last stored under `key`, or null when there is none. */
+export async function readCached<T>(key: string): Promise<T | null> {
+  if (!offlineCacheEnabled) return null;
+  try {
+    const stored = await AsyncStorage.getItem(KEY_PREFIX + key);
+    return stored ? (JSON.parse(stored, decodeDates) as T) : null;
+  } catch (error) {
+    console.warn("Failed to read offline cache", error);
+    return null;
+  }
+}
+
+/** Stores the data under `key`, replacing what was there. */
+export function writeCached(key: string, data: unknown): void {
+  if (!offlineCacheEnabled) return;
+  AsyncStorage.setItem(
+    KEY_PREFIX + key,
+    JSON.stringify(data, encodeDates)
+  ).catch((error) => console.warn("Failed to write offline cache", error));
+}
+
+/** Forgets everything cached, e.g. when the user signs out. */
+export async function clearOfflineCache(): Promise<void> {
+  if (!offlineCacheEnabled) return;
+  const keys = await AsyncStorage.getAllKeys();
+  await AsyncStorage.multiRemove(
+    keys.filter((key) => key.startsWith(KEY_PREFIX))
+  );
+}
@@ -0,0 +1,280 @@
+/**
+ * outbox.ts
+ * ---------
+ * Offline queue for the actions volunteers and organisers take on site:
+ * sign-ups (including shift and task choices), withdrawals, ticked-off tasks,
+ * comments and attendance marks. Participation changes run in Firestore
+ * transactions, which need the server, so while offline they are stored in
+ * AsyncStorage and replayed in order once connectivity returns. A replay the
+ * server rejects (e.g. the event filled up in the meantime) is kept as a
+ * conflict so the user can see what did not go through.
+ */
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { FirebaseError } from "firebase/app";
+import { addDoc, collection, serverTimestamp } from "firebase/firestore";
+
+import { db } from "../firebaseConfig";
+import {
+  AttendanceOutcome,
+  ParticipationError,
+  ParticipationErrorCode,
+  joinWaitlist,
+  recordAttendance,
+  signUpForEvent,
+  signUpForShifts,
+  withdrawFromEvent,
+} from "./participations";
+import { mentionedIds } from "./mentions";
+import { claimTasks, setTaskDone } from "./tasks";
+
+export type OutboxAction =
+  | { type: "sign_up"; eventId: string; userId: string }
+  | { type: "join_waitlist"; eventId: string; userId: string }
+  | { type: "shifts"; eventId: string; userId: string; shiftIds: string[] }
+  | { type: "tasks"; eventId: string; userId: string; taskIds: string[] }
+  | {
+      type: "task_done";
+      eventId: string;
+      taskId: string;
+      userId: string;
+      done: boolean;
+    }
+  | { type: "withdraw"; eventId: string; participationId: string }
+  | {
+      type: "attendance";
+      eventId: string;
+      participationIds: string[];
+      outcome: AttendanceOutcome | null;
+      markedBy: string;
+    }
+  | {
+      type: "comment";
+      eventId: string;
+      text: string;
+      userId: string;
+      userName: string;
+      parentId?: string;
+    };
+
+export interface OutboxEntry {
+  id: string;
+  action: OutboxAction;
+  queuedAt: number;
+}
+
+export interface OutboxConflict {
+  id: string;
+  action: OutboxAction;
+  /** Participation error code when the service rejected the replay. */
+  code?: ParticipationErrorCode;
+  message: string;
+  failedAt: number;
+}
+
+export interface OutboxState {
+  entries: OutboxEntry[];
+  conflicts: OutboxConflict[];
+}
+
+const ENTRIES_KEY = "volunteerhub_outbox";
+const CONFLICTS_KEY = "volunteerhub_outbox_conflicts";
+
+// Replays that end in these codes already reached the state the user wanted.
+const SETTLED_CODES: ParticipationErrorCode[] = [
+  "already_signed_up",
+  "already_waitlisted",
+];
+
+let state: OutboxState = { entries: [], conflicts: [] };
+let hydrated: Promise<void> | null = null;
+let online = true;
+let flushing = false;
+const listeners = new Set<(next: OutboxState) => void>();
+
+const setState = (next: OutboxState) => {
+  state = next;
+  listeners.forEach((listener) => listener(state));
+  Promise.all([
+    AsyncStorage.setItem(ENTRIES_KEY, JSON.stringify(state.entries)),
+    AsyncStorage.setItem(CONFLICTS_KEY, JSON.stringify(state.conflicts)),
+  ]).catch((error) => console.warn("Failed to persist outbox", error));
+};
+
+/** Loads queued actions saved by a previous session. Safe to call repeatedly. */
+export function hydrateOutbox(): Promise<void> {
+  if (!hydrated) {
+    hydrated = Promise.all([
+      AsyncStorage.getItem(ENTRIES_KEY),
+      AsyncStorage.getItem(CONFLICTS_KEY),
+    ])
+      .then(([entries, conflicts]) => {
+        state = {
+          entries: entries ? JSON.parse(entries) : [],
+          conflicts: conflicts ? JSON.parse(conflicts) : [],
+        };
+        listeners.forEach((listener) => listener(state));
+      })
+      .catch((error) => console.warn("Failed to load outbox", error));
+  }
+  return hydrated;
+}
+
+export function subscribeToOutbox(listener: (next: OutboxState) => void) {
+  listeners.add(listener);
+  listener(state);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Updated by the connectivity listener; offline actions skip straight to the queue. */
+export function setOutboxOnline(isOnline: boolean) {
+  online = isOnline;
+}
+
+// Firestore reports a missing connection as "unavailable" (or a timeout).
+const isNetworkError = (error: unknown) =>
+  error instanceof FirebaseError &&
+  (error.code === "unavailable" || error.code === "deadline-exceeded");
+
+async function execute(action: OutboxAction): Promise<void> {
+  switch (action.type) {
+    case "sign_up":
+      await signUpForEvent(action.eventId, action.userId);
+      return;
+    case "join_waitlist":
+      await joinWaitlist(action.eventId, action.userId);
+      return;
+    case "shifts":
+      await signUpForShifts(action.eventId, action.userId, action.shiftIds);
+      return;
+    case "tasks":
+      await claimTasks(action.eventId, action.userId, action.taskIds);
+      return;
+    case "task_done":
+      await setTaskDone(
+        action.eventId,
+        action.taskId,
+        action.userId,
+        action.done
+      );
+      return;
+    case "withdraw":
+      await withdrawFromEvent(action.participationId);
+      return;
+    case "attendance":
+      await recordAttendance(
+        action.participationIds,
+        action.outcome,
+        action.markedBy
+      );
+      return;
+    case "comment": {
+      const mentions = mentionedIds(action.text);
+      await addDoc(collection(db, "events", action.eventId, "comments"), {
+        text: action.text,
+        userId: action.userId,
+        userName: action.userName,
+        ...(action.parentId ? { parentId: action.parentId } : {}),
+        ...(mentions.length > 0 ? { mentions } : {}),
+        timestamp: serverTimestamp(),
+      });
+      return;
+    }
+  }
+}
+
+const enqueue = async (action: OutboxAction) => {
+  await hydrateOutbox();
+  const entry: OutboxEntry = {
+    id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    action,
+    queuedAt: Date.now(),
+  };
+  setState({ ...state, entries: [...state.entries, entry] });
+};
+
+/**
+ * Runs the action now when online, otherwise (or if the connection drops
+ * mid-request) queues it. Errors other than connectivity are rethrown so the
+ * screen can report them as before.
+ */
+export async function runOrQueue(
+  action: OutboxAction
+): Promise<"done" | "queued"> {
+  if (!online) {
+    await enqueue(action);
+    return "queued";
+  }
+  try {
+    await execute(action);
+    return "done";
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    await enqueue(action);
+    return "queued";
+  }
+}
+
+/**
+ * Replays queued actions in the order they were taken. Stops at the first
+ * connectivity failure and leaves the rest queued for the next attempt.
+ */
+export async function flushOutbox(): Promise<void> {
+  await hydrateOutbox();
+  if (flushing || !online) return;
+  flushing = true;
+  try {
+    while (state.entries.length > 0) {
+      const [entry, ...rest] = state.entries;
+      try {
+        await execute(entry.action);
+        setState({ ...state, entries: rest });
+      } catch (error: any) {
+        if (isNetworkError(error)) return;
+        if (
+          error instanceof ParticipationError &&
+          SETTLED_CODES.includes(error.code)
+        ) {
+          setState({ ...state, entries: rest });
+          continue;
+        }
+        const conflict: OutboxConflict = {
+          id: entry.id,
+          action: entry.action,
+          code: error instanceof ParticipationError ? error.code : undefined,
+          message: error?.message ?? String(error),
+          failedAt: Date.now(),
+        };
+        setState({
+          entries: rest,
+          conflicts: [...state.conflicts, conflict],
+        });
+      }
+    }
+  } finally {
+    flushing = false;
+  }
+}
+
+export function dismissConflict(conflictId: string) {
+  setState({
+    ...state,
+    conflicts: state.conflicts.filter((conflict) => conflict.id !== conflictId),
+  });
+}
+
+/**
+ * Drops every queued action and conflict, e.g. when the user signs out, so
+ * the next user on the device does not replay them.
+ */
+export async function clearOutbox(): Promise<void> {
+  await hydrateOutbox();
+  state = { entries: [], conflicts: [] };
+  listeners.forEach((listener) => listener(state));
+  await AsyncStorage.multiRemove([ENTRIES_KEY, CONFLICTS_KEY]);
+}
+
+/** Queued actions for one event, oldest first. */
+export const pendingForEvent = (entries: OutboxEntry[], eventId: string) =>
+  entries.filter((entry) => entry.action.eventId === eventId);
@@ -0,0 +1,732 @@
+/**
+ * participations.ts
+ * -----------------
+ * Shared participation workflow used by the event and organiser screens. Every
+ * status change runs inside a Firestore transaction so the participation
+ * document and the event's `currentVolunteers` counter are always written
+ * together, and `maxVolunteers` is checked against the latest server state.
+ * The waitlist lives on the event document (`waitlist`, participation ids in
+ * queue order) so promotions can happen inside the same transaction.
+ * Events with shifts keep each shift's count in the event's `shiftCounts` map;
+ * a volunteer holds one event spot however many of its shifts they take.
+ * Claimed tasks are counted the same way in `taskCounts` (see tasks.ts).
+ * Releasing a spot also clears the volunteer's bring-list commitments and
+ * takes them off the event's `bringCounts` (see bringList.ts).
+ */
+import {
+  deleteField,
+  doc,
+  DocumentReference,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  Transaction,
+  updateDoc,
+} from "firebase/firestore";
+
+import { db } from "../firebaseConfig";
+import { EventShift, Participation } from "../types";
+
+type ParticipationStatus = Participation["status"];
+
+export type ParticipationErrorCode =
+  | "event_missing"
+  | "participation_missing"
+  | "event_full"
+  | "already_signed_up"
+  | "already_waitlisted"
+  | "capacity_below_signed_up"
+  | "not_signed_up"
+  | "already_checked_in"
+  | "invalid_check_in_code"
+  | "expired_check_in_code"
+  | "invalid_hours"
+  | "event_cancelled"
+  | "shift_required"
+  | "shift_missing"
+  | "shift_full"
+  | "shift_in_use"
+  | "shifts_locked"
+  | "task_missing"
+  | "task_full"
+  | "task_unregistered"
+  | "bring_unregistered"
+  | "bring_item_missing"
+  | "bring_item_covered"
+  | "bring_list_committed";
+
+/**
+ * Raised when a participation change is rejected. Screens translate the code via
+ * `participation.error.<code>` so volunteers see why the action failed.
+ */
+export class ParticipationError extends Error {
+  code: ParticipationErrorCode;
+
+  constructor(code: ParticipationErrorCode, message?: string) {
+    super(message ?? code);
+    this.name = "ParticipationError";
+    this.code = code;
+  }
+}
+
+/**
+ * Statuses that occupy one of the event's `maxVolunteers` spots. Attendance
+ * outcomes keep the spot so marking a no-show never reshuffles the waitlist.
+ */
+export const holdsSpot = (status: ParticipationStatus | undefined) =>
+  status === "signed_up" || status === "attended" || status === "no_show";
+
+export type AttendanceOutcome = "attended" | "no_show";
+
+/** Deterministic id so a volunteer can only ever have one record per event. */
+export const participationDocId = (eventId: string, userId: string) =>
+  `${eventId}_${userId}`;
+
+// Cancelled events keep their registrations as history but take no new ones.
+const isCancelled = (data: any) => data?.status === "cancelled";
+
+/** Shifts per event; the security rules check shift counts one by one. */
+export const MAX_SHIFTS = 10;
+
+/** A shift as organisers define it; counts are tracked separately. */
+export type ShiftDefinition = Omit<EventShift, "currentVolunteers">;
+
+const readShifts = (data: any): { id: string; maxVolunteers: number }[] =>
+  Array.isArray(data?.shifts) ? data.shifts : [];
+
+const readShiftCounts = (data: any): Record<string, number> => ({
+  ...(data?.shiftCounts ?? {}),
+});
+
+const readShiftIds = (data: any): string[] =>
+  Array.isArray(data?.shiftIds) ? data.shiftIds : [];
+
+/**
+ * Tasks a registration counts towards in the event's `taskCounts`. Waitlisted
+ * volunteers keep the places they claimed, so a promotion moves no counts.
+ */
+export const claimedTaskIds = (data: any): string[] =>
+  (holdsSpot(data?.status) || data?.status === "waitlisted") &&
+  Array.isArray(data?.taskIds)
+    ? data.taskIds
+    : [];
+
+/** `taskCounts` updates for a registration's claims changing as given. */
+export function taskCountUpdates(
+  eventData: any,
+  previous: string[],
+  next: string[]
+): Record<string, number> {
+  const counts: Record<string, number> = eventData?.taskCounts ?? {};
+  const updates: Record<string, number> = {};
+  new Set([...previous, ...next]).forEach((taskId) => {
+    const delta =
+      (next.includes(taskId) ? 1 : 0) - (previous.includes(taskId) ? 1 : 0);
+    if (delta === 0) return;
+    const count = (counts[taskId] ?? 0) + delta;
+    updates[`taskCounts.${taskId}`] = Math.max(count, 0);
+  });
+  return updates;
+}
+
+/** What a registration has committed to bring; only a held spot counts. */
+export const committedBringing = (data: any): Record<string, number> =>
+  holdsSpot(data?.status) ? { ...(data?.bringing ?? {}) } : {};
+
+/** `bringCounts` updates for a registration's commitments changing as given. */
+export function bringCountUpdates(
+  eventData: any,
+  previous: Record<string, number>,
+  next: Record<string, number>
+): Record<string, number> {
+  const counts: Record<string, number> = eventData?.bringCounts ?? {};
+  const updates: Record<string, number> = {};
+  new Set([...Object.keys(previous), ...Object.keys(next)]).forEach((id) => {
+    const delta = (next[id] ?? 0) - (previous[id] ?? 0);
+    if (delta === 0) return;
+    updates[`bringCounts.${id}`] = Math.max((counts[id] ?? 0) + delta, 0);
+  });
+  return updates;
+}
+
+/** Event fields for a set of shifts; capacity is the total across them. */
+export const shiftFields = (shifts: ShiftDefinition[]) => ({
+  shifts: shifts.map((shift) => ({
+    id: shift.id,
+    label: shift.label ?? "",
+    start: Timestamp.fromDate(shift.start),
+    end: Timestamp.fromDate(shift.end),
+    maxVolunteers: shift.maxVolunteers,
+  })),
+  maxVolunteers: shifts.reduce((sum, shift) => sum + shift.maxVolunteers, 0),
+});
+
+const readCapacity = (data: any) => ({
+  current: Number(data?.currentVolunteers ?? 0),
+  max: Number(data?.maxVolunteers ?? 0),
+});
+
+/**
+ * Signs the user up for the event, creating or reviving their participation and
+ * taking a spot. Throws `event_full` if the last spot was taken in the meantime.
+ */
+export async function signUpForEvent(
+  eventId: string,
+  userId: string
+): Promise<string> {
+  const eventRef = doc(db, "events", eventId);
+  const participationRef = doc(
+    db,
+    "participations",
+    participationDocId(eventId, userId)
+  );
+
+  await runTransaction(db, async (transaction) => {
+    const eventSnap = await transaction.get(eventRef);
+    if (!eventSnap.exists()) {
+      throw new ParticipationError("event_missing");
+    }
+    if (isCancelled(eventSnap.data())) {
+      throw new ParticipationError("event_cancelled");
+    }
+    if (readShifts(eventSnap.data()).length > 0) {
+      throw new ParticipationError("shift_required");
+    }
+    const participationSnap = await transaction.get(participationRef);
+    const previousStatus = participationSnap.exists()
+      ? (participationSnap.data().status as ParticipationStatus)
+      : undefined;
+    if (holdsSpot(previousStatus)) {
+      throw new ParticipationError("already_signed_up");
+    }
+    if (previousStatus === "waitlisted") {
+      throw new ParticipationError("already_waitlisted");
+    }
+
+    // Free spots belong to the waitlist first, so newcomers cannot jump the queue.
+    const eventData = eventSnap.data();
+    const { current, max } = readCapacity(eventData);
+    if (current >= max || readWaitlist(eventData).length > 0) {
+      throw new ParticipationError("event_full");
+    }
+
+    transaction.set(participationRef, {
+      userId,
+      eventId,
+      status: "signed_up",
+      createdAt: new Date(),
+      updatedAt: serverTimestamp(),
+    });
+    transaction.update(eventRef, { currentVolunteers: current + 1 });
+  });
+
+  return participationRef.id;
+}
+
+/**
+ * Queues the user behind the current waitlist. If a spot is free and nobody is
+ * waiting, the user takes it straight away instead. Returns the resulting status.
+ */
+export async function joinWaitlist(
+  eventId: string,
+  userId: string
+): Promise<{ participationId: string; status: ParticipationStatus }> {
+  const eventRef = doc(db, "events", eventId);
+  const participationRef = doc(
+    db,
+    "participations",
+    participationDocId(eventId, userId)
+  );
+
+  const status = await runTransaction(db, async (transaction) => {
+    const eventSnap = await transaction.get(eventRef);
+    if (!eventSnap.exists()) {
+      throw new ParticipationError("event_missing");
+    }
+    if (isCancelled(eventSnap.data())) {
+      throw new ParticipationError("event_cancelled");
+    }
+    if (readShifts(eventSnap.data()).length > 0) {
+      throw new ParticipationError("shift_required");
+    }
+    const participationSnap = await transaction.get(participationRef);
+    const previousStatus = participationSnap.exists()
+      ? (participationSnap.data().status as ParticipationStatus)
+      : undefined;
+    if (holdsSpot(previousStatus)) {
+      throw new ParticipationError("already_signed_up");
+    }
+    if (previousStatus === "waitlisted") {
+      throw new ParticipationError("already_waitlisted");
+    }
+
+    const eventData = eventSnap.data();
+    const { current, max } = readCapacity(eventData);
+    const waitlist = readWaitlist(eventData);
+    const nextStatus: ParticipationStatus =
+      current < max && waitlist.length === 0 ? "signed_up" : "waitlisted";
+
+    transaction.set(participationRef, {
+      userId,
+      eventId,
+      status: nextStatus,
+      createdAt: new Date(),
+      updatedAt: serverTimestamp(),
+    });
+    transaction.update(
+      eventRef,
+      nextStatus === "signed_up"
+        ? { currentVolunteers: current + 1 }
+        : { waitlist: [...waitlist, participationRef.id] }
+    );
+    return nextStatus;
+  });
+
+  return { participationId: participationRef.id, status };
+}
+
+/**
+ * Signs the user up for the chosen shifts of an event that has shifts, or
+ * changes the shifts of an existing sign-up. Each newly taken shift is checked
+ * against its own capacity and throws `shift_full` if it filled up meanwhile.
+ */
+export async function signUpForShifts(
+  eventId: string,
+  userId: string,
+  shiftIds: string[]
+): Promise<string> {
+  if (shiftIds.length === 0) {
+    throw new ParticipationError("shift_required");
+  }
+  const eventRef = doc(db, "events", eventId);
+  const participationRef = doc(
+    db,
+    "participations",
+    participationDocId(eventId, userId)
+  );
+
+  await runTransaction(db, async (transaction) => {
+    const eventSnap = await transaction.get(eventRef);
+    if (!eventSnap.exists()) {
+      throw new ParticipationError("event_missing");
+    }
+    const eventData = eventSnap.data();
+    if (isCancelled(eventData)) {
+      throw new ParticipationError("event_cancelled");
+    }
+    const participationSnap = await transaction.get(participationRef);
+    const previousStatus = participationSnap.exists()
+      ? (participationSnap.data().status as ParticipationStatus)
+      : undefined;
+    if (previousStatus === "waitlisted") {
+      throw new ParticipationError("already_waitlisted");
+    }
+    // Shifts can only be changed before attendance has been recorded.
+    if (holdsSpot(previousStatus) && previousStatus !== "signed_up") {
+      throw new ParticipationError("already_signed_up");
+    }
+
+    const shifts = readShifts(eventData);
+    if (shiftIds.some((id) => !shifts.some((shift) => shift.id === id))) {
+      throw new ParticipationError("shift_missing");
+    }
+    const joining = previousStatus !== "signed_up";
+    const { current, max } = readCapacity(eventData);
+    if (joining && current >= max) {
+      throw new ParticipationError("event_full");
+    }
+
+    const previousShiftIds = joining
+      ? []
+      : readShiftIds(participationSnap.data());
+    const counts = readShiftCounts(eventData);
+    const countUpdates: Record<string, number> = {};
+    shifts.forEach((shift) => {
+      const delta =
+        (shiftIds.includes(shift.id) ? 1 : 0) -
+        (previousShiftIds.includes(shift.id) ? 1 : 0);
+      if (delta === 0) return;
+      const next = (counts[shift.id] ?? 0) + delta;
+      if (delta > 0 && next > shift.maxVolunteers) {
+        throw new ParticipationError("shift_full");
+      }
+      countUpdates[`shiftCounts.${shift.id}`] = Math.max(next, 0);
+    });
+
+    if (joining) {
+      transaction.set(participationRef, {
+        userId,
+        eventId,
+        status: "signed_up",
+        shiftIds,
+        createdAt: new Date(),
+        updatedAt: serverTimestamp(),
+      });
+    } else {
+      transaction.update(participationRef, {
+        shiftIds,
+        updatedAt: serverTimestamp(),
+      });
+    }
+    transaction.update(eventRef, {
+      currentVolunteers: current + (joining ? 1 : 0),
+      ...countUpdates,
+    });
+  });
+
+  return participationRef.id;
+}
+
+/**
+ * Replaces the event's shifts and sets `maxVolunteers` to their total. Shifts
+ * that still have volunteers cannot be removed or shrunk below their count,
+ * and an event with sign-ups cannot switch between having shifts and not.
+ */
+export async function updateEventShifts(
+  eventId: string,
+  shifts: ShiftDefinition[]
+): Promise<void> {
+  const eventRef = doc(db, "events", eventId);
+
+  await runTransaction(db, async (transaction) => {
+    const eventSnap = await transaction.get(eventRef);
+    if (!eventSnap.exists()) {
+      throw new ParticipationError("event_missing");
+    }
+    const eventData = eventSnap.data();
+    const previous = readShifts(eventData);
+    const { current } = readCapacity(eventData);
+    const hasRegistrations =
+      current > 0 || readWaitlist(eventData).length > 0;
+    if (
+      (previous.length === 0) !== (shifts.length === 0) &&
+      hasRegistrations
+    ) {
+      throw new ParticipationError("shifts_locked");
+    }
+
+    const counts = readShiftCounts(eventData);
+    const kept = new Set(shifts.map((shift) => shift.id));
+    if (previous.some((shift) => !kept.has(shift.id) && counts[shift.id] > 0)) {
+      throw new ParticipationError("shift_in_use");
+    }
+    if (shifts.some((shift) => (counts[shift.id] ?? 0) > shift.maxVolunteers)) {
+      throw new ParticipationError("capacity_below_signed_up");
+    }
+
+    const shiftCounts: Record<string, number> = {};
+    shifts.forEach((shift) => {
+      shiftCounts[shift.id] = counts[shift.id] ?? 0;
+    });
+    transaction.update(
+      eventRef,
+      shifts.length > 0
+        ? { ...shiftFields(shifts), shiftCounts }
+        : { shifts: [], shiftCounts: {} }
+    );
+  });
+}
+
+/**
+ * Moves an existing participation to `nextStatus` and adjusts the event counter
+ * by the difference in held spots. Taking a spot is rejected when the event is
+ * full; releasing one promotes the head of the waitlist in the same transaction.
+ */
+export async function setParticipationStatus(
+  participationId: string,
+  nextStatus: ParticipationStatus
+): Promise<void> {
+  const participationRef = doc(db, "participations", participationId);
+
+  await runTransaction(db, async (transaction) => {
+    const participationSnap = await transaction.get(participationRef);
+    if (!participationSnap.exists()) {
+      throw new ParticipationError("participation_missing");
+    }
+    const participation = participationSnap.data();
+    const previousStatus = participation.status as ParticipationStatus;
+    if (previousStatus === nextStatus) {
+      return;
+    }
+
+    const eventRef = doc(db, "events", participation.eventId);
+    const eventSnap = await transaction.get(eventRef);
+    if (!eventSnap.exists()) {
+      throw new ParticipationError("event_missing");
+    }
+
+    const eventData = eventSnap.data();
+    const cancelled = isCancelled(eventData);
+    const delta =
+      (holdsSpot(nextStatus) ? 1 : 0) - (holdsSpot(previousStatus) ? 1 : 0);
+    if (
+      cancelled &&
+      (nextStatus === "signed_up" || nextStatus === "waitlisted")
+    ) {
+      throw new ParticipationError("event_cancelled");
+    }
+    const { current, max } = readCapacity(eventData);
+    if (delta > 0 && current >= max) {
+      throw new ParticipationError("event_full");
+    }
+
+    // Taking or releasing the event spot does the same for each chosen shift.
+    const counts = readShiftCounts(eventData);
+    const shiftCountUpdates: Record<string, number> = {};
+    if (delta !== 0) {
+      const shifts = readShifts(eventData);
+      readShiftIds(participation).forEach((shiftId) => {
+        const shift = shifts.find((item) => item.id === shiftId);
+        if (!shift) return;
+        const next = (counts[shiftId] ?? 0) + delta;
+        if (delta > 0 && next > shift.maxVolunteers) {
+          throw new ParticipationError("shift_full");
+        }
+        shiftCountUpdates[`shiftCounts.${shiftId}`] = Math.max(next, 0);
+      });
+    }
+
+    // Withdrawing gives up claimed tasks; an organiser restoring a record
+    // takes them back. Commitments to bring things go with the spot.
+    const taskUpdates = taskCountUpdates(
+      eventData,
+      claimedTaskIds(participation),
+      claimedTaskIds({ ...participation, status: nextStatus })
+    );
+    const bringUpdates = bringCountUpdates(
+      eventData,
+      committedBringing(participation),
+      committedBringing({ ...participation, status: nextStatus })
+    );
+
+    const waitlist = readWaitlist(eventData).filter(
+      (id) => id !== participationId
+    );
+    if (nextStatus === "waitlisted") {
+      waitlist.push(participationId);
+    }
+    const nextCurrent = Math.max(current + delta, 0);
+    const { promoted, remaining } = await takeFromWaitlist(
+      transaction,
+      waitlist,
+      cancelled ? 0 : max - nextCurrent
+    );
+
+    transaction.update(participationRef, {
+      status: nextStatus,
+      // Giving up the spot releases whatever the volunteer promised to bring.
+      ...(delta < 0 ? { bringing: deleteField() } : {}),
+      updatedAt: serverTimestamp(),
+    });
+    applyPromotions(
+      transaction,
+      eventRef,
+      nextCurrent,
+      promoted,
+      remaining,
+      { ...shiftCountUpdates, ...taskUpdates, ...bringUpdates }
+    );
+  });
+}
+
+/** Withdraws the volunteer, releasing their spot or their place in the queue. */
+export const withdrawFromEvent = (participationId: string) =>
+  setParticipationStatus(participationId, "withdrawn");
+
+/**
+ * Updates the event's `maxVolunteers`. Raising the limit promotes waitlisted
+ * volunteers into the new spots; lowering it below the signed-up count is rejected.
+ */
+export async function updateEventCapacity(
+  eventId: string,
+  maxVolunteers: number
+): Promise<void> {
+  const eventRef = doc(db, "events", eventId);
+
+  await runTransaction(db, async (transaction) => {
+    const eventSnap = await transaction.get(eventRef);
+    if (!eventSnap.exists()) {
+      throw new ParticipationError("event_missing");
+    }
+    const eventData = eventSnap.data();
+    const { current } = readCapacity(eventData);
+    if (maxVolunteers < current) {
+      throw new ParticipationError("capacity_below_signed_up");
+    }
+
+    const { promoted, remaining } = await takeFromWaitlist(
+      transaction,
+      readWaitlist(eventData),
+      isCancelled(eventData) ? 0 : maxVolunteers - current
+    );
+
+    transaction.update(eventRef, { maxVolunteers });
+    applyPromotions(transaction, eventRef, current, promoted, remaining);
+  });
+}
+
+/**
+ * Marks the given participations as attended or no-show, recording who marked
+ * them and when. Passing `null` undoes the mark and returns them to
+ * `signed_up`. Records that no longer hold a spot are skipped; the number of
+ * updated participations is returned.
+ */
+export async function recordAttendance(
+  participationIds: string[],
+  outcome: AttendanceOutcome | null,
+  markedBy: string
+): Promise<number> {
+  const refs = participationIds.map((id) => doc(db, "participations", id));
+
+  return runTransaction(db, async (transaction) => {
+    const snapshots = await Promise.all(
+      refs.map((participationRef) => transaction.get(participationRef))
+    );
+
+    let updated = 0;
+    snapshots.forEach((snapshot) => {
+      if (!snapshot.exists() || !holdsSpot(snapshot.data().status)) {
+        return;
+      }
+      // Only an attended mark starts the clock; keep the original check-in time on re-marks.
+      const keepCheckIn =
+        outcome === "attended" && snapshot.data().checkInAt !== undefined;
+      transaction.update(snapshot.ref, {
+        status: outcome ?? "signed_up",
+        attendanceMarkedBy: outcome ? markedBy : deleteField(),
+        attendanceMarkedAt: outcome ? serverTimestamp() : deleteField(),
+        ...(keepCheckIn
+          ? {}
+          : {
+              checkInAt:
+                outcome === "attended" ? serverTimestamp() : deleteField(),
+              checkOutAt: deleteField(),
+            }),
+        updatedAt: serverTimestamp(),
+      });
+      updated += 1;
+    });
+    return updated;
+  });
+}
+
+/**
+ * Records the check-out time for attended participations. Defaults to now;
+ * participations that are not attended are skipped.
+ */
+export async function recordCheckOut(
+  participationIds: string[],
+  checkOutAt: Date = new Date()
+): Promise<number> {
+  const refs = participationIds.map((id) => doc(db, "participations", id));
+
+  return runTransaction(db, async (transaction) => {
+    const snapshots = await Promise.all(
+      refs.map((participationRef) => transaction.get(participationRef))
+    );
+
+    let updated = 0;
+    snapshots.forEach((snapshot) => {
+      if (!snapshot.exists() || snapshot.data().status !== "attended") {
+        return;
+      }
+      transaction.update(snapshot.ref, {
+        checkOutAt: Timestamp.fromDate(checkOutAt),
+        updatedAt: serverTimestamp(),
+      });
+      updated += 1;
+    });
+    return updated;
+  });
+}
+
+/** Sets or clears (`null`) the organiser's manual hours for a participation. */
+export async function setHoursOverride(
+  participationId: string,
+  hours: number | null
+): Promise<void> {
+  if (hours !== null && (!Number.isFinite(hours) || hours < 0 || hours > 24)) {
+    throw new ParticipationError("invalid_hours");
+  }
+  await updateDoc(doc(db, "participations", participationId), {
+    hoursOverride: hours === null ? deleteField() : hours,
+    updatedAt: serverTimestamp(),
+  });
+}
+
+/**
+ * Hours credited for a participation. Only attended volunteers earn hours:
+ * the organiser override when present, otherwise the check-in to check-out
+ * span rounded to the nearest quarter hour.
+ */
+export function participationHours(
+  participation: Pick<
+    Participation,
+    "status" | "checkInAt" | "checkOutAt" | "hoursOverride"
+  >
+): number {
+  if (participation.status !== "attended") return 0;
+  if (typeof participation.hoursOverride === "number") {
+    return participation.hoursOverride;
+  }
+  if (!participation.checkInAt || !participation.checkOutAt) return 0;
+  const spanMs =
+    participation.checkOutAt.getTime() - participation.checkInAt.getTime();
+  if (spanMs <= 0) return 0;
+  return Math.round((spanMs / 3_600_000) * 4) / 4;
+}
+
+/** 1-based queue position of a participation, or 0 when it is not waiting. */
+export const waitlistPosition = (
+  waitlist: string[] | undefined,
+  participationId: string
+) => (waitlist ?? []).indexOf(participationId) + 1;
+
+const readWaitlist = (data: any): string[] =>
+  Array.isArray(data?.waitlist) ? [...data.waitlist] : [];
+
+/**
+ * Reads waitlist entries from the head of the queue until `freeSpots` valid
+ * candidates are found. Entries whose record vanished or is no longer
+ * waitlisted are dropped. All reads happen here, before the caller writes.
+ */
+async function takeFromWaitlist(
+  transaction: Transaction,
+  waitlist: string[],
+  freeSpots: number
+) {
+  const promoted: DocumentReference[] = [];
+  const remaining = [...waitlist];
+  while (promoted.length < freeSpots && remaining.length > 0) {
+    const candidateRef = doc(db, "participations", remaining.shift()!);
+    const candidateSnap = await transaction.get(candidateRef);
+    if (
+      candidateSnap.exists() &&
+      candidateSnap.data().status === "waitlisted"
+    ) {
+      promoted.push(candidateRef);
+    }
+  }
+  return { promoted, remaining };
+}
+
+function applyPromotions(
+  transaction: Transaction,
+  eventRef: DocumentReference,
+  current: number,
+  promoted: DocumentReference[],
+  remaining: string[],
+  extraUpdates: Record<string, number> = {}
+) {
+  promoted.forEach((candidateRef) =>
+    transaction.update(candidateRef, {
+      status: "signed_up",
+      updatedAt: serverTimestamp(),
+    })
+  );
+  transaction.update(eventRef, {
+    currentVolunteers: current + promoted.length,
+    waitlist: remaining,
+    ...extraUpdates,
+  });
+}
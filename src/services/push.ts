@@ -0,0 +1,136 @@
+/**
+ * push.ts
+ * -------
+ * Device notification plumbing: permission, the Expo push token stored in
+ * `pushTokens/{userId}` (readable by its owner only) so the backend can
+ * deliver notices, per-channel opt-outs, and turning a tapped notification into a deep link. Both local
+ * reminders and push notices carry an `eventId` in their data and open
+ * EventDetails for it.
+ */
+import { Platform } from "react-native";
+import * as Device from "expo-device";
+import * as Notifications from "expo-notifications";
+import {
+  arrayRemove,
+  arrayUnion,
+  deleteField,
+  doc,
+  setDoc,
+  updateDoc,
+  writeBatch,
+} from "firebase/firestore";
+
+import { db } from "../firebaseConfig";
+import { NotificationChannel } from "../types";
+import { eventUrl } from "./links";
+import { REMINDER_ANDROID_CHANNEL } from "./reminders";
+
+/** Android channel for notices pushed by the backend (see functions/). */
+export const NOTICE_ANDROID_CHANNEL = "notices";
+
+// Token registered by this device for the signed-in user, removed on sign-out.
+let registeredToken: string | null = null;
+
+/** Shows notifications while the app is open and sets up Android channels. */
+export async function configureNotifications(
+  channelNames: { reminders: string; notices: string }
+): Promise<void> {
+  if (Platform.OS === "web") return;
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    }),
+  });
+  if (Platform.OS === "android") {
+    await Notifications.setNotificationChannelAsync(REMINDER_ANDROID_CHANNEL, {
+      name: channelNames.reminders,
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+    await Notifications.setNotificationChannelAsync(NOTICE_ANDROID_CHANNEL, {
+      name: channelNames.notices,
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+}
+
+/** Asks for permission once; later calls return the stored answer. */
+export async function ensureNotificationPermission(): Promise<boolean> {
+  if (Platform.OS === "web") return false;
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  return (await Notifications.requestPermissionsAsync()).granted;
+}
+
+/**
+ * Adds this device's push token to the user's private token list and returns
+ * it, or null where push is unavailable (web, simulators, permission denied).
+ */
+export async function registerPushToken(
+  userId: string
+): Promise<string | null> {
+  if (Platform.OS === "web" || !Device.isDevice) return null;
+  if (!(await ensureNotificationPermission())) return null;
+  const { data: token } = await Notifications.getExpoPushTokenAsync();
+  const batch = writeBatch(db);
+  batch.set(
+    doc(db, "pushTokens", userId),
+    { tokens: arrayUnion(token) },
+    { merge: true }
+  );
+  // Tokens used to sit on the user document, which every user can read.
+  batch.update(doc(db, "users", userId), { pushTokens: deleteField() });
+  await batch.commit();
+  registeredToken = token;
+  return token;
+}
+
+/** Stops pushes to this device; call before signing out. */
+export async function unregisterPushToken(userId: string): Promise<void> {
+  if (!registeredToken) return;
+  await setDoc(
+    doc(db, "pushTokens", userId),
+    { tokens: arrayRemove(registeredToken) },
+    { merge: true }
+  );
+  registeredToken = null;
+}
+
+/** Turns a channel off (or back on) for the user. */
+export async function setNotificationOptOut(
+  userId: string,
+  channel: NotificationChannel,
+  optedOut: boolean
+): Promise<void> {
+  await updateDoc(doc(db, "users", userId), {
+    notificationOptOuts: optedOut ? arrayUnion(channel) : arrayRemove(channel),
+  });
+}
+
+const responseUrl = (response: Notifications.NotificationResponse | null) => {
+  const eventId = response?.notification.request.content.data?.eventId;
+  return typeof eventId === "string" ? eventUrl(eventId) : null;
+};
+
+/** Link for the notification that launched the app, if any. */
+export async function getInitialNotificationUrl(): Promise<string | null> {
+  if (Platform.OS === "web") return null;
+  return responseUrl(await Notifications.getLastNotificationResponseAsync());
+}
+
+/** Calls `listener` with the link of every notification the user taps. */
+export function subscribeToNotificationUrls(
+  listener: (url: string) => void
+): () => void {
+  if (Platform.OS === "web") return () => {};
+  const subscription = Notifications.addNotificationResponseReceivedListener(
+    (response) => {
+      const url = responseUrl(response);
+      if (url) listener(url);
+    }
+  );
+  return () => subscription.remove();
+}
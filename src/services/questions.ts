@@ -0,0 +1,141 @@
+/**
+ * questions.ts
+ * ------------
+ * Organiser Q&A on top of event comments. The event owner marks a comment as
+ * a question and answers it on the comment itself; the asker gets a notice
+ * the first time. Answered questions can be pinned to the event's FAQ, which
+ * keeps a copy of the pair on the event document so calendar exports and
+ * share text can include it without reading the comments. The copy spells
+ * mentions out as `@Name`, since it is shown outside the comments.
+ */
+import {
+  deleteField,
+  doc,
+  serverTimestamp,
+  updateDoc,
+  writeBatch,
+} from "firebase/firestore";
+
+import { db } from "../firebaseConfig";
+import { Event, EventComment, FaqEntry } from "../types";
+import { getUserNames } from "./comments";
+import { mentionedIds, mentionsToText } from "./mentions";
+import { notifyUsers } from "./notifications";
+
+type FaqEvent = Pick<Event, "id" | "title" | "faq">;
+
+export type QuestionErrorCode = "empty" | "not_answered";
+
+/** Raised when a question cannot be answered or pinned. */
+export class QuestionError extends Error {
+  code: QuestionErrorCode;
+
+  constructor(code: QuestionErrorCode) {
+    super(code);
+    this.name = "QuestionError";
+    this.code = code;
+  }
+}
+
+const commentRef = (eventId: string, commentId: string) =>
+  doc(db, "events", eventId, "comments", commentId);
+
+export const isPinned = (event: Pick<Event, "faq">, commentId: string) =>
+  event.faq.some((entry) => entry.commentId === commentId);
+
+/** Marks the comment as a question so it can be answered. */
+export async function markAsQuestion(
+  eventId: string,
+  commentId: string
+): Promise<void> {
+  await updateDoc(commentRef(eventId, commentId), { question: true });
+}
+
+/** Turns a question back into a plain comment, dropping its answer and pin. */
+export async function unmarkQuestion(
+  event: FaqEvent,
+  commentId: string
+): Promise<void> {
+  const batch = writeBatch(db);
+  batch.update(commentRef(event.id, commentId), {
+    question: false,
+    answer: deleteField(),
+  });
+  if (isPinned(event, commentId)) {
+    batch.update(doc(db, "events", event.id), {
+      faq: event.faq.filter((entry) => entry.commentId !== commentId),
+    });
+  }
+  await batch.commit();
+}
+
+/**
+ * Saves the owner's answer, updating the FAQ copy when the question is
+ * pinned. The asker is notified of the first answer, not of later changes.
+ */
+export async function answerQuestion(
+  event: FaqEvent,
+  comment: Pick<EventComment, "id" | "text" | "userId" | "answer">,
+  text: string,
+  ownerId: string
+): Promise<void> {
+  const answer = text.trim();
+  if (!answer) throw new QuestionError("empty");
+
+  const batch = writeBatch(db);
+  batch.update(commentRef(event.id, comment.id), {
+    question: true,
+    answer: { text: answer, answeredBy: ownerId, answeredAt: serverTimestamp() },
+  });
+  if (isPinned(event, comment.id)) {
+    batch.update(doc(db, "events", event.id), {
+      faq: event.faq.map((entry) =>
+        entry.commentId === comment.id ? { ...entry, answer } : entry
+      ),
+    });
+  }
+  await batch.commit();
+
+  if (!comment.answer && comment.userId !== ownerId) {
+    await notifyUsers([comment.userId], {
+      type: "question_answered",
+      eventId: event.id,
+      eventTitle: event.title,
+      message: answer,
+      senderId: ownerId,
+    });
+  }
+}
+
+/**
+ * Adds the answered question to the end of the event's FAQ, with mentions
+ * replaced by the users' current names.
+ */
+export async function pinQuestion(
+  event: FaqEvent,
+  comment: Pick<EventComment, "id" | "text" | "answer">
+): Promise<void> {
+  if (!comment.answer) throw new QuestionError("not_answered");
+  const names = await getUserNames(mentionedIds(comment.text));
+  const entry: FaqEntry = {
+    commentId: comment.id,
+    question: mentionsToText(comment.text, names),
+    answer: comment.answer.text,
+  };
+  await updateDoc(doc(db, "events", event.id), {
+    faq: [
+      ...event.faq.filter((existing) => existing.commentId !== comment.id),
+      entry,
+    ],
+  });
+}
+
+/** Removes the pair from the FAQ; the comment and its answer stay. */
+export async function unpinQuestion(
+  event: FaqEvent,
+  commentId: string
+): Promise<void> {
+  await updateDoc(doc(db, "events", event.id), {
+    faq: event.faq.filter((entry) => entry.commentId !== commentId),
+  });
+}
@@ -0,0 +1,72 @@
+/**
+ * recurrence.ts
+ * -------------
+ * Expands a series' recurrence rule into occurrence dates. Kept free of app
+ * and Firebase imports so it can be unit tested on its own. Dates step by the
+ * calendar in the device's time zone, so a weekly dugnad at 10:00 stays at
+ * 10:00 after the clocks change.
+ */
+import { RecurrenceFrequency } from "../types";
+
+export type RecurrenceRule =
+  | { frequency: Exclude<RecurrenceFrequency, "custom">; until: Date }
+  | { frequency: "custom"; dates: Date[] };
+
+/** Upper bound on occurrences per series (a year of weekly dugnads). */
+export const MAX_OCCURRENCES = 52;
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+// Same day of month, clamped so 31 January repeats on the last day of February.
+const addMonths = (date: Date, months: number) => {
+  const next = new Date(date);
+  next.setDate(1);
+  next.setMonth(next.getMonth() + months);
+  const lastDay = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
+  next.setDate(Math.min(date.getDate(), lastDay));
+  return next;
+};
+
+const atTimeOf = (day: Date, time: Date) =>
+  new Date(
+    day.getFullYear(),
+    day.getMonth(),
+    day.getDate(),
+    time.getHours(),
+    time.getMinutes()
+  );
+
+/**
+ * Expands the rule into occurrence dates, including `start` itself. `until` is
+ * inclusive of its whole day; custom dates take the time of day from `start`.
+ * The result is sorted and capped at `MAX_OCCURRENCES`.
+ */
+export function occurrenceDates(start: Date, rule: RecurrenceRule): Date[] {
+  if (rule.frequency === "custom") {
+    const times = new Set([
+      start.getTime(),
+      ...rule.dates.map((date) => atTimeOf(date, start).getTime()),
+    ]);
+    return Array.from(times)
+      .sort((a, b) => a - b)
+      .slice(0, MAX_OCCURRENCES)
+      .map((time) => new Date(time));
+  }
+
+  const end = new Date(rule.until);
+  end.setHours(23, 59, 59, 999);
+  const dates: Date[] = [];
+  for (let index = 0; dates.length < MAX_OCCURRENCES; index += 1) {
+    const next =
+      rule.frequency === "monthly"
+        ? addMonths(start, index)
+        : addDays(start, index * (rule.frequency === "weekly" ? 7 : 14));
+    if (next > end) break;
+    dates.push(next);
+  }
+  return dates;
+}
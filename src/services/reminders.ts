@@ -0,0 +1,135 @@
+/**
+ * reminders.ts
+ * ------------
+ * Local reminders before events the user is signed up for, by default 24 hours
+ * and 2 hours ahead of their first shift (or of the event, without shifts).
+ * Rather than scheduling on each sign-up and cancelling on each withdrawal,
+ * `syncReminders` compares what is scheduled on the device with the user's
+ * current events and fixes the difference. That also covers
+ * changes made elsewhere: a waitlist promotion, an organiser moving the event
+ * or cancelling it, a shift change, or a sign-up from another device.
+ */
+import { Platform } from "react-native";
+import * as Notifications from "expo-notifications";
+
+import { NotificationChannel, ReminderType, SignedUpEvent } from "../types";
+
+/** How long before the start each reminder fires. */
+export const REMINDER_OFFSETS_MS: Record<ReminderType, number> = {
+  reminder_24h: 24 * 60 * 60 * 1000,
+  reminder_2h: 2 * 60 * 60 * 1000,
+};
+
+/** Android channel the reminders are posted to. */
+export const REMINDER_ANDROID_CHANNEL = "reminders";
+
+// Only notifications with this prefix are ours to reconcile.
+const IDENTIFIER_PREFIX = "reminder:";
+
+const reminderId = (eventId: string, type: ReminderType) =>
+  `${IDENTIFIER_PREFIX}${eventId}:${type}`;
+
+export interface ReminderContent {
+  title: string;
+  body: string;
+}
+
+/** When the user is due: the start of their earliest shift, or the event's. */
+export function volunteerStart(event: SignedUpEvent): Date {
+  const starts = event.shifts
+    .filter((shift) => event.shiftIds.includes(shift.id))
+    .map((shift) => shift.start.getTime());
+  return starts.length > 0 ? new Date(Math.min(...starts)) : event.dateTime;
+}
+
+interface PlannedReminder {
+  id: string;
+  eventId: string;
+  fireAt: Date;
+  content: ReminderContent;
+}
+
+/** Reminders the user should have for these events, skipping past times. */
+function planReminders(
+  events: SignedUpEvent[],
+  optOuts: NotificationChannel[],
+  describe: (event: SignedUpEvent, type: ReminderType) => ReminderContent,
+  now: Date
+): PlannedReminder[] {
+  const types = (Object.keys(REMINDER_OFFSETS_MS) as ReminderType[]).filter(
+    (type) => !optOuts.includes(type)
+  );
+  return events
+    .filter((event) => event.status !== "cancelled")
+    .flatMap((event) =>
+      types.map((type) => ({
+        id: reminderId(event.id, type),
+        eventId: event.id,
+        fireAt: new Date(
+          volunteerStart(event).getTime() - REMINDER_OFFSETS_MS[type]
+        ),
+        content: describe(event, type),
+      }))
+    )
+    .filter((reminder) => reminder.fireAt > now);
+}
+
+/**
+ * Makes the scheduled reminders match `events`: adds missing ones, drops
+ * those for events the user left or that were cancelled, and reschedules
+ * those whose time or text changed. Reminders are not available on web.
+ */
+export async function syncReminders(
+  events: SignedUpEvent[],
+  optOuts: NotificationChannel[],
+  describe: (event: SignedUpEvent, type: ReminderType) => ReminderContent
+): Promise<void> {
+  if (Platform.OS === "web") return;
+
+  const planned = planReminders(events, optOuts, describe, new Date());
+  const scheduled = (await Notifications.getAllScheduledNotificationsAsync())
+    .filter((request) => request.identifier.startsWith(IDENTIFIER_PREFIX));
+
+  const isCurrent = (request: Notifications.NotificationRequest) => {
+    const match = planned.find((item) => item.id === request.identifier);
+    return (
+      match !== undefined &&
+      request.content.data?.fireAt === match.fireAt.getTime() &&
+      request.content.title === match.content.title &&
+      request.content.body === match.content.body
+    );
+  };
+
+  await Promise.all(
+    scheduled
+      .filter((request) => !isCurrent(request))
+      .map((request) =>
+        Notifications.cancelScheduledNotificationAsync(request.identifier)
+      )
+  );
+
+  const kept = new Set(
+    scheduled.filter(isCurrent).map((request) => request.identifier)
+  );
+  for (const reminder of planned) {
+    if (kept.has(reminder.id)) continue;
+    await Notifications.scheduleNotificationAsync({
+      identifier: reminder.id,
+      content: {
+        ...reminder.content,
+        // The event id lets a tap open EventDetails (see push.ts).
+        data: { eventId: reminder.eventId, fireAt: reminder.fireAt.getTime() },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: reminder.fireAt,
+        channelId: REMINDER_ANDROID_CHANNEL,
+      },
+    });
+  }
+}
+
+/** Removes every reminder, e.g. when the user signs out. */
+export async function clearReminders(): Promise<void> {
+  await syncReminders([], [], () => ({ title: "", body: "" }));
+}
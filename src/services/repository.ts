@@ -0,0 +1,661 @@
+/**
+ * repository.ts
+ * -------------
+ * Typed Firestore access for the app's collections. Every collection has a
+ * `withConverter` converter that maps raw documents onto the models in
+ * types.ts and validates them on the way in, so a new field is added in one
+ * place and a malformed document is reported instead of rendering `undefined`.
+ * Screens subscribe through the hooks in hooks/useFirestore.ts or read lists
+ * with `readDocs`, which skips (and logs) documents that fail validation.
+ */
+import {
+  collection,
+  doc,
+  DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
+  FirestoreDataConverter,
+  GeoPoint,
+  getDoc,
+  QueryDocumentSnapshot,
+  QuerySnapshot,
+  SnapshotOptions,
+  Timestamp,
+  WithFieldValue,
+} from "firebase/firestore";
+
+import { db } from "../firebaseConfig";
+import {
+  AppNotification,
+  AppUser,
+  CommentAnswer,
+  Coordinates,
+  CommentReaction,
+  CommentReport,
+  CommentReportReason,
+  CommentRevision,
+  Conversation,
+  DirectMessage,
+  Event,
+  EventAnnouncement,
+  EventComment,
+  EventStatus,
+  EventTask,
+  Favorite,
+  HiddenCommentContent,
+  NotificationChannel,
+  NotificationType,
+  Participation,
+  RecurrenceFrequency,
+  UserRole,
+} from "../types";
+
+/** Raised when a stored document does not match the shape its model expects. */
+export class MalformedDocumentError extends Error {
+  path: string;
+  field: string;
+
+  constructor(path: string, field: string, expected: string) {
+    super(`${path}: expected "${field}" to be ${expected}`);
+    this.name = "MalformedDocumentError";
+    this.path = path;
+    this.field = field;
+  }
+}
+
+/** Typed accessors over a raw document that throw on unexpected values. */
+class FieldReader {
+  constructor(private path: string, private data: DocumentData) {}
+
+  private fail(field: string, expected: string): never {
+    throw new MalformedDocumentError(this.path, field, expected);
+  }
+
+  string(field: string): string {
+    const value = this.data[field];
+    if (typeof value !== "string") this.fail(field, "a string");
+    return value;
+  }
+
+  optionalString(field: string, fallback = ""): string {
+    const value = this.data[field];
+    if (value == null) return fallback;
+    if (typeof value !== "string") this.fail(field, "a string");
+    return value;
+  }
+
+  number(field: string): number {
+    const value = this.data[field];
+    if (typeof value !== "number" || Number.isNaN(value)) {
+      this.fail(field, "a number");
+    }
+    return value;
+  }
+
+  optionalNumber(field: string): number | undefined {
+    if (this.data[field] == null) return undefined;
+    return this.number(field);
+  }
+
+  optionalBoolean(field: string, fallback = false): boolean {
+    const value = this.data[field];
+    if (value == null) return fallback;
+    if (typeof value !== "boolean") this.fail(field, "a boolean");
+    return value;
+  }
+
+  date(field: string): Date {
+    const value = this.data[field];
+    if (value instanceof Timestamp) return value.toDate();
+    if (value instanceof Date) return value;
+    return this.fail(field, "a timestamp");
+  }
+
+  optionalDate(field: string): Date | undefined {
+    if (this.data[field] == null) return undefined;
+    return this.date(field);
+  }
+
+  optionalCoordinates(field: string): Coordinates | undefined {
+    const value = this.data[field];
+    if (value == null) return undefined;
+    if (!(value instanceof GeoPoint)) this.fail(field, "a geopoint");
+    return { latitude: value.latitude, longitude: value.longitude };
+  }
+
+  stringArray(field: string): string[] {
+    const value = this.data[field];
+    if (value == null) return [];
+    if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+      this.fail(field, "a list of strings");
+    }
+    return value;
+  }
+
+  oneOf<T extends string>(field: string, allowed: readonly T[], fallback?: T): T {
+    const value = this.data[field];
+    if (value == null && fallback !== undefined) return fallback;
+    if (!allowed.includes(value)) this.fail(field, `one of ${allowed.join(", ")}`);
+    return value;
+  }
+
+  /** Readers for each entry of a list of maps, e.g. an event's shifts. */
+  objectArray(field: string): FieldReader[] {
+    const value = this.data[field];
+    if (value == null) return [];
+    if (
+      !Array.isArray(value) ||
+      value.some((item) => item == null || typeof item !== "object")
+    ) {
+      this.fail(field, "a list of objects");
+    }
+    return value.map(
+      (item: DocumentData, index: number) =>
+        new FieldReader(`${this.path}.${field}[${index}]`, item)
+    );
+  }
+
+  /** Reader for a nested map, e.g. a comment's answer, if there is one. */
+  optionalObject(field: string): FieldReader | undefined {
+    const value = this.data[field];
+    if (value == null) return undefined;
+    if (typeof value !== "object" || Array.isArray(value)) {
+      this.fail(field, "an object");
+    }
+    return new FieldReader(`${this.path}.${field}`, value);
+  }
+
+  /** Readers for each value of a map of maps, keyed like the stored map. */
+  objectMap(field: string): Record<string, FieldReader> {
+    const value = this.data[field];
+    if (value == null) return {};
+    if (
+      typeof value !== "object" ||
+      Object.values(value).some((item) => item == null || typeof item !== "object")
+    ) {
+      this.fail(field, "a map of objects");
+    }
+    const readers: Record<string, FieldReader> = {};
+    Object.entries(value).forEach(([key, item]) => {
+      readers[key] = new FieldReader(`${this.path}.${field}.${key}`, item as DocumentData);
+    });
+    return readers;
+  }
+
+  /** True when the field holds a string, for fields whose shape has changed. */
+  holdsString(field: string): boolean {
+    return typeof this.data[field] === "string";
+  }
+
+  stringArrayMap(field: string): Record<string, string[]> {
+    const value = this.data[field];
+    if (value == null) return {};
+    if (
+      typeof value !== "object" ||
+      Object.values(value).some(
+        (item) =>
+          !Array.isArray(item) || item.some((entry) => typeof entry !== "string")
+      )
+    ) {
+      this.fail(field, "a map of string lists");
+    }
+    return value;
+  }
+
+  numberMap(field: string): Record<string, number> {
+    const value = this.data[field];
+    if (value == null) return {};
+    if (
+      typeof value !== "object" ||
+      Object.values(value).some((item) => typeof item !== "number")
+    ) {
+      this.fail(field, "a map of numbers");
+    }
+    return value;
+  }
+
+  optionalOneOf<T extends string>(field: string, allowed: readonly T[]): T | undefined {
+    if (this.data[field] == null) return undefined;
+    return this.oneOf(field, allowed);
+  }
+}
+
+/**
+ * Builds a converter from a validating reader. Pending server timestamps are
+ * estimated by default so freshly written documents validate before the server
+ * confirms; pass "none" to keep them empty instead.
+ */
+function createConverter<T extends { id: string }>(
+  read: (fields: FieldReader, id: string) => T,
+  serverTimestamps: SnapshotOptions["serverTimestamps"] = "estimate"
+): FirestoreDataConverter<T> {
+  return {
+    toFirestore(model: WithFieldValue<T>): DocumentData {
+      const { id: _id, ...fields } = model as WithFieldValue<T> & { id?: string };
+      return fields;
+    },
+    fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): T {
+      const data = snapshot.data({ serverTimestamps, ...options });
+      return read(new FieldReader(snapshot.ref.path, data), snapshot.id);
+    },
+  };
+}
+
+const PARTICIPATION_STATUSES: readonly Participation["status"][] = [
+  "signed_up",
+  "waitlisted",
+  "withdrawn",
+  "attended",
+  "no_show",
+];
+
+const USER_ROLES: readonly UserRole[] = ["volunteer", "organiser"];
+
+const EVENT_STATUSES: readonly EventStatus[] = ["active", "cancelled"];
+
+const RECURRENCE_FREQUENCIES: readonly RecurrenceFrequency[] = [
+  "weekly",
+  "biweekly",
+  "monthly",
+  "custom",
+];
+
+const COMMENT_REACTIONS: readonly CommentReaction[] = [
+  "thumbs_up",
+  "heart",
+  "clap",
+  "laugh",
+];
+
+const COMMENT_REPORT_REASONS: readonly CommentReportReason[] = [
+  "offensive",
+  "spam",
+];
+
+const NOTIFICATION_TYPES: readonly NotificationType[] = [
+  "event_cancelled",
+  "waitlist_promoted",
+  "time_changed",
+  "new_comment",
+  "removed",
+  "announcement",
+  "question_answered",
+  "mentioned",
+];
+
+/** Every notification channel, in the order the profile lists them. */
+export const NOTIFICATION_CHANNELS: readonly NotificationChannel[] = [
+  "reminder_24h",
+  "reminder_2h",
+  ...NOTIFICATION_TYPES,
+];
+
+/** Id given to the single task made from a legacy free-text task list. */
+export const LEGACY_TASK_ID = "legacy";
+
+// Events created before structured tasks stored them as one free-text field;
+// its first line becomes the title and the rest the description.
+const readTasks = (fields: FieldReader): EventTask[] => {
+  const claimed = fields.numberMap("taskCounts");
+  const done = fields.objectMap("taskDone");
+  const progress = (taskId: string) => ({
+    doneBy: done[taskId]?.string("by"),
+    doneAt: done[taskId]?.date("at"),
+  });
+  if (fields.holdsString("tasks")) {
+    const text = fields.string("tasks").trim();
+    if (!text) return [];
+    const [title, ...rest] = text.split("\n");
+    return [
+      {
+        id: LEGACY_TASK_ID,
+        title: title.trim(),
+        description: rest.join("\n").trim(),
+        headcount: 1,
+        claimed: claimed[LEGACY_TASK_ID] ?? 0,
+        ...progress(LEGACY_TASK_ID),
+      },
+    ];
+  }
+  return fields.objectArray("tasks").map((task) => {
+    const taskId = task.string("id");
+    return {
+      id: taskId,
+      title: task.string("title"),
+      description: task.optionalString("description"),
+      headcount: task.number("headcount"),
+      requiredSkill: task.optionalString("requiredSkill") || undefined,
+      claimed: claimed[taskId] ?? 0,
+      ...progress(taskId),
+    };
+  });
+};
+
+export const eventConverter = createConverter<Event>((fields, id) => {
+  const shiftCounts = fields.numberMap("shiftCounts");
+  const bringCounts = fields.numberMap("bringCounts");
+  return {
+    id,
+    title: fields.string("title"),
+    description: fields.optionalString("description"),
+    tasks: readTasks(fields),
+    category: fields.optionalString("category"),
+    locationText: fields.optionalString("locationText"),
+    coordinates: fields.optionalCoordinates("coordinates"),
+    dateTime: fields.date("dateTime"),
+    createdBy: fields.string("createdBy"),
+    maxVolunteers: fields.number("maxVolunteers"),
+    currentVolunteers: fields.optionalNumber("currentVolunteers") ?? 0,
+    imageUrls: fields.stringArray("imageUrls"),
+    waitlist: fields.stringArray("waitlist"),
+    status: fields.oneOf("status", EVENT_STATUSES, "active"),
+    cancellationReason: fields.optionalString("cancellationReason") || undefined,
+    cancelledAt: fields.optionalDate("cancelledAt"),
+    seriesId: fields.optionalString("seriesId") || undefined,
+    recurrence: fields.optionalOneOf("recurrence", RECURRENCE_FREQUENCIES),
+    shifts: fields.objectArray("shifts").map((shift) => {
+      const shiftId = shift.string("id");
+      return {
+        id: shiftId,
+        label: shift.optionalString("label") || undefined,
+        start: shift.date("start"),
+        end: shift.date("end"),
+        maxVolunteers: shift.number("maxVolunteers"),
+        currentVolunteers: shiftCounts[shiftId] ?? 0,
+      };
+    }),
+    bringList: fields.objectArray("bringList").map((item) => {
+      const itemId = item.string("id");
+      return {
+        id: itemId,
+        name: item.string("name"),
+        quantity: item.number("quantity"),
+        committed: bringCounts[itemId] ?? 0,
+      };
+    }),
+    faq: fields.objectArray("faq").map((entry) => ({
+      commentId: entry.string("commentId"),
+      question: entry.string("question"),
+      answer: entry.string("answer"),
+    })),
+  };
+});
+
+export const participationConverter = createConverter<Participation>(
+  (fields, id) => ({
+    id,
+    userId: fields.string("userId"),
+    eventId: fields.string("eventId"),
+    status: fields.oneOf("status", PARTICIPATION_STATUSES, "signed_up"),
+    createdAt: fields.date("createdAt"),
+    shiftIds: fields.stringArray("shiftIds"),
+    taskIds: fields.stringArray("taskIds"),
+    bringing: fields.numberMap("bringing"),
+    attendanceMarkedBy: fields.optionalString("attendanceMarkedBy") || undefined,
+    attendanceMarkedAt: fields.optionalDate("attendanceMarkedAt"),
+    checkInAt: fields.optionalDate("checkInAt"),
+    checkOutAt: fields.optionalDate("checkOutAt"),
+    hoursOverride: fields.optionalNumber("hoursOverride"),
+  })
+);
+
+export const favoriteConverter = createConverter<Favorite>((fields, id) => ({
+  id,
+  userId: fields.string("userId"),
+  eventId: fields.string("eventId"),
+  createdAt: fields.optionalDate("createdAt"),
+}));
+
+const readAnswer = (
+  answer: FieldReader | undefined
+): CommentAnswer | undefined =>
+  answer && {
+    text: answer.string("text"),
+    answeredBy: answer.string("answeredBy"),
+    answeredAt: answer.optionalDate("answeredAt"),
+  };
+
+// Comments keep a missing timestamp while pending so the list can show "sending".
+export const commentConverter = createConverter<EventComment>(
+  (fields, id) => ({
+    id,
+    text: fields.string("text"),
+    userId: fields.string("userId"),
+    userName: fields.optionalString("userName"),
+    timestamp: fields.optionalDate("timestamp"),
+    parentId: fields.optionalString("parentId") || undefined,
+    mentions: fields.stringArray("mentions"),
+    editedAt: fields.optionalDate("editedAt"),
+    // Reactions this version does not know about are ignored.
+    reactions: Object.fromEntries(
+      Object.entries(fields.stringArrayMap("reactions")).filter(([reaction]) =>
+        COMMENT_REACTIONS.includes(reaction as CommentReaction)
+      )
+    ),
+    hidden: fields.optionalBoolean("hidden"),
+    hiddenBy: fields.optionalString("hiddenBy") || undefined,
+    reportCount: fields.optionalNumber("reportCount") ?? 0,
+    question: fields.optionalBoolean("question"),
+    answer: readAnswer(fields.optionalObject("answer")),
+  }),
+  "none"
+);
+
+export const commentReportConverter = createConverter<CommentReport>(
+  (fields, id) => ({
+    id,
+    eventId: fields.string("eventId"),
+    commentId: fields.string("commentId"),
+    eventOwnerId: fields.string("eventOwnerId"),
+    reporterId: fields.string("reporterId"),
+    reason: fields.oneOf("reason", COMMENT_REPORT_REASONS),
+    status: fields.oneOf("status", ["open", "resolved"] as const),
+    createdAt: fields.date("createdAt"),
+  })
+);
+
+export const commentRevisionConverter = createConverter<CommentRevision>(
+  (fields, id) => ({
+    id,
+    text: fields.string("text"),
+    editedAt: fields.date("editedAt"),
+  })
+);
+
+export const hiddenCommentConverter = createConverter<HiddenCommentContent>(
+  (fields, id) => ({
+    id,
+    text: fields.string("text"),
+    mentions: fields.stringArray("mentions"),
+  })
+);
+
+export const announcementConverter = createConverter<EventAnnouncement>(
+  (fields, id) => ({
+    id,
+    message: fields.string("message"),
+    senderId: fields.string("senderId"),
+    recipientIds: fields.stringArray("recipientIds"),
+    readBy: fields.stringArray("readBy"),
+    createdAt: fields.date("createdAt"),
+  })
+);
+
+export const conversationConverter = createConverter<Conversation>(
+  (fields, id) => ({
+    id,
+    eventId: fields.string("eventId"),
+    eventTitle: fields.optionalString("eventTitle"),
+    organiserId: fields.string("organiserId"),
+    volunteerId: fields.string("volunteerId"),
+    participationId: fields.string("participationId"),
+    participants: fields.stringArray("participants"),
+    lastMessage: fields.optionalString("lastMessage") || undefined,
+    lastMessageAt: fields.optionalDate("lastMessageAt"),
+    lastSenderId: fields.optionalString("lastSenderId") || undefined,
+    unreadCounts: fields.numberMap("unreadCounts"),
+    createdAt: fields.date("createdAt"),
+  })
+);
+
+// Messages keep a missing time while sending, like comments.
+export const directMessageConverter = createConverter<DirectMessage>(
+  (fields, id) => ({
+    id,
+    senderId: fields.string("senderId"),
+    text: fields.string("text"),
+    createdAt: fields.optionalDate("createdAt"),
+  }),
+  "none"
+);
+
+export const userConverter = createConverter<AppUser>((fields, id) => ({
+  id,
+  email: fields.optionalString("email"),
+  displayName: fields.optionalString("displayName"),
+  role: fields.oneOf("role", USER_ROLES, "volunteer"),
+  // Channels this version does not know about are ignored.
+  notificationOptOuts: fields
+    .stringArray("notificationOptOuts")
+    .filter((channel): channel is NotificationChannel =>
+      NOTIFICATION_CHANNELS.includes(channel as NotificationChannel)
+    ),
+}));
+
+export const notificationConverter = createConverter<AppNotification>(
+  (fields, id) => ({
+    id,
+    userId: fields.string("userId"),
+    type: fields.oneOf("type", NOTIFICATION_TYPES),
+    eventId: fields.string("eventId"),
+    eventTitle: fields.optionalString("eventTitle"),
+    message: fields.optionalString("message") || undefined,
+    dateTime: fields.optionalDate("dateTime"),
+    senderId: fields.string("senderId"),
+    read: fields.optionalBoolean("read"),
+    createdAt: fields.date("createdAt"),
+  })
+);
+
+export const eventsCollection = () =>
+  collection(db, "events").withConverter(eventConverter);
+
+export const eventRef = (eventId: string) =>
+  doc(db, "events", eventId).withConverter(eventConverter);
+
+export const participationsCollection = () =>
+  collection(db, "participations").withConverter(participationConverter);
+
+export const participationRef = (participationId: string) =>
+  doc(db, "participations", participationId).withConverter(
+    participationConverter
+  );
+
+export const favoritesCollection = () =>
+  collection(db, "favorites").withConverter(favoriteConverter);
+
+export const commentsCollection = (eventId: string) =>
+  collection(db, "events", eventId, "comments").withConverter(commentConverter);
+
+export const commentHistoryCollection = (eventId: string, commentId: string) =>
+  collection(
+    db,
+    "events",
+    eventId,
+    "comments",
+    commentId,
+    "history"
+  ).withConverter(commentRevisionConverter);
+
+/** Where a hidden comment's text is kept (see services/moderation.ts). */
+export const hiddenCommentRef = (eventId: string, commentId: string) =>
+  doc(
+    db,
+    "events",
+    eventId,
+    "comments",
+    commentId,
+    "hiddenContent",
+    "text"
+  ).withConverter(hiddenCommentConverter);
+
+export const announcementsCollection = (eventId: string) =>
+  collection(db, "events", eventId, "announcements").withConverter(
+    announcementConverter
+  );
+
+export const conversationsCollection = () =>
+  collection(db, "conversations").withConverter(conversationConverter);
+
+export const conversationRef = (conversationId: string) =>
+  doc(db, "conversations", conversationId).withConverter(
+    conversationConverter
+  );
+
+export const messagesCollection = (conversationId: string) =>
+  collection(db, "conversations", conversationId, "messages").withConverter(
+    directMessageConverter
+  );
+
+export const commentReportsCollection = () =>
+  collection(db, "commentReports").withConverter(commentReportConverter);
+
+export const userRef = (userId: string) =>
+  doc(db, "users", userId).withConverter(userConverter);
+
+export const notificationsCollection = () =>
+  collection(db, "notifications").withConverter(notificationConverter);
+
+/** Logs a document that failed validation so bad data is visible in the console. */
+export function reportMalformedDocument(error: unknown) {
+  console.warn("Skipping malformed document", error);
+}
+
+/** Converts every document in the snapshot, skipping the ones that fail validation. */
+export function readDocs<T>(snapshot: QuerySnapshot<T>): T[] {
+  const items: T[] = [];
+  snapshot.docs.forEach((docSnap) => {
+    try {
+      items.push(docSnap.data());
+    } catch (error) {
+      if (!(error instanceof MalformedDocumentError)) throw error;
+      reportMalformedDocument(error);
+    }
+  });
+  return items;
+}
+
+/**
+ * Converts a single document, or returns null when it does not exist. Throws
+ * `MalformedDocumentError` so the caller can surface it like a load error.
+ */
+export function readDoc<T>(snapshot: DocumentSnapshot<T>): T | null {
+  if (!snapshot.exists()) return null;
+  return snapshot.data() ?? null;
+}
+
+/** One-off typed read of a document, null when it does not exist. */
+export async function getDocument<T>(
+  ref: DocumentReference<T>
+): Promise<T | null> {
+  return readDoc(await getDoc(ref));
+}
+
+/**
+ * One-off read of several events by id. Missing and malformed events are left
+ * out; the result keeps the order of `eventIds`.
+ */
+export async function getEvents(eventIds: string[]): Promise<Event[]> {
+  const events = await Promise.all(
+    eventIds.map(async (eventId) => {
+      try {
+        return await getDocument(eventRef(eventId));
+      } catch (error) {
+        if (!(error instanceof MalformedDocumentError)) throw error;
+        reportMalformedDocument(error);
+        return null;
+      }
+    })
+  );
+  return events.filter((event): event is Event => Boolean(event));
+}
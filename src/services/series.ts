@@ -0,0 +1,228 @@
+/**
+ * series.ts
+ * ---------
+ * Recurring events. A series is a set of ordinary event documents that share a
+ * `seriesId` (the id of the first occurrence), so participations, check-in and
+ * the security rules keep working per occurrence. This module creates the
+ * occurrences from the dates recurrence.ts expands, applies edits to all
+ * future occurrences and signs a volunteer up for the remaining ones at once.
+ */
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+
+import { db } from "../firebaseConfig";
+import { Event } from "../types";
+import { BringItemDefinition, strandsCommitments } from "./bringList";
+import {
+  joinWaitlist,
+  ParticipationError,
+  ParticipationErrorCode,
+  ShiftDefinition,
+  shiftFields,
+  updateEventCapacity,
+} from "./participations";
+import { coordinatesField } from "./location";
+import { occurrenceDates, RecurrenceRule } from "./recurrence";
+import { eventsCollection, readDocs } from "./repository";
+import { TaskDefinition, taskFields } from "./tasks";
+
+/** Fields organisers edit on an event, shared by every occurrence of a series. */
+export type SeriesFields = Pick<
+  Event,
+  | "title"
+  | "description"
+  | "category"
+  | "locationText"
+  | "maxVolunteers"
+  | "coordinates"
+> & { tasks: TaskDefinition[]; bringList: BringItemDefinition[] };
+
+/**
+ * Creates one event per occurrence in a single batch and returns their ids.
+ * Shifts are given for the first occurrence and moved along with each date.
+ */
+export async function createEventSeries(
+  fields: SeriesFields,
+  createdBy: string,
+  start: Date,
+  rule: RecurrenceRule,
+  shifts: ShiftDefinition[] = []
+): Promise<string[]> {
+  const dates = occurrenceDates(start, rule);
+  const refs = dates.map(() => doc(collection(db, "events")));
+  const seriesId = refs[0].id;
+
+  const { tasks, coordinates, ...details } = fields;
+  const batch = writeBatch(db);
+  refs.forEach((ref, index) => {
+    const offset = dates[index].getTime() - start.getTime();
+    const move = (date: Date) => new Date(date.getTime() + offset);
+    batch.set(ref, {
+      ...details,
+      ...taskFields(tasks),
+      coordinates: coordinatesField(coordinates),
+      ...(shifts.length > 0
+        ? shiftFields(
+            shifts.map((shift) => ({
+              ...shift,
+              start: move(shift.start),
+              end: move(shift.end),
+            }))
+          )
+        : {}),
+      dateTime: Timestamp.fromDate(dates[index]),
+      createdBy,
+      currentVolunteers: 0,
+      waitlist: [],
+      status: "active",
+      imageUrls: [],
+      seriesId,
+      recurrence: rule.frequency,
+      createdAt: serverTimestamp(),
+    });
+  });
+  await batch.commit();
+
+  return refs.map((ref) => ref.id);
+}
+
+/** Every occurrence of the series, earliest first. */
+export async function getSeriesOccurrences(seriesId: string): Promise<Event[]> {
+  const snapshot = await getDocs(
+    query(eventsCollection(), where("seriesId", "==", seriesId))
+  );
+  return readDocs(snapshot).sort(
+    (a, b) => a.dateTime.getTime() - b.dateTime.getTime()
+  );
+}
+
+/**
+ * Applies the edited fields to every active occurrence from `fromDate` on and
+ * moves each one by `shiftMs` (the change made to the edited occurrence's
+ * time). Capacity and the bring list are checked for all occurrences before
+ * anything is written, so a too-low limit, or a list that drops or cuts items
+ * volunteers committed to bringing, leaves the whole series untouched.
+ */
+export async function updateFutureOccurrences(
+  seriesId: string,
+  fromDate: Date,
+  fields: SeriesFields,
+  shiftMs: number
+): Promise<Event[]> {
+  const occurrences = (await getSeriesOccurrences(seriesId)).filter(
+    (occurrence) =>
+      occurrence.dateTime >= fromDate && occurrence.status !== "cancelled"
+  );
+  // Capacity of occurrences with shifts comes from their shifts instead.
+  const withoutShifts = occurrences.filter(
+    (occurrence) => occurrence.shifts.length === 0
+  );
+  if (
+    withoutShifts.some(
+      (occurrence) => occurrence.currentVolunteers > fields.maxVolunteers
+    )
+  ) {
+    throw new ParticipationError("capacity_below_signed_up");
+  }
+  // Item ids are shared too, so commitments carry over as long as they fit.
+  if (
+    occurrences.some((occurrence) =>
+      strandsCommitments(occurrence.bringList, fields.bringList)
+    )
+  ) {
+    throw new ParticipationError("bring_list_committed");
+  }
+
+  // Task ids are shared across the series, so claims on them stay valid.
+  const { maxVolunteers, tasks, coordinates, ...details } = fields;
+  for (const occurrence of occurrences) {
+    // Capacity goes through the participation service so waitlists get promoted.
+    if (
+      occurrence.shifts.length === 0 &&
+      occurrence.maxVolunteers !== maxVolunteers
+    ) {
+      await updateEventCapacity(occurrence.id, maxVolunteers);
+    }
+    const move = (date: Date) => new Date(date.getTime() + shiftMs);
+    await updateDoc(doc(db, "events", occurrence.id), {
+      ...details,
+      ...taskFields(tasks),
+      coordinates: coordinatesField(coordinates),
+      dateTime: Timestamp.fromDate(move(occurrence.dateTime)),
+      // Shift times move with the occurrence; their counts are untouched.
+      ...(occurrence.shifts.length > 0 && shiftMs !== 0
+        ? {
+            shifts: shiftFields(
+              occurrence.shifts.map((shift) => ({
+                ...shift,
+                start: move(shift.start),
+                end: move(shift.end),
+              }))
+            ).shifts,
+          }
+        : {}),
+    });
+  }
+  return occurrences;
+}
+
+export interface SeriesSignUpResult {
+  signedUp: number;
+  waitlisted: number;
+  /**
+   * Occurrences the volunteer was already registered for, or that need a
+   * shift picked on the occurrence itself.
+   */
+  skipped: number;
+}
+
+// Occurrences that cannot take this volunteer are skipped, not treated as failures.
+const SKIPPED_CODES: ParticipationErrorCode[] = [
+  "already_signed_up",
+  "already_waitlisted",
+  "event_cancelled",
+  "shift_required",
+];
+
+/**
+ * Registers the volunteer for every upcoming occurrence, taking a spot where
+ * one is free and joining the waitlist where the occurrence is full.
+ * Occurrences with shifts are skipped, since each needs its shifts picked.
+ */
+export async function signUpForSeries(
+  seriesId: string,
+  userId: string
+): Promise<SeriesSignUpResult> {
+  const now = new Date();
+  const upcoming = (await getSeriesOccurrences(seriesId)).filter(
+    (occurrence) => occurrence.dateTime > now && occurrence.status !== "cancelled"
+  );
+
+  const result: SeriesSignUpResult = { signedUp: 0, waitlisted: 0, skipped: 0 };
+  for (const occurrence of upcoming) {
+    try {
+      const { status } = await joinWaitlist(occurrence.id, userId);
+      if (status === "signed_up") result.signedUp += 1;
+      else result.waitlisted += 1;
+    } catch (error) {
+      if (
+        error instanceof ParticipationError &&
+        SKIPPED_CODES.includes(error.code)
+      ) {
+        result.skipped += 1;
+        continue;
+      }
+      throw error;
+    }
+  }
+  return result;
+}
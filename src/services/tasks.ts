@@ -0,0 +1,182 @@
+/**
+ * tasks.ts
+ * --------
+ * Structured task lists. Organisers define tasks on the event (`tasks`, with a
+ * needed headcount and an optional skill); volunteers claim them through their
+ * participation (`taskIds`), and anyone holding a spot can tick a task off in
+ * the event's `taskDone` map while the event runs. Claims are counted in the
+ * event's `taskCounts` map in the same transaction, which is where headcounts
+ * are enforced; withdrawing releases them. The staffing organisers see lists
+ * only the volunteers who hold a spot.
+ */
+import {
+  deleteField,
+  doc,
+  runTransaction,
+  serverTimestamp,
+  updateDoc,
+} from "firebase/firestore";
+
+import { db } from "../firebaseConfig";
+import { EventTask, Participation } from "../types";
+import {
+  claimedTaskIds,
+  holdsSpot,
+  participationDocId,
+  ParticipationError,
+  taskCountUpdates,
+} from "./participations";
+import { LEGACY_TASK_ID } from "./repository";
+
+/** Tasks per event; the security rules check task counts one by one. */
+export const MAX_TASKS = 10;
+
+/** A task as organisers define it; claims and progress are kept apart. */
+export type TaskDefinition = Omit<EventTask, "claimed" | "doneBy" | "doneAt">;
+
+/** Event fields for a set of tasks. */
+export const taskFields = (tasks: TaskDefinition[]) => ({
+  tasks: tasks.map((task) => ({
+    id: task.id,
+    title: task.title,
+    description: task.description,
+    headcount: task.headcount,
+    requiredSkill: task.requiredSkill ?? "",
+  })),
+});
+
+/** Volunteers holding a spot who claimed each task, keyed by task id. */
+export function taskStaffing(
+  tasks: EventTask[],
+  participations: Pick<Participation, "userId" | "status" | "taskIds">[]
+): Record<string, string[]> {
+  const staffing: Record<string, string[]> = {};
+  tasks.forEach((task) => {
+    staffing[task.id] = participations
+      .filter(
+        (participation) =>
+          holdsSpot(participation.status) &&
+          participation.taskIds.includes(task.id)
+      )
+      .map((participation) => participation.userId);
+  });
+  return staffing;
+}
+
+const readTasks = (data: any): { id: string; headcount: number }[] => {
+  if (typeof data?.tasks === "string") {
+    return data.tasks.trim() ? [{ id: LEGACY_TASK_ID, headcount: 1 }] : [];
+  }
+  return Array.isArray(data?.tasks) ? data.tasks : [];
+};
+
+/**
+ * Replaces the tasks the volunteer has claimed. The volunteer must be signed
+ * up or waitlisted; a waitlisted claim keeps its place until they get a spot
+ * or withdraw. Newly claimed tasks that are already fully staffed throw
+ * `task_full`, checked against the event's latest counts.
+ */
+export async function claimTasks(
+  eventId: string,
+  userId: string,
+  taskIds: string[]
+): Promise<void> {
+  const eventRef = doc(db, "events", eventId);
+  const participationRef = doc(
+    db,
+    "participations",
+    participationDocId(eventId, userId)
+  );
+
+  await runTransaction(db, async (transaction) => {
+    const eventSnap = await transaction.get(eventRef);
+    if (!eventSnap.exists()) {
+      throw new ParticipationError("event_missing");
+    }
+    const participationSnap = await transaction.get(participationRef);
+    const participation = participationSnap.data();
+    if (
+      !holdsSpot(participation?.status) &&
+      participation?.status !== "waitlisted"
+    ) {
+      throw new ParticipationError("task_unregistered");
+    }
+
+    const eventData = eventSnap.data();
+    const tasks = readTasks(eventData);
+    if (taskIds.some((id) => !tasks.some((task) => task.id === id))) {
+      throw new ParticipationError("task_missing");
+    }
+    const previous = claimedTaskIds(participation);
+    const countUpdates = taskCountUpdates(eventData, previous, taskIds);
+    const full = tasks.some(
+      (task) =>
+        taskIds.includes(task.id) &&
+        !previous.includes(task.id) &&
+        countUpdates[`taskCounts.${task.id}`] > task.headcount
+    );
+    if (full) {
+      throw new ParticipationError("task_full");
+    }
+
+    transaction.update(participationRef, {
+      taskIds,
+      updatedAt: serverTimestamp(),
+    });
+    if (Object.keys(countUpdates).length > 0) {
+      transaction.update(eventRef, countUpdates);
+    }
+  });
+}
+
+/**
+ * Sets the tasks of a participation on the organiser's behalf, e.g. to move a
+ * volunteer off an overstaffed task. Headcounts are not enforced here, but
+ * the event's counts follow the change.
+ */
+export async function assignTasks(
+  participationId: string,
+  taskIds: string[]
+): Promise<void> {
+  const participationRef = doc(db, "participations", participationId);
+
+  await runTransaction(db, async (transaction) => {
+    const participationSnap = await transaction.get(participationRef);
+    if (!participationSnap.exists()) {
+      throw new ParticipationError("participation_missing");
+    }
+    const participation = participationSnap.data();
+    const eventRef = doc(db, "events", participation.eventId);
+    const eventSnap = await transaction.get(eventRef);
+    if (!eventSnap.exists()) {
+      throw new ParticipationError("event_missing");
+    }
+
+    const countUpdates = taskCountUpdates(
+      eventSnap.data(),
+      claimedTaskIds(participation),
+      claimedTaskIds({ ...participation, taskIds })
+    );
+    transaction.update(participationRef, {
+      taskIds,
+      updatedAt: serverTimestamp(),
+    });
+    if (Object.keys(countUpdates).length > 0) {
+      transaction.update(eventRef, countUpdates);
+    }
+  });
+}
+
+/** Ticks a task off as done by `userId`, or clears the mark again. */
+export async function setTaskDone(
+  eventId: string,
+  taskId: string,
+  userId: string,
+  done: boolean
+): Promise<void> {
+  await updateDoc(doc(db, "events", eventId), {
+    [`taskDone.${taskId}`]: done
+      ? { by: userId, at: serverTimestamp() }
+      : deleteField(),
+  });
+}
@@ -16,6 +16,66 @@ export interface AppUser {
   email: string;
   displayName?: string;
   role: UserRole;
+  /** Kinds of reminders and push notices the user has turned off. */
+  notificationOptOuts: NotificationChannel[];
+}
+
+/** Cancelled events stay visible (with their reason) instead of being deleted. */
+export type EventStatus = "active" | "cancelled";
+
+/** How a recurring series repeats; `custom` follows a hand-picked list of dates. */
+export type RecurrenceFrequency = "weekly" | "biweekly" | "monthly" | "custom";
+
+/** Time slot within an event (e.g. setup, sales, teardown) with its own capacity. */
+export interface EventShift {
+  id: string;
+  label?: string;
+  start: Date;
+  end: Date;
+  maxVolunteers: number;
+  /** Read from the event's `shiftCounts` map, kept in sync by the participation service. */
+  currentVolunteers: number;
+}
+
+/** Piece of work at an event that volunteers claim through their participation. */
+export interface EventTask {
+  id: string;
+  title: string;
+  description: string;
+  /** How many volunteers the task needs. */
+  headcount: number;
+  requiredSkill?: string;
+  /** Read from the event's `taskCounts` map; waitlisted claims count too. */
+  claimed: number;
+  /** Read from the event's `taskDone` map once someone ticks the task off. */
+  doneBy?: string;
+  doneAt?: Date;
+}
+
+/**
+ * Question and answer the organiser pinned in the event's FAQ. Copied from the
+ * comment so calendar exports and share text can include it.
+ */
+export interface FaqEntry {
+  /** Comment the question was asked in. */
+  commentId: string;
+  question: string;
+  answer: string;
+}
+
+/** A point on the map, stored as a Firestore GeoPoint. */
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+/** Equipment the organiser asks volunteers to bring, e.g. 4 rakes. */
+export interface BringItem {
+  id: string;
+  name: string;
+  quantity: number;
+  /** Read from the event's `bringCounts` map, kept in sync by the bring-list service. */
+  committed: number;
 }
 
 /**
@@ -25,14 +85,30 @@ export interface Event {
   id: string;
   title: string;
   description: string;
-  tasks: string;
+  tasks: EventTask[];
   category: string;
   locationText: string;
+  /** Where the event is on the map; events created before geocoding have none. */
+  coordinates?: Coordinates;
   dateTime: Date;
   createdBy: string;
   maxVolunteers: number;
   currentVolunteers: number;
   imageUrls: string[];
+  /** Participation ids queued for a spot, first in line at index 0. */
+  waitlist: string[];
+  status: EventStatus;
+  cancellationReason?: string;
+  cancelledAt?: Date;
+  /** Shared by every occurrence of a recurring series (the first occurrence's id). */
+  seriesId?: string;
+  recurrence?: RecurrenceFrequency;
+  /** Optional time slots; when present volunteers pick shifts instead of the whole event. */
+  shifts: EventShift[];
+  /** "What to bring" list; volunteers commit to items through their participation. */
+  bringList: BringItem[];
+  /** Pinned questions and answers, in the order they were pinned. */
+  faq: FaqEntry[];
 }
 
 /** Participation records track a user's engagement with a specific event over time. */
@@ -40,6 +116,189 @@ export interface Participation {
   id: string;
   userId: string;
   eventId: string;
-  status: "signed_up" | "withdrawn" | "attended";
+  status: "signed_up" | "waitlisted" | "withdrawn" | "attended" | "no_show";
+  createdAt: Date;
+  /** Shifts the volunteer picked, for events that have shifts. */
+  shiftIds: string[];
+  /** Tasks the volunteer claimed (or the organiser assigned them to). */
+  taskIds: string[];
+  /** How many of each bring-list item (by id) the volunteer will bring. */
+  bringing: Record<string, number>;
+  /** Organiser (or volunteer, for self check-in) who last marked attendance. */
+  attendanceMarkedBy?: string;
+  attendanceMarkedAt?: Date;
+  /** Arrival and departure used to compute volunteer hours. */
+  checkInAt?: Date;
+  checkOutAt?: Date;
+  /** Organiser-entered hours that replace the computed check-in/out span. */
+  hoursOverride?: number;
+}
+
+/** An event the user is signed up for, with the shifts they picked. */
+export type SignedUpEvent = Event & Pick<Participation, "shiftIds">;
+
+/** Bookmark linking a user to an event they want to keep an eye on. */
+export interface Favorite {
+  id: string;
+  userId: string;
+  eventId: string;
+  createdAt?: Date;
+}
+
+/** Emoji reactions a comment can get, stored by name. */
+export type CommentReaction = "thumbs_up" | "heart" | "clap" | "laugh";
+
+/** Message posted in an event's `comments` subcollection. */
+export interface EventComment {
+  id: string;
+  text: string;
+  userId: string;
+  userName: string;
+  timestamp?: Date;
+  /** Top-level comment this replies to; replies are never nested further. */
+  parentId?: string;
+  /** Users mentioned as `@[userId]` tokens in the text (see services/mentions.ts). */
+  mentions: string[];
+  /** Set once the author has edited the text. */
+  editedAt?: Date;
+  /** Ids of the users who reacted, per reaction. */
+  reactions: Partial<Record<CommentReaction, string[]>>;
+  /**
+   * Hidden by the event owner, or by the backend's word filter and rate limit;
+   * kept rather than deleted, and reversible. The text and mentions move to
+   * `HiddenCommentContent` meanwhile.
+   */
+  hidden: boolean;
+  /** Who hid the comment: the event owner, or `FILTER_HIDDEN_BY`. */
+  hiddenBy?: string;
+  /** Open reports; the comment collapses once enough people reported it. */
+  reportCount: number;
+  /** Marked as a question by the event owner, who can then answer it. */
+  question: boolean;
+  answer?: CommentAnswer;
+}
+
+/** What a hidden comment said, readable by the event owner and its author. */
+export interface HiddenCommentContent {
+  id: string;
+  text: string;
+  mentions: string[];
+}
+
+/** The event owner's answer to a comment marked as a question. */
+export interface CommentAnswer {
+  text: string;
+  answeredBy: string;
+  /** Missing while the answer is being saved. */
+  answeredAt?: Date;
+}
+
+export type CommentReportReason = "offensive" | "spam";
+
+/**
+ * A user's report of a comment, stored in `commentReports` with the id
+ * `${eventId}_${commentId}_${reporterId}`. Reports are never deleted; the
+ * event owner resolves them from the moderation queue.
+ */
+export interface CommentReport {
+  id: string;
+  eventId: string;
+  commentId: string;
+  /** Owner of the event, whose moderation queue the report lands in. */
+  eventOwnerId: string;
+  reporterId: string;
+  reason: CommentReportReason;
+  status: "open" | "resolved";
+  createdAt: Date;
+}
+
+/**
+ * Earlier text of an edited comment, kept in its `history` subcollection for
+ * the event owner.
+ */
+export interface CommentRevision {
+  id: string;
+  text: string;
+  editedAt: Date;
+}
+
+/**
+ * Message an organiser broadcast to the event's volunteers, kept in the
+ * `announcements` subcollection. The latest one is pinned on the event page.
+ */
+export interface EventAnnouncement {
+  id: string;
+  message: string;
+  senderId: string;
+  /** Volunteers it was delivered to when it was sent. */
+  recipientIds: string[];
+  /** Recipients who have seen it. */
+  readBy: string[];
+  createdAt: Date;
+}
+
+/**
+ * Private conversation between an event's organiser and one of its
+ * volunteers, stored in `conversations` with the id `${eventId}_${volunteerId}`.
+ * The event title is copied in so the conversation still reads well after the
+ * event has ended or been deleted.
+ */
+export interface Conversation {
+  id: string;
+  eventId: string;
+  eventTitle: string;
+  organiserId: string;
+  volunteerId: string;
+  /** The volunteer's registration, which the rules check on creation. */
+  participationId: string;
+  /** The organiser and the volunteer, for listing a user's conversations. */
+  participants: string[];
+  lastMessage?: string;
+  lastMessageAt?: Date;
+  lastSenderId?: string;
+  /** Messages each participant has not read yet, by user id. */
+  unreadCounts: Record<string, number>;
+  createdAt: Date;
+}
+
+/** One message in a conversation's `messages` subcollection. */
+export interface DirectMessage {
+  id: string;
+  senderId: string;
+  text: string;
+  /** Missing while the message is being sent. */
+  createdAt?: Date;
+}
+
+/** Kinds of notices delivered to a user's `notifications`. */
+export type NotificationType =
+  | "event_cancelled"
+  | "waitlist_promoted"
+  | "time_changed"
+  | "new_comment"
+  | "removed"
+  | "announcement"
+  | "question_answered"
+  | "mentioned";
+
+/** Local reminders before an event the user is signed up for. */
+export type ReminderType = "reminder_24h" | "reminder_2h";
+
+/** Everything a user can opt out of: reminders and each kind of notice. */
+export type NotificationChannel = ReminderType | NotificationType;
+
+/** Notice addressed to one user, e.g. that an event they joined was cancelled. */
+export interface AppNotification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  eventId: string;
+  eventTitle: string;
+  /** Free text supplied by the sender, such as a cancellation reason. */
+  message?: string;
+  /** New start time, for `time_changed`. */
+  dateTime?: Date;
+  senderId: string;
+  read: boolean;
   createdAt: Date;
 }
@@ -0,0 +1,1307 @@
+/**
+ * Firestore rules tests
+ * ---------------------
+ * Runs against the Firestore emulator via `npm run test:rules`. Each case
+ * writes fixtures with rules disabled, then checks what a given signed-in user
+ * (or an anonymous caller) may do through the rules in firestore.rules.
+ */
+import { after, before, beforeEach, describe, it } from "node:test";
+import { readFileSync } from "node:fs";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import {
+  addDoc,
+  arrayRemove,
+  arrayUnion,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  increment,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+
+const ORGANISER = "organiser-1";
+const VOLUNTEER = "volunteer-1";
+const OTHER = "volunteer-2";
+const EVENT_ID = "event-1";
+
+let env: RulesTestEnvironment;
+
+const asUser = (uid: string) => env.authenticatedContext(uid).firestore();
+const anonymous = () => env.unauthenticatedContext().firestore();
+
+before(async () => {
+  env = await initializeTestEnvironment({
+    projectId: "demo-dugnadhub",
+    firestore: { rules: readFileSync("firestore.rules", "utf8") },
+  });
+});
+
+after(async () => {
+  await env.cleanup();
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await env.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await setDoc(doc(db, "users", ORGANISER), { role: "organiser" });
+    await setDoc(doc(db, "users", VOLUNTEER), { role: "volunteer" });
+    await setDoc(doc(db, "users", OTHER), { role: "volunteer" });
+    await setDoc(doc(db, "events", EVENT_ID), {
+      title: "Spring clean-up",
+      createdBy: ORGANISER,
+      maxVolunteers: 2,
+      currentVolunteers: 0,
+      waitlist: [],
+    });
+  });
+});
+
+describe("users", () => {
+  it("lets a user write only their own profile", async () => {
+    await assertSucceeds(
+      updateDoc(doc(asUser(VOLUNTEER), "users", VOLUNTEER), { name: "Kari" })
+    );
+    await assertFails(
+      updateDoc(doc(asUser(VOLUNTEER), "users", OTHER), { name: "Kari" })
+    );
+  });
+
+  it("requires sign-in to read profiles", async () => {
+    await assertFails(getDoc(doc(anonymous(), "users", VOLUNTEER)));
+    await assertSucceeds(getDoc(doc(asUser(OTHER), "users", VOLUNTEER)));
+  });
+
+  it("keeps push tokens off the readable profile", async () => {
+    await assertFails(
+      updateDoc(doc(asUser(VOLUNTEER), "users", VOLUNTEER), {
+        pushTokens: arrayUnion("ExponentPushToken[a]"),
+      })
+    );
+    await env.withSecurityRulesDisabled((context) =>
+      updateDoc(doc(context.firestore(), "users", VOLUNTEER), {
+        pushTokens: ["ExponentPushToken[a]"],
+      })
+    );
+    await assertSucceeds(
+      updateDoc(doc(asUser(VOLUNTEER), "users", VOLUNTEER), {
+        pushTokens: deleteField(),
+      })
+    );
+  });
+});
+
+describe("push tokens", () => {
+  it("lets only the owner store and read their tokens", async () => {
+    await assertFails(
+      setDoc(doc(asUser(OTHER), "pushTokens", VOLUNTEER), {
+        tokens: ["ExponentPushToken[a]"],
+      })
+    );
+    await assertSucceeds(
+      setDoc(doc(asUser(VOLUNTEER), "pushTokens", VOLUNTEER), {
+        tokens: ["ExponentPushToken[a]"],
+      })
+    );
+    await assertFails(getDoc(doc(asUser(OTHER), "pushTokens", VOLUNTEER)));
+    await assertSucceeds(
+      getDoc(doc(asUser(VOLUNTEER), "pushTokens", VOLUNTEER))
+    );
+    await assertFails(
+      setDoc(
+        doc(asUser(VOLUNTEER), "pushTokens", VOLUNTEER),
+        { role: "organiser" },
+        { merge: true }
+      )
+    );
+  });
+});
+
+describe("events", () => {
+  const newEvent = (createdBy: string) => ({
+    title: "Beach clean-up",
+    createdBy,
+    maxVolunteers: 5,
+    currentVolunteers: 0,
+    waitlist: [],
+  });
+
+  it("lets organisers create events in their own name", async () => {
+    const db = asUser(ORGANISER);
+    await assertSucceeds(addDoc(collection(db, "events"), newEvent(ORGANISER)));
+    await assertFails(addDoc(collection(db, "events"), newEvent(OTHER)));
+  });
+
+  it("rejects events created by volunteers", async () => {
+    const db = asUser(VOLUNTEER);
+    await assertFails(addDoc(collection(db, "events"), newEvent(VOLUNTEER)));
+  });
+
+  it("only lets the owner edit or delete an event", async () => {
+    await assertFails(
+      updateDoc(doc(asUser(VOLUNTEER), "events", EVENT_ID), { title: "Mine" })
+    );
+    await assertFails(deleteDoc(doc(asUser(VOLUNTEER), "events", EVENT_ID)));
+    await assertSucceeds(
+      updateDoc(doc(asUser(ORGANISER), "events", EVENT_ID), { title: "New" })
+    );
+    await assertSucceeds(deleteDoc(doc(asUser(ORGANISER), "events", EVENT_ID)));
+  });
+
+  it("rejects a bare counter bump without a registration", async () => {
+    await assertFails(
+      updateDoc(doc(asUser(VOLUNTEER), "events", EVENT_ID), {
+        currentVolunteers: increment(1),
+      })
+    );
+  });
+
+  it("accepts a sign-up written together with the counter", async () => {
+    const db = asUser(VOLUNTEER);
+    await assertSucceeds(
+      runTransaction(db, async (transaction) => {
+        transaction.set(doc(db, "participations", `${EVENT_ID}_${VOLUNTEER}`), {
+          eventId: EVENT_ID,
+          userId: VOLUNTEER,
+          status: "signed_up",
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
+        transaction.update(doc(db, "events", EVENT_ID), {
+          currentVolunteers: 1,
+        });
+      })
+    );
+  });
+
+  it("rejects a registration written without the counter", async () => {
+    await assertFails(
+      setDoc(doc(asUser(VOLUNTEER), "participations", `${EVENT_ID}_${VOLUNTEER}`), {
+        eventId: EVENT_ID,
+        userId: VOLUNTEER,
+        status: "signed_up",
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      })
+    );
+  });
+
+  describe("with shifts", () => {
+    beforeEach(async () => {
+      await env.withSecurityRulesDisabled(async (context) => {
+        await updateDoc(doc(context.firestore(), "events", EVENT_ID), {
+          shifts: [
+            { id: "setup", maxVolunteers: 1 },
+            { id: "teardown", maxVolunteers: 1 },
+          ],
+          shiftCounts: { setup: 0, teardown: 1 },
+        });
+      });
+    });
+
+    const signUpForShift = (shiftId: string, counts: Record<string, number>) => {
+      const db = asUser(VOLUNTEER);
+      return runTransaction(db, async (transaction) => {
+        transaction.set(doc(db, "participations", `${EVENT_ID}_${VOLUNTEER}`), {
+          eventId: EVENT_ID,
+          userId: VOLUNTEER,
+          status: "signed_up",
+          shiftIds: [shiftId],
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
+        transaction.update(doc(db, "events", EVENT_ID), {
+          currentVolunteers: 1,
+          ...counts,
+        });
+      });
+    };
+
+    it("accepts shift counts written together with a shift sign-up", async () => {
+      await assertSucceeds(signUpForShift("setup", { "shiftCounts.setup": 1 }));
+    });
+
+    it("rejects full shifts and counts for shifts not taken", async () => {
+      await assertFails(
+        signUpForShift("teardown", { "shiftCounts.teardown": 2 })
+      );
+      await assertFails(
+        signUpForShift("setup", {
+          "shiftCounts.setup": 1,
+          "shiftCounts.teardown": 0,
+        })
+      );
+    });
+  });
+
+  it("rejects a counter jump past one spot or past capacity", async () => {
+    const db = asUser(VOLUNTEER);
+    await assertFails(
+      runTransaction(db, async (transaction) => {
+        transaction.set(doc(db, "participations", `${EVENT_ID}_${VOLUNTEER}`), {
+          eventId: EVENT_ID,
+          userId: VOLUNTEER,
+          status: "signed_up",
+          updatedAt: serverTimestamp(),
+        });
+        transaction.update(doc(db, "events", EVENT_ID), {
+          currentVolunteers: 2,
+        });
+      })
+    );
+  });
+
+  it("lets only volunteers holding a spot tick tasks off", async () => {
+    await env.withSecurityRulesDisabled(async (context) => {
+      await setDoc(
+        doc(context.firestore(), "participations", `${EVENT_ID}_${VOLUNTEER}`),
+        { eventId: EVENT_ID, userId: VOLUNTEER, status: "signed_up" }
+      );
+    });
+    const done = { by: VOLUNTEER, at: serverTimestamp() };
+    await assertSucceeds(
+      updateDoc(doc(asUser(VOLUNTEER), "events", EVENT_ID), {
+        "taskDone.bins": done,
+      })
+    );
+    await assertFails(
+      updateDoc(doc(asUser(VOLUNTEER), "events", EVENT_ID), {
+        "taskDone.bins": done,
+        title: "Mine",
+      })
+    );
+    await assertFails(
+      updateDoc(doc(asUser(OTHER), "events", EVENT_ID), {
+        "taskDone.bins": done,
+      })
+    );
+  });
+});
+
+describe("participations", () => {
+  const participationId = `${EVENT_ID}_${VOLUNTEER}`;
+
+  it("only lets volunteers register themselves", async () => {
+    await assertFails(
+      setDoc(doc(asUser(OTHER), "participations", participationId), {
+        eventId: EVENT_ID,
+        userId: VOLUNTEER,
+        status: "signed_up",
+      })
+    );
+    await assertFails(
+      setDoc(doc(asUser(VOLUNTEER), "participations", participationId), {
+        eventId: EVENT_ID,
+        userId: VOLUNTEER,
+        status: "attended",
+      })
+    );
+  });
+
+  const setRegistration = (fields: Record<string, unknown>) =>
+    env.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), "participations", participationId), {
+        eventId: EVENT_ID,
+        userId: VOLUNTEER,
+        ...fields,
+      });
+    });
+
+  const setEvent = (fields: Record<string, unknown>) =>
+    env.withSecurityRulesDisabled(async (context) => {
+      await updateDoc(doc(context.firestore(), "events", EVENT_ID), fields);
+    });
+
+  it("cannot skip the counter when changing status", async () => {
+    const ref = doc(asUser(VOLUNTEER), "participations", participationId);
+    for (const status of ["waitlisted", "withdrawn", "no_show"]) {
+      await setRegistration({ status });
+      await assertFails(
+        updateDoc(ref, { status: "signed_up", updatedAt: serverTimestamp() })
+      );
+    }
+  });
+
+  it("lets a withdrawn volunteer sign up again with the counter", async () => {
+    await setRegistration({ status: "withdrawn", taskIds: ["bins"] });
+    const db = asUser(VOLUNTEER);
+    await assertSucceeds(
+      runTransaction(db, async (transaction) => {
+        transaction.set(doc(db, "participations", participationId), {
+          eventId: EVENT_ID,
+          userId: VOLUNTEER,
+          status: "signed_up",
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
+        transaction.update(doc(db, "events", EVENT_ID), {
+          currentVolunteers: 1,
+        });
+      })
+    );
+  });
+
+  it("only lets volunteers join the end of the waitlist", async () => {
+    await setEvent({ currentVolunteers: 2, waitlist: ["first", "second"] });
+    const db = asUser(VOLUNTEER);
+    const join = (waitlist: string[]) =>
+      runTransaction(db, async (transaction) => {
+        transaction.set(doc(db, "participations", participationId), {
+          eventId: EVENT_ID,
+          userId: VOLUNTEER,
+          status: "waitlisted",
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
+        transaction.update(doc(db, "events", EVENT_ID), { waitlist });
+      });
+    await assertFails(join([participationId, "first", "second"]));
+    await assertFails(join(["first", participationId]));
+    await assertSucceeds(join(["first", "second", participationId]));
+  });
+
+  describe("with an existing registration", () => {
+    beforeEach(async () => {
+      await setRegistration({ status: "signed_up" });
+      await setEvent({ currentVolunteers: 1 });
+    });
+
+    const withdraw = (eventFields: Record<string, unknown>) => {
+      const db = asUser(VOLUNTEER);
+      return runTransaction(db, async (transaction) => {
+        transaction.update(doc(db, "participations", participationId), {
+          status: "withdrawn",
+          updatedAt: serverTimestamp(),
+        });
+        transaction.update(doc(db, "events", EVENT_ID), eventFields);
+      });
+    };
+
+    it("lets the volunteer withdraw but not mark themselves present", async () => {
+      const db = asUser(VOLUNTEER);
+      await assertFails(
+        updateDoc(doc(db, "participations", participationId), {
+          status: "attended",
+          attendanceMarkedBy: VOLUNTEER,
+        })
+      );
+      await assertFails(
+        updateDoc(doc(db, "participations", participationId), {
+          status: "withdrawn",
+          updatedAt: serverTimestamp(),
+        })
+      );
+      await assertSucceeds(withdraw({ currentVolunteers: 0 }));
+    });
+
+    it("only frees a spot when the volunteer actually withdraws", async () => {
+      await setRegistration({ status: "attended" });
+      await assertFails(withdraw({ currentVolunteers: 0 }));
+      const db = asUser(VOLUNTEER);
+      await assertFails(
+        runTransaction(db, async (transaction) => {
+          transaction.update(doc(db, "participations", participationId), {
+            updatedAt: serverTimestamp(),
+          });
+          transaction.update(doc(db, "events", EVENT_ID), {
+            currentVolunteers: 0,
+          });
+        })
+      );
+    });
+
+    it("promotes only the head of the waitlist on withdrawal", async () => {
+      await setEvent({ currentVolunteers: 2, waitlist: ["first", "second"] });
+      await env.withSecurityRulesDisabled(async (context) => {
+        const db = context.firestore();
+        for (const id of ["first", "second"]) {
+          await setDoc(doc(db, "participations", id), {
+            eventId: EVENT_ID,
+            userId: id,
+            status: "waitlisted",
+          });
+        }
+      });
+      const db = asUser(VOLUNTEER);
+      const promote = (promoted: string, waitlist: string[]) =>
+        runTransaction(db, async (transaction) => {
+          transaction.update(doc(db, "participations", participationId), {
+            status: "withdrawn",
+            updatedAt: serverTimestamp(),
+          });
+          transaction.update(doc(db, "participations", promoted), {
+            status: "signed_up",
+            updatedAt: serverTimestamp(),
+          });
+          transaction.update(doc(db, "events", EVENT_ID), {
+            currentVolunteers: 2,
+            waitlist,
+          });
+        });
+      await assertFails(withdraw({ currentVolunteers: 1, waitlist: [] }));
+      await assertFails(promote("second", ["first"]));
+      await assertSucceeds(promote("first", ["second"]));
+    });
+
+    describe("with tasks", () => {
+      const tasks = [{ id: "bins", title: "Empty bins", headcount: 1 }];
+
+      const claim = (
+        taskIds: string[],
+        taskCounts?: Record<string, number>
+      ) => {
+        const db = asUser(VOLUNTEER);
+        return runTransaction(db, async (transaction) => {
+          transaction.update(doc(db, "participations", participationId), {
+            taskIds,
+            updatedAt: serverTimestamp(),
+          });
+          if (taskCounts) {
+            transaction.update(doc(db, "events", EVENT_ID), { taskCounts });
+          }
+        });
+      };
+
+      it("counts claims on the event within the headcount", async () => {
+        await setEvent({ tasks, taskCounts: {} });
+        await assertFails(claim(["bins"]));
+        await assertFails(claim(["bins"], { bins: 2 }));
+        await assertSucceeds(claim(["bins"], { bins: 1 }));
+      });
+
+      it("rejects a claim on a fully staffed task", async () => {
+        await setEvent({ tasks, taskCounts: { bins: 1 } });
+        await assertFails(claim(["bins"], { bins: 2 }));
+      });
+
+      it("releases claimed tasks on withdrawal", async () => {
+        await setRegistration({ status: "signed_up", taskIds: ["bins"] });
+        await setEvent({ tasks, taskCounts: { bins: 1 } });
+        await assertFails(withdraw({ currentVolunteers: 0 }));
+        await assertSucceeds(
+          withdraw({ currentVolunteers: 0, taskCounts: { bins: 0 } })
+        );
+      });
+    });
+
+    describe("with a bring list", () => {
+      const bringList = [{ id: "rakes", name: "Rakes", quantity: 2 }];
+
+      const commit = (
+        bringing: Record<string, number>,
+        bringCounts?: Record<string, number>
+      ) => {
+        const db = asUser(VOLUNTEER);
+        return runTransaction(db, async (transaction) => {
+          transaction.update(doc(db, "participations", participationId), {
+            bringing,
+            updatedAt: serverTimestamp(),
+          });
+          if (bringCounts) {
+            transaction.update(doc(db, "events", EVENT_ID), { bringCounts });
+          }
+        });
+      };
+
+      it("counts commitments on the event within the quantity", async () => {
+        await setEvent({ bringList, bringCounts: {} });
+        await assertFails(commit({ rakes: 1 }));
+        await assertFails(commit({ rakes: 1 }, { rakes: 2 }));
+        await assertFails(commit({ rakes: 3 }, { rakes: 3 }));
+        await assertSucceeds(commit({ rakes: 2 }, { rakes: 2 }));
+      });
+
+      it("releases commitments on withdrawal", async () => {
+        await setRegistration({ status: "signed_up", bringing: { rakes: 1 } });
+        await setEvent({ bringList, bringCounts: { rakes: 1 } });
+        await assertFails(withdraw({ currentVolunteers: 0 }));
+        await assertSucceeds(
+          withdraw({ currentVolunteers: 0, bringCounts: { rakes: 0 } })
+        );
+      });
+    });
+
+    it("keeps attendance and check-in times out of the volunteer's hands", async () => {
+      await setRegistration({
+        status: "attended",
+        checkInAt: Timestamp.fromMillis(Date.now() - 3_600_000),
+        attendanceMarkedBy: ORGANISER,
+        shiftIds: ["setup"],
+      });
+      const ref = doc(asUser(VOLUNTEER), "participations", participationId);
+      for (const fields of [
+        { checkInAt: Timestamp.fromMillis(Date.now() - 36_000_000) },
+        { attendanceMarkedAt: serverTimestamp() },
+        { attendanceMarkedBy: VOLUNTEER },
+        { shiftIds: ["teardown"] },
+      ]) {
+        await assertFails(
+          updateDoc(ref, { ...fields, updatedAt: serverTimestamp() })
+        );
+      }
+    });
+
+    it("does not let the volunteer edit their own hours", async () => {
+      await assertFails(
+        updateDoc(doc(asUser(VOLUNTEER), "participations", participationId), {
+          hoursOverride: 8,
+        })
+      );
+    });
+
+    it("lets the volunteer check in with a live token", async () => {
+      await env.withSecurityRulesDisabled(async (context) => {
+        const db = context.firestore();
+        await setDoc(doc(db, "checkInTokens", "live"), {
+          eventId: EVENT_ID,
+          createdBy: ORGANISER,
+          expiresAt: Timestamp.fromMillis(Date.now() + 60_000),
+        });
+        await setDoc(doc(db, "checkInTokens", "stale"), {
+          eventId: EVENT_ID,
+          createdBy: ORGANISER,
+          expiresAt: Timestamp.fromMillis(Date.now() - 60_000),
+        });
+      });
+      const ref = doc(asUser(VOLUNTEER), "participations", participationId);
+      const checkIn = (token: string) =>
+        updateDoc(ref, {
+          status: "attended",
+          attendanceMarkedBy: VOLUNTEER,
+          attendanceMarkedAt: serverTimestamp(),
+          checkInAt: serverTimestamp(),
+          checkInToken: token,
+          updatedAt: serverTimestamp(),
+        });
+      await assertFails(checkIn("stale"));
+      await assertSucceeds(checkIn("live"));
+      // Checking in again would restart the clock.
+      await assertFails(checkIn("live"));
+    });
+
+    it("lets the organiser mark attendance and adjust hours", async () => {
+      const ref = doc(asUser(ORGANISER), "participations", participationId);
+      await assertSucceeds(
+        updateDoc(ref, {
+          status: "attended",
+          attendanceMarkedBy: ORGANISER,
+          hoursOverride: 3,
+        })
+      );
+    });
+
+    it("blocks other volunteers from touching the registration", async () => {
+      await assertFails(
+        updateDoc(doc(asUser(OTHER), "participations", participationId), {
+          status: "withdrawn",
+        })
+      );
+      await assertFails(
+        deleteDoc(doc(asUser(OTHER), "participations", participationId))
+      );
+    });
+  });
+});
+
+describe("comments", () => {
+  const commentPath = `events/${EVENT_ID}/comments`;
+
+  it("requires the author id to match the caller", async () => {
+    const db = asUser(VOLUNTEER);
+    await assertSucceeds(
+      addDoc(collection(db, commentPath), { userId: VOLUNTEER, text: "Hi" })
+    );
+    await assertFails(
+      addDoc(collection(db, commentPath), { userId: OTHER, text: "Hi" })
+    );
+    await assertFails(
+      addDoc(collection(db, commentPath), { userId: VOLUNTEER, text: "" })
+    );
+  });
+
+  it("lets the author or the event owner delete a comment", async () => {
+    await env.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      await setDoc(doc(db, commentPath, "a"), { userId: VOLUNTEER, text: "A" });
+      await setDoc(doc(db, commentPath, "b"), { userId: VOLUNTEER, text: "B" });
+    });
+    await assertFails(deleteDoc(doc(asUser(OTHER), commentPath, "a")));
+    await assertSucceeds(deleteDoc(doc(asUser(VOLUNTEER), commentPath, "a")));
+    await assertSucceeds(deleteDoc(doc(asUser(ORGANISER), commentPath, "b")));
+  });
+
+  it("allows replies to top-level comments only", async () => {
+    await env.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      await setDoc(doc(db, commentPath, "a"), { userId: VOLUNTEER, text: "A" });
+      await setDoc(doc(db, commentPath, "r"), {
+        userId: OTHER,
+        text: "R",
+        parentId: "a",
+      });
+    });
+    const db = asUser(OTHER);
+    await assertSucceeds(
+      addDoc(collection(db, commentPath), {
+        userId: OTHER,
+        text: "Reply",
+        parentId: "a",
+      })
+    );
+    await assertFails(
+      addDoc(collection(db, commentPath), {
+        userId: OTHER,
+        text: "Nested",
+        parentId: "r",
+      })
+    );
+    await assertFails(
+      addDoc(collection(db, commentPath), {
+        userId: OTHER,
+        text: "Orphan",
+        parentId: "missing",
+      })
+    );
+    // The thread starter may clear replies in their thread.
+    await assertSucceeds(deleteDoc(doc(asUser(VOLUNTEER), commentPath, "r")));
+  });
+
+  it("lets only the author edit, keeping history for the owner", async () => {
+    await env.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), commentPath, "a"), {
+        userId: VOLUNTEER,
+        text: "A",
+      });
+    });
+    const edit = { text: "B", editedAt: serverTimestamp() };
+    await assertFails(updateDoc(doc(asUser(OTHER), commentPath, "a"), edit));
+    await assertFails(
+      updateDoc(doc(asUser(VOLUNTEER), commentPath, "a"), {
+        ...edit,
+        userName: "Someone else",
+      })
+    );
+    await assertSucceeds(
+      updateDoc(doc(asUser(VOLUNTEER), commentPath, "a"), edit)
+    );
+
+    const historyPath = `${commentPath}/a/history`;
+    const revision = { text: "A", editedAt: serverTimestamp() };
+    await assertFails(
+      addDoc(collection(asUser(OTHER), historyPath), {
+        ...revision,
+        editedBy: OTHER,
+      })
+    );
+    await assertSucceeds(
+      setDoc(doc(asUser(VOLUNTEER), historyPath, "h1"), {
+        ...revision,
+        editedBy: VOLUNTEER,
+      })
+    );
+    await assertFails(getDoc(doc(asUser(OTHER), historyPath, "h1")));
+    await assertSucceeds(getDoc(doc(asUser(ORGANISER), historyPath, "h1")));
+  });
+
+  it("lets users toggle only their own reactions", async () => {
+    await env.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), commentPath, "a"), {
+        userId: VOLUNTEER,
+        text: "A",
+        reactions: { heart: [VOLUNTEER] },
+      });
+    });
+    const db = asUser(OTHER);
+    await assertSucceeds(
+      updateDoc(doc(db, commentPath, "a"), {
+        "reactions.thumbs_up": arrayUnion(OTHER),
+      })
+    );
+    await assertSucceeds(
+      updateDoc(doc(db, commentPath, "a"), {
+        "reactions.thumbs_up": arrayRemove(OTHER),
+      })
+    );
+    await assertFails(
+      updateDoc(doc(db, commentPath, "a"), {
+        "reactions.heart": arrayRemove(VOLUNTEER),
+      })
+    );
+    await assertFails(
+      updateDoc(doc(db, commentPath, "a"), {
+        "reactions.party": arrayUnion(OTHER),
+      })
+    );
+  });
+
+  it("lets only the event owner hide a comment", async () => {
+    await env.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), commentPath, "a"), {
+        userId: VOLUNTEER,
+        text: "A",
+        reportCount: 2,
+      });
+    });
+    await assertFails(
+      updateDoc(doc(asUser(VOLUNTEER), commentPath, "a"), { hidden: true })
+    );
+    await assertFails(
+      addDoc(collection(asUser(VOLUNTEER), commentPath), {
+        userId: VOLUNTEER,
+        text: "Pre-hidden",
+        hidden: false,
+      })
+    );
+    const db = asUser(ORGANISER);
+    // The text has to move out of the comment with it.
+    await assertFails(
+      updateDoc(doc(db, commentPath, "a"), {
+        hidden: true,
+        hiddenBy: ORGANISER,
+        hiddenAt: serverTimestamp(),
+      })
+    );
+    const hide = writeBatch(db);
+    hide.set(doc(db, commentPath, "a", "hiddenContent", "text"), {
+      text: "A",
+      mentions: [],
+    });
+    hide.update(doc(db, commentPath, "a"), {
+      text: "",
+      mentions: [],
+      hidden: true,
+      hiddenBy: ORGANISER,
+      hiddenAt: serverTimestamp(),
+    });
+    await assertSucceeds(hide.commit());
+    await assertFails(
+      updateDoc(doc(db, commentPath, "a"), { reportCount: 5 })
+    );
+    const show = writeBatch(db);
+    show.delete(doc(db, commentPath, "a", "hiddenContent", "text"));
+    show.update(doc(db, commentPath, "a"), {
+      text: "A",
+      mentions: [],
+      hidden: false,
+      reportCount: 0,
+    });
+    await assertSucceeds(show.commit());
+  });
+
+  it("shows a hidden comment's text only to the event owner and the author", async () => {
+    await env.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      await setDoc(doc(db, commentPath, "a"), {
+        userId: VOLUNTEER,
+        text: "",
+        mentions: [],
+        hidden: true,
+      });
+      await setDoc(doc(db, commentPath, "a", "hiddenContent", "text"), {
+        text: "Rude",
+        mentions: [],
+      });
+    });
+    const contentPath = `${commentPath}/a/hiddenContent/text`;
+    await assertSucceeds(getDoc(doc(asUser(ORGANISER), contentPath)));
+    await assertSucceeds(getDoc(doc(asUser(VOLUNTEER), contentPath)));
+    await assertFails(getDoc(doc(asUser(OTHER), contentPath)));
+    await assertFails(
+      updateDoc(doc(asUser(VOLUNTEER), commentPath, "a"), {
+        text: "Rude again",
+        mentions: [],
+        editedAt: serverTimestamp(),
+      })
+    );
+  });
+
+  it("caps the number of mentions in a comment", async () => {
+    const db = asUser(VOLUNTEER);
+    const ids = (count: number) =>
+      Array.from({ length: count }, (_, index) => `user-${index}`);
+    await assertSucceeds(
+      addDoc(collection(db, commentPath), {
+        userId: VOLUNTEER,
+        text: "Hi",
+        mentions: ids(10),
+      })
+    );
+    await assertFails(
+      addDoc(collection(db, commentPath), {
+        userId: VOLUNTEER,
+        text: "Hi",
+        mentions: ids(11),
+      })
+    );
+  });
+
+  it("lets only the event owner answer questions", async () => {
+    await env.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), commentPath, "q"), {
+        userId: VOLUNTEER,
+        text: "Is there parking?",
+      });
+    });
+    const answer = (answeredBy: string) => ({
+      question: true,
+      answer: { text: "Yes", answeredBy, answeredAt: serverTimestamp() },
+    });
+    await assertFails(
+      updateDoc(doc(asUser(VOLUNTEER), commentPath, "q"), answer(VOLUNTEER))
+    );
+    await assertFails(
+      updateDoc(doc(asUser(ORGANISER), commentPath, "q"), answer(VOLUNTEER))
+    );
+    await assertSucceeds(
+      updateDoc(doc(asUser(ORGANISER), commentPath, "q"), answer(ORGANISER))
+    );
+    await assertFails(
+      addDoc(collection(asUser(VOLUNTEER), commentPath), {
+        userId: VOLUNTEER,
+        text: "Self-answered",
+        question: true,
+      })
+    );
+  });
+
+  describe("pinned to the FAQ", () => {
+    const pinned = {
+      commentId: "q",
+      question: "Is there parking?",
+      answer: "Yes",
+    };
+    const other = { commentId: "p", question: "Gloves?", answer: "Bring some" };
+
+    beforeEach(async () => {
+      await env.withSecurityRulesDisabled(async (context) => {
+        const db = context.firestore();
+        await setDoc(doc(db, commentPath, "q"), {
+          userId: VOLUNTEER,
+          text: "Is there parking?",
+          question: true,
+        });
+        await updateDoc(doc(db, "events", EVENT_ID), { faq: [pinned, other] });
+      });
+    });
+
+    it("lets the author drop the FAQ entry along with the question", async () => {
+      const db = asUser(VOLUNTEER);
+      await assertFails(
+        updateDoc(doc(db, "events", EVENT_ID), { faq: [other] })
+      );
+      const batch = writeBatch(db);
+      batch.delete(doc(db, commentPath, "q"));
+      batch.update(doc(db, "events", EVENT_ID), { faq: [other] });
+      await assertSucceeds(batch.commit());
+    });
+
+    it("lets the author's edit refresh the question, not the answer", async () => {
+      const db = asUser(VOLUNTEER);
+      const edit = (entry: typeof pinned) => {
+        const batch = writeBatch(db);
+        batch.update(doc(db, commentPath, "q"), {
+          text: "Where can I park?",
+          editedAt: serverTimestamp(),
+        });
+        batch.update(doc(db, "events", EVENT_ID), { faq: [entry, other] });
+        return batch.commit();
+      };
+      await assertFails(
+        edit({ ...pinned, question: "Where can I park?", answer: "No" })
+      );
+      await assertSucceeds(edit({ ...pinned, question: "Where can I park?" }));
+      await assertFails(
+        updateDoc(doc(db, "events", EVENT_ID), {
+          faq: [{ ...pinned, question: "Unedited" }, other],
+        })
+      );
+    });
+  });
+});
+
+describe("comment reports", () => {
+  const commentPath = `events/${EVENT_ID}/comments`;
+  const reportId = (reporterId: string) => `${EVENT_ID}_a_${reporterId}`;
+  const report = (reporterId: string) => ({
+    eventId: EVENT_ID,
+    commentId: "a",
+    eventOwnerId: ORGANISER,
+    reporterId,
+    reason: "spam",
+    status: "open",
+    createdAt: serverTimestamp(),
+  });
+
+  const fileReport = (reporterId: string) => {
+    const db = asUser(reporterId);
+    const batch = writeBatch(db);
+    batch.set(
+      doc(db, "commentReports", reportId(reporterId)),
+      report(reporterId)
+    );
+    batch.update(doc(db, commentPath, "a"), { reportCount: increment(1) });
+    return batch.commit();
+  };
+
+  beforeEach(async () => {
+    await env.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), commentPath, "a"), {
+        userId: VOLUNTEER,
+        text: "A",
+      });
+    });
+  });
+
+  it("counts each user's report once", async () => {
+    await assertSucceeds(fileReport(OTHER));
+    await assertFails(fileReport(OTHER));
+    // The count only moves together with a report.
+    await assertFails(
+      updateDoc(doc(asUser(VOLUNTEER), commentPath, "a"), {
+        reportCount: increment(1),
+      })
+    );
+  });
+
+  it("rejects reports filed for someone else or another owner", async () => {
+    const db = asUser(OTHER);
+    await assertFails(
+      setDoc(doc(db, "commentReports", reportId(VOLUNTEER)), report(VOLUNTEER))
+    );
+    await assertFails(
+      setDoc(doc(db, "commentReports", reportId(OTHER)), {
+        ...report(OTHER),
+        eventOwnerId: OTHER,
+      })
+    );
+  });
+
+  it("lets the event owner resolve but never delete reports", async () => {
+    await assertSucceeds(fileReport(OTHER));
+    const reportRef = (uid: string) =>
+      doc(asUser(uid), "commentReports", reportId(OTHER));
+    await assertFails(getDoc(reportRef(VOLUNTEER)));
+    await assertSucceeds(getDoc(reportRef(ORGANISER)));
+    await assertFails(
+      updateDoc(reportRef(OTHER), {
+        status: "resolved",
+        resolvedAt: serverTimestamp(),
+      })
+    );
+    await assertSucceeds(
+      updateDoc(reportRef(ORGANISER), {
+        status: "resolved",
+        resolvedAt: serverTimestamp(),
+      })
+    );
+    await assertFails(deleteDoc(reportRef(ORGANISER)));
+  });
+});
+
+describe("announcements", () => {
+  const announcementPath = `events/${EVENT_ID}/announcements`;
+  const announcement = {
+    message: "Bring gloves",
+    recipientIds: [VOLUNTEER],
+    readBy: [],
+  };
+
+  it("only lets the event owner post announcements", async () => {
+    await assertFails(
+      addDoc(collection(asUser(VOLUNTEER), announcementPath), {
+        ...announcement,
+        senderId: VOLUNTEER,
+      })
+    );
+    await assertSucceeds(
+      addDoc(collection(asUser(ORGANISER), announcementPath), {
+        ...announcement,
+        senderId: ORGANISER,
+      })
+    );
+  });
+
+  it("lets recipients mark only themselves as having read it", async () => {
+    await env.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), announcementPath, "a1"), {
+        ...announcement,
+        senderId: ORGANISER,
+      });
+    });
+    await assertFails(
+      updateDoc(doc(asUser(OTHER), announcementPath, "a1"), {
+        readBy: [OTHER],
+      })
+    );
+    await assertFails(
+      updateDoc(doc(asUser(VOLUNTEER), announcementPath, "a1"), {
+        readBy: [VOLUNTEER, OTHER],
+      })
+    );
+    await assertFails(
+      updateDoc(doc(asUser(VOLUNTEER), announcementPath, "a1"), {
+        message: "Changed",
+      })
+    );
+    await assertSucceeds(
+      updateDoc(doc(asUser(VOLUNTEER), announcementPath, "a1"), {
+        readBy: [VOLUNTEER],
+      })
+    );
+  });
+});
+
+describe("favorites", () => {
+  it("only lets users save favourites for themselves", async () => {
+    const db = asUser(VOLUNTEER);
+    await assertSucceeds(
+      addDoc(collection(db, "favorites"), { userId: VOLUNTEER, eventId: EVENT_ID })
+    );
+    await assertFails(
+      addDoc(collection(db, "favorites"), { userId: OTHER, eventId: EVENT_ID })
+    );
+  });
+});
+
+describe("check-in tokens", () => {
+  it("only lets the event owner issue tokens", async () => {
+    const token = {
+      eventId: EVENT_ID,
+      expiresAt: Timestamp.fromMillis(Date.now() + 60_000),
+    };
+    await assertFails(
+      addDoc(collection(asUser(VOLUNTEER), "checkInTokens"), {
+        ...token,
+        createdBy: VOLUNTEER,
+      })
+    );
+    await assertSucceeds(
+      addDoc(collection(asUser(ORGANISER), "checkInTokens"), {
+        ...token,
+        createdBy: ORGANISER,
+      })
+    );
+  });
+
+  it("lets volunteers open a scanned token but not list them", async () => {
+    await env.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), "checkInTokens", "live"), {
+        eventId: EVENT_ID,
+        createdBy: ORGANISER,
+        expiresAt: Timestamp.fromMillis(Date.now() + 60_000),
+      });
+    });
+    await assertSucceeds(
+      getDoc(doc(asUser(VOLUNTEER), "checkInTokens", "live"))
+    );
+    await assertFails(
+      getDocs(
+        query(
+          collection(asUser(VOLUNTEER), "checkInTokens"),
+          where("eventId", "==", EVENT_ID)
+        )
+      )
+    );
+    await assertSucceeds(
+      getDocs(
+        query(
+          collection(asUser(ORGANISER), "checkInTokens"),
+          where("eventId", "==", EVENT_ID),
+          where("createdBy", "==", ORGANISER)
+        )
+      )
+    );
+  });
+});
+
+describe("notifications", () => {
+  const notice = {
+    userId: VOLUNTEER,
+    type: "event_cancelled",
+    eventId: EVENT_ID,
+    read: false,
+  };
+
+  it("only lets the event owner send notices about it", async () => {
+    await assertFails(
+      addDoc(collection(asUser(OTHER), "notifications"), {
+        ...notice,
+        senderId: OTHER,
+      })
+    );
+    await assertSucceeds(
+      addDoc(collection(asUser(ORGANISER), "notifications"), {
+        ...notice,
+        senderId: ORGANISER,
+      })
+    );
+  });
+
+  it("lets only the recipient read or mark a notice as read", async () => {
+    await env.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), "notifications", "n1"), {
+        ...notice,
+        senderId: ORGANISER,
+      });
+    });
+    await assertFails(getDoc(doc(asUser(OTHER), "notifications", "n1")));
+    await assertSucceeds(getDoc(doc(asUser(VOLUNTEER), "notifications", "n1")));
+    await assertFails(
+      updateDoc(doc(asUser(VOLUNTEER), "notifications", "n1"), {
+        eventId: "other",
+      })
+    );
+    await assertSucceeds(
+      updateDoc(doc(asUser(VOLUNTEER), "notifications", "n1"), { read: true })
+    );
+  });
+});
+
+describe("conversations", () => {
+  const conversationId = `${EVENT_ID}_${VOLUNTEER}`;
+  const conversation = {
+    eventId: EVENT_ID,
+    eventTitle: "Spring clean-up",
+    organiserId: ORGANISER,
+    volunteerId: VOLUNTEER,
+    participationId: conversationId,
+    participants: [ORGANISER, VOLUNTEER],
+  };
+
+  beforeEach(async () => {
+    await env.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), "participations", conversationId), {
+        eventId: EVENT_ID,
+        userId: VOLUNTEER,
+        status: "signed_up",
+      });
+    });
+  });
+
+  it("lets only the organiser or the volunteer start it", async () => {
+    await assertFails(
+      setDoc(doc(asUser(OTHER), "conversations", conversationId), {
+        ...conversation,
+        createdAt: serverTimestamp(),
+      })
+    );
+    await assertFails(
+      setDoc(doc(asUser(OTHER), "conversations", `${EVENT_ID}_${OTHER}`), {
+        ...conversation,
+        volunteerId: OTHER,
+        participants: [ORGANISER, OTHER],
+        createdAt: serverTimestamp(),
+      })
+    );
+    await assertSucceeds(
+      setDoc(doc(asUser(VOLUNTEER), "conversations", conversationId), {
+        ...conversation,
+        createdAt: serverTimestamp(),
+      })
+    );
+  });
+
+  describe("once started", () => {
+    beforeEach(async () => {
+      await env.withSecurityRulesDisabled(async (context) => {
+        await setDoc(doc(context.firestore(), "conversations", conversationId), {
+          ...conversation,
+          createdAt: Timestamp.now(),
+        });
+      });
+    });
+
+    it("keeps it private to the two participants", async () => {
+      await assertFails(
+        getDoc(doc(asUser(OTHER), "conversations", conversationId))
+      );
+      await assertSucceeds(
+        getDoc(doc(asUser(ORGANISER), "conversations", conversationId))
+      );
+      const ref = doc(asUser(OTHER), "conversations", conversationId);
+      await assertFails(
+        addDoc(collection(ref, "messages"), {
+          senderId: OTHER,
+          text: "Hi",
+          createdAt: serverTimestamp(),
+        })
+      );
+    });
+
+    it("counts a message as unread for the other participant", async () => {
+      const db = asUser(VOLUNTEER);
+      const ref = doc(db, "conversations", conversationId);
+      const send = (unreadFor: string) => {
+        const batch = writeBatch(db);
+        batch.set(doc(collection(ref, "messages")), {
+          senderId: VOLUNTEER,
+          text: "Can I bring my dog?",
+          createdAt: serverTimestamp(),
+        });
+        batch.update(ref, {
+          lastMessage: "Can I bring my dog?",
+          lastMessageAt: serverTimestamp(),
+          lastSenderId: VOLUNTEER,
+          [`unreadCounts.${unreadFor}`]: increment(1),
+        });
+        return batch.commit();
+      };
+      await assertFails(send(VOLUNTEER));
+      await assertSucceeds(send(ORGANISER));
+      await assertFails(
+        updateDoc(ref, { [`unreadCounts.${ORGANISER}`]: 0 })
+      );
+      await assertSucceeds(
+        updateDoc(doc(asUser(ORGANISER), "conversations", conversationId), {
+          [`unreadCounts.${ORGANISER}`]: 0,
+        })
+      );
+    });
+
+    it("never deletes it", async () => {
+      await assertFails(
+        deleteDoc(doc(asUser(ORGANISER), "conversations", conversationId))
+      );
+    });
+  });
+});
+
+describe("calendar feeds", () => {
+  it("keeps a feed token visible to its owner only", async () => {
+    await assertFails(
+      setDoc(doc(asUser(OTHER), "calendarFeeds", "feed-1"), {
+        userId: VOLUNTEER,
+      })
+    );
+    await assertSucceeds(
+      setDoc(doc(asUser(VOLUNTEER), "calendarFeeds", "feed-1"), {
+        userId: VOLUNTEER,
+      })
+    );
+    await assertFails(getDoc(doc(asUser(OTHER), "calendarFeeds", "feed-1")));
+    await assertSucceeds(
+      getDoc(doc(asUser(VOLUNTEER), "calendarFeeds", "feed-1"))
+    );
+    await assertFails(
+      deleteDoc(doc(asUser(OTHER), "calendarFeeds", "feed-1"))
+    );
+    await assertSucceeds(
+      deleteDoc(doc(asUser(VOLUNTEER), "calendarFeeds", "feed-1"))
+    );
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Storage rules tests
+ * -------------------
+ * Runs against the Storage and Firestore emulators via `npm run test:rules`.
+ * Event images may only be uploaded by the organiser who owns the event.
+ */
+import { after, before, beforeEach, describe, it } from "node:test";
+import { readFileSync } from "node:fs";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import { doc, setDoc } from "firebase/firestore";
+import { getBytes, ref, uploadBytes } from "firebase/storage";
+
+const ORGANISER = "organiser-1";
+const VOLUNTEER = "volunteer-1";
+const EVENT_ID = "event-1";
+const IMAGE = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+
+let env: RulesTestEnvironment;
+
+const storageAs = (uid: string) => env.authenticatedContext(uid).storage();
+
+before(async () => {
+  env = await initializeTestEnvironment({
+    projectId: "demo-dugnadhub",
+    firestore: { rules: readFileSync("firestore.rules", "utf8") },
+    storage: { rules: readFileSync("storage.rules", "utf8") },
+  });
+});
+
+after(async () => {
+  await env.cleanup();
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await env.clearStorage();
+  await env.withSecurityRulesDisabled(async (context) => {
+    await setDoc(doc(context.firestore(), "events", EVENT_ID), {
+      title: "Spring clean-up",
+      createdBy: ORGANISER,
+      maxVolunteers: 2,
+      currentVolunteers: 0,
+    });
+  });
+});
+
+describe("event images", () => {
+  const path = `events/${EVENT_ID}/cover.png`;
+
+  it("lets the event owner upload images", async () => {
+    await assertSucceeds(
+      uploadBytes(ref(storageAs(ORGANISER), path), IMAGE, {
+        contentType: "image/png",
+      })
+    );
+  });
+
+  it("rejects uploads from other users", async () => {
+    await assertFails(
+      uploadBytes(ref(storageAs(VOLUNTEER), path), IMAGE, {
+        contentType: "image/png",
+      })
+    );
+  });
+
+  it("rejects files that are not images", async () => {
+    await assertFails(
+      uploadBytes(ref(storageAs(ORGANISER), `events/${EVENT_ID}/notes.txt`), IMAGE, {
+        contentType: "text/plain",
+      })
+    );
+  });
+
+  it("lets signed-in users view images but not anonymous callers", async () => {
+    await env.withSecurityRulesDisabled(async (context) => {
+      await uploadBytes(ref(context.storage(), path), IMAGE, {
+        contentType: "image/png",
+      });
+    });
+    await assertSucceeds(getBytes(ref(storageAs(VOLUNTEER), path)));
+    await assertFails(
+      getBytes(ref(env.unauthenticatedContext().storage(), path))
+    );
+  });
+
+  it("blocks uploads outside the events folder", async () => {
+    await assertFails(
+      uploadBytes(ref(storageAs(ORGANISER), "misc/cover.png"), IMAGE, {
+        contentType: "image/png",
+      })
+    );
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Comment filter tests
+ * --------------------
+ * Runs with `npm test`. The app and the functions share these checks.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  COMMENT_RATE_LIMIT,
+  containsBlockedWord,
+  parseBlockedWords,
+  recentCommentCount,
+} from "../../src/services/commentFilter";
+
+describe("containsBlockedWord", () => {
+  const blocked = parseBlockedWords(" Spam, buy now ,,");
+
+  it("matches whole words and phrases regardless of case and punctuation", () => {
+    assert.equal(containsBlockedWord("Great SPAM!", blocked), true);
+    assert.equal(containsBlockedWord("Buy... now", blocked), true);
+    assert.equal(containsBlockedWord("Spammer", blocked), false);
+    assert.equal(containsBlockedWord("buy it now", blocked), false);
+  });
+
+  it("lets everything through without a list", () => {
+    assert.equal(containsBlockedWord("spam", parseBlockedWords(undefined)), false);
+  });
+});
+
+describe("recentCommentCount", () => {
+  it("counts only comments within the window", () => {
+    const now = Date.now();
+    const times = [0, 1, COMMENT_RATE_LIMIT.windowMs + 1].map(
+      (ago) => new Date(now - ago)
+    );
+    assert.equal(recentCommentCount(times, now), 2);
+  });
+});
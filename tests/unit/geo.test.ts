@@ -0,0 +1,65 @@
+/**
+ * Geo tests
+ * ---------
+ * Runs with `npm test`. Checks the distance math behind "near me" and the
+ * stub geocoder used for tests and local development.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  createStubGeocodingProvider,
+  distanceKm,
+  nearestFirst,
+  STUB_PLACES,
+} from "../../src/services/geo";
+
+const { Oslo, Bergen, Trondheim } = STUB_PLACES;
+
+describe("distanceKm", () => {
+  it("measures great-circle distances in kilometres", () => {
+    assert.equal(distanceKm(Oslo, Oslo), 0);
+    assert.ok(Math.abs(distanceKm(Oslo, Bergen) - 305) < 5);
+    assert.ok(Math.abs(distanceKm(Oslo, Trondheim) - 392) < 5);
+    assert.equal(distanceKm(Bergen, Oslo), distanceKm(Oslo, Bergen));
+  });
+});
+
+describe("nearestFirst", () => {
+  it("sorts by distance, unplaced items last in their original order", () => {
+    const sorted = nearestFirst([
+      { id: "a" },
+      { id: "b", distance: 12 },
+      { id: "c" },
+      { id: "d", distance: 3 },
+    ]);
+    assert.deepEqual(sorted.map(({ id }) => id), ["d", "b", "a", "c"]);
+  });
+});
+
+describe("createStubGeocodingProvider", () => {
+  const provider = createStubGeocodingProvider();
+
+  it("finds known places named in the address, regardless of case", async () => {
+    assert.deepEqual(await provider.geocode("Karl Johans gate 1, OSLO"), [
+      Oslo,
+    ]);
+    assert.deepEqual(await provider.geocode("Somewhere else"), []);
+    assert.deepEqual(await provider.geocode("  "), []);
+  });
+
+  it("reverse geocodes to the nearest place within 10 km", async () => {
+    const nearBergen = { latitude: 60.4, longitude: 5.33 };
+    assert.equal(await provider.reverseGeocode(nearBergen), "Bergen");
+    assert.equal(
+      await provider.reverseGeocode({ latitude: 62, longitude: 8 }),
+      null
+    );
+  });
+
+  it("uses the places it is given", async () => {
+    const custom = createStubGeocodingProvider({ Home: Bergen });
+    assert.deepEqual(await custom.geocode("Home sweet home"), [Bergen]);
+    assert.deepEqual(await custom.geocode("Oslo"), []);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Calendar export tests
+ * ---------------------
+ * Runs with `npm test`.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  buildCalendar,
+  eventDescription,
+  formatFaq,
+} from "../../src/services/ics";
+
+describe("formatFaq", () => {
+  const faq = [
+    { question: "Can @[user-1] bring a ladder?", answer: "Yes" },
+    { question: "Parking?", answer: "Behind the school" },
+  ];
+
+  it("labels each pair and spells out mentions left in the text", () => {
+    assert.equal(
+      formatFaq(faq, { question: "Q", answer: "A", unknownUser: "someone" }),
+      "Q: Can @someone bring a ladder?\nA: Yes\n\n" +
+        "Q: Parking?\nA: Behind the school"
+    );
+  });
+
+  it("follows the description in calendar exports", () => {
+    assert.equal(
+      eventDescription("Spring cleanup", faq.slice(1)),
+      "Spring cleanup\n\nQ: Parking?\nA: Behind the school"
+    );
+  });
+});
+
+describe("buildCalendar", () => {
+  const entry = {
+    uid: "event-1@dugnadhub",
+    title: "Spring cleanup",
+    description: "",
+    location: "",
+    start: new Date("2026-05-14T18:00:00+02:00"),
+    end: new Date("2026-05-14T21:00:00+02:00"),
+  };
+  const now = new Date("2026-05-01T08:30:00Z");
+
+  const build = (entries = [entry]) =>
+    buildCalendar(entries, {}, now).split("\r\n");
+
+  // Joins folded lines back together, as calendar clients do.
+  const unfold = (lines: string[]) =>
+    lines.join("\r\n").replace(/\r\n /g, "").split("\r\n");
+
+  it("writes start and end times in UTC", () => {
+    const lines = build();
+    assert.ok(lines.includes("DTSTAMP:20260501T083000Z"));
+    assert.ok(lines.includes("DTSTART:20260514T160000Z"));
+    assert.ok(lines.includes("DTEND:20260514T190000Z"));
+  });
+
+  it("escapes commas, semicolons, backslashes and newlines in text", () => {
+    const lines = build([
+      { ...entry, title: "Rake, bag; sort\\sweep", description: "A\nB\r\nC" },
+    ]);
+    assert.ok(lines.includes("SUMMARY:Rake\\, bag\\; sort\\\\sweep"));
+    assert.ok(lines.includes("DESCRIPTION:A\\nB\\nC"));
+  });
+
+  it("folds lines at 75 octets without splitting characters", () => {
+    const description =
+      "Bring spade, rake and gloves. ".repeat(4) + "ø🌱".repeat(30);
+    const lines = build([{ ...entry, description }]);
+    lines.forEach((line) =>
+      assert.ok(Buffer.byteLength(line) <= 75, `too long: ${line}`)
+    );
+    const start = lines.findIndex((line) => line.startsWith("DESCRIPTION:"));
+    assert.ok(lines[start + 1].startsWith(" "));
+    const escaped = description.replace(/,/g, "\\,");
+    assert.ok(unfold(lines).includes(`DESCRIPTION:${escaped}`));
+  });
+
+  it("leaves cancelled events out", () => {
+    const text = buildCalendar(
+      [entry, { ...entry, uid: "event-2@dugnadhub", cancelled: true }],
+      {},
+      now
+    );
+    assert.ok(text.includes("UID:event-1@dugnadhub"));
+    assert.ok(!text.includes("event-2@dugnadhub"));
+    assert.equal(text.match(/BEGIN:VEVENT/g)?.length, 1);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Recurrence tests
+ * ----------------
+ * Runs with `npm test`. Dates are expanded in the Europe/Oslo time zone, where
+ * summer time starts on 29 March and ends on 25 October 2026.
+ */
+process.env.TZ = "Europe/Oslo";
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { MAX_OCCURRENCES, occurrenceDates } from "../../src/services/recurrence";
+
+const local = (month: number, day: number, hours = 10) =>
+  new Date(2026, month - 1, day, hours, 0);
+
+const wallClock = (dates: Date[]) =>
+  dates.map(
+    (date) =>
+      `${date.getMonth() + 1}/${date.getDate()} ` +
+      `${date.getHours()}:${String(date.getMinutes()).padStart(2, "0")}`
+  );
+
+describe("occurrenceDates", () => {
+  it("keeps weekly occurrences at the same time when summer time starts", () => {
+    const dates = occurrenceDates(local(3, 21), {
+      frequency: "weekly",
+      until: local(4, 4, 0),
+    });
+    assert.deepEqual(wallClock(dates), ["3/21 10:00", "3/28 10:00", "4/4 10:00"]);
+  });
+
+  it("keeps biweekly occurrences at the same time when summer time ends", () => {
+    const dates = occurrenceDates(local(10, 17, 18), {
+      frequency: "biweekly",
+      until: local(11, 14, 0),
+    });
+    assert.deepEqual(wallClock(dates), [
+      "10/17 18:00",
+      "10/31 18:00",
+      "11/14 18:00",
+    ]);
+  });
+
+  it("clamps monthly occurrences to the end of shorter months", () => {
+    const dates = occurrenceDates(local(1, 31), {
+      frequency: "monthly",
+      until: local(4, 30),
+    });
+    assert.deepEqual(wallClock(dates), [
+      "1/31 10:00",
+      "2/28 10:00",
+      "3/31 10:00",
+      "4/30 10:00",
+    ]);
+  });
+
+  it("sorts custom dates and gives them the start's time of day", () => {
+    const dates = occurrenceDates(local(5, 2), {
+      frequency: "custom",
+      dates: [local(6, 6, 0), local(5, 2, 0), local(5, 16, 0)],
+    });
+    assert.deepEqual(wallClock(dates), ["5/2 10:00", "5/16 10:00", "6/6 10:00"]);
+  });
+
+  it("stops at the occurrence limit", () => {
+    const dates = occurrenceDates(local(1, 1), {
+      frequency: "weekly",
+      until: new Date(2030, 0, 1),
+    });
+    assert.equal(dates.length, MAX_OCCURRENCES);
+  });
+});